@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertActivitySchema } from "@shared/schema";
@@ -60,11 +61,56 @@ export default function ActivityDialog({
   });
 
   // Get relationships for this activity
-  const { data: relationships = [] } = useQuery<Relationship[]>({
+  const { data: relationships } = useQuery<{ predecessors: Relationship[]; successors: Relationship[] }>({
     queryKey: ["/api/activities", activityId, "relationships"],
     enabled: !!activityId && open,
   });
 
+  // Driving flags and relationship float are set by the last schedule calculation
+  const renderRelationshipList = (title: string, list: Relationship[], otherEnd: (rel: Relationship) => string) => (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{title}</Label>
+      {list.length === 0 ? (
+        <div className="text-sm text-gray-500">None</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Activity</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Lag</TableHead>
+              <TableHead className="text-right">Free Float</TableHead>
+              <TableHead className="text-right">Total Float</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {list.map(rel => {
+              const other = activities.find(a => a.id === otherEnd(rel));
+              return (
+                <TableRow key={rel.id} data-testid={`row-relationship-${rel.id}`}>
+                  <TableCell className="text-sm">
+                    <span className="font-mono text-xs text-gray-500 mr-2">{other?.activityId ?? "?"}</span>
+                    {other?.name}
+                  </TableCell>
+                  <TableCell className="text-sm">{rel.type}</TableCell>
+                  <TableCell className="text-sm text-right">{rel.lag || 0}{rel.lagUnit === "hours" ? "h" : "d"}</TableCell>
+                  <TableCell className="text-sm text-right">{rel.freeFloat ?? "-"}</TableCell>
+                  <TableCell className={`text-sm text-right ${(rel.totalFloat ?? 0) < 0 ? "text-red-600 font-medium" : ""}`}>
+                    {rel.totalFloat ?? "-"}
+                  </TableCell>
+                  <TableCell>
+                    {rel.isDriving && <Badge variant="outline" className="border-red-300 text-red-700">Driving</Badge>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+
   const form = useForm<InsertActivityForm>({
     resolver: zodResolver(insertActivitySchema.omit({ projectId: true })),
     defaultValues: {
@@ -591,6 +637,13 @@ export default function ActivityDialog({
                       </div>
                     </div>
                   )}
+
+                  {relationships && (
+                    <div className="space-y-4">
+                      {renderRelationshipList("Predecessor Relationships", relationships.predecessors, rel => rel.predecessorId)}
+                      {renderRelationshipList("Successor Relationships", relationships.successors, rel => rel.successorId)}
+                    </div>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="constraints" className="space-y-4 mt-4">
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, RefreshCw, Ban } from "lucide-react";
+
+interface CalendarFeedDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface MemberSummary {
+  id: string;
+  userName: string;
+  role: string;
+  hasCalendarFeed: boolean;
+}
+
+export default function CalendarFeedDialog({ projectId, open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [memberId, setMemberId] = useState<string>("");
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [days, setDays] = useState("21");
+  const [responsibility, setResponsibility] = useState("");
+  const [trade, setTrade] = useState("");
+  const [code, setCode] = useState("");
+
+  const { data: members = [] } = useQuery<MemberSummary[]>({
+    queryKey: ['/api/projects', projectId, 'members'],
+    enabled: open
+  });
+  const member = members.find(m => m.id === memberId);
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/members/${memberId}/calendar-token`);
+      return response.json() as Promise<{ token: string; url: string }>;
+    },
+    onSuccess: result => {
+      setFeedUrl(result.url);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'members'] });
+      toast({ title: "Calendar feed issued", description: "Any earlier link for this member no longer works." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to issue calendar feed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/members/${memberId}/calendar-token`);
+    },
+    onSuccess: () => {
+      setFeedUrl(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'members'] });
+      toast({ title: "Calendar feed revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke calendar feed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Filters ride along on the subscription URL
+  const subscriptionUrl = feedUrl && `${feedUrl}&${new URLSearchParams({
+    days,
+    ...(responsibility && { responsibility }),
+    ...(trade && { trade }),
+    ...(code && { code })
+  })}`;
+
+  const copyUrl = async () => {
+    if (!subscriptionUrl) return;
+    await navigator.clipboard.writeText(subscriptionUrl);
+    toast({ title: "Link copied", description: "Add it to your calendar app as a subscription." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Calendar Feed</DialogTitle>
+          <DialogDescription>
+            Subscribe to milestones, the lookahead and deadlines from Outlook, Google Calendar or Apple Calendar.
+            Each member has a private link that can be revoked at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Member</Label>
+            <Select value={memberId} onValueChange={(value) => { setMemberId(value); setFeedUrl(null); }}>
+              <SelectTrigger data-testid="select-feed-member">
+                <SelectValue placeholder={members.length ? "Select a member" : "No project members"} />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map(m => (
+                  <SelectItem key={m.id} value={m.id}>{m.userName} ({m.role})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed-days">Lookahead (days)</Label>
+              <Input id="feed-days" type="number" min={1} max={365} value={days}
+                onChange={(e) => setDays(e.target.value)} data-testid="input-feed-days" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-code">Activity Code</Label>
+              <Input id="feed-code" placeholder="Area:North" value={code}
+                onChange={(e) => setCode(e.target.value)} data-testid="input-feed-code" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-responsibility">Responsibility</Label>
+              <Input id="feed-responsibility" value={responsibility}
+                onChange={(e) => setResponsibility(e.target.value)} data-testid="input-feed-responsibility" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-trade">Trade</Label>
+              <Input id="feed-trade" value={trade}
+                onChange={(e) => setTrade(e.target.value)} data-testid="input-feed-trade" />
+            </div>
+          </div>
+
+          {member && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{member.userName}</span>
+                <Badge variant={member.hasCalendarFeed ? "default" : "outline"}>
+                  {member.hasCalendarFeed ? "Feed active" : "No feed"}
+                </Badge>
+              </div>
+              {subscriptionUrl ? (
+                <div className="flex gap-2">
+                  <Input readOnly value={subscriptionUrl} className="font-mono text-xs" data-testid="input-feed-url" />
+                  <Button variant="outline" size="icon" onClick={copyUrl} data-testid="button-copy-feed-url">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : member.hasCalendarFeed && (
+                <p className="text-xs text-muted-foreground">
+                  Links are only shown when issued. Regenerate to get a new link; the old one stops working.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => issueMutation.mutate()} disabled={issueMutation.isPending}
+                  data-testid="button-issue-feed">
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  {member.hasCalendarFeed ? "Regenerate Link" : "Create Link"}
+                </Button>
+                {member.hasCalendarFeed && (
+                  <Button size="sm" variant="outline" onClick={() => revokeMutation.mutate()}
+                    disabled={revokeMutation.isPending} data-testid="button-revoke-feed">
+                    <Ban className="w-4 h-4 mr-2" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,606 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { Calendar } from "@shared/schema";
-import { Calendar as CalendarIcon, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Activity, Calendar, CalendarException, CalendarPreviewDay, Resource, WorkDay, WorkingTime
+} from "@shared/schema";
+import {
+  Calendar as CalendarIcon, Plus, Trash2, Save, ChevronLeft, ChevronRight, Download, X, Users
+} from "lucide-react";
 
 interface CalendarManagerProps {
   calendars: Calendar[];
-  projectId: string;
+  projectId?: string | null; // Global calendars when not set
+}
+
+interface CalendarDraft {
+  id: string | null;
+  name: string;
+  type: Calendar["type"];
+  standardWorkweek: WorkDay[];
+  holidays: string[];
+  exceptions: CalendarException[];
+}
+
+interface CalendarPreview {
+  month: string;
+  hoursPerDay: number;
+  days: CalendarPreviewDay[];
+}
+
+interface HolidaySetSummary {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface Holiday {
+  date: string;
+  name: string;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}/g;
+
+function formatTime(minute: number): string {
+  return `${String(Math.floor(minute / 60) % 24).padStart(2, "0")}:${String(Math.round(minute % 60)).padStart(2, "0")}`;
+}
+
+// Same default hours the server schedules with: from 08:00 with a lunch hour after four
+function defaultTimes(hours: number): WorkingTime[] {
+  if (hours <= 0) return [];
+  if (hours <= 4) return [{ start: "08:00", finish: formatTime(480 + hours * 60) }];
+  if (hours <= 15) return [{ start: "08:00", finish: "12:00" }, { start: "13:00", finish: formatTime(780 + (hours - 4) * 60) }];
+  return [{ start: formatTime(Math.max(0, 1440 - hours * 60)), finish: "00:00" }];
+}
+
+// Shifts finishing at or before their start run past midnight
+function shiftHours(times: WorkingTime[]): number {
+  const minutes = (value: string) => Number(value.slice(0, 2)) * 60 + Number(value.slice(3, 5));
+  return times.reduce((total, { start, finish }) => {
+    const length = minutes(finish) - minutes(start);
+    return total + (length > 0 ? length : length + 1440) / 60;
+  }, 0);
+}
+
+const PRESETS: { id: string; name: string; days: number[]; times: WorkingTime[] }[] = [
+  { id: "5x8", name: "5 x 8 hours (Mon-Fri)", days: [1, 2, 3, 4, 5], times: defaultTimes(8) },
+  { id: "4x10", name: "4 x 10 hours (Mon-Thu)", days: [1, 2, 3, 4], times: [{ start: "06:00", finish: "11:00" }, { start: "11:30", finish: "16:30" }] },
+  { id: "6x10", name: "6 x 10 hours (Mon-Sat)", days: [1, 2, 3, 4, 5, 6], times: [{ start: "07:00", finish: "17:00" }] },
+  { id: "night", name: "Night shift 5 x 8 (22:00-06:00)", days: [1, 2, 3, 4, 5], times: [{ start: "22:00", finish: "06:00" }] },
+  { id: "24x7", name: "24 hours, 7 days", days: [0, 1, 2, 3, 4, 5, 6], times: [{ start: "00:00", finish: "00:00" }] }
+];
+
+function presetWeek(presetId: string): WorkDay[] {
+  const preset = PRESETS.find(p => p.id === presetId) ?? PRESETS[0];
+  return DAY_NAMES.map((_, dayOfWeek) => {
+    const isWorking = preset.days.includes(dayOfWeek);
+    const workingTimes = isWorking ? preset.times.map(t => ({ ...t })) : [];
+    return { dayOfWeek, isWorking, hoursPerDay: shiftHours(workingTimes), workingTimes };
+  });
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Editable copy of a stored calendar. Older calendars keep their week as
+ * { monday: { working, hours: [8, 17] } }; the editor always saves the array form.
+ */
+function toDraft(calendar: Calendar): CalendarDraft {
+  const week = presetWeek("5x8");
+  const stored = parseJson<any>(calendar.standardWorkweek);
+  if (Array.isArray(stored)) {
+    stored.forEach(day => {
+      if (typeof day?.dayOfWeek !== "number") return;
+      const workingTimes: WorkingTime[] = day.isWorking
+        ? (day.workingTimes?.length ? day.workingTimes : defaultTimes(day.hoursPerDay ?? 8))
+        : [];
+      week[day.dayOfWeek] = { dayOfWeek: day.dayOfWeek, isWorking: !!day.isWorking, hoursPerDay: shiftHours(workingTimes), workingTimes };
+    });
+  } else if (stored) {
+    DAY_NAMES.forEach((name, dayOfWeek) => {
+      const pattern = stored[name.toLowerCase()];
+      if (!pattern) return;
+      const [from, to] = Array.isArray(pattern.hours) && pattern.hours.length === 2 ? pattern.hours : [8, 16];
+      const workingTimes = pattern.working
+        ? [{ start: formatTime(from * 60), finish: formatTime(to * 60) }]
+        : [];
+      week[dayOfWeek] = { dayOfWeek, isWorking: !!pattern.working, hoursPerDay: shiftHours(workingTimes), workingTimes };
+    });
+  }
+
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    type: calendar.type,
+    standardWorkweek: week,
+    holidays: (parseJson<string[]>(calendar.holidays) || []).slice().sort(),
+    exceptions: (parseJson<CalendarException[]>(calendar.exceptions) || [])
+      .map(ex => ({ ...ex, workingTimes: ex.workingTimes ?? [] }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
+
+function calendarData(draft: CalendarDraft) {
+  return {
+    standardWorkweek: draft.standardWorkweek,
+    holidays: draft.holidays,
+    exceptions: draft.exceptions
+  };
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function ShiftEditor({ times, onChange }: { times: WorkingTime[]; onChange: (times: WorkingTime[]) => void }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {times.map((time, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Input
+            type="time"
+            className="w-28 h-8"
+            value={time.start}
+            onChange={e => onChange(times.map((t, i) => i === index ? { ...t, start: e.target.value } : t))}
+          />
+          <span className="text-gray-500">-</span>
+          <Input
+            type="time"
+            className="w-28 h-8"
+            value={time.finish}
+            onChange={e => onChange(times.map((t, i) => i === index ? { ...t, finish: e.target.value } : t))}
+          />
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange(times.filter((_, i) => i !== index))}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8"
+        onClick={() => onChange([...times, times.length === 0 ? { start: "08:00", finish: "17:00" } : { start: "18:00", finish: "22:00" }])}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Shift
+      </Button>
+    </div>
+  );
+}
+
+function MonthPreview({ draft }: { draft: CalendarDraft }) {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const data = calendarData(draft);
+
+  const { data: preview, isFetching } = useQuery<CalendarPreview>({
+    queryKey: ['/api/calendars/preview', month, JSON.stringify(data)],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/calendars/preview", { month, ...data });
+      return response.json();
+    },
+    retry: false
+  });
+
+  const leadingBlanks = preview?.days.length
+    ? (new Date(`${preview.days[0].date}T00:00:00Z`).getUTCDay() + 6) % 7
+    : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setMonth(shiftMonth(month, -1))} data-testid="button-preview-prev">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-sm font-medium">
+          {new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })}
+          {isFetching && <span className="ml-2 text-xs text-gray-400">updating...</span>}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setMonth(shiftMonth(month, 1))} data-testid="button-preview-next">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEK_ORDER.map(day => (
+          <div key={day} className="font-medium text-gray-500">{DAY_NAMES[day].slice(0, 3)}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+        {preview?.days.map(day => {
+          const color = day.source === "Holiday"
+            ? "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300"
+            : day.source === "Exception"
+              ? "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300"
+              : day.isWorking
+                ? "bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300"
+                : "bg-gray-100 text-gray-400 dark:bg-gray-800";
+          const title = [
+            day.date,
+            day.name,
+            day.isWorking ? day.workingTimes.map(t => `${t.start}-${t.finish}`).join(", ") : "Non-working"
+          ].filter(Boolean).join("\n");
+          return (
+            <div key={day.date} className={`rounded p-1 ${color}`} title={title} data-testid={`preview-day-${day.date}`}>
+              <div className="font-medium">{Number(day.date.slice(8))}</div>
+              <div className="text-[10px]">{day.isWorking ? `${Math.round(day.hours * 10) / 10}h` : "-"}</div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100" /> Working</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-200" /> Non-working</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-200" /> Holiday</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-200" /> Exception</span>
+        {preview && <span>{preview.hoursPerDay}h per day</span>}
+      </div>
+    </div>
+  );
+}
+
+function HolidayImportDialog({
+  open, onOpenChange, onImport
+}: { open: boolean; onOpenChange: (open: boolean) => void; onImport: (dates: string[]) => void }) {
+  const currentYear = new Date().getFullYear();
+  const [setId, setSetId] = useState("us-federal");
+  const [fromYear, setFromYear] = useState(currentYear);
+  const [toYear, setToYear] = useState(currentYear + 2);
+  const [customList, setCustomList] = useState("");
+  const { toast } = useToast();
+
+  const { data: holidaySets = [] } = useQuery<HolidaySetSummary[]>({
+    queryKey: ['/api/holiday-sets']
+  });
+
+  const handleImportSet = async () => {
+    try {
+      const response = await apiRequest("GET", `/api/holiday-sets/${setId}?from=${fromYear}&to=${toYear}`);
+      const holidays: Holiday[] = await response.json();
+      onImport(holidays.map(h => h.date));
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: "Import Failed", description: "Could not load the holiday list.", variant: "destructive" });
+    }
+  };
+
+  const customDates = customList.match(DATE_PATTERN) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>Add a standard holiday set or paste your own list of dates.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Holiday set</Label>
+            <Select value={setId} onValueChange={setSetId}>
+              <SelectTrigger data-testid="select-holiday-set">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {holidaySets.map(set => (
+                  <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{holidaySets.find(s => s.id === setId)?.description}</p>
+            <div className="flex items-center gap-2">
+              <Input type="number" className="w-24" value={fromYear} onChange={e => setFromYear(Number(e.target.value))} />
+              <span className="text-sm text-gray-500">to</span>
+              <Input type="number" className="w-24" value={toYear} onChange={e => setToYear(Number(e.target.value))} />
+              <Button onClick={handleImportSet} disabled={toYear < fromYear} data-testid="button-import-holiday-set">
+                <Download className="w-4 h-4 mr-2" />
+                Import Set
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Custom list</Label>
+            <Textarea
+              rows={5}
+              placeholder={"2025-12-24 Christmas Eve\n2025-12-31 New Year's Eve"}
+              value={customList}
+              onChange={e => setCustomList(e.target.value)}
+              data-testid="textarea-custom-holidays"
+            />
+            <p className="text-xs text-gray-500">Any YYYY-MM-DD dates in the text are imported.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={customDates.length === 0}
+            onClick={() => {
+              onImport(customDates);
+              setCustomList("");
+              onOpenChange(false);
+            }}
+            data-testid="button-import-custom-holidays"
+          >
+            Import {customDates.length} Date{customDates.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CalendarAssignment({ projectId, calendar }: { projectId: string; calendar: Calendar }) {
+  const [filter, setFilter] = useState("");
+  const [selectedActivities, setSelectedActivities] = useState<Set<string>>(new Set());
+  const [selectedResources, setSelectedResources] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: activities = [] } = useQuery<Activity[]>({
+    queryKey: ['/api/projects', projectId, 'activities']
+  });
+  const { data: resources = [] } = useQuery<Resource[]>({
+    queryKey: ['/api/projects', projectId, 'resources']
+  });
+
+  const visibleActivities = activities.filter(a =>
+    !filter || `${a.activityId} ${a.name}`.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/calendars/${calendar.id}/assign`, {
+        activityIds: Array.from(selectedActivities),
+        resourceIds: Array.from(selectedResources)
+      });
+      return response.json() as Promise<{ activities: number; resources: number }>;
+    },
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'activities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'resources'] });
+      setSelectedActivities(new Set());
+      setSelectedResources(new Set());
+      toast({
+        title: "Calendar Assigned",
+        description: `${calendar.name} assigned to ${result.activities} activities and ${result.resources} resources.`
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to assign calendar. Please try again.", variant: "destructive" });
+    }
+  });
+
+  const toggle = (set: Set<string>, id: string, update: (set: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    update(next);
+  };
+
+  const calendarName = (calendarId: string | null) =>
+    calendarId === calendar.id ? <Badge variant="secondary">This calendar</Badge> : <span className="text-xs text-gray-500">{calendarId ? "Other" : "Default"}</span>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Filter activities..."
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          className="max-w-xs"
+          data-testid="input-assign-filter"
+        />
+        <Button variant="outline" size="sm" onClick={() => setSelectedActivities(new Set(visibleActivities.map(a => a.id)))}>
+          Select Shown
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setSelectedActivities(new Set())}>
+          Clear
+        </Button>
+        <div className="flex-1" />
+        <Button
+          onClick={() => assignMutation.mutate()}
+          disabled={assignMutation.isPending || (selectedActivities.size === 0 && selectedResources.size === 0)}
+          data-testid="button-assign-calendar"
+        >
+          <Users className="w-4 h-4 mr-2" />
+          Assign to {selectedActivities.size + selectedResources.size} Selected
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="border rounded max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Activity</TableHead>
+                <TableHead>Calendar</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleActivities.map(activity => (
+                <TableRow key={activity.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedActivities.has(activity.id)}
+                      onCheckedChange={() => toggle(selectedActivities, activity.id, setSelectedActivities)}
+                      data-testid={`checkbox-assign-activity-${activity.activityId}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <span className="font-mono mr-2">{activity.activityId}</span>
+                    {activity.name}
+                  </TableCell>
+                  <TableCell>{calendarName(activity.calendarId)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="border rounded max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Resource</TableHead>
+                <TableHead>Calendar</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {resources.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-sm text-gray-500">No resources in this project</TableCell>
+                </TableRow>
+              )}
+              {resources.map(resource => (
+                <TableRow key={resource.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedResources.has(resource.id)}
+                      onCheckedChange={() => toggle(selectedResources, resource.id, setSelectedResources)}
+                      data-testid={`checkbox-assign-resource-${resource.resourceId}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <span className="font-mono mr-2">{resource.resourceId}</span>
+                    {resource.name}
+                  </TableCell>
+                  <TableCell>{calendarName(resource.calendarId)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
 }
 
 export default function CalendarManager({ calendars, projectId }: CalendarManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(calendars[0]?.id ?? null);
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [newHoliday, setNewHoliday] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const calendarsKey = projectId ? ['/api/projects', projectId, 'calendars'] : ['/api/calendars/global'];
+  const selected = useMemo(() => calendars.find(c => c.id === selectedId) ?? null, [calendars, selectedId]);
+
+  useEffect(() => {
+    if (selected) setDraft(toDraft(selected));
+    else if (draft?.id) setDraft(null);
+  }, [selected]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (calendar: CalendarDraft) => {
+      const body = {
+        name: calendar.name,
+        type: calendar.type,
+        projectId: projectId ?? null,
+        ...calendarData(calendar)
+      };
+      const response = calendar.id
+        ? await apiRequest("PUT", `/api/calendars/${calendar.id}`, body)
+        : await apiRequest("POST", "/api/calendars", body);
+      return response.json() as Promise<Calendar>;
+    },
+    onSuccess: calendar => {
+      queryClient.invalidateQueries({ queryKey: calendarsKey });
+      setSelectedId(calendar.id);
+      toast({ title: "Calendar Saved", description: `${calendar.name} has been saved.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save calendar.", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (calendarId: string) => {
+      await apiRequest("DELETE", `/api/calendars/${calendarId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: calendarsKey });
+      setSelectedId(null);
+      setDraft(null);
+      toast({ title: "Calendar Deleted", description: "The calendar has been removed." });
+    }
+  });
+
+  const handleNewCalendar = () => {
+    setSelectedId(null);
+    setDraft({
+      id: null,
+      name: "New Calendar",
+      type: projectId ? "Project" : "Global",
+      standardWorkweek: presetWeek("5x8"),
+      holidays: [],
+      exceptions: []
+    });
+  };
+
+  const update = (changes: Partial<CalendarDraft>) => setDraft(current => current && { ...current, ...changes });
+
+  const updateDay = (dayOfWeek: number, changes: Partial<WorkDay>) => {
+    if (!draft) return;
+    update({
+      standardWorkweek: draft.standardWorkweek.map(day => {
+        if (day.dayOfWeek !== dayOfWeek) return day;
+        const next = { ...day, ...changes };
+        if (changes.isWorking && next.workingTimes.length === 0) next.workingTimes = defaultTimes(8);
+        if (changes.isWorking === false) next.workingTimes = [];
+        return { ...next, hoursPerDay: shiftHours(next.workingTimes) };
+      })
+    });
+  };
+
+  const addHolidays = (dates: string[]) => {
+    if (!draft) return;
+    const holidays = Array.from(new Set([...draft.holidays, ...dates])).sort();
+    toast({ title: "Holidays Added", description: `${holidays.length - draft.holidays.length} new holiday(s).` });
+    update({ holidays });
+  };
+
+  const updateException = (index: number, changes: Partial<CalendarException>) => {
+    if (!draft) return;
+    update({
+      exceptions: draft.exceptions.map((ex, i) => {
+        if (i !== index) return ex;
+        const next = { ...ex, ...changes };
+        if (changes.workingTimes) next.hoursPerDay = shiftHours(changes.workingTimes);
+        if (changes.isWorking === false) {
+          next.workingTimes = [];
+          next.hoursPerDay = 0;
+        }
+        return next;
+      })
+    });
+  };
+
+  const weeklyHours = (calendar: Calendar) =>
+    toDraft(calendar).standardWorkweek.reduce((total, day) => total + (day.isWorking ? day.hoursPerDay : 0), 0);
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -16,30 +608,276 @@ export default function CalendarManager({ calendars, projectId }: CalendarManage
           <div className="flex items-center space-x-2">
             <CalendarIcon className="w-5 h-5" />
             <span>Work Calendars</span>
+            <Badge variant="outline">{calendars.length}</Badge>
           </div>
-          <Button size="sm" data-testid="button-new-calendar">
+          <Button size="sm" onClick={handleNewCalendar} data-testid="button-new-calendar">
             <Plus className="w-4 h-4 mr-2" />
             New Calendar
           </Button>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="text-center text-gray-500 py-12">
-          <CalendarIcon className="w-16 h-16 mx-auto mb-4 opacity-50" />
-          <h3 className="text-lg font-medium mb-2">Calendar Management</h3>
-          <p className="text-sm mb-4">Work calendar configuration coming soon</p>
-          <div className="text-sm text-left max-w-md mx-auto space-y-2">
-            <p>Features will include:</p>
-            <ul className="list-disc pl-4 space-y-1">
-              <li>Custom work schedules</li>
-              <li>Holiday and exception management</li>
-              <li>Multiple calendar assignments</li>
-              <li>Resource-specific calendars</li>
-              <li>Shift and non-working time</li>
-            </ul>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            {calendars.length === 0 && !draft && (
+              <div className="text-sm text-gray-500 py-6 text-center">
+                No calendars yet. Activities use the standard 5-day, 8-hour week.
+              </div>
+            )}
+            {calendars.map(calendar => (
+              <button
+                key={calendar.id}
+                className={`w-full text-left rounded border px-3 py-2 text-sm ${selectedId === calendar.id ? "border-blue-500 bg-blue-50 dark:bg-blue-950" : "hover:bg-gray-50 dark:hover:bg-gray-800"}`}
+                onClick={() => setSelectedId(calendar.id)}
+                data-testid={`button-calendar-${calendar.id}`}
+              >
+                <div className="font-medium">{calendar.name}</div>
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="secondary" className="text-[10px]">{calendar.type}</Badge>
+                  {weeklyHours(calendar)}h / week
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-3">
+            {!draft ? (
+              <div className="text-center text-gray-500 py-12">
+                <CalendarIcon className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                <p className="text-sm">Select a calendar to edit it, or create a new one.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1 flex-1 min-w-48">
+                    <Label htmlFor="calendar-name">Name</Label>
+                    <Input
+                      id="calendar-name"
+                      value={draft.name}
+                      onChange={e => update({ name: e.target.value })}
+                      data-testid="input-calendar-name"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select value={draft.type} onValueChange={value => update({ type: value as Calendar["type"] })}>
+                      <SelectTrigger className="w-36" data-testid="select-calendar-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(["Global", "Project", "Resource", "Activity"] as const).map(type => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    onClick={() => saveMutation.mutate(draft)}
+                    disabled={saveMutation.isPending || !draft.name.trim()}
+                    data-testid="button-save-calendar"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    Save
+                  </Button>
+                  {draft.id && (
+                    <Button
+                      variant="outline"
+                      onClick={() => draft.id && deleteMutation.mutate(draft.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-calendar"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+                  <div className="xl:col-span-2">
+                    <Tabs defaultValue="week">
+                      <TabsList>
+                        <TabsTrigger value="week">Work Week</TabsTrigger>
+                        <TabsTrigger value="holidays">Holidays ({draft.holidays.length})</TabsTrigger>
+                        <TabsTrigger value="exceptions">Exceptions ({draft.exceptions.length})</TabsTrigger>
+                        {projectId && selected && <TabsTrigger value="assign">Assign</TabsTrigger>}
+                      </TabsList>
+
+                      <TabsContent value="week" className="space-y-3">
+                        <div className="flex items-center gap-2">
+                          <Label className="text-sm">Pattern</Label>
+                          <Select onValueChange={presetId => update({ standardWorkweek: presetWeek(presetId) })}>
+                            <SelectTrigger className="w-64" data-testid="select-week-preset">
+                              <SelectValue placeholder="Apply a shift pattern..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PRESETS.map(preset => (
+                                <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-28">Day</TableHead>
+                              <TableHead className="w-20">Working</TableHead>
+                              <TableHead>Work hours</TableHead>
+                              <TableHead className="w-16 text-right">Hours</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {WEEK_ORDER.map(dayOfWeek => {
+                              const day = draft.standardWorkweek[dayOfWeek];
+                              return (
+                                <TableRow key={dayOfWeek}>
+                                  <TableCell className="font-medium">{DAY_NAMES[dayOfWeek]}</TableCell>
+                                  <TableCell>
+                                    <Switch
+                                      checked={day.isWorking}
+                                      onCheckedChange={isWorking => updateDay(dayOfWeek, { isWorking })}
+                                      data-testid={`switch-working-${dayOfWeek}`}
+                                    />
+                                  </TableCell>
+                                  <TableCell>
+                                    {day.isWorking
+                                      ? <ShiftEditor times={day.workingTimes} onChange={workingTimes => updateDay(dayOfWeek, { workingTimes })} />
+                                      : <span className="text-sm text-gray-400">Non-working</span>}
+                                  </TableCell>
+                                  <TableCell className="text-right font-mono">{day.isWorking ? day.hoursPerDay : 0}</TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                        <p className="text-xs text-gray-500">
+                          A shift finishing at or before its start runs past midnight and counts toward the day it starts.
+                        </p>
+                      </TabsContent>
+
+                      <TabsContent value="holidays" className="space-y-3">
+                        <div className="flex items-center gap-2">
+                          <Input type="date" className="w-44" value={newHoliday} onChange={e => setNewHoliday(e.target.value)} data-testid="input-new-holiday" />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!newHoliday}
+                            onClick={() => {
+                              addHolidays([newHoliday]);
+                              setNewHoliday("");
+                            }}
+                            data-testid="button-add-holiday"
+                          >
+                            <Plus className="w-4 h-4 mr-1" />
+                            Add
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} data-testid="button-import-holidays">
+                            <Download className="w-4 h-4 mr-1" />
+                            Import...
+                          </Button>
+                          {draft.holidays.length > 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => update({ holidays: [] })}>
+                              Clear All
+                            </Button>
+                          )}
+                        </div>
+                        {draft.holidays.length === 0 ? (
+                          <div className="text-sm text-gray-500">No holidays.</div>
+                        ) : (
+                          <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto">
+                            {draft.holidays.map(date => (
+                              <Badge key={date} variant="outline" className="font-mono">
+                                {date}
+                                <button className="ml-1" onClick={() => update({ holidays: draft.holidays.filter(h => h !== date) })}>
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <HolidayImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} onImport={addHolidays} />
+                      </TabsContent>
+
+                      <TabsContent value="exceptions" className="space-y-3">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => update({
+                            exceptions: [
+                              ...draft.exceptions,
+                              { date: new Date().toISOString().split("T")[0], isWorking: true, hoursPerDay: 8, workingTimes: defaultTimes(8), name: "" }
+                            ]
+                          })}
+                          data-testid="button-add-exception"
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add Exception
+                        </Button>
+                        {draft.exceptions.length === 0 ? (
+                          <div className="text-sm text-gray-500">No exceptions. Use them for extra working days, shortened days or shutdowns.</div>
+                        ) : (
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead className="w-40">Date</TableHead>
+                                <TableHead>Description</TableHead>
+                                <TableHead className="w-20">Working</TableHead>
+                                <TableHead>Work hours</TableHead>
+                                <TableHead className="w-8" />
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {draft.exceptions.map((ex, index) => (
+                                <TableRow key={index}>
+                                  <TableCell>
+                                    <Input type="date" className="h-8" value={ex.date} onChange={e => updateException(index, { date: e.target.value })} />
+                                  </TableCell>
+                                  <TableCell>
+                                    <Input className="h-8" value={ex.name ?? ""} onChange={e => updateException(index, { name: e.target.value })} />
+                                  </TableCell>
+                                  <TableCell>
+                                    <Switch
+                                      checked={ex.isWorking}
+                                      onCheckedChange={isWorking => updateException(index, isWorking ? { isWorking, workingTimes: defaultTimes(8) } : { isWorking })}
+                                    />
+                                  </TableCell>
+                                  <TableCell>
+                                    {ex.isWorking
+                                      ? <ShiftEditor times={ex.workingTimes} onChange={workingTimes => updateException(index, { workingTimes })} />
+                                      : <span className="text-sm text-gray-400">Non-working</span>}
+                                  </TableCell>
+                                  <TableCell>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 w-8 p-0"
+                                      onClick={() => update({ exceptions: draft.exceptions.filter((_, i) => i !== index) })}
+                                    >
+                                      <Trash2 className="w-3 h-3" />
+                                    </Button>
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        )}
+                      </TabsContent>
+
+                      {projectId && selected && (
+                        <TabsContent value="assign">
+                          <CalendarAssignment projectId={projectId} calendar={selected} />
+                        </TabsContent>
+                      )}
+                    </Tabs>
+                  </div>
+
+                  <div>
+                    <MonthPreview draft={draft} />
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -1,33 +1,105 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { Activity } from "@shared/schema";
-import { Target, Settings } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Activity, ConstraintBulkUpdate, ConstraintViolation } from "@shared/schema";
+import { Target, AlertTriangle, CheckCircle2, Flag, Eraser } from "lucide-react";
 
 interface ConstraintManagerProps {
   activities: Activity[];
   projectId: string;
 }
 
+const CONSTRAINT_TYPES = [
+  { value: "SNET", label: "Start No Earlier Than" },
+  { value: "SNLT", label: "Start No Later Than" },
+  { value: "FNET", label: "Finish No Earlier Than" },
+  { value: "FNLT", label: "Finish No Later Than" },
+  { value: "MSO", label: "Must Start On" },
+  { value: "MFO", label: "Must Finish On" }
+] as const;
+
+type ConstraintType = typeof CONSTRAINT_TYPES[number]["value"];
+
 export default function ConstraintManager({ activities, projectId }: ConstraintManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [constrainedOnly, setConstrainedOnly] = useState(false);
+  const [constraintType, setConstraintType] = useState<ConstraintType>("SNET");
+  const [constraintDate, setConstraintDate] = useState("");
+  const [deadline, setDeadline] = useState("");
+
   const constrainedActivities = activities.filter(a => a.constraintType && a.constraintDate);
-  
+  const rows = useMemo(() => activities
+    .filter(a => a.type !== "WBSSummary")
+    .filter(a => !constrainedOnly || a.constraintType || a.deadline)
+    .sort((a, b) => a.activityId.localeCompare(b.activityId)), [activities, constrainedOnly]);
+
+  const { data: violations = [], error: violationsError } = useQuery<ConstraintViolation[]>({
+    queryKey: ['/api/projects', projectId, 'constraint-violations'],
+    retry: false
+  });
+
+  // Dates change with every calculation, so check the constraints again
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'constraint-violations'] });
+  }, [projectId, activities]);
+
+  const violationById = useMemo(() => new Map(violations.map(v => [v.id, v])), [violations]);
+
+  const bulkMutation = useMutation({
+    mutationFn: async (update: Omit<ConstraintBulkUpdate, "activityIds">) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/constraints/bulk`, {
+        activityIds: Array.from(selected),
+        ...update
+      });
+      return response.json() as Promise<{ activities: number }>;
+    },
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'activities'] });
+      setSelected(new Set());
+      toast({ title: "Constraints updated", description: `${result.activities} activities changed. Recalculate to update dates.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update constraints", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      checked ? next.add(id) : next.delete(id);
+      return next;
+    });
+  };
+
+  const allSelected = rows.length > 0 && rows.every(a => selected.has(a.id));
+
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle className="flex items-center justify-between">
-          <div className="flex items-center space-x-2">
-            <Target className="w-5 h-5" />
-            <span>Constraint Management</span>
-          </div>
-          <Button size="sm" data-testid="button-manage-constraints">
-            <Settings className="w-4 h-4 mr-2" />
-            Manage
-          </Button>
+        <CardTitle className="flex items-center space-x-2">
+          <Target className="w-5 h-5" />
+          <span>Constraint Management</span>
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div className="text-center p-4 bg-orange-50 dark:bg-orange-950 rounded-lg">
               <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
                 {constrainedActivities.length}
@@ -44,25 +116,152 @@ export default function ConstraintManager({ activities, projectId }: ConstraintM
                 With Deadlines
               </div>
             </div>
+            <div className="text-center p-4 bg-red-50 dark:bg-red-950 rounded-lg">
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">
+                {violations.length}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Violations
+              </div>
+            </div>
           </div>
-          
-          <div className="text-center text-gray-500 py-8">
-            <Target className="w-12 h-12 mx-auto mb-2 opacity-50" />
-            <h4 className="font-medium mb-2">Constraint Details</h4>
-            <p className="text-sm">Advanced constraint management coming soon</p>
-            <div className="text-xs text-left max-w-sm mx-auto mt-4 space-y-1">
-              <p>Features will include:</p>
-              <ul className="list-disc pl-4 space-y-1">
-                <li>SNET/FNLT enforcement</li>
-                <li>Must Start/Finish On dates</li>
-                <li>Deadline tracking</li>
-                <li>Constraint violation alerts</li>
-                <li>Schedule optimization</li>
-              </ul>
+
+          {/* Violations */}
+          {violationsError ? (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Constraints not checked</AlertTitle>
+              <AlertDescription>{(violationsError as Error).message}</AlertDescription>
+            </Alert>
+          ) : violations.length > 0 ? (
+            <Alert variant="destructive" data-testid="alert-constraint-violations">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{violations.length} constraint {violations.length === 1 ? "violation" : "violations"}</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {violations.map(v => (
+                    <li key={v.id}>
+                      <span className="font-mono">{v.activityId}</span> {v.name}: {v.message}
+                      {v.totalFloat !== null && v.totalFloat < 0 && ` (total float ${v.totalFloat})`}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle2 className="w-4 h-4" />
+              All constraints and deadlines are met
+            </div>
+          )}
+
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-end gap-3 p-3 border rounded-lg">
+            <div className="space-y-1">
+              <Label className="text-xs">Constraint</Label>
+              <Select value={constraintType} onValueChange={(value) => setConstraintType(value as ConstraintType)}>
+                <SelectTrigger className="w-52" data-testid="select-bulk-constraint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONSTRAINT_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.value} - {type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Date</Label>
+              <Input type="date" className="w-40" value={constraintDate}
+                onChange={(e) => setConstraintDate(e.target.value)} data-testid="input-bulk-constraint-date" />
+            </div>
+            <Button size="sm" disabled={selected.size === 0 || !constraintDate || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ constraintType, constraintDate })} data-testid="button-apply-constraint">
+              Apply
+            </Button>
+            <Button size="sm" variant="outline" disabled={selected.size === 0 || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ constraintType: null })} data-testid="button-clear-constraint">
+              <Eraser className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+
+            <div className="space-y-1 ml-auto">
+              <Label className="text-xs">Deadline</Label>
+              <Input type="date" className="w-40" value={deadline}
+                onChange={(e) => setDeadline(e.target.value)} data-testid="input-bulk-deadline" />
             </div>
+            <Button size="sm" disabled={selected.size === 0 || !deadline || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ deadline })} data-testid="button-apply-deadline">
+              <Flag className="w-4 h-4 mr-2" />
+              Set
+            </Button>
+            <Button size="sm" variant="outline" disabled={selected.size === 0 || bulkMutation.isPending}
+              onClick={() => bulkMutation.mutate({ deadline: null })} data-testid="button-clear-deadline">
+              Clear
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{selected.size} selected</span>
+            <div className="flex items-center gap-2">
+              <Checkbox id="constrained-only" checked={constrainedOnly}
+                onCheckedChange={(checked) => setConstrainedOnly(checked === true)} />
+              <Label htmlFor="constrained-only">Only constrained or with deadlines</Label>
+            </div>
+          </div>
+
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox checked={allSelected}
+                      onCheckedChange={(checked) => setSelected(checked === true ? new Set(rows.map(a => a.id)) : new Set())} />
+                  </TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Constraint</TableHead>
+                  <TableHead>Deadline</TableHead>
+                  <TableHead>Early Finish</TableHead>
+                  <TableHead className="text-right">Total Float</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(activity => {
+                  const violation = violationById.get(activity.id);
+                  return (
+                    <TableRow key={activity.id} className={violation ? "bg-red-50 dark:bg-red-950" : ""}
+                      data-testid={`row-constraint-${activity.activityId}`}>
+                      <TableCell>
+                        <Checkbox checked={selected.has(activity.id)}
+                          onCheckedChange={(checked) => toggle(activity.id, checked === true)} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-xs">{activity.activityId}</div>
+                        <div className="text-sm">{activity.name}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {activity.constraintType
+                          ? <Badge variant="outline">{activity.constraintType} {activity.constraintDate?.slice(0, 10)}</Badge>
+                          : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {activity.deadline?.slice(0, 10) ?? <span className="text-muted-foreground">-</span>}
+                        {violation?.deadlineVariance !== null && violation?.deadlineVariance !== undefined && violation.deadlineVariance < 0 && (
+                          <Badge variant="destructive" className="ml-2">{violation.deadlineVariance}d</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{activity.earlyFinish?.slice(0, 10) ?? "-"}</TableCell>
+                      <TableCell className={`text-sm text-right ${(activity.totalFloat ?? 0) < 0 ? "text-red-600 font-medium" : ""}`}>
+                        {activity.totalFloat ?? "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
           </div>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
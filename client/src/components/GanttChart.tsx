@@ -2,9 +2,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
-import type { Activity, Relationship, Wbs } from "@shared/schema";
-import { BarChart3, Calendar, AlertCircle, Link2, ArrowRight } from "lucide-react";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { Activity, Relationship, Wbs, PathAnalysis } from "@shared/schema";
+import { BarChart3, Calendar, AlertCircle, Link2, ArrowRight, Route } from "lucide-react";
 import { useState, useMemo, useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { format, parseISO, differenceInDays, addDays, startOfMonth, endOfMonth, eachDayOfInterval, isWeekend } from "date-fns";
 
 interface GanttChartProps {
@@ -12,20 +17,53 @@ interface GanttChartProps {
   relationships: Relationship[];
   wbs: Wbs[];
   onActivitySelect: (activityId: string) => void;
+  projectId?: string; // Enables float path analysis
 }
 
+// Bar colors for float paths 1, 2, 3, ...
+const PATH_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#db2777', '#4b5563', '#854d0e'];
+
 export default function GanttChart({ 
   activities, 
   relationships, 
   wbs, 
-  onActivitySelect 
+  onActivitySelect,
+  projectId
 }: GanttChartProps) {
+  const queryClient = useQueryClient();
   const [hoveredActivity, setHoveredActivity] = useState<string | null>(null);
   const [selectedActivity, setSelectedActivity] = useState<string | null>(null);
   const [showRelationships, setShowRelationships] = useState(true);
+  const [showPaths, setShowPaths] = useState(false);
+  const [pathTarget, setPathTarget] = useState(""); // Empty for the project finish
+  const [pathFilter, setPathFilter] = useState("all");
   const svgRef = useRef<SVGSVGElement>(null);
   const dayWidth = 32;
   const rowHeight = 42;
+
+  const { data: pathAnalysis } = useQuery<PathAnalysis>({
+    queryKey: ['/api/projects', projectId, 'paths', pathTarget],
+    queryFn: async () => {
+      const target = pathTarget ? `&target=${encodeURIComponent(pathTarget)}` : "";
+      const response = await apiRequest("GET", `/api/projects/${projectId}/paths?count=${PATH_COLORS.length}${target}`);
+      return response.json();
+    },
+    enabled: showPaths && !!projectId,
+    retry: false
+  });
+
+  // Paths follow the calculated dates, so trace them again when activities change
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'paths'] });
+  }, [projectId, activities]);
+
+  const pathByActivity = useMemo(() => {
+    const map = new Map<string, number>();
+    if (showPaths) {
+      pathAnalysis?.paths.forEach(path => path.activityIds.forEach(id => map.set(id, path.pathNumber)));
+    }
+    return map;
+  }, [pathAnalysis, showPaths]);
   
   // Calculate date range
   const { projectStart, projectEnd, totalDays } = useMemo(() => {
@@ -120,7 +158,16 @@ export default function GanttChart({
   
   // Sort activities by start date and create index map
   const { sortedActivities, activityIndexMap } = useMemo(() => {
-    const sorted = [...activities].sort((a, b) => {
+    const visible = showPaths && pathFilter !== "all"
+      ? activities.filter(a => pathByActivity.get(a.id) === Number(pathFilter))
+      : activities;
+    const sorted = [...visible].sort((a, b) => {
+      // Grouped by float path, activities off the paths last
+      if (showPaths) {
+        const pathA = pathByActivity.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+        const pathB = pathByActivity.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+        if (pathA !== pathB) return pathA - pathB;
+      }
       // Critical activities first
       if (a.isCritical !== b.isCritical) {
         return a.isCritical ? -1 : 1;
@@ -135,7 +182,7 @@ export default function GanttChart({
     });
     
     return { sortedActivities: sorted, activityIndexMap: indexMap };
-  }, [activities]);
+  }, [activities, showPaths, pathFilter, pathByActivity]);
   
   // Calculate activity positions
   const getActivityPosition = (activity: Activity) => {
@@ -161,6 +208,9 @@ export default function GanttChart({
     
     if (selectedActivity === activity.id) {
       backgroundColor = '#f59e0b'; // Amber when selected
+    } else if (showPaths) {
+      const pathNumber = pathByActivity.get(activity.id);
+      backgroundColor = pathNumber ? PATH_COLORS[(pathNumber - 1) % PATH_COLORS.length] : '#d1d5db';
     } else if (activity.isCritical) {
       backgroundColor = '#dc2626'; // Red
     } else if (activity.status === 'Completed') {
@@ -240,9 +290,10 @@ export default function GanttChart({
         x2 += rel.lag * dayWidth;
       }
       
-      // Create path - use straight lines with right angles for clarity
+      // Create path - use straight lines with right angles for clarity.
+      // Driving links are drawn solid and non-driving ones dashed
       let path = '';
-      const isCritical = predecessor.isCritical && successor.isCritical;
+      const isCritical = predecessor.isCritical && successor.isCritical && rel.isDriving !== false;
       const color = isCritical ? '#dc2626' : '#6b7280';
       
       if (Math.abs(y2 - y1) < 5) {
@@ -262,7 +313,7 @@ export default function GanttChart({
             stroke={color}
             strokeWidth="2"
             fill="none"
-            strokeDasharray={rel.type !== 'FS' ? '4,4' : undefined}
+            strokeDasharray={rel.isDriving ? undefined : '4,4'}
             opacity={hoveredActivity && hoveredActivity !== rel.predecessorId && hoveredActivity !== rel.successorId ? 0.3 : 1}
           />
           {/* Arrow head */}
@@ -307,21 +358,73 @@ export default function GanttChart({
                 <Link2 className="w-4 h-4 mr-1" />
                 {showRelationships ? 'Hide' : 'Show'} Links
               </Button>
-              <div className="flex items-center gap-3 text-sm font-normal">
-                <div className="flex items-center gap-1">
-                  <div className="w-3 h-3 bg-red-600 rounded" />
-                  <span>Critical</span>
+              {projectId && (
+                <Button
+                  variant={showPaths ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setShowPaths(!showPaths)}
+                  className="text-xs"
+                  data-testid="button-toggle-float-paths"
+                >
+                  <Route className="w-4 h-4 mr-1" />
+                  Float Paths
+                </Button>
+              )}
+              {showPaths && (
+                <>
+                  <Select value={pathTarget || "finish"} onValueChange={(value) => setPathTarget(value === "finish" ? "" : value)}>
+                    <SelectTrigger className="h-8 w-48 text-xs" data-testid="select-path-target">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="finish">To project finish</SelectItem>
+                      {activities.map(activity => (
+                        <SelectItem key={activity.id} value={activity.id}>To {activity.activityId} - {activity.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={pathFilter} onValueChange={setPathFilter}>
+                    <SelectTrigger className="h-8 w-40 text-xs" data-testid="select-path-filter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All paths</SelectItem>
+                      {pathAnalysis?.paths.map(path => (
+                        <SelectItem key={path.pathNumber} value={String(path.pathNumber)}>
+                          Path {path.pathNumber} ({path.relativeFloat}d float)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+              {showPaths ? (
+                <div className="flex items-center gap-3 text-sm font-normal">
+                  {pathAnalysis?.paths.slice(0, 5).map(path => (
+                    <div key={path.pathNumber} className="flex items-center gap-1">
+                      <div className="w-3 h-3 rounded" style={{ backgroundColor: PATH_COLORS[(path.pathNumber - 1) % PATH_COLORS.length] }} />
+                      <span>{path.pathNumber}</span>
+                    </div>
+                  ))}
+                  <span className="text-gray-500 ml-2">{sortedActivities.length} activities</span>
                 </div>
-                <div className="flex items-center gap-1">
-                  <div className="w-3 h-3 bg-blue-600 rounded" />
-                  <span>In Progress</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <div className="w-3 h-3 bg-green-600 rounded" />
-                  <span>Complete</span>
+              ) : (
+                <div className="flex items-center gap-3 text-sm font-normal">
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 bg-red-600 rounded" />
+                    <span>Critical</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 bg-blue-600 rounded" />
+                    <span>In Progress</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 bg-green-600 rounded" />
+                    <span>Complete</span>
+                  </div>
+                  <span className="text-gray-500 ml-2">{activities.length} activities</span>
                 </div>
-                <span className="text-gray-500 ml-2">{activities.length} activities</span>
-              </div>
+              )}
             </div>
           </CardTitle>
         </CardHeader>
@@ -401,6 +504,7 @@ export default function GanttChart({
                                     {predecessors.map((p: any) => (
                                       <div key={p.id}>
                                         {p.activity.activityId}: {p.activity.name} ({p.type}{p.lag ? ` ${p.lag}d` : ''})
+                                        {p.isDriving ? ' - driving' : p.freeFloat !== null && p.freeFloat !== undefined ? ` - ${p.freeFloat}d free float` : ''}
                                       </div>
                                     ))}
                                   </div>
@@ -421,6 +525,7 @@ export default function GanttChart({
                                     {successors.map((s: any) => (
                                       <div key={s.id}>
                                         {s.activity.activityId}: {s.activity.name} ({s.type}{s.lag ? ` ${s.lag}d` : ''})
+                                        {s.isDriving ? ' - driving' : s.freeFloat !== null && s.freeFloat !== undefined ? ` - ${s.freeFloat}d free float` : ''}
                                       </div>
                                     ))}
                                   </div>
@@ -583,6 +688,9 @@ export default function GanttChart({
                                 {activity.isCritical && (
                                   <div className="text-red-600 font-medium">Critical Path Activity</div>
                                 )}
+                                {pathByActivity.has(activity.id) && (
+                                  <div>Float path {pathByActivity.get(activity.id)}</div>
+                                )}
                               </div>
                             </div>
                           </TooltipContent>
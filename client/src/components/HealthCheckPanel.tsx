@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { CheckCircle, XCircle, MinusCircle, ShieldCheck, RefreshCw } from "lucide-react";
+
+interface HealthCheckPanelProps {
+  projectId: string;
+  onActivitySelect?: (activityId: string) => void;
+}
+
+interface HealthCheckOffender {
+  id: string;
+  activityId: string;
+  name: string;
+  detail: string;
+}
+
+interface HealthCheckMetric {
+  number: number;
+  key: string;
+  name: string;
+  description: string;
+  threshold: string;
+  unit: "percent" | "count" | "index" | "test";
+  value: number | null;
+  count: number;
+  total: number;
+  status: "Pass" | "Fail" | "NotApplicable";
+  activities: HealthCheckOffender[];
+}
+
+interface HealthCheckResult {
+  dataDate: string;
+  baselineId: string | null;
+  baselineName: string | null;
+  incompleteActivities: number;
+  relationships: number;
+  passed: number;
+  failed: number;
+  metrics: HealthCheckMetric[];
+}
+
+function formatValue(metric: HealthCheckMetric): string {
+  if (metric.value === null) return "N/A";
+  switch (metric.unit) {
+    case "percent": return `${metric.value}%`;
+    case "index": return metric.value.toFixed(2);
+    case "test": return metric.value ? "Pass" : "Fail";
+    default: return String(metric.value);
+  }
+}
+
+function StatusBadge({ status }: { status: HealthCheckMetric["status"] }) {
+  if (status === "Pass") {
+    return (
+      <Badge variant="outline" className="text-green-700 border-green-300 bg-green-50 dark:bg-green-950 dark:text-green-400">
+        <CheckCircle className="w-3 h-3 mr-1" />
+        Pass
+      </Badge>
+    );
+  }
+  if (status === "Fail") {
+    return (
+      <Badge variant="destructive">
+        <XCircle className="w-3 h-3 mr-1" />
+        Fail
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary">
+      <MinusCircle className="w-3 h-3 mr-1" />
+      N/A
+    </Badge>
+  );
+}
+
+export default function HealthCheckPanel({ projectId, onActivitySelect }: HealthCheckPanelProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const { data: result, isLoading, refetch, isFetching } = useQuery<HealthCheckResult>({
+    queryKey: ['/api/projects', projectId, 'health-check'],
+    staleTime: 0
+  });
+
+  if (isLoading || !result) {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selected = result.metrics.find(m => m.key === selectedKey) ?? null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Schedule Health Check (DCMA 14-Point)
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="button-rerun-health-check">
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Re-run
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Passed</div>
+              <div className="text-2xl font-bold text-green-600" data-testid="text-health-passed">{result.passed} / {result.metrics.length}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Failed</div>
+              <div className="text-2xl font-bold text-red-600" data-testid="text-health-failed">{result.failed}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Incomplete Activities</div>
+              <div className="text-2xl font-bold">{result.incompleteActivities}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Data Date</div>
+              <div className="text-2xl font-bold">{result.dataDate}</div>
+              <div className="text-xs text-gray-500">{result.baselineName ? `Baseline: ${result.baselineName}` : "No active baseline"}</div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>Check</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead className="text-right">Threshold</TableHead>
+                <TableHead className="text-right">Activities</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.metrics.map(metric => (
+                <TableRow
+                  key={metric.key}
+                  className={`cursor-pointer ${selectedKey === metric.key ? "bg-gray-100 dark:bg-gray-800" : ""}`}
+                  onClick={() => setSelectedKey(selectedKey === metric.key ? null : metric.key)}
+                  data-testid={`row-health-${metric.key}`}
+                >
+                  <TableCell>{metric.number}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{metric.name}</div>
+                    <div className="text-xs text-gray-500">{metric.description}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatValue(metric)}</TableCell>
+                  <TableCell className="text-right font-mono">{metric.threshold}</TableCell>
+                  <TableCell className="text-right">{metric.activities.length > 0 ? `${metric.count} of ${metric.total}` : "-"}</TableCell>
+                  <TableCell><StatusBadge status={metric.status} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {selected.number}. {selected.name} - {selected.activities.length} {selected.activities.length === 1 ? "activity" : "activities"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selected.activities.length === 0 ? (
+              <div className="text-sm text-gray-500">No offending activities.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Activity ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Issue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.activities.map((offender, index) => (
+                    <TableRow
+                      key={`${offender.id}-${index}`}
+                      className={onActivitySelect ? "cursor-pointer" : ""}
+                      onClick={() => onActivitySelect?.(offender.id)}
+                      data-testid={`row-health-offender-${offender.activityId}`}
+                    >
+                      <TableCell className="font-mono">{offender.activityId}</TableCell>
+                      <TableCell>{offender.name}</TableCell>
+                      <TableCell className="text-sm text-gray-600 dark:text-gray-400">{offender.detail}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import type { Project, Activity } from "@shared/schema";
+import ProgressUpdateDialog from "@/components/ProgressUpdateDialog";
+import type { Project, Activity, ScheduleUpdate, ProgressData, ScheduleUpdateChanges } from "@shared/schema";
 import { Clock, TrendingUp, AlertTriangle, Calendar } from "lucide-react";
 
 interface ProgressTrackerProps {
@@ -11,7 +14,24 @@ interface ProgressTrackerProps {
   projectId: string;
 }
 
+const METHOD_LABELS: Record<ProgressData["progressMethod"], { label: string; description: string }> = {
+  RetainedLogic: { label: "Retained Logic", description: "Out-of-sequence activities retain original logic" },
+  ProgressOverride: { label: "Progress Override", description: "Started activities ignore their predecessors" },
+  ActualDates: { label: "Actual Dates", description: "Actuals after the data date drive the remaining work" }
+};
+
 export default function ProgressTracker({ project, activities, projectId }: ProgressTrackerProps) {
+  const [updateOpen, setUpdateOpen] = useState(false);
+  const { data: updates = [] } = useQuery<ScheduleUpdate[]>({
+    queryKey: ['/api/projects', projectId, 'schedule-updates']
+  });
+  const latestUpdate = updates.reduce<ScheduleUpdate | null>(
+    (latest, u) => !latest || u.updateNumber > latest.updateNumber ? u : latest, null
+  );
+  const latestProgress = latestUpdate?.progressData as ProgressData | null | undefined;
+  const latestChanges = latestUpdate?.changesFromPrevious as ScheduleUpdateChanges | null | undefined;
+  const method = METHOD_LABELS[latestProgress?.progressMethod ?? "RetainedLogic"];
+
   const totalActivities = activities.length;
   const completedActivities = activities.filter(a => a.status === "Completed").length;
   const inProgressActivities = activities.filter(a => a.status === "InProgress").length;
@@ -36,7 +56,7 @@ export default function ProgressTracker({ project, activities, projectId }: Prog
                 Data Date Outdated
               </Badge>
             )}
-            <Button size="sm" data-testid="button-update-progress">
+            <Button size="sm" onClick={() => setUpdateOpen(true)} data-testid="button-update-progress">
               <Calendar className="w-4 h-4 mr-2" />
               Update Progress
             </Button>
@@ -73,31 +93,59 @@ export default function ProgressTracker({ project, activities, projectId }: Prog
           </div>
           <div>
             <div className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">Progress Method</div>
-            <div className="text-sm">Retained Logic</div>
+            <div className="text-sm">{method.label}</div>
             <div className="text-xs text-gray-500 mt-1">
-              Out-of-sequence activities retain original logic
+              {method.description}
             </div>
           </div>
         </div>
 
-        {/* Progress Features Placeholder */}
-        <div className="text-center text-gray-500 py-8">
-          <Clock className="w-12 h-12 mx-auto mb-2 opacity-50" />
-          <h4 className="font-medium mb-2">Advanced Progress Features</h4>
-          <p className="text-sm mb-4">Comprehensive progress tracking coming soon</p>
-          <div className="text-xs text-left max-w-sm mx-auto space-y-1">
-            <p>Features will include:</p>
-            <ul className="list-disc pl-4 space-y-1">
-              <li>Earned value analysis</li>
-              <li>Schedule performance index</li>
-              <li>Out-of-sequence progress handling</li>
-              <li>Progress override vs retained logic</li>
-              <li>Performance trend analysis</li>
-              <li>Recovery schedule planning</li>
-            </ul>
+        {/* Latest Update */}
+        {latestUpdate && latestProgress ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Update {latestUpdate.updateNumber}</span>
+              <span className="text-xs text-gray-500">Data date {latestUpdate.dataDate}</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-xs text-gray-500">Percent Complete</div>
+                <div>{latestProgress.summary.percentComplete}%</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Statused</div>
+                <div>{latestProgress.statused.length} activities</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Finish Variance</div>
+                <div>{latestChanges ? `${latestChanges.projectFinish.varianceDays > 0 ? '+' : ''}${latestChanges.projectFinish.varianceDays} days` : '-'}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Out of Sequence</div>
+                <div className={latestProgress.outOfSequence.length > 0 ? "text-orange-600" : ""}>
+                  {latestProgress.outOfSequence.length}
+                </div>
+              </div>
+            </div>
+            {latestUpdate.narrative && (
+              <p className="text-xs text-gray-500 whitespace-pre-wrap">{latestUpdate.narrative}</p>
+            )}
           </div>
-        </div>
+        ) : (
+          <div className="text-center text-gray-500 py-8">
+            <Clock className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <h4 className="font-medium mb-2">No progress updates yet</h4>
+            <p className="text-sm">Update progress to status the schedule to a new data date.</p>
+          </div>
+        )}
       </CardContent>
+
+      <ProgressUpdateDialog
+        projectId={projectId}
+        currentDataDate={project.dataDate}
+        open={updateOpen}
+        onOpenChange={setUpdateOpen}
+      />
     </Card>
   );
 }
\ No newline at end of file
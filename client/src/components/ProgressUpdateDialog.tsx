@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ProgressEntry, ProgressMethod, ProgressSuggestion, ScheduleUpdate } from "@shared/schema";
+import { Wand2 } from "lucide-react";
+
+interface ProgressUpdateDialogProps {
+  projectId: string;
+  currentDataDate: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface SuggestionsResponse {
+  previousUpdate: { updateNumber: number; dataDate: string } | null;
+  previousDataDate: string | null;
+  rows: ProgressSuggestion[];
+}
+
+type EntryDraft = Required<Omit<ProgressEntry, 'id'>>;
+
+const PROGRESS_METHODS: { value: ProgressMethod; label: string; description: string }[] = [
+  { value: "RetainedLogic", label: "Retained Logic", description: "Remaining work of out-of-sequence activities waits for their predecessors" },
+  { value: "ProgressOverride", label: "Progress Override", description: "Started activities continue from the data date, ignoring their predecessors" },
+  { value: "ActualDates", label: "Actual Dates", description: "Actuals recorded after the data date are kept and remaining work follows them" }
+];
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+const toDraft = (row: ProgressSuggestion, values: ProgressSuggestion["suggested"]): EntryDraft => ({
+  actualStart: values.actualStart,
+  actualFinish: values.actualFinish,
+  remainingDuration: values.remainingDuration ?? row.originalDuration,
+  percentComplete: values.percentComplete
+});
+
+export default function ProgressUpdateDialog({ projectId, currentDataDate, open, onOpenChange }: ProgressUpdateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dataDate, setDataDate] = useState(() =>
+    currentDataDate ? addDays(currentDataDate.slice(0, 10), 7) : new Date().toISOString().split("T")[0]
+  );
+  const [progressMethod, setProgressMethod] = useState<ProgressMethod>("RetainedLogic");
+  const [narrative, setNarrative] = useState("");
+  const [dueOnly, setDueOnly] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, EntryDraft>>({});
+
+  const { data, isLoading, error } = useQuery<SuggestionsResponse>({
+    queryKey: ['/api/projects', projectId, 'progress-update', 'suggestions', dataDate],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/projects/${projectId}/progress-update/suggestions?dataDate=${dataDate}`);
+      return response.json();
+    },
+    enabled: open && /^\d{4}-\d{2}-\d{2}$/.test(dataDate),
+    retry: false
+  });
+
+  // Start from the current progress; suggestions are applied on request
+  useEffect(() => {
+    if (!data) return;
+    setDrafts(Object.fromEntries(data.rows.map(row => [row.id, toDraft(row, row.current)])));
+  }, [data]);
+
+  const rows = useMemo(() => (data?.rows ?? []).filter(row => !dueOnly || row.due), [data, dueOnly]);
+
+  const updateDraft = (id: string, changes: Partial<EntryDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const applySuggestions = () => {
+    setDrafts(prev => ({
+      ...prev,
+      ...Object.fromEntries(rows.map(row => [row.id, toDraft(row, row.suggested)]))
+    }));
+  };
+
+  // Only rows that differ from their current progress are sent
+  const entries: ProgressEntry[] = (data?.rows ?? [])
+    .filter(row => {
+      const draft = drafts[row.id];
+      if (!draft) return false;
+      const current = toDraft(row, row.current);
+      return draft.actualStart !== current.actualStart || draft.actualFinish !== current.actualFinish ||
+        draft.remainingDuration !== current.remainingDuration || draft.percentComplete !== current.percentComplete;
+    })
+    .map(row => ({ id: row.id, ...drafts[row.id] }));
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/progress-updates`, {
+        dataDate, progressMethod, narrative: narrative || undefined, entries
+      });
+      return response.json() as Promise<ScheduleUpdate>;
+    },
+    onSuccess: update => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'activities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'schedule-updates'] });
+      toast({ title: `Update ${update.updateNumber} saved`, description: `Schedule recalculated at data date ${update.dataDate}` });
+      setNarrative("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to apply progress update", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Update Progress</DialogTitle>
+          <DialogDescription>
+            Status the schedule to a new data date.
+            {data?.previousDataDate && ` Previous data date: ${data.previousDataDate.slice(0, 10)}`}
+            {data?.previousUpdate && ` (Update ${data.previousUpdate.updateNumber})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="progress-data-date">New Data Date</Label>
+              <Input id="progress-data-date" type="date" value={dataDate}
+                onChange={(e) => setDataDate(e.target.value)} data-testid="input-progress-data-date" />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Progress Method</Label>
+              <Select value={progressMethod} onValueChange={(value) => setProgressMethod(value as ProgressMethod)}>
+                <SelectTrigger data-testid="select-progress-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRESS_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {PROGRESS_METHODS.find(m => m.value === progressMethod)?.description}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="progress-due-only" checked={dueOnly} onCheckedChange={setDueOnly} data-testid="switch-progress-due-only" />
+              <Label htmlFor="progress-due-only">Only activities due by the data date</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={applySuggestions} disabled={rows.length === 0}
+              data-testid="button-apply-suggestions">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Use Suggested Values
+            </Button>
+          </div>
+
+          {error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading activities...</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No incomplete activities are due by this data date.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Planned</TableHead>
+                  <TableHead>Previous</TableHead>
+                  <TableHead>Actual Start</TableHead>
+                  <TableHead>Actual Finish</TableHead>
+                  <TableHead className="w-24">Remaining</TableHead>
+                  <TableHead className="w-20">%</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => {
+                  const draft = drafts[row.id];
+                  if (!draft) return null;
+                  const isMilestone = row.type === "StartMilestone" || row.type === "FinishMilestone";
+                  return (
+                    <TableRow key={row.id} data-testid={`row-progress-${row.activityId}`}>
+                      <TableCell>
+                        <div className="font-mono text-xs">{row.activityId}</div>
+                        <div className="text-sm">{row.name}</div>
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {row.plannedStart ?? "-"} &rarr; {row.plannedFinish ?? "-"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.previous
+                          ? <Badge variant="outline">{row.previous.percentComplete}%</Badge>
+                          : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Input type="date" className="h-8" value={draft.actualStart ?? ""}
+                          onChange={(e) => updateDraft(row.id, { actualStart: e.target.value || null })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input type="date" className="h-8" value={draft.actualFinish ?? ""}
+                          onChange={(e) => updateDraft(row.id, e.target.value
+                            ? { actualFinish: e.target.value, remainingDuration: 0, percentComplete: 100 }
+                            : { actualFinish: null })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input type="number" min={0} step="0.5" className="h-8" value={draft.remainingDuration}
+                          disabled={isMilestone || !!draft.actualFinish}
+                          onChange={(e) => {
+                            const remainingDuration = Math.max(0, Number(e.target.value));
+                            const percentComplete = row.originalDuration > 0
+                              ? Math.min(100, Math.max(0, Math.round((row.originalDuration - remainingDuration) / row.originalDuration * 100)))
+                              : draft.percentComplete;
+                            updateDraft(row.id, { remainingDuration, percentComplete });
+                          }} />
+                      </TableCell>
+                      <TableCell>
+                        <Input type="number" min={0} max={100} className="h-8" value={draft.percentComplete}
+                          disabled={isMilestone || !!draft.actualFinish}
+                          onChange={(e) => {
+                            const percentComplete = Math.min(100, Math.max(0, Number(e.target.value)));
+                            updateDraft(row.id, {
+                              percentComplete,
+                              remainingDuration: Math.round(row.originalDuration * (100 - percentComplete)) / 100
+                            });
+                          }} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="progress-narrative">Narrative</Label>
+            <Textarea id="progress-narrative" rows={3} value={narrative}
+              placeholder="Work performed, delays and changes this period"
+              onChange={(e) => setNarrative(e.target.value)} data-testid="textarea-progress-narrative" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <span className="text-sm text-muted-foreground mr-auto self-center">
+            {entries.length} {entries.length === 1 ? "activity" : "activities"} changed
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending || !data}
+            data-testid="button-submit-progress">
+            {updateMutation.isPending ? "Recalculating..." : "Apply & Recalculate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
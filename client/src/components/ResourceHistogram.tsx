@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { BarChart3, TrendingUp, AlertTriangle } from "lucide-react";
+
+interface ResourceHistogramProps {
+  projectId: string;
+}
+
+interface HistogramPeriod {
+  period: string;
+  units: number;
+  unitDays: number;
+  cost: number;
+  overallocated: boolean;
+}
+
+interface HistogramData {
+  interval: 'day' | 'week' | 'month';
+  startDate: string | null;
+  finishDate: string | null;
+  periods: string[];
+  resources: {
+    resourceId: string;
+    resourceCode: string;
+    name: string;
+    type: string;
+    maxUnits: number;
+    periods: HistogramPeriod[];
+    overallocatedPeriods: number;
+  }[];
+  totals: { period: string; unitDays: number; cost: number; cumulativeCost: number }[];
+}
+
+const chartConfig = {
+  units: { label: "Units", color: "hsl(var(--chart-1))" },
+  cumulativeCost: { label: "Cumulative Cost", color: "hsl(var(--chart-2))" }
+} satisfies ChartConfig;
+
+export default function ResourceHistogram({ projectId }: ResourceHistogramProps) {
+  const [interval, setHistogramInterval] = useState<'day' | 'week' | 'month'>('week');
+  const [selectedResourceId, setSelectedResourceId] = useState<string>("");
+
+  const { data: histogram, isLoading } = useQuery<HistogramData>({
+    queryKey: ['/api/projects', projectId, 'resources', 'histogram', interval],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/resources/histogram?interval=${interval}`, {
+        credentials: "include"
+      });
+      if (!response.ok) throw new Error('Failed to fetch resource histogram');
+      return response.json();
+    }
+  });
+
+  const resources = histogram?.resources || [];
+  const selectedResource = resources.find(r => r.resourceId === selectedResourceId) || resources[0];
+  const overallocatedResources = resources.filter(r => r.overallocatedPeriods > 0);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5" />
+            <span>Resource Loading</span>
+            {overallocatedResources.length > 0 && (
+              <Badge variant="destructive" className="flex items-center space-x-1">
+                <AlertTriangle className="w-3 h-3" />
+                <span>{overallocatedResources.length} over-allocated</span>
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label className="text-sm font-normal">Interval</Label>
+            <Select value={interval} onValueChange={(v) => setHistogramInterval(v as 'day' | 'week' | 'month')}>
+              <SelectTrigger className="w-28" data-testid="select-histogram-interval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Day</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+                <SelectItem value="month">Month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-8">Loading resource data...</div>
+        ) : resources.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <BarChart3 className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No scheduled resource assignments. Assign resources and calculate the schedule to see loading.</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="histogram">
+            <TabsList>
+              <TabsTrigger value="histogram" className="flex items-center gap-1">
+                <BarChart3 className="w-4 h-4" />
+                Histogram
+              </TabsTrigger>
+              <TabsTrigger value="s-curve" className="flex items-center gap-1">
+                <TrendingUp className="w-4 h-4" />
+                S-Curve
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="histogram" className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Label className="text-sm font-normal">Resource</Label>
+                <Select value={selectedResource?.resourceId} onValueChange={setSelectedResourceId}>
+                  <SelectTrigger className="w-64" data-testid="select-histogram-resource">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resources.map(r => (
+                      <SelectItem key={r.resourceId} value={r.resourceId}>
+                        {r.resourceCode} - {r.name}{r.overallocatedPeriods > 0 ? ' ⚠' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedResource && (
+                  <span className="text-sm text-gray-500">Max units: {selectedResource.maxUnits}</span>
+                )}
+              </div>
+              {selectedResource && (
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={selectedResource.periods}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} fontSize={11} />
+                    <YAxis tickLine={false} axisLine={false} fontSize={11} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ReferenceLine y={selectedResource.maxUnits} stroke="#dc2626" strokeDasharray="4 4" />
+                    <Bar dataKey="units" radius={2}>
+                      {selectedResource.periods.map(p => (
+                        <Cell key={p.period} fill={p.overallocated ? "#dc2626" : "var(--color-units)"} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            <TabsContent value="s-curve">
+              <ChartContainer config={chartConfig} className="h-64 w-full">
+                <LineChart data={histogram?.totals || []}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} fontSize={11} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={11} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    type="monotone"
+                    dataKey="cumulativeCost"
+                    stroke="var(--color-cumulativeCost)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
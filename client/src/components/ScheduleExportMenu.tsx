@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import CalendarFeedDialog from "@/components/CalendarFeedDialog";
+import type { GanttPdfOptions } from "@shared/schema";
+import { Download, FileText, FileDown, CalendarPlus } from "lucide-react";
+
+interface ScheduleExportMenuProps {
+  projectId: string;
+}
+
+const EXPORT_FORMATS = [
+  { format: "xer", label: "Primavera P6 (.xer)" },
+  { format: "pmxml", label: "Primavera P6 XML (.xml)" },
+  { format: "mspdi", label: "Microsoft Project (.xml)" }
+];
+
+const PAGE_SIZES: { value: GanttPdfOptions["pageSize"]; label: string }[] = [
+  { value: "Letter", label: "Letter (8.5 x 11 in)" },
+  { value: "Legal", label: "Legal (8.5 x 14 in)" },
+  { value: "Tabloid", label: "Tabloid (11 x 17 in)" },
+  { value: "ArchD", label: "Arch D (24 x 36 in)" },
+  { value: "A4", label: "A4" },
+  { value: "A3", label: "A3" },
+  { value: "A1", label: "A1" }
+];
+
+const TIMESCALES: { value: GanttPdfOptions["timescale"]; label: string }[] = [
+  { value: "auto", label: "Fit to page" },
+  { value: "day", label: "Days" },
+  { value: "week", label: "Weeks" },
+  { value: "month", label: "Months" },
+  { value: "quarter", label: "Quarters" }
+];
+
+export default function ScheduleExportMenu({ projectId }: ScheduleExportMenuProps) {
+  const [pdfOpen, setPdfOpen] = useState(false);
+  const [feedOpen, setFeedOpen] = useState(false);
+  const [pageSize, setPageSize] = useState<GanttPdfOptions["pageSize"]>("Tabloid");
+  const [orientation, setOrientation] = useState<GanttPdfOptions["orientation"]>("landscape");
+  const [timescale, setTimescale] = useState<GanttPdfOptions["timescale"]>("auto");
+  const [relationships, setRelationships] = useState(true);
+
+  const pdfUrl = `/api/projects/${projectId}/export/pdf?${new URLSearchParams({
+    pageSize, orientation, timescale, relationships: String(relationships)
+  })}`;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-export-schedule">
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Export Schedule</DropdownMenuLabel>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <DropdownMenuItem key={format} asChild>
+              <a href={`/api/projects/${projectId}/export/${format}`} download data-testid={`link-export-${format}`}>
+                <FileText className="w-4 h-4 mr-2" />
+                {label}
+              </a>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setPdfOpen(true)} data-testid="button-export-pdf">
+            <FileDown className="w-4 h-4 mr-2" />
+            Gantt Report (.pdf)...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setFeedOpen(true)} data-testid="button-calendar-feed">
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Calendar Feed (.ics)...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={pdfOpen} onOpenChange={setPdfOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Gantt Report</DialogTitle>
+            <DialogDescription>
+              Print the schedule as a paginated Gantt chart with the activity table, WBS bands, logic lines and the critical path.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Page Size</Label>
+                <Select value={pageSize} onValueChange={(value) => setPageSize(value as GanttPdfOptions["pageSize"])}>
+                  <SelectTrigger data-testid="select-pdf-page-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZES.map(size => (
+                      <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Orientation</Label>
+                <Select value={orientation} onValueChange={(value) => setOrientation(value as GanttPdfOptions["orientation"])}>
+                  <SelectTrigger data-testid="select-pdf-orientation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Timescale</Label>
+              <Select value={timescale} onValueChange={(value) => setTimescale(value as GanttPdfOptions["timescale"])}>
+                <SelectTrigger data-testid="select-pdf-timescale">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMESCALES.map(scale => (
+                    <SelectItem key={scale.value} value={scale.value}>{scale.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="pdf-relationships"
+                checked={relationships}
+                onCheckedChange={(checked) => setRelationships(checked === true)}
+                data-testid="checkbox-pdf-relationships"
+              />
+              <Label htmlFor="pdf-relationships">Show relationship lines</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button asChild onClick={() => setPdfOpen(false)}>
+              <a href={pdfUrl} download data-testid="link-export-pdf">
+                <Download className="w-4 h-4 mr-2" />
+                Download PDF
+              </a>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CalendarFeedDialog projectId={projectId} open={feedOpen} onOpenChange={setFeedOpen} />
+    </>
+  );
+}
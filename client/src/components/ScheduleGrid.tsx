@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
-import type { Activity, Relationship, Wbs } from "@shared/schema";
+import type { Activity, Relationship, Wbs, NetworkIssue } from "@shared/schema";
 import { 
   AlertTriangle, 
   Clock, 
@@ -34,6 +34,7 @@ interface ScheduleGridProps {
   wbs: Wbs[];
   onActivitySelect: (activityId: string) => void;
   onNewActivity: () => void;
+  networkIssues?: NetworkIssue[];
 }
 
 export default function ScheduleGrid({ 
@@ -41,10 +42,11 @@ export default function ScheduleGrid({
   relationships, 
   wbs, 
   onActivitySelect, 
-  onNewActivity 
+  onNewActivity,
+  networkIssues = []
 }: ScheduleGridProps) {
   const { toast } = useToast();
-  const [filter, setFilter] = useState<'all' | 'critical' | 'in-progress' | 'constrained'>('all');
+  const [filter, setFilter] = useState<'all' | 'critical' | 'in-progress' | 'constrained' | 'network-issues'>('all');
   const [sortBy, setSortBy] = useState<'earlyStart' | 'activityId' | 'totalFloat' | 'name'>('earlyStart');
   const [showColumns, setShowColumns] = useState({
     activityId: true,
@@ -83,6 +85,14 @@ export default function ScheduleGrid({
     )
   );
 
+  // Network validation issues by activity, for row highlighting
+  const issuesByActivity = new Map<string, NetworkIssue[]>();
+  networkIssues.forEach(issue => {
+    issue.activityIds.forEach(id => issuesByActivity.set(id, [...(issuesByActivity.get(id) || []), issue]));
+  });
+  const networkErrors = networkIssues.filter(i => i.severity === 'error').length;
+  const networkWarnings = networkIssues.length - networkErrors;
+
   // Create a map of WBS items for quick lookup
   const wbsMap = new Map(wbs.map(w => [w.id, w]));
 
@@ -120,6 +130,7 @@ export default function ScheduleGrid({
     if (filter === 'critical' && !activity.isCritical) return false;
     if (filter === 'in-progress' && activity.status !== 'InProgress') return false;
     if (filter === 'constrained' && !activity.constraintType) return false;
+    if (filter === 'network-issues' && !issuesByActivity.has(activity.id)) return false;
     
     // Activity codes filter
     if (selectedActivityCodes.length > 0) {
@@ -238,6 +249,19 @@ export default function ScheduleGrid({
             <Badge variant="secondary">
               {sortedActivities.length} of {activities.length}
             </Badge>
+            {networkIssues.length > 0 && (
+              <Badge 
+                variant={networkErrors > 0 ? "destructive" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setFilter('network-issues')}
+                data-testid="badge-network-issues"
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {networkErrors > 0 && `${networkErrors} logic ${networkErrors === 1 ? 'error' : 'errors'}`}
+                {networkErrors > 0 && networkWarnings > 0 && ', '}
+                {networkWarnings > 0 && `${networkWarnings} ${networkWarnings === 1 ? 'warning' : 'warnings'}`}
+              </Badge>
+            )}
           </CardTitle>
           <div className="flex items-center space-x-2">
             <Button onClick={onNewActivity} size="sm" data-testid="button-new-activity-grid">
@@ -273,6 +297,7 @@ export default function ScheduleGrid({
                 <SelectItem value="critical">Critical Path</SelectItem>
                 <SelectItem value="in-progress">In Progress</SelectItem>
                 <SelectItem value="constrained">Constrained</SelectItem>
+                <SelectItem value="network-issues">Logic Issues</SelectItem>
               </SelectContent>
             </Select>
             
@@ -379,18 +404,30 @@ export default function ScheduleGrid({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {sortedActivities.map((activity) => (
+              {sortedActivities.map((activity) => {
+                const activityIssues = issuesByActivity.get(activity.id) || [];
+                const hasNetworkError = activityIssues.some(i => i.severity === 'error');
+                return (
                 <TableRow 
                   key={activity.id} 
                   className={`cursor-pointer hover:bg-muted/50 ${
                     activity.isCritical ? 'border-l-4 border-l-red-500' : ''
+                  } ${
+                    hasNetworkError ? 'bg-red-50 dark:bg-red-950/40' : activityIssues.length > 0 ? 'bg-amber-50 dark:bg-amber-950/30' : ''
                   }`}
                   onClick={() => onActivitySelect(activity.id)}
                   data-testid={`row-activity-${activity.activityId}`}
                 >
                   {showColumns.activityId && (
                     <TableCell className="font-medium">
-                      {activity.activityId}
+                      <div className="flex items-center gap-1">
+                        {activity.activityId}
+                        {activityIssues.length > 0 && (
+                          <span title={activityIssues.map(i => i.message).join('\n')} data-testid={`icon-network-issue-${activity.activityId}`}>
+                            <AlertTriangle className={`w-3 h-3 ${hasNetworkError ? 'text-red-600' : 'text-amber-500'}`} />
+                          </span>
+                        )}
+                      </div>
                     </TableCell>
                   )}
                   {showColumns.name && (
@@ -554,7 +591,8 @@ export default function ScheduleGrid({
                     </Button>
                   </TableCell>
                 </TableRow>
-              ))}
+                );
+              })}
             </TableBody>
           </Table>
         </ScrollArea>
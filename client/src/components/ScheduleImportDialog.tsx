@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ImportExportHistory } from "@shared/schema";
+import { Upload, FileText, AlertTriangle } from "lucide-react";
+
+interface ScheduleImportDialogProps {
+  projectId: string;
+}
+
+interface XERProjectSummary {
+  projId: string;
+  shortName: string;
+  name: string;
+  startDate: string | null;
+  finishDate: string | null;
+  dataDate: string | null;
+  activityCount: number;
+}
+
+interface ConversionReport {
+  projectName: string;
+  imported: Record<string, number>;
+  skipped: Record<string, number>;
+  unmappedTables: string[];
+  warnings: string[];
+}
+
+// Formats this dialog imports, keyed by the detected format
+const FORMAT_ROUTES: Record<string, { route: string; label: string }> = {
+  XER: { route: "xer", label: "Primavera P6 XER" },
+  MSPDI: { route: "mspdi", label: "Microsoft Project XML" },
+  PMXML: { route: "pmxml", label: "Primavera P6 XML" }
+};
+
+const IMPORTED_LABELS: Record<string, string> = {
+  activities: "Activities",
+  relationships: "Relationships",
+  wbs: "WBS elements",
+  calendars: "Calendars",
+  resources: "Resources",
+  resourceAssignments: "Assignments",
+  activityCodes: "Activity codes",
+  customFieldValues: "Custom field values"
+};
+
+export default function ScheduleImportDialog({ projectId }: ScheduleImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [filename, setFilename] = useState("");
+  const [fileContent, setFileContent] = useState("");
+  const [xerProjects, setXerProjects] = useState<XERProjectSummary[]>([]);
+  const [sourceProjectId, setSourceProjectId] = useState("");
+  const [format, setFormat] = useState("");
+  const [report, setReport] = useState<ConversionReport | null>(null);
+
+  const formatRoute = FORMAT_ROUTES[format];
+  // MS Project XML files hold a single project; XER and P6 XML files may hold several
+  const needsProject = format === "XER" || format === "PMXML";
+
+  const reset = () => {
+    setFilename("");
+    setFileContent("");
+    setXerProjects([]);
+    setSourceProjectId("");
+    setFormat("");
+    setReport(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ content, name }: { content: string; name: string }) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/import/detect`, {
+        fileContent: content,
+        filename: name
+      });
+      return response.json() as Promise<{ format: string; projects: XERProjectSummary[] }>;
+    },
+    onSuccess: (data) => {
+      setFormat(data.format);
+      setXerProjects(data.projects);
+      setSourceProjectId(data.projects[0]?.projId || "");
+      if (!FORMAT_ROUTES[data.format]) {
+        toast({
+          title: "Unsupported File",
+          description: "Choose a Primavera P6 XER or XML file, or a Microsoft Project XML file.",
+          variant: "destructive"
+        });
+      }
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not read the schedule file.", variant: "destructive" });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/import/${formatRoute.route}`, {
+        fileContent,
+        filename,
+        sourceProjectId: needsProject && sourceProjectId ? sourceProjectId : undefined
+      });
+      return response.json() as Promise<ImportExportHistory>;
+    },
+    onSuccess: (record) => {
+      const conversionReport = record.conversionReport as ConversionReport;
+      setReport(conversionReport);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId] });
+      toast({
+        title: "Import Complete",
+        description: `Imported ${conversionReport.imported.activities} activities from ${conversionReport.projectName}.`
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: `Failed to import ${formatRoute?.label ?? "schedule"} file.`,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setFilename(file.name);
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const content = event.target?.result as string;
+      setFileContent(content);
+      previewMutation.mutate({ content, name: file.name });
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-import-schedule">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import Schedule</DialogTitle>
+          <DialogDescription>
+            Import WBS, calendars, resources, activities and logic from a Primavera P6 XER or XML file, or a Microsoft Project XML file, into this project.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4" data-testid="import-report">
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(IMPORTED_LABELS).map(([key, label]) => (
+                <div key={key} className="flex items-center justify-between p-2 border rounded text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">{label}</span>
+                  <span className="font-medium">
+                    {report.imported[key] ?? 0}
+                    {report.skipped[key] ? <span className="text-orange-600"> ({report.skipped[key]} skipped)</span> : null}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {report.unmappedTables.length > 0 && (
+              <div className="text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Not imported: </span>
+                {report.unmappedTables.map(table => (
+                  <Badge key={table} variant="outline" className="mr-1 mb-1">{table}</Badge>
+                ))}
+              </div>
+            )}
+            {report.warnings.length > 0 && (
+              <div className="max-h-40 overflow-y-auto p-2 border rounded bg-orange-50 dark:bg-orange-950 text-xs space-y-1">
+                {report.warnings.map((warning, index) => (
+                  <div key={index} className="flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 text-orange-600 flex-shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-file">Schedule File</Label>
+              <Input
+                id="schedule-file"
+                type="file"
+                accept=".xer,.xml"
+                onChange={handleFileChange}
+                data-testid="input-schedule-file"
+              />
+            </div>
+
+            {previewMutation.isPending && (
+              <div className="text-sm text-gray-500">Reading file...</div>
+            )}
+
+            {formatRoute && !needsProject && (
+              <div className="flex items-center gap-2 p-2 border rounded text-sm">
+                <FileText className="w-4 h-4" />
+                <span>{filename}</span>
+                <Badge variant="outline">{formatRoute.label}</Badge>
+              </div>
+            )}
+
+            {xerProjects.length > 0 && (
+              <div className="space-y-2">
+                <Label>Project</Label>
+                {xerProjects.length > 1 ? (
+                  <Select value={sourceProjectId} onValueChange={setSourceProjectId}>
+                    <SelectTrigger data-testid="select-xer-project">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {xerProjects.map(p => (
+                        <SelectItem key={p.projId} value={p.projId}>
+                          {p.shortName} - {p.name} ({p.activityCount} activities)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="flex items-center gap-2 p-2 border rounded text-sm">
+                    <FileText className="w-4 h-4" />
+                    <span>{xerProjects[0].shortName} - {xerProjects[0].name}</span>
+                    <Badge variant="outline">{xerProjects[0].activityCount} activities</Badge>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => { setOpen(false); reset(); }}>Close</Button>
+          ) : (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!fileContent || !formatRoute || (needsProject && !sourceProjectId) || importMutation.isPending}
+              data-testid="button-confirm-import"
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -140,9 +140,11 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
   
   const handleScheduleUpload = handleScheduleImport; // For backward compatibility
   
-  const handleExportSchedule = async (scheduleId: string, format: 'pdf' | 'xml' | 'xer') => {
+  // Exports are built from the project's activities, so every schedule card downloads the same project file
+  const handleExportSchedule = async (format: 'pdf' | 'xml' | 'xer') => {
     try {
-      const response = await fetch(`/api/schedules/${scheduleId}/export/${format}`);
+      const route = format === 'xml' ? 'mspdi' : format;
+      const response = await fetch(`/api/projects/${projectId}/export/${route}`);
       if (!response.ok) {
         throw new Error('Export failed');
       }
@@ -152,27 +154,19 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
       const a = document.createElement('a');
       a.href = url;
       
-      // Determine filename based on format
-      const extension = format === 'xml' ? 'xml' : format === 'xer' ? 'xer' : 'html';
-      a.download = `schedule_${scheduleId}.${extension}`;
+      // Use the filename the server chose for the project
+      const disposition = response.headers.get('Content-Disposition') || '';
+      a.download = disposition.match(/filename="([^"]+)"/)?.[1] || `schedule.${format}`;
       
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       window.URL.revokeObjectURL(url);
       
-      // If it's PDF (HTML), we need to inform user to print as PDF
-      if (format === 'pdf') {
-        toast({
-          title: "Schedule exported",
-          description: "HTML report downloaded. Open it and print/save as PDF for best results.",
-        });
-      } else {
-        toast({
-          title: "Schedule exported",
-          description: `Schedule exported as ${format.toUpperCase()} successfully.`,
-        });
-      }
+      toast({
+        title: "Schedule exported",
+        description: `Schedule exported as ${format.toUpperCase()} successfully.`,
+      });
     } catch (error) {
       toast({
         title: "Export failed",
@@ -343,7 +337,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                                 title="Export as PDF"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleExportSchedule(schedule.id, 'pdf');
+                                  handleExportSchedule('pdf');
                                 }}
                               >
                                 <FileText className="h-4 w-4" />
@@ -354,7 +348,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                                 title="Export as MS Project XML"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleExportSchedule(schedule.id, 'xml');
+                                  handleExportSchedule('xml');
                                 }}
                               >
                                 <FileOutput className="h-4 w-4" />
@@ -365,7 +359,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                                 title="Export as Primavera XER"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleExportSchedule(schedule.id, 'xer');
+                                  handleExportSchedule('xer');
                                 }}
                               >
                                 <Download className="h-4 w-4" />
@@ -426,7 +420,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleExportSchedule(currentSchedule.id, 'pdf')}
+                  onClick={() => handleExportSchedule('pdf')}
                   title="Export as PDF Report"
                 >
                   <FileText className="h-4 w-4 mr-2" />
@@ -435,7 +429,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleExportSchedule(currentSchedule.id, 'xml')}
+                  onClick={() => handleExportSchedule('xml')}
                   title="Export as MS Project XML"
                 >
                   <FileOutput className="h-4 w-4 mr-2" />
@@ -444,7 +438,7 @@ export default function ScheduleManager({ projectId, meetingId }: ScheduleManage
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleExportSchedule(currentSchedule.id, 'xer')}
+                  onClick={() => handleExportSchedule('xer')}
                   title="Export as Primavera P6 XER"
                 >
                   <Download className="h-4 w-4 mr-2" />
@@ -0,0 +1,481 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ImportExportHistory, TabularMapping } from "@shared/schema";
+import { FileSpreadsheet, AlertTriangle, CheckCircle, Save, Trash2 } from "lucide-react";
+
+interface SpreadsheetImportDialogProps {
+  projectId: string;
+}
+
+interface RowResult {
+  rowNumber: number;
+  activityId: string;
+  name: string;
+  duration: number | null;
+  predecessors: string;
+  wbsPath: string[];
+  errors: string[];
+}
+
+interface PreviewResult {
+  sheets: string[];
+  sheet: string;
+  headers: string[];
+  suggestedMapping: Partial<TabularMapping>;
+  mapping: TabularMapping | null;
+  mappingErrors: string[];
+  rowCount: number;
+  errorCount: number;
+  rows: RowResult[];
+}
+
+interface MappingProfileItem {
+  id: string;
+  name: string;
+  mapping: TabularMapping;
+}
+
+interface ConversionReport {
+  imported: Record<string, number>;
+  skipped: Record<string, number>;
+  unmappedTables: string[];
+  warnings: string[];
+}
+
+type SingleField = "activityId" | "name" | "duration" | "predecessors" | "wbsPath";
+
+const SINGLE_FIELDS: { field: SingleField; label: string; required?: boolean }[] = [
+  { field: "activityId", label: "Activity ID", required: true },
+  { field: "name", label: "Activity Name", required: true },
+  { field: "duration", label: "Duration (days)" },
+  { field: "predecessors", label: "Predecessors (A100SS+3)" },
+  { field: "wbsPath", label: "WBS Path" }
+];
+
+const IMPORTED_LABELS: Record<string, string> = {
+  activities: "Activities",
+  relationships: "Relationships",
+  wbs: "WBS elements",
+  activityCodes: "Activity codes",
+  customFieldValues: "Custom field values"
+};
+
+const NOT_MAPPED = "__none__";
+
+const EMPTY_MAPPING: Partial<TabularMapping> = { wbsSeparator: "/", activityCodes: [], customFields: [] };
+
+export default function SpreadsheetImportDialog({ projectId }: SpreadsheetImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [filename, setFilename] = useState("");
+  const [fileContent, setFileContent] = useState("");
+  const [mapping, setMapping] = useState<Partial<TabularMapping>>(EMPTY_MAPPING);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [report, setReport] = useState<ConversionReport | null>(null);
+
+  const { data: profiles = [] } = useQuery<MappingProfileItem[]>({
+    queryKey: ['/api/projects', projectId, 'import', 'mapping-profiles'],
+    enabled: open
+  });
+
+  const reset = () => {
+    setFilename("");
+    setFileContent("");
+    setMapping(EMPTY_MAPPING);
+    setPreview(null);
+    setProfileName("");
+    setReport(null);
+  };
+
+  const isComplete = (value: Partial<TabularMapping>): value is TabularMapping => !!value.activityId && !!value.name;
+
+  const previewMutation = useMutation({
+    mutationFn: async (params: { content: string; filename: string; sheet?: string; mapping?: Partial<TabularMapping> }) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/import/tabular/preview`, {
+        fileContent: params.content,
+        filename: params.filename,
+        sheet: params.sheet,
+        mapping: params.mapping && isComplete(params.mapping) ? params.mapping : undefined
+      });
+      return response.json() as Promise<PreviewResult>;
+    },
+    onSuccess: (data, params) => {
+      setPreview(data);
+      if (!params.mapping) setMapping(data.mapping ?? { ...EMPTY_MAPPING, ...data.suggestedMapping });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not read the spreadsheet.", variant: "destructive" });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/import/tabular`, {
+        fileContent,
+        filename,
+        sheet: preview?.sheet,
+        mapping
+      });
+      return response.json() as Promise<ImportExportHistory>;
+    },
+    onSuccess: (record) => {
+      const conversionReport = record.conversionReport as ConversionReport;
+      setReport(conversionReport);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId] });
+      toast({
+        title: "Import Complete",
+        description: `Imported ${conversionReport.imported.activities} activities from ${filename}.`
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to import spreadsheet.", variant: "destructive" });
+    }
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/import/mapping-profiles`, {
+        name: profileName,
+        mapping
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'import', 'mapping-profiles'] });
+      toast({ title: "Profile Saved", description: `Mapping saved as "${profileName}".` });
+      setProfileName("");
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save mapping profile.", variant: "destructive" });
+    }
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/import/mapping-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'import', 'mapping-profiles'] });
+    }
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setFilename(file.name);
+    const isWorkbook = file.name.toLowerCase().endsWith(".xlsx");
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = event.target?.result as string;
+      // Workbooks are read as a data URL and sent as base64
+      const content = isWorkbook ? result.slice(result.indexOf(",") + 1) : result;
+      setFileContent(content);
+      previewMutation.mutate({ content, filename: file.name });
+    };
+    if (isWorkbook) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  };
+
+  const updateMapping = (next: Partial<TabularMapping>) => {
+    setMapping(next);
+    if (preview && isComplete(next)) {
+      previewMutation.mutate({ content: fileContent, filename, sheet: preview.sheet, mapping: next });
+    }
+  };
+
+  const setSingleField = (field: SingleField, column: string) => {
+    const value = column === NOT_MAPPED ? undefined : column;
+    updateMapping({
+      ...mapping,
+      activityCodes: (mapping.activityCodes || []).filter(c => c !== value),
+      customFields: (mapping.customFields || []).filter(c => c !== value),
+      [field]: value
+    });
+  };
+
+  const setColumnRole = (column: string, role: string) => {
+    const activityCodes = (mapping.activityCodes || []).filter(c => c !== column);
+    const customFields = (mapping.customFields || []).filter(c => c !== column);
+    if (role === "code") activityCodes.push(column);
+    if (role === "custom") customFields.push(column);
+    updateMapping({ ...mapping, activityCodes, customFields });
+  };
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (profile) updateMapping({ ...EMPTY_MAPPING, ...profile.mapping });
+  };
+
+  const singleColumns = SINGLE_FIELDS.map(({ field }) => mapping[field]).filter(Boolean);
+  const extraColumns = (preview?.headers || []).filter(h => !singleColumns.includes(h));
+  const roleOf = (column: string) =>
+    mapping.activityCodes?.includes(column) ? "code" : mapping.customFields?.includes(column) ? "custom" : "ignore";
+  const validRows = preview ? preview.rowCount - preview.errorCount : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-import-spreadsheet">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Spreadsheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Activities from Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Map the columns of a CSV or Excel file to activity fields, check the rows, then import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4" data-testid="spreadsheet-import-report">
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(IMPORTED_LABELS).map(([key, label]) => (
+                <div key={key} className="flex items-center justify-between p-2 border rounded text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">{label}</span>
+                  <span className="font-medium">
+                    {report.imported[key] ?? 0}
+                    {report.skipped[key] ? <span className="text-orange-600"> ({report.skipped[key]} skipped)</span> : null}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {report.warnings.length > 0 && (
+              <div className="max-h-40 overflow-y-auto p-2 border rounded bg-orange-50 dark:bg-orange-950 text-xs space-y-1">
+                {report.warnings.map((warning, index) => (
+                  <div key={index} className="flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 text-orange-600 flex-shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="spreadsheet-file">CSV or Excel File</Label>
+                <Input
+                  id="spreadsheet-file"
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  onChange={handleFileChange}
+                  data-testid="input-spreadsheet-file"
+                />
+              </div>
+              {preview && preview.sheets.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Sheet</Label>
+                  <Select
+                    value={preview.sheet}
+                    onValueChange={(sheet) => previewMutation.mutate({ content: fileContent, filename, sheet })}
+                  >
+                    <SelectTrigger data-testid="select-sheet">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preview.sheets.map(sheet => (
+                        <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {preview && (
+              <>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Label>Mapping Profile</Label>
+                    <Select onValueChange={applyProfile} disabled={profiles.length === 0}>
+                      <SelectTrigger data-testid="select-mapping-profile">
+                        <SelectValue placeholder={profiles.length > 0 ? "Apply a saved profile" : "No saved profiles"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="flex-1"
+                    placeholder="Save current mapping as..."
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    data-testid="input-profile-name"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveProfileMutation.mutate()}
+                    disabled={!profileName.trim() || !isComplete(mapping) || saveProfileMutation.isPending}
+                    data-testid="button-save-profile"
+                  >
+                    <Save className="w-4 h-4" />
+                  </Button>
+                </div>
+                {profiles.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {profiles.map(profile => (
+                      <Badge key={profile.id} variant="outline" className="gap-1">
+                        {profile.name}
+                        <button
+                          onClick={() => deleteProfileMutation.mutate(profile.id)}
+                          data-testid={`button-delete-profile-${profile.id}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  {SINGLE_FIELDS.map(({ field, label, required }) => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs">{label}{required ? " *" : ""}</Label>
+                      <Select value={mapping[field] || NOT_MAPPED} onValueChange={(column) => setSingleField(field, column)}>
+                        <SelectTrigger data-testid={`select-mapping-${field}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                          {preview.headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label className="text-xs">WBS Separator</Label>
+                    <Input
+                      value={mapping.wbsSeparator || ""}
+                      onChange={(e) => setMapping({ ...mapping, wbsSeparator: e.target.value })}
+                      onBlur={() => updateMapping(mapping)}
+                      data-testid="input-wbs-separator"
+                    />
+                  </div>
+                </div>
+
+                {extraColumns.length > 0 && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Other Columns</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {extraColumns.map(column => (
+                        <div key={column} className="flex items-center gap-2 text-sm">
+                          <span className="flex-1 truncate" title={column}>{column}</span>
+                          <Select value={roleOf(column)} onValueChange={(role) => setColumnRole(column, role)}>
+                            <SelectTrigger className="w-32 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ignore">Ignore</SelectItem>
+                              <SelectItem value="code">Activity code</SelectItem>
+                              <SelectItem value="custom">Custom field</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {preview.mappingErrors.length > 0 && (
+                  <div className="text-sm text-red-600">{preview.mappingErrors.join("; ")}</div>
+                )}
+
+                {preview.rows.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                      <span>{validRows} of {preview.rowCount} rows ready to import</span>
+                      {preview.errorCount > 0 && (
+                        <Badge variant="destructive">{preview.errorCount} with errors</Badge>
+                      )}
+                    </div>
+                    <div className="max-h-64 overflow-y-auto border rounded">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-12">Row</TableHead>
+                            <TableHead>Activity</TableHead>
+                            <TableHead className="w-16">Days</TableHead>
+                            <TableHead>Predecessors</TableHead>
+                            <TableHead>Errors</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {preview.rows.map(row => (
+                            <TableRow
+                              key={row.rowNumber}
+                              className={row.errors.length > 0 ? "bg-red-50 dark:bg-red-950" : ""}
+                              data-testid={`row-preview-${row.rowNumber}`}
+                            >
+                              <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                              <TableCell className="text-xs">
+                                <span className="font-medium">{row.activityId}</span> {row.name}
+                                {row.wbsPath.length > 0 && (
+                                  <div className="text-gray-500">{row.wbsPath.join(" › ")}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-xs">{row.duration ?? "-"}</TableCell>
+                              <TableCell className="text-xs">{row.predecessors}</TableCell>
+                              <TableCell className="text-xs text-red-600">{row.errors.join("; ")}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {previewMutation.isPending && (
+              <div className="text-sm text-gray-500">Checking rows...</div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => { setOpen(false); reset(); }}>Close</Button>
+          ) : (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!preview || !isComplete(mapping) || preview.mappingErrors.length > 0 || validRows === 0 || importMutation.isPending}
+              data-testid="button-confirm-spreadsheet-import"
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${validRows} Activities`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
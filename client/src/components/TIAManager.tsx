@@ -1,7 +1,27 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { Activity, Relationship } from "@shared/schema";
-import { AlertTriangle, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  Activity, Relationship, TiaScenario, TiaFragnet, TiaResult, FragnetActivity, FragnetLink
+} from "@shared/schema";
+import { AlertTriangle, Plus, Play, Trash2, GitBranch, TrendingUp, Calendar } from "lucide-react";
 
 interface TIAManagerProps {
   projectId: string;
@@ -9,7 +29,219 @@ interface TIAManagerProps {
   relationships: Relationship[];
 }
 
+interface CriticalPathChanges {
+  added: { activityId: string; name: string; isFragnet: boolean }[];
+  removed: { activityId: string; name: string; isFragnet: boolean }[];
+  unimpactedCount: number;
+  impactedCount: number;
+}
+
+interface FloatErosionEntry {
+  activityId: string;
+  name: string;
+  unimpactedFloat: number;
+  impactedFloat: number;
+  erosion: number;
+}
+
+interface MilestoneImpact {
+  activityId: string;
+  name: string;
+  unimpactedFinish: string | null;
+  impactedFinish: string | null;
+  slipDays: number;
+}
+
+type RelationshipType = "FS" | "SS" | "FF" | "SF";
+
+const emptyFragnetActivity = (index: number): FragnetActivity => ({
+  activityId: `FN-${String(index + 1).padStart(2, '0')}`,
+  name: "",
+  originalDuration: 1,
+  type: "Task"
+});
+
 export default function TIAManager({ projectId, activities, relationships }: TIAManagerProps) {
+  const { toast } = useToast();
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  const [isScenarioOpen, setIsScenarioOpen] = useState(false);
+  const [isFragnetOpen, setIsFragnetOpen] = useState(false);
+
+  // New scenario form
+  const [scenarioName, setScenarioName] = useState("");
+  const [scenarioDescription, setScenarioDescription] = useState("");
+  const [scenarioDataDate, setScenarioDataDate] = useState(new Date().toISOString().split('T')[0]);
+
+  // New fragnet form
+  const [fragnetName, setFragnetName] = useState("");
+  const [fragnetDescription, setFragnetDescription] = useState("");
+  const [fragnetActivities, setFragnetActivities] = useState<FragnetActivity[]>([emptyFragnetActivity(0)]);
+  const [predecessorId, setPredecessorId] = useState("");
+  const [predecessorType, setPredecessorType] = useState<RelationshipType>("FS");
+  const [successorId, setSuccessorId] = useState("");
+  const [successorType, setSuccessorType] = useState<RelationshipType>("FS");
+
+  const { data: scenarios = [] } = useQuery<TiaScenario[]>({
+    queryKey: ['/api/projects', projectId, 'tia-scenarios'],
+    staleTime: 0
+  });
+
+  const selectedScenario = scenarios.find(s => s.id === selectedScenarioId) || scenarios[0];
+
+  const { data: fragnets = [] } = useQuery<TiaFragnet[]>({
+    queryKey: ['/api/tia-scenarios', selectedScenario?.id, 'fragnets'],
+    enabled: !!selectedScenario,
+    staleTime: 0
+  });
+
+  const { data: result } = useQuery<TiaResult | null>({
+    queryKey: ['/api/tia-scenarios', selectedScenario?.id, 'result'],
+    queryFn: async () => {
+      const response = await fetch(`/api/tia-scenarios/${selectedScenario!.id}/result`, { credentials: "include" });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch TIA result');
+      return response.json();
+    },
+    enabled: !!selectedScenario,
+    staleTime: 0
+  });
+
+  const createScenarioMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/tia-scenarios`, {
+        name: scenarioName,
+        description: scenarioDescription || null,
+        analysisMethod: "ImpactedAsPlanned",
+        impactType: "Prospective",
+        dataDate: scenarioDataDate
+      });
+      return response.json() as Promise<TiaScenario>;
+    },
+    onSuccess: (scenario) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'tia-scenarios'] });
+      setSelectedScenarioId(scenario.id);
+      setIsScenarioOpen(false);
+      setScenarioName("");
+      setScenarioDescription("");
+      toast({ title: "Scenario Created", description: `"${scenario.name}" is ready for fragnets.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create TIA scenario.", variant: "destructive" });
+    }
+  });
+
+  const deleteScenarioMutation = useMutation({
+    mutationFn: async (scenarioId: string) => {
+      await apiRequest("DELETE", `/api/tia-scenarios/${scenarioId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'tia-scenarios'] });
+      setSelectedScenarioId(null);
+    }
+  });
+
+  const createFragnetMutation = useMutation({
+    mutationFn: async () => {
+      // Fragnet activities are chained finish-to-start in the order entered
+      const chain = fragnetActivities.slice(1).map((activity, index) => ({
+        predecessorId: fragnetActivities[index].activityId,
+        successorId: activity.activityId,
+        type: "FS" as const,
+        lag: 0
+      }));
+      const links: FragnetLink[] = [];
+      if (predecessorId) {
+        links.push({
+          activityId: predecessorId,
+          fragnetActivityId: fragnetActivities[0].activityId,
+          direction: "predecessor",
+          type: predecessorType,
+          lag: 0
+        });
+      }
+      if (successorId) {
+        links.push({
+          activityId: successorId,
+          fragnetActivityId: fragnetActivities[fragnetActivities.length - 1].activityId,
+          direction: "successor",
+          type: successorType,
+          lag: 0
+        });
+      }
+
+      const response = await apiRequest("POST", `/api/tia-scenarios/${selectedScenario!.id}/fragnets`, {
+        name: fragnetName,
+        description: fragnetDescription || null,
+        activities: fragnetActivities,
+        relationships: chain,
+        linkedActivities: links
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tia-scenarios', selectedScenario?.id, 'fragnets'] });
+      setIsFragnetOpen(false);
+      resetFragnetForm();
+      toast({ title: "Fragnet Added", description: "Run the analysis to see its impact." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteFragnetMutation = useMutation({
+    mutationFn: async (fragnetId: string) => {
+      await apiRequest("DELETE", `/api/tia-fragnets/${fragnetId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tia-scenarios', selectedScenario?.id, 'fragnets'] });
+    }
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/tia-scenarios/${selectedScenario!.id}/analyze`, {});
+      return response.json() as Promise<TiaResult>;
+    },
+    onSuccess: (analysis) => {
+      queryClient.setQueryData(['/api/tia-scenarios', selectedScenario?.id, 'result'], analysis);
+      toast({
+        title: "Analysis Complete",
+        description: `Net impact: ${analysis.netImpactDays ?? 0} day(s)`
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to analyze scenario.", variant: "destructive" });
+    }
+  });
+
+  const resetFragnetForm = () => {
+    setFragnetName("");
+    setFragnetDescription("");
+    setFragnetActivities([emptyFragnetActivity(0)]);
+    setPredecessorId("");
+    setSuccessorId("");
+    setPredecessorType("FS");
+    setSuccessorType("FS");
+  };
+
+  const updateFragnetActivity = (index: number, updates: Partial<FragnetActivity>) => {
+    setFragnetActivities(prev => prev.map((activity, i) => i === index ? { ...activity, ...updates } : activity));
+  };
+
+  const activityLabel = (id: string) => {
+    const activity = activities.find(a => a.id === id);
+    return activity ? `${activity.activityId} - ${activity.name}` : id;
+  };
+
+  const isFragnetValid = fragnetName.trim() &&
+    fragnetActivities.every(a => a.activityId.trim() && a.name.trim()) &&
+    (predecessorId || successorId);
+
+  const criticalPathChanges = result?.criticalPathChanges as CriticalPathChanges | null | undefined;
+  const floatErosion = (result?.floatErosion as FloatErosionEntry[] | null) || [];
+  const affectedMilestones = (result?.affectedMilestones as MilestoneImpact[] | null) || [];
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -17,30 +249,437 @@ export default function TIAManager({ projectId, activities, relationships }: TIA
           <div className="flex items-center space-x-2">
             <AlertTriangle className="w-5 h-5" />
             <span>Time Impact Analysis</span>
+            <Badge variant="outline">{scenarios.length} Scenario{scenarios.length !== 1 ? 's' : ''}</Badge>
           </div>
-          <Button size="sm" data-testid="button-new-tia">
+          <Button size="sm" onClick={() => setIsScenarioOpen(true)} data-testid="button-new-tia">
             <Plus className="w-4 h-4 mr-2" />
             New TIA Scenario
           </Button>
         </CardTitle>
       </CardHeader>
-      <CardContent>
-        <div className="text-center text-gray-500 py-12">
-          <AlertTriangle className="w-16 h-16 mx-auto mb-4 opacity-50" />
-          <h3 className="text-lg font-medium mb-2">Time Impact Analysis</h3>
-          <p className="text-sm mb-4">Schedule impact analysis tools coming soon</p>
-          <div className="text-sm text-left max-w-md mx-auto space-y-2">
-            <p>Features will include:</p>
-            <ul className="list-disc pl-4 space-y-1">
-              <li>What-if scenario modeling</li>
-              <li>Delay impact calculations</li>
-              <li>Critical path analysis</li>
-              <li>Schedule compression studies</li>
-              <li>Risk mitigation planning</li>
-            </ul>
+      <CardContent className="space-y-6">
+        {scenarios.length === 0 ? (
+          <div className="text-center text-gray-500 py-12">
+            <AlertTriangle className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No TIA scenarios yet</h3>
+            <p className="text-sm">
+              Create a scenario, add a fragnet for the delay event, and analyze its impact on the
+              {" "}{activities.length} activities and {relationships.length} relationships in this schedule.
+            </p>
           </div>
-        </div>
+        ) : (
+          <>
+            {/* Scenario selection */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Label>Scenario:</Label>
+                <Select value={selectedScenario?.id} onValueChange={setSelectedScenarioId}>
+                  <SelectTrigger className="w-72" data-testid="select-tia-scenario">
+                    <SelectValue placeholder="Select scenario" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scenarios.map(scenario => (
+                      <SelectItem key={scenario.id} value={scenario.id}>
+                        {scenario.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedScenario && (
+                  <div className="flex items-center space-x-1 text-sm text-gray-500">
+                    <Calendar className="w-4 h-4" />
+                    <span>Data date {new Date(selectedScenario.dataDate).toLocaleDateString()}</span>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsFragnetOpen(true)}
+                  data-testid="button-add-fragnet"
+                >
+                  <GitBranch className="w-4 h-4 mr-2" />
+                  Add Fragnet
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => analyzeMutation.mutate()}
+                  disabled={fragnets.length === 0 || analyzeMutation.isPending}
+                  data-testid="button-analyze-tia"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  {analyzeMutation.isPending ? "Analyzing..." : "Analyze Impact"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => selectedScenario && deleteScenarioMutation.mutate(selectedScenario.id)}
+                  data-testid="button-delete-tia"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Fragnets */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Fragnets</h4>
+              {fragnets.length === 0 && (
+                <p className="text-sm text-gray-500">No fragnets in this scenario. Add one to model the delay event.</p>
+              )}
+              {fragnets.map(fragnet => {
+                const fragnetActs = (fragnet.activities as FragnetActivity[] | null) || [];
+                const links = (fragnet.linkedActivities as FragnetLink[] | null) || [];
+                return (
+                  <div
+                    key={fragnet.id}
+                    className="flex items-start justify-between p-3 rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800/50"
+                  >
+                    <div className="space-y-1">
+                      <div className="font-medium">{fragnet.name}</div>
+                      {fragnet.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{fragnet.description}</p>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {fragnetActs.map(a => `${a.activityId} (${a.originalDuration}d)`).join(' → ')}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {links.map(link => link.direction === "predecessor"
+                          ? `After ${activityLabel(link.activityId)} (${link.type})`
+                          : `Before ${activityLabel(link.activityId)} (${link.type})`
+                        ).join(' · ')}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => deleteFragnetMutation.mutate(fragnet.id)}
+                      data-testid={`button-delete-fragnet-${fragnet.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            {/* Results */}
+            {result ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-900">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Unimpacted Finish</div>
+                    <div className="text-lg font-semibold">
+                      {result.unimpactedFinishDate ? new Date(result.unimpactedFinishDate).toLocaleDateString() : '—'}
+                    </div>
+                  </div>
+                  <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-900">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Impacted Finish</div>
+                    <div className="text-lg font-semibold">
+                      {result.impactedFinishDate ? new Date(result.impactedFinishDate).toLocaleDateString() : '—'}
+                    </div>
+                  </div>
+                  <div className={`p-4 rounded-lg ${
+                    (result.netImpactDays || 0) > 0
+                      ? 'bg-red-50 dark:bg-red-950/20'
+                      : 'bg-green-50 dark:bg-green-950/20'
+                  }`}>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Net Impact</div>
+                    <div className="flex items-center space-x-1 text-lg font-semibold">
+                      <TrendingUp className="w-4 h-4" />
+                      <span>{result.netImpactDays ?? 0} calendar day(s)</span>
+                    </div>
+                  </div>
+                </div>
+
+                {criticalPathChanges && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">
+                        Newly Critical ({criticalPathChanges.added.length})
+                      </h4>
+                      <div className="flex flex-wrap gap-1">
+                        {criticalPathChanges.added.map(a => (
+                          <Badge key={a.activityId} variant={a.isFragnet ? "destructive" : "outline"}>
+                            {a.activityId}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">
+                        No Longer Critical ({criticalPathChanges.removed.length})
+                      </h4>
+                      <div className="flex flex-wrap gap-1">
+                        {criticalPathChanges.removed.map(a => (
+                          <Badge key={a.activityId} variant="secondary">{a.activityId}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {affectedMilestones.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Affected Milestones</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Milestone</TableHead>
+                          <TableHead>Unimpacted</TableHead>
+                          <TableHead>Impacted</TableHead>
+                          <TableHead>Slip</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {affectedMilestones.map(m => (
+                          <TableRow key={m.activityId}>
+                            <TableCell>{m.activityId} - {m.name}</TableCell>
+                            <TableCell>{m.unimpactedFinish}</TableCell>
+                            <TableCell>{m.impactedFinish}</TableCell>
+                            <TableCell className="text-red-600">{m.slipDays}d</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Float Erosion ({floatErosion.length})</h4>
+                  {floatErosion.length === 0 ? (
+                    <p className="text-sm text-gray-500">No float was consumed by this scenario.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Activity</TableHead>
+                          <TableHead>Unimpacted TF</TableHead>
+                          <TableHead>Impacted TF</TableHead>
+                          <TableHead>Eroded</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {floatErosion.map(entry => (
+                          <TableRow key={entry.activityId}>
+                            <TableCell>{entry.activityId} - {entry.name}</TableCell>
+                            <TableCell>{entry.unimpactedFloat}d</TableCell>
+                            <TableCell className={entry.impactedFloat < 0 ? "text-red-600" : ""}>
+                              {entry.impactedFloat}d
+                            </TableCell>
+                            <TableCell>{entry.erosion}d</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Analyzed {new Date(result.analysisDate).toLocaleString()}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-4">
+                This scenario has not been analyzed yet.
+              </p>
+            )}
+          </>
+        )}
       </CardContent>
+
+      {/* New Scenario Dialog */}
+      <Dialog open={isScenarioOpen} onOpenChange={setIsScenarioOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New TIA Scenario</DialogTitle>
+            <DialogDescription>
+              Impacted-as-planned analysis of one or more delay events at a data date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="tia-name">Scenario Name</Label>
+              <Input
+                id="tia-name"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder="e.g., RFI 042 Foundation Redesign"
+                data-testid="input-tia-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tia-data-date">Data Date</Label>
+              <Input
+                id="tia-data-date"
+                type="date"
+                value={scenarioDataDate}
+                onChange={(e) => setScenarioDataDate(e.target.value)}
+                data-testid="input-tia-data-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tia-description">Description (Optional)</Label>
+              <Textarea
+                id="tia-description"
+                value={scenarioDescription}
+                onChange={(e) => setScenarioDescription(e.target.value)}
+                data-testid="textarea-tia-description"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsScenarioOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => createScenarioMutation.mutate()}
+                disabled={!scenarioName.trim() || !scenarioDataDate || createScenarioMutation.isPending}
+                data-testid="button-confirm-create-tia"
+              >
+                {createScenarioMutation.isPending ? "Creating..." : "Create Scenario"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Fragnet Dialog */}
+      <Dialog open={isFragnetOpen} onOpenChange={(open) => { setIsFragnetOpen(open); if (!open) resetFragnetForm(); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add Fragnet</DialogTitle>
+            <DialogDescription>
+              Activities are chained finish-to-start and tied into the schedule at the selected activities.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="fragnet-name">Fragnet Name</Label>
+                <Input
+                  id="fragnet-name"
+                  value={fragnetName}
+                  onChange={(e) => setFragnetName(e.target.value)}
+                  placeholder="e.g., Redesign and resubmit"
+                  data-testid="input-fragnet-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fragnet-description">Description</Label>
+                <Input
+                  id="fragnet-description"
+                  value={fragnetDescription}
+                  onChange={(e) => setFragnetDescription(e.target.value)}
+                  data-testid="input-fragnet-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fragnet Activities</Label>
+              {fragnetActivities.map((activity, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-3"
+                    value={activity.activityId}
+                    onChange={(e) => updateFragnetActivity(index, { activityId: e.target.value })}
+                    placeholder="ID"
+                    data-testid={`input-fragnet-activity-id-${index}`}
+                  />
+                  <Input
+                    className="col-span-6"
+                    value={activity.name}
+                    onChange={(e) => updateFragnetActivity(index, { name: e.target.value })}
+                    placeholder="Activity name"
+                    data-testid={`input-fragnet-activity-name-${index}`}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={0}
+                    value={activity.originalDuration}
+                    onChange={(e) => updateFragnetActivity(index, { originalDuration: Number(e.target.value) || 0 })}
+                    data-testid={`input-fragnet-activity-duration-${index}`}
+                  />
+                  <Button
+                    className="col-span-1"
+                    size="sm"
+                    variant="ghost"
+                    disabled={fragnetActivities.length === 1}
+                    onClick={() => setFragnetActivities(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setFragnetActivities(prev => [...prev, emptyFragnetActivity(prev.length)])}
+                data-testid="button-add-fragnet-activity"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Activity
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Predecessor (existing activity)</Label>
+                <Select value={predecessorId} onValueChange={setPredecessorId}>
+                  <SelectTrigger data-testid="select-fragnet-predecessor">
+                    <SelectValue placeholder="Select predecessor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activities.map(a => (
+                      <SelectItem key={a.id} value={a.id}>{a.activityId} - {a.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={predecessorType} onValueChange={(v) => setPredecessorType(v as RelationshipType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(["FS", "SS", "FF", "SF"] as const).map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Successor (existing activity)</Label>
+                <Select value={successorId} onValueChange={setSuccessorId}>
+                  <SelectTrigger data-testid="select-fragnet-successor">
+                    <SelectValue placeholder="Select successor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activities.map(a => (
+                      <SelectItem key={a.id} value={a.id}>{a.activityId} - {a.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={successorType} onValueChange={(v) => setSuccessorType(v as RelationshipType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(["FS", "SS", "FF", "SF"] as const).map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsFragnetOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => createFragnetMutation.mutate()}
+                disabled={!isFragnetValid || createFragnetMutation.isPending}
+                data-testid="button-confirm-add-fragnet"
+              >
+                {createFragnetMutation.isPending ? "Adding..." : "Add Fragnet"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ScheduleVersion } from "@shared/schema";
+import { History, Save, RotateCcw, GitCompare, ArrowRight } from "lucide-react";
+
+interface VersionManagerProps {
+  projectId: string;
+}
+
+interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface RelationshipDiff {
+  predecessorActivityId: string;
+  successorActivityId: string;
+  type: string;
+  lag: number;
+  oldType?: string;
+  oldLag?: number;
+}
+
+interface VersionComparison {
+  from: { id: string; versionNumber: number; versionName: string | null };
+  to: { id: string; versionNumber: number | null; versionName: string | null };
+  addedActivities: { activityId: string; name: string }[];
+  deletedActivities: { activityId: string; name: string }[];
+  modifiedActivities: { activityId: string; name: string; changes: FieldChange[] }[];
+  addedRelationships: RelationshipDiff[];
+  removedRelationships: RelationshipDiff[];
+  changedRelationships: RelationshipDiff[];
+  finishMovement: { oldFinish: string | null; newFinish: string | null; days: number };
+}
+
+interface ChangesSummary {
+  activitiesAdded: number;
+  activitiesDeleted: number;
+  activitiesModified: number;
+  relationshipsAdded: number;
+  relationshipsRemoved: number;
+  relationshipsChanged: number;
+  finishMovementDays: number;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+const formatRelationship = (rel: RelationshipDiff) =>
+  `${rel.predecessorActivityId} → ${rel.successorActivityId} (${rel.type}${rel.lag ? ` ${rel.lag > 0 ? '+' : ''}${rel.lag}d` : ''})`;
+
+export default function VersionManager({ projectId }: VersionManagerProps) {
+  const { toast } = useToast();
+  const [versionName, setVersionName] = useState("");
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("current");
+
+  const { data: versions = [] } = useQuery<ScheduleVersion[]>({
+    queryKey: ['/api/projects', projectId, 'versions'],
+    staleTime: 0
+  });
+
+  const { data: comparison, isFetching: isComparing } = useQuery<VersionComparison>({
+    queryKey: ['/api/projects', projectId, 'versions', 'compare', fromId, toId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const response = await fetch(`/api/projects/${projectId}/versions/compare?${params.toString()}`, {
+        credentials: "include"
+      });
+      if (!response.ok) throw new Error('Failed to compare versions');
+      return response.json();
+    },
+    enabled: !!fromId,
+    staleTime: 0
+  });
+
+  const saveVersionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/versions`, {
+        versionName: versionName || null
+      });
+      return response.json() as Promise<ScheduleVersion>;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'versions'] });
+      setVersionName("");
+      toast({ title: "Version Saved", description: `Saved version ${version.versionNumber}.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save schedule version.", variant: "destructive" });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      await apiRequest("POST", `/api/versions/${versionId}/restore`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId] });
+      toast({
+        title: "Version Restored",
+        description: "The previous schedule was auto-saved and can be restored again."
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore schedule version.", variant: "destructive" });
+    }
+  });
+
+  const versionLabel = (version: ScheduleVersion) =>
+    `v${version.versionNumber}${version.versionName ? ` - ${version.versionName}` : ''}`;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <History className="w-5 h-5" />
+              <span>Schedule Versions</span>
+              <Badge variant="outline">{versions.length}</Badge>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Input
+                className="w-64"
+                value={versionName}
+                onChange={(e) => setVersionName(e.target.value)}
+                placeholder="Version name (optional)"
+                data-testid="input-version-name"
+              />
+              <Button
+                size="sm"
+                onClick={() => saveVersionMutation.mutate()}
+                disabled={saveVersionMutation.isPending}
+                data-testid="button-save-version"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save Version
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              No versions saved yet. Save a version to track and compare schedule changes.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Changes from Previous</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map(version => {
+                  const summary = version.changesSummary as ChangesSummary | null;
+                  return (
+                    <TableRow key={version.id}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{versionLabel(version)}</span>
+                          {version.isAutoSave && <Badge variant="secondary">Auto-save</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500">
+                        {new Date(version.createdAt).toLocaleString()} by {version.createdBy}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {summary ? (
+                          <span>
+                            +{summary.activitiesAdded} / -{summary.activitiesDeleted} / ~{summary.activitiesModified} activities,
+                            {" "}finish {summary.finishMovementDays > 0 ? '+' : ''}{summary.finishMovementDays}d
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setFromId(version.id)}
+                          data-testid={`button-compare-version-${version.id}`}
+                        >
+                          <GitCompare className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => restoreMutation.mutate(version.id)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-version-${version.id}`}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {versions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <GitCompare className="w-5 h-5" />
+              <span>Compare Versions</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-4">
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger className="w-64" data-testid="select-compare-from">
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(v => <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="w-4 h-4 mt-6 text-gray-400" />
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger className="w-64" data-testid="select-compare-to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current schedule</SelectItem>
+                    {versions.map(v => <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!fromId && (
+              <p className="text-sm text-gray-500">Select a version to compare against.</p>
+            )}
+            {isComparing && <p className="text-sm text-gray-500">Comparing...</p>}
+
+            {comparison && !isComparing && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Project Finish</div>
+                    <div className="text-sm font-semibold">
+                      {formatValue(comparison.finishMovement.oldFinish)} → {formatValue(comparison.finishMovement.newFinish)}
+                    </div>
+                    <div className={`text-sm ${comparison.finishMovement.days > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {comparison.finishMovement.days > 0 ? '+' : ''}{comparison.finishMovement.days} day(s)
+                    </div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-green-50 dark:bg-green-950/20">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Added</div>
+                    <div className="text-lg font-semibold">{comparison.addedActivities.length}</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-red-50 dark:bg-red-950/20">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Deleted</div>
+                    <div className="text-lg font-semibold">{comparison.deletedActivities.length}</div>
+                  </div>
+                  <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-950/20">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Modified</div>
+                    <div className="text-lg font-semibold">{comparison.modifiedActivities.length}</div>
+                  </div>
+                </div>
+
+                {(comparison.addedActivities.length > 0 || comparison.deletedActivities.length > 0) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Added Activities</h4>
+                      {comparison.addedActivities.map(a => (
+                        <div key={a.activityId} className="text-sm text-green-700 dark:text-green-400">
+                          + {a.activityId} - {a.name}
+                        </div>
+                      ))}
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Deleted Activities</h4>
+                      {comparison.deletedActivities.map(a => (
+                        <div key={a.activityId} className="text-sm text-red-700 dark:text-red-400">
+                          - {a.activityId} - {a.name}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {comparison.modifiedActivities.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Modified Activities</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Activity</TableHead>
+                          <TableHead>Field</TableHead>
+                          <TableHead>{comparison.from.versionName || `v${comparison.from.versionNumber}`}</TableHead>
+                          <TableHead>
+                            {comparison.to.versionName || `v${comparison.to.versionNumber}`}
+                          </TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.modifiedActivities.flatMap(activity =>
+                          activity.changes.map((change, index) => (
+                            <TableRow key={`${activity.activityId}-${change.field}`}>
+                              <TableCell className="font-medium">
+                                {index === 0 ? `${activity.activityId} - ${activity.name}` : ''}
+                              </TableCell>
+                              <TableCell className="text-gray-500">{change.field}</TableCell>
+                              <TableCell className="line-through text-gray-400">{formatValue(change.oldValue)}</TableCell>
+                              <TableCell>{formatValue(change.newValue)}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {(comparison.addedRelationships.length > 0 ||
+                  comparison.removedRelationships.length > 0 ||
+                  comparison.changedRelationships.length > 0) && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Relationship Changes</h4>
+                    <div className="space-y-1 text-sm">
+                      {comparison.addedRelationships.map(rel => (
+                        <div key={`added-${rel.predecessorActivityId}-${rel.successorActivityId}`} className="text-green-700 dark:text-green-400">
+                          + {formatRelationship(rel)}
+                        </div>
+                      ))}
+                      {comparison.removedRelationships.map(rel => (
+                        <div key={`removed-${rel.predecessorActivityId}-${rel.successorActivityId}`} className="text-red-700 dark:text-red-400">
+                          - {formatRelationship(rel)}
+                        </div>
+                      ))}
+                      {comparison.changedRelationships.map(rel => (
+                        <div key={`changed-${rel.predecessorActivityId}-${rel.successorActivityId}`} className="text-blue-700 dark:text-blue-400">
+                          ~ {rel.predecessorActivityId} → {rel.successorActivityId}: {rel.oldType} {rel.oldLag}d → {rel.type} {rel.lag}d
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
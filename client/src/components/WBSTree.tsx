@@ -1,7 +1,22 @@
+import { useMemo, useState, type DragEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { Wbs, Activity } from "@shared/schema";
-import { Users, Plus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Wbs, Activity, WbsRollup, WbsRollupSettings } from "@shared/schema";
+import { Users, Plus, ChevronRight, ChevronDown, GripVertical, Settings2, FileText } from "lucide-react";
 
 interface WBSTreeProps {
   wbs: Wbs[];
@@ -9,7 +24,291 @@ interface WBSTreeProps {
   projectId: string;
 }
 
+// What is being dragged, and where it would land
+type DragItem = { kind: "wbs" | "activity"; id: string };
+type DropTarget = { wbsId: string | null; placement: "before" | "inside" };
+
+const formatCost = (value: number | null) =>
+  value === null ? "-" : value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+function RollupSettingsDialog({ node, settings, onClose }: {
+  node: Wbs;
+  settings: WbsRollupSettings;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<WbsRollupSettings>(settings);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/wbs/${node.id}`, { rollupSettings: draft });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', node.projectId, 'wbs'] });
+      toast({ title: "Rollup settings saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save rollup settings", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Rollup Settings</DialogTitle>
+          <DialogDescription>{node.code} {node.name}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Weight Percent Complete By</Label>
+            <Select value={draft.progressWeighting}
+              onValueChange={(value) => setDraft({ ...draft, progressWeighting: value as WbsRollupSettings["progressWeighting"] })}>
+              <SelectTrigger data-testid="select-wbs-weighting">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Duration">Original duration</SelectItem>
+                <SelectItem value="Cost">Budgeted cost</SelectItem>
+                <SelectItem value="Equal">Equal weight per activity</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="wbs-include-children">Include child WBS nodes</Label>
+            <Switch id="wbs-include-children" checked={draft.includeChildren}
+              onCheckedChange={(includeChildren) => setDraft({ ...draft, includeChildren })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="wbs-rollup-costs">Roll up budgeted and actual cost</Label>
+            <Switch id="wbs-rollup-costs" checked={draft.rollupCosts}
+              onCheckedChange={(rollupCosts) => setDraft({ ...draft, rollupCosts })} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-rollup">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function WBSTree({ wbs, activities, projectId }: WBSTreeProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [showActivities, setShowActivities] = useState(true);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [newOpen, setNewOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newParentId, setNewParentId] = useState<string>("root");
+  const [settingsNode, setSettingsNode] = useState<Wbs | null>(null);
+
+  const { data: rollups = [] } = useQuery<WbsRollup[]>({
+    queryKey: ['/api/projects', projectId, 'wbs', 'rollup']
+  });
+  const rollupById = useMemo(() => new Map(rollups.map(r => [r.wbsId, r])), [rollups]);
+
+  const childrenOf = useMemo(() => {
+    const map = new Map<string | null, Wbs[]>();
+    const ids = new Set(wbs.map(w => w.id));
+    wbs.forEach(node => {
+      const parentId = node.parentId && ids.has(node.parentId) ? node.parentId : null;
+      map.set(parentId, [...(map.get(parentId) ?? []), node]);
+    });
+    map.forEach(list => list.sort((a, b) => a.sequenceNumber - b.sequenceNumber));
+    return map;
+  }, [wbs]);
+
+  const activitiesOf = useMemo(() => {
+    const map = new Map<string, Activity[]>();
+    activities
+      .filter(a => a.wbsId && a.type !== "WBSSummary")
+      .forEach(a => map.set(a.wbsId!, [...(map.get(a.wbsId!) ?? []), a]));
+    map.forEach(list => list.sort((a, b) => a.activityId.localeCompare(b.activityId)));
+    return map;
+  }, [activities]);
+  const unassigned = activities.filter(a => !a.wbsId && a.type !== "WBSSummary");
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'wbs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'activities'] });
+  };
+
+  const moveWbsMutation = useMutation({
+    mutationFn: async ({ id, parentId, position }: { id: string; parentId: string | null; position?: number }) => {
+      await apiRequest("POST", `/api/wbs/${id}/move`, { parentId, position });
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to move WBS", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const moveActivityMutation = useMutation({
+    mutationFn: async ({ wbsId, activityIds }: { wbsId: string; activityIds: string[] }) => {
+      await apiRequest("POST", `/api/wbs/${wbsId}/activities`, { activityIds });
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to move activity", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const parent = wbs.find(w => w.id === newParentId) ?? null;
+      const siblings = childrenOf.get(parent?.id ?? null) ?? [];
+      const sequenceNumber = siblings.length + 1;
+      await apiRequest("POST", `/api/projects/${projectId}/wbs`, {
+        parentId: parent?.id ?? null,
+        code: parent ? `${parent.code}.${sequenceNumber}` : String(sequenceNumber),
+        name: newName.trim(),
+        level: parent ? parent.level + 1 : 1,
+        sequenceNumber
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      setNewOpen(false);
+      setNewName("");
+      toast({ title: "WBS created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create WBS", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, wbsId: string | null) => {
+    if (!dragItem) return;
+    event.preventDefault();
+    // Nodes dropped on the top quarter of a row go before it, elsewhere inside it
+    const rect = event.currentTarget.getBoundingClientRect();
+    const placement = dragItem.kind === "wbs" && wbsId && event.clientY < rect.top + rect.height / 4 ? "before" : "inside";
+    if (dropTarget?.wbsId !== wbsId || dropTarget?.placement !== placement) {
+      setDropTarget({ wbsId, placement });
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const item = dragItem;
+    const target = dropTarget;
+    setDragItem(null);
+    setDropTarget(null);
+    if (!item || !target) return;
+
+    if (item.kind === "activity") {
+      if (target.wbsId) moveActivityMutation.mutate({ wbsId: target.wbsId, activityIds: [item.id] });
+      return;
+    }
+    if (item.id === target.wbsId) return;
+    if (target.placement === "inside") {
+      moveWbsMutation.mutate({ id: item.id, parentId: target.wbsId });
+    } else {
+      const targetNode = wbs.find(w => w.id === target.wbsId)!;
+      const parentId = targetNode.parentId && wbs.some(w => w.id === targetNode.parentId) ? targetNode.parentId : null;
+      const siblings = (childrenOf.get(parentId) ?? []).filter(w => w.id !== item.id);
+      moveWbsMutation.mutate({ id: item.id, parentId, position: siblings.findIndex(w => w.id === targetNode.id) });
+    }
+  };
+
+  const renderActivity = (activity: Activity, depth: number) => (
+    <div
+      key={activity.id}
+      draggable
+      onDragStart={() => setDragItem({ kind: "activity", id: activity.id })}
+      onDragEnd={() => { setDragItem(null); setDropTarget(null); }}
+      className="grid grid-cols-[1fr_repeat(6,90px)] items-center gap-2 py-1 text-xs text-muted-foreground hover:bg-muted/50 cursor-grab"
+      style={{ paddingLeft: depth * 20 + 28 }}
+      data-testid={`wbs-activity-${activity.activityId}`}
+    >
+      <div className="flex items-center gap-2 truncate">
+        <FileText className="w-3 h-3 shrink-0" />
+        <span className="font-mono">{activity.activityId}</span>
+        <span className="truncate">{activity.name}</span>
+      </div>
+      <span>{(activity.actualStart ?? activity.earlyStart)?.slice(0, 10) ?? "-"}</span>
+      <span>{(activity.actualFinish ?? activity.earlyFinish)?.slice(0, 10) ?? "-"}</span>
+      <span className="text-right">{activity.originalDuration ?? 0}d</span>
+      <span className="text-right">{formatCost(activity.budgetedCost)}</span>
+      <span className="text-right">{activity.percentComplete ?? 0}%</span>
+      <span className="text-right">{activity.totalFloat ?? "-"}</span>
+    </div>
+  );
+
+  const renderNode = (node: Wbs, depth: number): JSX.Element => {
+    const children = childrenOf.get(node.id) ?? [];
+    const nodeActivities = activitiesOf.get(node.id) ?? [];
+    const expanded = !collapsed.has(node.id);
+    const rollup = rollupById.get(node.id);
+    const isTarget = dropTarget?.wbsId === node.id;
+
+    return (
+      <div key={node.id}>
+        <div
+          draggable
+          onDragStart={(e) => { e.stopPropagation(); setDragItem({ kind: "wbs", id: node.id }); }}
+          onDragEnd={() => { setDragItem(null); setDropTarget(null); }}
+          onDragOver={(e) => handleDragOver(e, node.id)}
+          onDrop={handleDrop}
+          className={`grid grid-cols-[1fr_repeat(6,90px)] items-center gap-2 py-1.5 text-sm border-b hover:bg-muted/50 ${
+            isTarget && dropTarget?.placement === "inside" ? "bg-primary/10" : ""
+          } ${isTarget && dropTarget?.placement === "before" ? "border-t-2 border-t-primary" : ""}`}
+          style={{ paddingLeft: depth * 20 }}
+          data-testid={`wbs-node-${node.code}`}
+        >
+          <div className="flex items-center gap-1 min-w-0">
+            <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab shrink-0" />
+            <button className="shrink-0" onClick={() => toggle(node.id)} aria-label={expanded ? "Collapse" : "Expand"}>
+              {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+            <span className="font-mono text-xs text-muted-foreground">{node.code}</span>
+            <span className="font-medium truncate">{node.name}</span>
+            {rollup?.isCritical && <Badge variant="destructive" className="text-[10px] px-1 py-0">Critical</Badge>}
+            <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto shrink-0" onClick={() => setSettingsNode(node)}
+              data-testid={`button-wbs-settings-${node.code}`}>
+              <Settings2 className="w-3 h-3" />
+            </Button>
+          </div>
+          <span className="text-xs">{rollup?.start ?? "-"}</span>
+          <span className="text-xs">{rollup?.finish ?? "-"}</span>
+          <span className="text-xs text-right">{rollup ? `${rollup.duration}d` : "-"}</span>
+          <span className="text-xs text-right" title={rollup ? `Actual ${formatCost(rollup.actualCost)}` : undefined}>
+            {formatCost(rollup?.budgetedCost ?? null)}
+          </span>
+          <div className="flex items-center gap-1">
+            <Progress value={rollup?.percentComplete ?? 0} className="h-2" />
+            <span className="text-xs w-10 text-right">{rollup?.percentComplete ?? 0}%</span>
+          </div>
+          <span className="text-xs text-right">{rollup?.totalFloat ?? "-"}</span>
+        </div>
+        {expanded && (
+          <>
+            {children.map(child => renderNode(child, depth + 1))}
+            {showActivities && nodeActivities.map(activity => renderActivity(activity, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const settingsRollup = settingsNode && rollupById.get(settingsNode.id);
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -18,29 +317,108 @@ export default function WBSTree({ wbs, activities, projectId }: WBSTreeProps) {
             <Users className="w-5 h-5" />
             <span>Work Breakdown Structure</span>
           </div>
-          <Button size="sm" data-testid="button-new-wbs">
-            <Plus className="w-4 h-4 mr-2" />
-            New WBS
-          </Button>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-sm font-normal">
+              <Switch id="wbs-show-activities" checked={showActivities} onCheckedChange={setShowActivities} />
+              <Label htmlFor="wbs-show-activities">Activities</Label>
+            </div>
+            <Button size="sm" onClick={() => setNewOpen(true)} data-testid="button-new-wbs">
+              <Plus className="w-4 h-4 mr-2" />
+              New WBS
+            </Button>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="text-center text-gray-500 py-12">
-          <Users className="w-16 h-16 mx-auto mb-4 opacity-50" />
-          <h3 className="text-lg font-medium mb-2">WBS Structure</h3>
-          <p className="text-sm mb-4">Hierarchical project breakdown coming soon</p>
-          <div className="text-sm text-left max-w-md mx-auto space-y-2">
-            <p>Features will include:</p>
-            <ul className="list-disc pl-4 space-y-1">
-              <li>Hierarchical tree view</li>
-              <li>Drag-and-drop organization</li>
-              <li>Activity assignments</li>
-              <li>Cost and progress rollups</li>
-              <li>Export to various formats</li>
-            </ul>
+        {wbs.length === 0 ? (
+          <div className="text-center text-gray-500 py-12">
+            <Users className="w-16 h-16 mx-auto mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No WBS yet</h3>
+            <p className="text-sm">Create the top-level WBS node to start organizing activities.</p>
           </div>
-        </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="min-w-[900px]">
+              <div className="grid grid-cols-[1fr_repeat(6,90px)] gap-2 pb-2 border-b text-xs font-medium text-muted-foreground">
+                <span>WBS</span>
+                <span>Start</span>
+                <span>Finish</span>
+                <span className="text-right">Duration</span>
+                <span className="text-right">Budget</span>
+                <span>Progress</span>
+                <span className="text-right">Total Float</span>
+              </div>
+              {(childrenOf.get(null) ?? []).map(node => renderNode(node, 0))}
+
+              {/* Dropping here moves a node to the top level */}
+              {dragItem?.kind === "wbs" && (
+                <div
+                  onDragOver={(e) => handleDragOver(e, null)}
+                  onDrop={handleDrop}
+                  className={`mt-2 rounded border-2 border-dashed p-2 text-center text-xs text-muted-foreground ${
+                    dropTarget?.wbsId === null ? "border-primary bg-primary/10" : ""
+                  }`}
+                >
+                  Drop here to move to the top level
+                </div>
+              )}
+
+              {showActivities && unassigned.length > 0 && (
+                <div className="mt-4">
+                  <div className="text-xs font-medium text-muted-foreground mb-1">
+                    Unassigned activities - drag onto a WBS node
+                  </div>
+                  {unassigned.map(activity => renderActivity(activity, 0))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
+
+      <Dialog open={newOpen} onOpenChange={setNewOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>New WBS</DialogTitle>
+            <DialogDescription>The code is assigned from the node's place in the tree.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="wbs-name">Name</Label>
+              <Input id="wbs-name" value={newName} onChange={(e) => setNewName(e.target.value)} data-testid="input-wbs-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select value={newParentId} onValueChange={setNewParentId}>
+                <SelectTrigger data-testid="select-wbs-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="root">(Top level)</SelectItem>
+                  {[...wbs].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true })).map(node => (
+                    <SelectItem key={node.id} value={node.id}>{node.code} {node.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewOpen(false)}>Cancel</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!newName.trim() || createMutation.isPending}
+              data-testid="button-create-wbs">
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {settingsNode && (
+        <RollupSettingsDialog
+          node={settingsNode}
+          settings={settingsRollup?.settings ?? { progressWeighting: "Duration", includeChildren: true, rollupCosts: true }}
+          onClose={() => setSettingsNode(null)}
+        />
+      )}
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -10,7 +10,7 @@ import { Progress } from "@/components/ui/progress";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
-import type { Project, Activity, Wbs, Relationship, Calendar } from "@shared/schema";
+import type { Project, Activity, Wbs, Relationship, Calendar, NetworkValidationResult } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
@@ -26,21 +26,29 @@ import {
   Target,
   Settings,
   Sparkles,
-  Bot
+  Bot,
+  History,
+  ShieldCheck
 } from "lucide-react";
 import ScheduleGrid from "@/components/ScheduleGrid";
 import GanttChart from "@/components/GanttChart";
+import ResourceHistogram from "@/components/ResourceHistogram";
 import ActivityDialog from "@/components/ActivityDialog";
 import WBSTree from "@/components/WBSTree";
 import CalendarManager from "@/components/CalendarManager";
 import BaselineManager from "@/components/BaselineManager";
 import VarianceTracker from "@/components/VarianceTracker";
 import TIAManager from "@/components/TIAManager";
+import VersionManager from "@/components/VersionManager";
 import ConstraintManager from "@/components/ConstraintManager";
 import ProgressTracker from "@/components/ProgressTracker";
 import ActivityComments from "@/components/ActivityComments";
 import AuditTrail from "@/components/AuditTrail";
 import AIFloatingBubble from "@/components/AIFloatingBubble";
+import ScheduleImportDialog from "@/components/ScheduleImportDialog";
+import SpreadsheetImportDialog from "@/components/SpreadsheetImportDialog";
+import ScheduleExportMenu from "@/components/ScheduleExportMenu";
+import HealthCheckPanel from "@/components/HealthCheckPanel";
 
 export default function ProjectDetail() {
   const { id } = useParams();
@@ -67,11 +75,11 @@ export default function ProjectDetail() {
     queryKey: ["/api/projects", id],
   });
 
-  const { data: activities = [], isLoading: activitiesLoading } = useQuery<Activity[]>({
+  const { data: activities = [], isLoading: activitiesLoading, dataUpdatedAt: activitiesUpdatedAt } = useQuery<Activity[]>({
     queryKey: ["/api/projects", id, "activities"],
   });
 
-  const { data: relationships = [], isLoading: relationshipsLoading } = useQuery<Relationship[]>({
+  const { data: relationships = [], isLoading: relationshipsLoading, dataUpdatedAt: relationshipsUpdatedAt } = useQuery<Relationship[]>({
     queryKey: ["/api/projects", id, "relationships"],
   });
 
@@ -83,23 +91,38 @@ export default function ProjectDetail() {
     queryKey: ["/api/projects", id, "calendars"],
   });
 
+  const { data: networkValidation } = useQuery<NetworkValidationResult>({
+    queryKey: ["/api/projects", id, "network-validation"],
+  });
+
+  // Re-validate the network whenever the activities or logic change
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", id, "network-validation"] });
+  }, [id, activitiesUpdatedAt, relationshipsUpdatedAt]);
+
   // Calculate critical path mutation
   const calculateCriticalPathMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/projects/${id}/calculate-critical-path`, {});
+      // The server calculates to the project's data date
+      const response = await apiRequest("POST", `/api/projects/${id}/calculate-schedule`, {});
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ results }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", id, "activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", id, "relationships"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       toast({
         title: "Critical Path Calculated",
-        description: "The schedule has been recalculated with the latest activity data.",
+        description: `Finish ${results.projectFinish ?? "-"}: ${results.scheduleMetrics.criticalCount} critical of ${results.scheduleMetrics.activityCount} activities` +
+          (results.scheduleMetrics.constraintViolationCount > 0
+            ? `, ${results.scheduleMetrics.constraintViolationCount} constraint violation(s)`
+            : ""),
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to calculate critical path. Please try again.",
+        description: error.message || "Failed to calculate critical path. Please try again.",
         variant: "destructive",
       });
     },
@@ -201,6 +224,9 @@ export default function ProjectDetail() {
               <span className="font-medium text-gray-900 dark:text-gray-100">{project.name}</span>
             </div>
             <div className="flex items-center space-x-2">
+              <ScheduleImportDialog projectId={project.id} />
+              <SpreadsheetImportDialog projectId={project.id} />
+              <ScheduleExportMenu projectId={project.id} />
               <Button 
                 onClick={() => calculateCriticalPathMutation.mutate()}
                 disabled={calculateCriticalPathMutation.isPending}
@@ -336,7 +362,7 @@ export default function ProjectDetail() {
           {/* Main Tabs Interface */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
             <div className="overflow-x-auto">
-              <TabsList className="grid w-full grid-cols-5 lg:grid-cols-9 min-w-fit">
+              <TabsList className="grid w-full grid-cols-5 lg:grid-cols-11 min-w-fit">
                 <TabsTrigger value="schedule" className="flex items-center justify-center gap-1 text-xs lg:text-sm">
                   <BarChart3 className="w-3 h-3 lg:w-4 lg:h-4" />
                   <span className="hidden md:inline">Schedule</span>
@@ -357,10 +383,18 @@ export default function ProjectDetail() {
                   <Target className="w-3 h-3 lg:w-4 lg:h-4" />
                   <span className="hidden md:inline">Baselines</span>
                 </TabsTrigger>
+                <TabsTrigger value="versions" className="flex items-center justify-center gap-1 text-xs lg:text-sm lg:flex hidden">
+                  <History className="w-3 h-3 lg:w-4 lg:h-4" />
+                  <span className="hidden md:inline">Versions</span>
+                </TabsTrigger>
                 <TabsTrigger value="variance" className="flex items-center justify-center gap-1 text-xs lg:text-sm lg:flex hidden">
                   <AlertTriangle className="w-3 h-3 lg:w-4 lg:h-4" />
                   <span className="hidden md:inline">Variance</span>
                 </TabsTrigger>
+                <TabsTrigger value="health" className="flex items-center justify-center gap-1 text-xs lg:text-sm lg:flex hidden">
+                  <ShieldCheck className="w-3 h-3 lg:w-4 lg:h-4" />
+                  <span className="hidden md:inline">Health</span>
+                </TabsTrigger>
                 <TabsTrigger value="tia" className="flex items-center justify-center gap-1 text-xs lg:text-sm lg:flex hidden">
                   <AlertTriangle className="w-3 h-3 lg:w-4 lg:h-4" />
                   <span className="hidden md:inline">TIA</span>
@@ -383,6 +417,7 @@ export default function ProjectDetail() {
                 wbs={wbs}
                 onActivitySelect={handleActivitySelect}
                 onNewActivity={handleNewActivity}
+                networkIssues={networkValidation?.issues}
               />
             </TabsContent>
 
@@ -392,6 +427,10 @@ export default function ProjectDetail() {
                 relationships={relationships}
                 wbs={wbs}
                 onActivitySelect={handleActivitySelect}
+                projectId={id!}
+              />
+              <ResourceHistogram 
+                projectId={id!}
               />
             </TabsContent>
 
@@ -416,6 +455,12 @@ export default function ProjectDetail() {
               />
             </TabsContent>
 
+            <TabsContent value="versions" className="space-y-4">
+              <VersionManager 
+                projectId={id!}
+              />
+            </TabsContent>
+
             <TabsContent value="variance" className="space-y-4">
               <VarianceTracker 
                 projectId={id!}
@@ -423,6 +468,13 @@ export default function ProjectDetail() {
               />
             </TabsContent>
 
+            <TabsContent value="health" className="space-y-4">
+              <HealthCheckPanel 
+                projectId={id!}
+                onActivitySelect={handleActivitySelect}
+              />
+            </TabsContent>
+
             <TabsContent value="tia" className="space-y-4">
               <TIAManager 
                 projectId={id!}
@@ -1,113 +1,129 @@
-import type { Activity, Relationship, Calendar } from "@shared/schema";
+import type {
+  Activity, Relationship, Calendar, Resource, ResourceAssignment, ProgressMethod, ConstraintViolation, FloatPath,
+  RelationshipFloat
+} from "@shared/schema";
+import { WorkCalendar } from "./workCalendar";
 
 // Relationship type definitions
 type RelationshipType = 'FS' | 'SS' | 'FF' | 'SF';
 
+// Calendar a lag is counted on, as in P6's "calendar for scheduling relationship lag" option
+export type LagCalendar = 'predecessor' | 'successor' | '24h';
+
 // Parsed relationship with activity references
-interface ParsedRelationship {
+export interface ParsedRelationship {
+  id?: string; // Relationship record, when parsed from the relationships table
   predecessorId: string;
   successorId: string;
   type: RelationshipType;
   lag: number;
+  lagUnit?: 'days' | 'hours';
 }
 
-// Calendar working day definition
-interface WorkingDay {
-  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
-  isWorking: boolean;
-  hoursPerDay: number;
-}
-
-interface CalendarException {
-  date: string;
-  isWorking: boolean;
-  hoursPerDay?: number;
-}
-
-interface WorkingCalendar {
-  id: string;
-  name: string;
-  workingDays: WorkingDay[];
-  exceptions: CalendarException[];
-  hoursPerDay: number;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Activity with calculated dates
-interface CalculatedActivity extends Activity {
+export interface CalculatedActivity extends Activity {
   calculatedEarlyStart: Date | null;
   calculatedEarlyFinish: Date | null;
   calculatedLateStart: Date | null;
   calculatedLateFinish: Date | null;
-  calculatedTotalFloat: number | null;
+  calculatedTotalFloat: number | null; // Working days on the activity's calendar
   calculatedFreeFloat: number | null;
   calculatedIsCritical: boolean;
+  isLongestPath: boolean; // Driven without a gap through to the project finish
   hasConstraintViolation: boolean;
   constraintViolationMessage?: string;
+  deadlineVariance: number | null; // Working days from early finish to the deadline; negative when missed
+  levelingDelay: number; // Working days the leveling pass moved the activity
+}
+
+// Resource leveling options
+export interface LevelingOptions {
+  priorityField?: keyof Activity; // Tie-breaker after total float and early start
+  levelWithinFloat?: boolean; // Never delay an activity past its late start
+  maxDelayDays?: number; // Safety limit on working days an activity may be delayed
+}
+
+export interface ResourceOverallocation {
+  resourceId: string;
+  resourceCode: string;
+  name: string;
+  maxUnits: number;
+  peakUnits: number;
+  overallocatedDays: number;
+  firstOverallocatedDate: string;
+  lastOverallocatedDate: string;
+}
+
+export interface LevelingResult {
+  activities: CalculatedActivity[];
+  levelingDelays: { id: string; activityId: string; delayDays: number }[];
+  overallocatedBefore: ResourceOverallocation[];
+  overallocatedAfter: ResourceOverallocation[];
+  unresolvedActivities: string[]; // Activities that could not be leveled within the limits
+}
+
+export interface ScheduleMetrics {
+  activityCount: number;
+  completedCount: number;
+  inProgressCount: number;
+  criticalCount: number;
+  negativeFloatCount: number;
+  constraintViolationCount: number;
+  longestPathLength: number; // Working days from project start to finish on the default calendar
+}
+
+export interface CPMResult {
+  activities: CalculatedActivity[];
+  criticalPath: CalculatedActivity[]; // In early start order
+  relationships: RelationshipFloat[];
+  projectStart: Date | null;
+  projectFinish: Date | null;
+  constraintViolations: ConstraintViolation[];
+  metrics: ScheduleMetrics;
 }
 
 /**
  * Advanced CPM Calculator with support for:
  * - All relationship types (FS, SS, FF, SF) with lead/lag
  * - Scheduling constraints (SNET, FNLT, MSO, MFO, etc.)
- * - Work calendars with non-working time
+ * - Deadlines that limit late dates, giving negative float when missed
+ * - Work calendars with working-time ranges, night shifts and partial-day exceptions
+ * - Durations and lags in days or hours, scheduled to the minute
  * - Data date and out-of-sequence progress handling
+ * - Longest path and multiple float paths traced through driving relationships
+ * Day durations are converted with the hours per day of the activity's calendar,
+ * and float is reported in working days of that calendar.
  */
 export class CPMCalculator {
   private activities: Map<string, CalculatedActivity> = new Map();
   private relationships: ParsedRelationship[] = [];
-  private calendars: Map<string, WorkingCalendar> = new Map();
-  private defaultCalendar: WorkingCalendar;
+  private calendars: Map<string, WorkCalendar> = new Map();
+  private defaultCalendar: WorkCalendar;
+  private elapsedCalendar: WorkCalendar;
   private dataDate: Date | null = null;
-  private retainedLogic: boolean = true; // vs Progress Override
+  private progressMethod: ProgressMethod = 'RetainedLogic';
+  private lagCalendar: LagCalendar = 'predecessor';
 
   constructor(
     activities: Activity[], 
     relationships: Relationship[], 
     calendars: Calendar[] = [],
     dataDate?: Date,
-    retainedLogic: boolean = true
+    progressMethod: ProgressMethod = 'RetainedLogic',
+    lagCalendar: LagCalendar = 'predecessor'
   ) {
     this.dataDate = dataDate || null;
-    this.retainedLogic = retainedLogic;
+    this.progressMethod = progressMethod;
+    this.lagCalendar = lagCalendar;
     
-    // Initialize default 5-day work week calendar
-    this.defaultCalendar = {
-      id: 'default',
-      name: 'Standard 5-Day Work Week',
-      workingDays: [
-        { dayOfWeek: 0, isWorking: false, hoursPerDay: 0 }, // Sunday
-        { dayOfWeek: 1, isWorking: true, hoursPerDay: 8 }, // Monday
-        { dayOfWeek: 2, isWorking: true, hoursPerDay: 8 }, // Tuesday
-        { dayOfWeek: 3, isWorking: true, hoursPerDay: 8 }, // Wednesday
-        { dayOfWeek: 4, isWorking: true, hoursPerDay: 8 }, // Thursday
-        { dayOfWeek: 5, isWorking: true, hoursPerDay: 8 }, // Friday
-        { dayOfWeek: 6, isWorking: false, hoursPerDay: 0 }, // Saturday
-      ],
-      exceptions: [],
-      hoursPerDay: 8
-    };
-
-    this.calendars.set('default', this.defaultCalendar);
+    // Standard 5-day work week, 08:00-17:00 with a lunch hour
+    this.defaultCalendar = new WorkCalendar();
+    this.elapsedCalendar = WorkCalendar.allDay();
     
     // Load project calendars
-    calendars.forEach(cal => {
-      // Parse calendar data from JSON fields
-      const standardWorkweek = cal.standardWorkweek 
-        ? (typeof cal.standardWorkweek === 'string' ? JSON.parse(cal.standardWorkweek) : cal.standardWorkweek)
-        : this.defaultCalendar.workingDays;
-      const exceptions = cal.exceptions
-        ? (typeof cal.exceptions === 'string' ? JSON.parse(cal.exceptions) : cal.exceptions)
-        : [];
-      
-      const workingCalendar: WorkingCalendar = {
-        id: cal.id,
-        name: cal.name,
-        workingDays: standardWorkweek,
-        exceptions: exceptions,
-        hoursPerDay: 8
-      };
-      this.calendars.set(cal.id, workingCalendar);
-    });
+    calendars.forEach(cal => this.calendars.set(cal.id, new WorkCalendar(cal)));
 
     // Initialize activities
     activities.forEach(activity => {
@@ -120,7 +136,10 @@ export class CPMCalculator {
         calculatedTotalFloat: null,
         calculatedFreeFloat: null,
         calculatedIsCritical: false,
-        hasConstraintViolation: false
+        isLongestPath: false,
+        hasConstraintViolation: false,
+        deadlineVariance: null,
+        levelingDelay: 0
       };
       this.activities.set(activity.id, calculatedActivity);
     });
@@ -136,10 +155,12 @@ export class CPMCalculator {
     // First, add explicit relationships from the relationships table
     relationships.forEach(rel => {
       this.relationships.push({
+        id: rel.id,
         predecessorId: rel.predecessorId,
         successorId: rel.successorId,
         type: rel.type as RelationshipType || 'FS',
-        lag: rel.lag || 0
+        lag: rel.lag || 0,
+        lagUnit: rel.lagUnit === 'hours' ? 'hours' : 'days'
       });
     });
 
@@ -147,32 +168,46 @@ export class CPMCalculator {
   }
 
   /**
-   * Parse a predecessor string like "A001, A002SS+3, A003FF-1"
+   * Parse a predecessor string like "A001, A002SS+3, A003FF-1".
+   * Entries that cannot be read or name an unknown activity are reported in `errors` when given.
    */
-  private parsePredecessorString(predecessorStr: string, successorId: string, activities: Activity[]): ParsedRelationship[] {
+  public static parsePredecessorString(
+    predecessorStr: string,
+    successorId: string,
+    activities: Pick<Activity, 'id' | 'activityId'>[],
+    errors?: string[]
+  ): ParsedRelationship[] {
     const relationships: ParsedRelationship[] = [];
     const activityMap = new Map(activities.map(a => [a.activityId, a.id]));
     
     // Split by comma and clean up
-    const predecessors = predecessorStr.split(',').map(p => p.trim()).filter(p => p.length > 0);
+    const predecessors = predecessorStr.split(',').map(p => p.replace(/\s+/g, '')).filter(p => p.length > 0);
     
     predecessors.forEach(predStr => {
       // Parse relationship: ActivityID[RelationType][+/-Lag]
       // Examples: A001, A002SS+3, A003FF-1, A004SF, A005FS-2
-      const match = predStr.match(/^([A-Za-z0-9]+)(SS|SF|FF|FS)?([+-]\d+)?$/);
+      // The ID is matched as short as possible so the type is not read as part of it,
+      // unless the whole entry is itself a known activity ID
+      const match: (string | undefined)[] | null = activityMap.has(predStr)
+        ? [predStr, predStr]
+        : predStr.match(/^([A-Za-z0-9._-]+?)(SS|SF|FF|FS)?([+-]\d+(?:\.\d+)?)?d?$/i);
       
       if (match) {
-        const [, activityId, relType, lagStr] = match;
+        const [, activityId = '', relType, lagStr] = match;
         const predecessorId = activityMap.get(activityId);
         
         if (predecessorId) {
           relationships.push({
             predecessorId,
             successorId,
-            type: (relType as RelationshipType) || 'FS',
-            lag: lagStr ? parseInt(lagStr) : 0
+            type: (relType?.toUpperCase() as RelationshipType) || 'FS',
+            lag: lagStr ? parseFloat(lagStr) : 0
           });
+        } else {
+          errors?.push(`Predecessor ${activityId} not found`);
         }
+      } else {
+        errors?.push(`Predecessor "${predStr}" is not in ID[FS|SS|FF|SF][+/-lag] form`);
       }
     });
     
@@ -182,7 +217,7 @@ export class CPMCalculator {
   /**
    * Get the working calendar for an activity
    */
-  private getCalendarForActivity(activity: CalculatedActivity): WorkingCalendar {
+  private getCalendarForActivity(activity: CalculatedActivity): WorkCalendar {
     if (activity.calendarId && this.calendars.has(activity.calendarId)) {
       return this.calendars.get(activity.calendarId)!;
     }
@@ -190,250 +225,255 @@ export class CPMCalculator {
   }
 
   /**
-   * Check if a date is a working day according to the calendar
+   * Remaining work of an activity in working minutes of its calendar
    */
-  private isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
-    const dateStr = date.toISOString().split('T')[0];
-    
-    // Check for exceptions first
-    const exception = calendar.exceptions.find(ex => ex.date === dateStr);
-    if (exception) {
-      return exception.isWorking;
+  private getDurationMinutes(activity: CalculatedActivity): number {
+    let duration = activity.remainingDuration || activity.originalDuration || 0;
+
+    if (activity.type === 'StartMilestone' || activity.type === 'FinishMilestone') {
+      duration = 0; // Milestones have zero duration
+    } else if (activity.type === 'WBSSummary') {
+      // WBS Summary duration calculated from children (handled in post-processing)
+      duration = 0; // Placeholder
+    } else if (activity.type === 'LOE' || activity.type === 'Hammock') {
+      // LOE/Hammock activities can have custom durations or span between activities
+      duration = activity.originalDuration || 1;
     }
-    
-    // Check regular working days
-    const dayOfWeek = date.getDay();
-    const workingDay = calendar.workingDays.find(wd => wd.dayOfWeek === dayOfWeek);
-    return workingDay ? workingDay.isWorking : false;
+
+    return this.toMinutes(duration, activity.durationUnit, this.getCalendarForActivity(activity));
+  }
+
+  private toMinutes(value: number, unit: string | null | undefined, calendar: WorkCalendar): number {
+    return unit === 'hours' ? value * 60 : value * calendar.minutesPerDay;
   }
 
   /**
-   * Add working days to a date according to calendar
+   * Finish of work starting at an instant; zero-duration activities finish where they start
    */
-  private addWorkingDays(startDate: Date, duration: number, calendar: WorkingCalendar): Date {
-    if (duration === 0) return new Date(startDate);
-    
-    let currentDate = new Date(startDate);
-    let daysAdded = 0;
-    
-    // For start milestones and finish milestones, don't add duration
-    if (duration === 0) {
-      return currentDate;
-    }
-    
-    while (daysAdded < duration) {
-      if (this.isWorkingDay(currentDate, calendar)) {
-        daysAdded++;
-      }
-      
-      if (daysAdded < duration) {
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-    }
-    
-    return currentDate;
+  private finishFrom(start: Date, minutes: number, calendar: WorkCalendar): Date {
+    return minutes > 0 ? calendar.addWorkingMinutes(start, minutes) : new Date(start);
   }
 
   /**
-   * Subtract working days from a date according to calendar
+   * Start of work finishing at an instant
    */
-  private subtractWorkingDays(endDate: Date, duration: number, calendar: WorkingCalendar): Date {
-    if (duration === 0) return new Date(endDate);
-    
-    let currentDate = new Date(endDate);
-    let daysSubtracted = 0;
-    
-    while (daysSubtracted < duration) {
-      currentDate.setDate(currentDate.getDate() - 1);
-      if (this.isWorkingDay(currentDate, calendar)) {
-        daysSubtracted++;
-      }
-    }
-    
-    return currentDate;
+  private startFrom(finish: Date, minutes: number, calendar: WorkCalendar): Date {
+    return minutes > 0 ? calendar.addWorkingMinutes(finish, -minutes) : new Date(finish);
+  }
+
+  // Dates stored without a time start at the beginning of the working day...
+  private startOfDay(value: string | Date, calendar: WorkCalendar): Date {
+    return calendar.nextWorkingTime(new Date(Math.floor(new Date(value).getTime() / DAY_MS) * DAY_MS));
+  }
+
+  // ...and finish at the end of it
+  private endOfDay(value: string | Date, calendar: WorkCalendar): Date {
+    return calendar.previousWorkingTime(new Date(Math.floor(new Date(value).getTime() / DAY_MS) * DAY_MS + DAY_MS));
   }
 
   /**
-   * Apply relationship logic to calculate dependent date
+   * Calendar a relationship's lag is counted on
    */
-  private applyRelationship(
-    predecessorActivity: CalculatedActivity,
-    relationship: ParsedRelationship,
-    isForward: boolean
-  ): Date | null {
-    const calendar = this.getCalendarForActivity(predecessorActivity);
-    
+  private getLagCalendar(relationship: ParsedRelationship): WorkCalendar {
+    if (this.lagCalendar === '24h') return this.elapsedCalendar;
+    const activityId = this.lagCalendar === 'successor' ? relationship.successorId : relationship.predecessorId;
+    const activity = this.activities.get(activityId);
+    return activity ? this.getCalendarForActivity(activity) : this.defaultCalendar;
+  }
+
+  /**
+   * Apply relationship logic to calculate dependent date.
+   * Forward: the earliest the successor may start (FS, SS) or finish (FF, SF).
+   * Backward: the latest the predecessor may finish (FS, FF) or start (SS, SF).
+   */
+  private applyRelationship(relationship: ParsedRelationship, isForward: boolean): Date | null {
     let baseDate: Date | null = null;
-    
+
     if (isForward) {
       // Forward pass - calculate early dates
-      switch (relationship.type) {
-        case 'FS': // Finish-to-Start
-          baseDate = predecessorActivity.calculatedEarlyFinish;
-          break;
-        case 'SS': // Start-to-Start
-          baseDate = predecessorActivity.calculatedEarlyStart;
-          break;
-        case 'FF': // Finish-to-Finish
-          baseDate = predecessorActivity.calculatedEarlyFinish;
-          break;
-        case 'SF': // Start-to-Finish
-          baseDate = predecessorActivity.calculatedEarlyStart;
-          break;
-      }
+      const predecessorActivity = this.activities.get(relationship.predecessorId);
+      if (!predecessorActivity) return null;
+      baseDate = relationship.type === 'FS' || relationship.type === 'FF'
+        ? predecessorActivity.calculatedEarlyFinish
+        : predecessorActivity.calculatedEarlyStart;
     } else {
       // Backward pass - calculate late dates
-      switch (relationship.type) {
-        case 'FS': // Finish-to-Start
-          baseDate = predecessorActivity.calculatedLateFinish;
-          break;
-        case 'SS': // Start-to-Start
-          baseDate = predecessorActivity.calculatedLateStart;
-          break;
-        case 'FF': // Finish-to-Finish
-          baseDate = predecessorActivity.calculatedLateFinish;
-          break;
-        case 'SF': // Start-to-Finish
-          baseDate = predecessorActivity.calculatedLateStart;
-          break;
-      }
+      const successorActivity = this.activities.get(relationship.successorId);
+      if (!successorActivity) return null;
+      baseDate = relationship.type === 'FS' || relationship.type === 'SS'
+        ? successorActivity.calculatedLateStart
+        : successorActivity.calculatedLateFinish;
     }
-    
+
     if (!baseDate) return null;
-    
-    // Apply lag
+
+    // Apply lag, moving against the pass direction on the way back
     if (relationship.lag !== 0) {
-      if (relationship.lag > 0) {
-        baseDate = this.addWorkingDays(baseDate, relationship.lag, calendar);
-      } else {
-        baseDate = this.subtractWorkingDays(baseDate, Math.abs(relationship.lag), calendar);
-      }
+      const calendar = this.getLagCalendar(relationship);
+      const lag = this.toMinutes(relationship.lag, relationship.lagUnit, calendar);
+      baseDate = calendar.addWorkingMinutes(baseDate, isForward ? lag : -lag);
     }
-    
+
     return baseDate;
   }
 
+  /**
+   * Earliest start the predecessors allow, or null when no relationship applies
+   */
+  private getLogicStart(activity: CalculatedActivity, predecessors: ParsedRelationship[]): Date | null {
+    const calendar = this.getCalendarForActivity(activity);
+    const duration = this.getDurationMinutes(activity);
+    let earlyStart: Date | null = null;
+
+    predecessors.forEach(rel => {
+      const dependentDate = this.applyRelationship(rel, true);
+      if (!dependentDate) return;
+
+      // FS and SS affect the start date; FF and SF the finish date
+      const candidate = rel.type === 'FS' || rel.type === 'SS'
+        ? dependentDate
+        : this.startFrom(dependentDate, duration, calendar);
+      if (!earlyStart || candidate > earlyStart) {
+        earlyStart = candidate;
+      }
+    });
+
+    return earlyStart;
+  }
+
+  /**
+   * Move a start onto working time. Finish milestones and other zero-duration
+   * activities stay on their predecessor's finish instead of the next working period.
+   */
+  private snapStart(activity: CalculatedActivity, start: Date): Date {
+    if (this.getDurationMinutes(activity) === 0 && activity.type !== 'StartMilestone') return start;
+    return this.getCalendarForActivity(activity).nextWorkingTime(start);
+  }
+
   /**
    * Apply scheduling constraints
    */
   private applyConstraints(activity: CalculatedActivity) {
     if (!activity.constraintType || !activity.constraintDate) return;
-    
-    const constraintDate = new Date(activity.constraintDate);
+
     const calendar = this.getCalendarForActivity(activity);
-    
+    const duration = this.getDurationMinutes(activity);
+    // Start constraints hold from the beginning of the day, finish constraints to its end
+    const startConstraint = this.startOfDay(activity.constraintDate, calendar);
+    const finishConstraint = this.endOfDay(activity.constraintDate, calendar);
+
     switch (activity.constraintType) {
       case 'SNET': // Start No Earlier Than
-        if (activity.calculatedEarlyStart && activity.calculatedEarlyStart < constraintDate) {
-          activity.calculatedEarlyStart = constraintDate;
-          activity.calculatedEarlyFinish = this.addWorkingDays(
-            constraintDate, 
-            activity.remainingDuration || activity.originalDuration || 0, 
-            calendar
-          );
+        if (activity.calculatedEarlyStart && activity.calculatedEarlyStart < startConstraint) {
+          activity.calculatedEarlyStart = startConstraint;
+          activity.calculatedEarlyFinish = this.finishFrom(startConstraint, duration, calendar);
         }
         break;
-        
+
       case 'SNLT': // Start No Later Than
-        if (activity.calculatedLateStart && activity.calculatedLateStart > constraintDate) {
-          activity.calculatedLateStart = constraintDate;
-          activity.calculatedLateFinish = this.addWorkingDays(
-            constraintDate, 
-            activity.remainingDuration || activity.originalDuration || 0, 
-            calendar
-          );
+        if (activity.calculatedLateStart && activity.calculatedLateStart > startConstraint) {
+          activity.calculatedLateStart = startConstraint;
+          activity.calculatedLateFinish = this.finishFrom(startConstraint, duration, calendar);
+        }
+        if (activity.calculatedEarlyStart && activity.calculatedEarlyStart > startConstraint) {
+          this.flagViolation(activity, `Cannot start by its Start No Later Than date ${activity.constraintDate.slice(0, 10)}`);
         }
         break;
-        
+
       case 'FNET': // Finish No Earlier Than
-        if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish < constraintDate) {
-          activity.calculatedEarlyFinish = constraintDate;
-          activity.calculatedEarlyStart = this.subtractWorkingDays(
-            constraintDate, 
-            activity.remainingDuration || activity.originalDuration || 0, 
-            calendar
-          );
+        if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish < finishConstraint) {
+          activity.calculatedEarlyFinish = finishConstraint;
+          activity.calculatedEarlyStart = this.startFrom(finishConstraint, duration, calendar);
         }
         break;
-        
+
       case 'FNLT': // Finish No Later Than
-        if (activity.calculatedLateFinish && activity.calculatedLateFinish > constraintDate) {
-          activity.calculatedLateFinish = constraintDate;
-          activity.calculatedLateStart = this.subtractWorkingDays(
-            constraintDate, 
-            activity.remainingDuration || activity.originalDuration || 0, 
-            calendar
-          );
-          
-          // Check for constraint violation
-          if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish > constraintDate) {
-            activity.hasConstraintViolation = true;
-            activity.constraintViolationMessage = `Activity cannot finish by ${constraintDate.toLocaleDateString()}`;
-          }
+        if (activity.calculatedLateFinish && activity.calculatedLateFinish > finishConstraint) {
+          activity.calculatedLateFinish = finishConstraint;
+          activity.calculatedLateStart = this.startFrom(finishConstraint, duration, calendar);
+        }
+        if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish > finishConstraint) {
+          this.flagViolation(activity, `Cannot finish by its Finish No Later Than date ${activity.constraintDate.slice(0, 10)}`);
         }
         break;
-        
+
       case 'MSO': // Must Start On
-        activity.calculatedEarlyStart = constraintDate;
-        activity.calculatedLateStart = constraintDate;
-        activity.calculatedEarlyFinish = this.addWorkingDays(
-          constraintDate, 
-          activity.remainingDuration || activity.originalDuration || 0, 
-          calendar
-        );
+        // Hard constraints override logic; report when the logic would start it later
+        if (activity.calculatedEarlyStart && activity.calculatedEarlyStart > startConstraint) {
+          this.flagViolation(activity, `Logic delays the start past its Must Start On date ${activity.constraintDate.slice(0, 10)}`);
+        }
+        activity.calculatedEarlyStart = startConstraint;
+        activity.calculatedLateStart = startConstraint;
+        activity.calculatedEarlyFinish = this.finishFrom(startConstraint, duration, calendar);
         activity.calculatedLateFinish = activity.calculatedEarlyFinish;
         break;
-        
+
       case 'MFO': // Must Finish On
-        activity.calculatedEarlyFinish = constraintDate;
-        activity.calculatedLateFinish = constraintDate;
-        activity.calculatedEarlyStart = this.subtractWorkingDays(
-          constraintDate, 
-          activity.remainingDuration || activity.originalDuration || 0, 
-          calendar
-        );
+        if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish > finishConstraint) {
+          this.flagViolation(activity, `Logic delays the finish past its Must Finish On date ${activity.constraintDate.slice(0, 10)}`);
+        }
+        activity.calculatedEarlyFinish = finishConstraint;
+        activity.calculatedLateFinish = finishConstraint;
+        activity.calculatedEarlyStart = this.startFrom(finishConstraint, duration, calendar);
         activity.calculatedLateStart = activity.calculatedEarlyStart;
         break;
     }
   }
 
+  private flagViolation(activity: CalculatedActivity, message: string) {
+    activity.hasConstraintViolation = true;
+    if (!activity.constraintViolationMessage?.includes(message)) {
+      activity.constraintViolationMessage = activity.constraintViolationMessage
+        ? `${activity.constraintViolationMessage}; ${message}`
+        : message;
+    }
+  }
+
   /**
-   * Handle actual progress and data date
+   * Handle actual progress and data date. Remaining work of an in-progress activity
+   * resumes at the data date; with Retained Logic it also waits for its predecessors,
+   * with Progress Override it ignores them, and with Actual Dates it follows actuals
+   * recorded after the data date.
    */
-  private handleProgress(activity: CalculatedActivity) {
+  private handleProgress(activity: CalculatedActivity, predecessors: ParsedRelationship[]) {
     if (!this.dataDate) return;
-    
+
     const calendar = this.getCalendarForActivity(activity);
-    
+    const dataDate = calendar.nextWorkingTime(this.dataDate);
+
     // If activity has actual start
     if (activity.actualStart) {
-      const actualStartDate = new Date(activity.actualStart);
-      activity.calculatedEarlyStart = actualStartDate;
-      
+      activity.calculatedEarlyStart = this.startOfDay(activity.actualStart, calendar);
+
       // If activity is completed
       if (activity.status === 'Completed' && activity.actualFinish) {
-        activity.calculatedEarlyFinish = new Date(activity.actualFinish);
-      } 
+        activity.calculatedEarlyFinish = this.endOfDay(activity.actualFinish, calendar);
+      }
       // If activity is in progress
       else if (activity.status === 'InProgress') {
-        const remainingDuration = activity.remainingDuration || 
+        const remainingDuration = activity.remainingDuration ??
           ((activity.originalDuration || 0) * (100 - (activity.percentComplete || 0)) / 100);
-        
-        // For in-progress activities, the earliest they can finish is data date + remaining duration
-        const earliestFinish = this.addWorkingDays(this.dataDate, remainingDuration, calendar);
-        
-        if (!activity.calculatedEarlyFinish || earliestFinish > activity.calculatedEarlyFinish) {
-          activity.calculatedEarlyFinish = earliestFinish;
+
+        let resume = dataDate;
+        if (this.progressMethod === 'RetainedLogic') {
+          const logicStart = this.getLogicStart(activity, predecessors);
+          if (logicStart && logicStart > resume) resume = calendar.nextWorkingTime(logicStart);
+        } else if (this.progressMethod === 'ActualDates' && activity.calculatedEarlyStart > resume) {
+          resume = activity.calculatedEarlyStart;
         }
+
+        activity.calculatedEarlyFinish = this.finishFrom(
+          resume,
+          this.toMinutes(remainingDuration, activity.durationUnit, calendar),
+          calendar
+        );
       }
     }
-    
+
     // Ensure activities don't start before data date (unless already started)
     if (!activity.actualStart && activity.calculatedEarlyStart && activity.calculatedEarlyStart < this.dataDate) {
-      activity.calculatedEarlyStart = this.dataDate;
-      
-      const duration = activity.remainingDuration || activity.originalDuration || 0;
-      activity.calculatedEarlyFinish = this.addWorkingDays(this.dataDate, duration, calendar);
+      activity.calculatedEarlyStart = dataDate;
+      activity.calculatedEarlyFinish = this.finishFrom(dataDate, this.getDurationMinutes(activity), calendar);
     }
   }
 
@@ -443,91 +483,53 @@ export class CPMCalculator {
   private forwardPass() {
     const processed = new Set<string>();
     const processing = new Set<string>();
-    
+
     const processActivity = (activityId: string): void => {
       if (processed.has(activityId) || processing.has(activityId)) return;
-      
+
       processing.add(activityId);
       const activity = this.activities.get(activityId);
       if (!activity) return;
-      
+
       const calendar = this.getCalendarForActivity(activity);
-      
+
       // Get all predecessors
       const predecessorRelationships = this.relationships.filter(r => r.successorId === activityId);
-      
+
       // Process all predecessors first
       predecessorRelationships.forEach(rel => {
         processActivity(rel.predecessorId);
       });
-      
-      let earlyStart: Date | null = null;
-      let earlyFinish: Date | null = null;
-      
+
       // Handle special activity types
       if (activity.type === 'StartMilestone' || activity.type === 'FinishMilestone') {
         // Milestones have zero duration
         activity.originalDuration = 0;
         activity.remainingDuration = 0;
       }
-      
-      if (predecessorRelationships.length === 0) {
-        // No predecessors - use project start date or constraint
-        earlyStart = this.dataDate || new Date();
-      } else {
-        // Calculate based on predecessors
-        predecessorRelationships.forEach(rel => {
-          const predecessorActivity = this.activities.get(rel.predecessorId);
-          if (!predecessorActivity) return;
-          
-          const dependentDate = this.applyRelationship(predecessorActivity, rel, true);
-          
-          if (dependentDate) {
-            if (rel.type === 'FS' || rel.type === 'SS') {
-              // These affect start date
-              if (!earlyStart || dependentDate > earlyStart) {
-                earlyStart = dependentDate;
-              }
-            } else if (rel.type === 'FF' || rel.type === 'SF') {
-              // These affect finish date
-              const duration = activity.remainingDuration || activity.originalDuration || 0;
-              const calculatedStart = this.subtractWorkingDays(dependentDate, duration, calendar);
-              
-              if (!earlyStart || calculatedStart > earlyStart) {
-                earlyStart = calculatedStart;
-              }
-            }
-          }
-        });
-      }
-      
+
+      // No predecessors - use project start date or constraint
+      const earlyStart = predecessorRelationships.length === 0
+        ? calendar.nextWorkingTime(this.dataDate || new Date())
+        : this.getLogicStart(activity, predecessorRelationships);
+
       if (earlyStart) {
-        activity.calculatedEarlyStart = earlyStart;
-        
-        // Handle special activity type durations
-        let duration = activity.remainingDuration || activity.originalDuration || 0;
-        
-        if (activity.type === 'StartMilestone' || activity.type === 'FinishMilestone') {
-          duration = 0; // Milestones have zero duration
-        } else if (activity.type === 'WBSSummary') {
-          // WBS Summary duration calculated from children (handled in post-processing)
-          duration = 0; // Placeholder
-        } else if (activity.type === 'LOE' || activity.type === 'Hammock') {
-          // LOE/Hammock activities can have custom durations or span between activities
-          duration = activity.originalDuration || 1;
-        }
-        
-        activity.calculatedEarlyFinish = this.addWorkingDays(earlyStart, duration, calendar);
+        activity.calculatedEarlyStart = this.snapStart(activity, earlyStart);
+        activity.calculatedEarlyFinish = this.finishFrom(
+          activity.calculatedEarlyStart,
+          this.getDurationMinutes(activity),
+          calendar
+        );
       }
-      
+
       // Handle progress and constraints
-      this.handleProgress(activity);
+      this.handleProgress(activity, predecessorRelationships);
       this.applyConstraints(activity);
-      
+
       processing.delete(activityId);
       processed.add(activityId);
     };
-    
+
     // Process all activities
     Array.from(this.activities.keys()).forEach(processActivity);
   }
@@ -538,124 +540,219 @@ export class CPMCalculator {
   private backwardPass() {
     const processed = new Set<string>();
     const processing = new Set<string>();
-    
+
     // Find project end date (latest early finish)
-    let projectEndDate = new Date();
-    this.activities.forEach(activity => {
-      if (activity.calculatedEarlyFinish && activity.calculatedEarlyFinish > projectEndDate) {
-        projectEndDate = activity.calculatedEarlyFinish;
-      }
-    });
-    
+    const earlyFinishes = Array.from(this.activities.values())
+      .map(activity => activity.calculatedEarlyFinish?.getTime())
+      .filter((time): time is number => time !== undefined);
+    const projectEndDate = earlyFinishes.length > 0 ? new Date(Math.max(...earlyFinishes)) : null;
+
     const processActivity = (activityId: string): void => {
       if (processed.has(activityId) || processing.has(activityId)) return;
-      
+
       processing.add(activityId);
       const activity = this.activities.get(activityId);
       if (!activity) return;
-      
+
       const calendar = this.getCalendarForActivity(activity);
-      
+      const duration = this.getDurationMinutes(activity);
+
       // Get all successors
       const successorRelationships = this.relationships.filter(r => r.predecessorId === activityId);
-      
+
       // Process all successors first
       successorRelationships.forEach(rel => {
         processActivity(rel.successorId);
       });
-      
+
       let lateFinish: Date | null = null;
-      let lateStart: Date | null = null;
-      
+
       if (successorRelationships.length === 0) {
-        // No successors - use early finish as late finish
-        lateFinish = activity.calculatedEarlyFinish || projectEndDate;
+        // No successors - may finish as late as the project
+        lateFinish = projectEndDate || activity.calculatedEarlyFinish;
       } else {
         // Calculate based on successors
         successorRelationships.forEach(rel => {
-          const successorActivity = this.activities.get(rel.successorId);
-          if (!successorActivity) return;
-          
-          const dependentDate = this.applyRelationship(successorActivity, rel, false);
-          
+          const dependentDate = this.applyRelationship(rel, false);
+
           if (dependentDate) {
-            if (rel.type === 'FS' || rel.type === 'FF') {
-              // These affect finish date
-              if (!lateFinish || dependentDate < lateFinish) {
-                lateFinish = dependentDate;
-              }
-            } else if (rel.type === 'SS' || rel.type === 'SF') {
-              // These affect start date
-              const duration = activity.remainingDuration || activity.originalDuration || 0;
-              const calculatedFinish = this.addWorkingDays(dependentDate, duration, calendar);
-              
-              if (!lateFinish || calculatedFinish < lateFinish) {
-                lateFinish = calculatedFinish;
-              }
+            // FS and FF limit the finish date; SS and SF the start date
+            const calculatedFinish = rel.type === 'FS' || rel.type === 'FF'
+              ? dependentDate
+              : this.finishFrom(dependentDate, duration, calendar);
+
+            if (!lateFinish || calculatedFinish < lateFinish) {
+              lateFinish = calculatedFinish;
             }
           }
         });
       }
-      
+
+      // A deadline limits the late finish without delaying early dates, so missing it
+      // shows as negative float here and on the activity's predecessors
+      if (activity.deadline) {
+        const deadline = this.endOfDay(activity.deadline, calendar);
+        if (!lateFinish || deadline < lateFinish) lateFinish = deadline;
+      }
+
       if (lateFinish) {
-        activity.calculatedLateFinish = lateFinish;
-        const duration = activity.remainingDuration || activity.originalDuration || 0;
-        activity.calculatedLateStart = this.subtractWorkingDays(lateFinish, duration, calendar);
+        activity.calculatedLateFinish = duration > 0 ? calendar.previousWorkingTime(lateFinish) : lateFinish;
+        activity.calculatedLateStart = this.startFrom(activity.calculatedLateFinish, duration, calendar);
       }
-      
+
       // Apply constraints to late dates
       this.applyConstraints(activity);
-      
+
       processing.delete(activityId);
       processed.add(activityId);
     };
-    
+
     // Process all activities
     Array.from(this.activities.keys()).forEach(processActivity);
   }
 
   /**
-   * Calculate float and identify critical path
+   * Calculate float and identify critical path.
+   * Total float is finish float (late finish - early finish); both floats are
+   * working days of the activity's own calendar. Activities on the longest path
+   * are critical even when constraints or calendars leave them positive float.
    */
   private calculateFloat() {
     this.activities.forEach(activity => {
-      if (activity.calculatedEarlyStart && activity.calculatedLateStart && 
+      if (activity.calculatedEarlyStart && activity.calculatedLateStart &&
           activity.calculatedEarlyFinish && activity.calculatedLateFinish) {
-        
-        // Total float = late start - early start (or late finish - early finish)
-        const totalFloat = Math.round(
-          (activity.calculatedLateStart.getTime() - activity.calculatedEarlyStart.getTime()) / (1000 * 60 * 60 * 24)
+
+        const calendar = this.getCalendarForActivity(activity);
+        const toDays = (minutes: number) => Math.round(minutes / calendar.minutesPerDay * 100) / 100;
+
+        const totalFloat = toDays(
+          calendar.workingMinutesBetween(activity.calculatedEarlyFinish, activity.calculatedLateFinish)
         );
-        
+
         activity.calculatedTotalFloat = totalFloat;
         activity.calculatedIsCritical = totalFloat <= 0;
-        
+
+        if (activity.deadline) {
+          activity.deadlineVariance = toDays(
+            calendar.workingMinutesBetween(activity.calculatedEarlyFinish, this.endOfDay(activity.deadline, calendar))
+          );
+          if (activity.deadlineVariance < 0) {
+            this.flagViolation(activity, `Finishes ${-activity.deadlineVariance} days after its deadline ${activity.deadline.slice(0, 10)}`);
+          }
+        }
+
         // Calculate free float (minimum float without affecting successors)
         const successors = this.relationships.filter(r => r.predecessorId === activity.id);
         let freeFloat = totalFloat;
-        
+
         successors.forEach(rel => {
           const successor = this.activities.get(rel.successorId);
-          if (successor && successor.calculatedEarlyStart) {
-            const dependentDate = this.applyRelationship(activity, rel, true);
+          const successorDate = rel.type === 'FS' || rel.type === 'SS'
+            ? successor?.calculatedEarlyStart
+            : successor?.calculatedEarlyFinish;
+          if (successorDate) {
+            const dependentDate = this.applyRelationship(rel, true);
             if (dependentDate) {
-              const availableFloat = Math.round(
-                (successor.calculatedEarlyStart.getTime() - dependentDate.getTime()) / (1000 * 60 * 60 * 24)
-              );
+              const availableFloat = toDays(calendar.workingMinutesBetween(dependentDate, successorDate));
               freeFloat = Math.min(freeFloat, availableFloat);
             }
           }
         });
-        
+
         activity.calculatedFreeFloat = Math.max(0, freeFloat);
       }
     });
+
+    this.markLongestPath();
+  }
+
+  /**
+   * Working minutes between the date a relationship requires and the successor's
+   * start (FS, SS) or finish (FF, SF); zero when the relationship drives the successor
+   */
+  private relationshipGap(relationship: ParsedRelationship): number | null {
+    const successor = this.activities.get(relationship.successorId);
+    const dependentDate = this.applyRelationship(relationship, true);
+    if (!successor || !dependentDate) return null;
+
+    const controllingDate = relationship.type === 'FS' || relationship.type === 'SS'
+      ? successor.calculatedEarlyStart
+      : successor.calculatedEarlyFinish;
+    if (!controllingDate) return null;
+
+    return Math.max(0, this.getCalendarForActivity(successor).workingMinutesBetween(dependentDate, controllingDate));
+  }
+
+  private isDriving(relationship: ParsedRelationship): boolean {
+    const gap = this.relationshipGap(relationship);
+    return gap !== null && gap < 1;
+  }
+
+  /**
+   * Driving flag and float of every relationship from the relationships table.
+   * Free float is the relationship's gap; total float runs from the predecessor's
+   * early date to the latest date the successor's late dates allow through this
+   * relationship. Both are working days of the predecessor's calendar.
+   */
+  public getRelationshipFloats(): RelationshipFloat[] {
+    return this.relationships
+      .filter((rel): rel is ParsedRelationship & { id: string } => !!rel.id)
+      .map(rel => {
+        const predecessor = this.activities.get(rel.predecessorId);
+        const gap = this.relationshipGap(rel);
+        const lateDate = this.applyRelationship(rel, false);
+        const earlyDate = rel.type === 'FS' || rel.type === 'FF'
+          ? predecessor?.calculatedEarlyFinish
+          : predecessor?.calculatedEarlyStart;
+
+        const calendar = predecessor ? this.getCalendarForActivity(predecessor) : this.defaultCalendar;
+        const toDays = (minutes: number) => Math.round(minutes / calendar.minutesPerDay * 100) / 100;
+
+        return {
+          id: rel.id,
+          predecessorId: rel.predecessorId,
+          successorId: rel.successorId,
+          isDriving: this.isDriving(rel),
+          freeFloat: gap === null ? null : toDays(gap),
+          totalFloat: lateDate && earlyDate ? toDays(calendar.workingMinutesBetween(earlyDate, lateDate)) : null
+        };
+      });
+  }
+
+  /**
+   * Trace driving relationships back from the activities that finish the project.
+   * Started activities are held by their actuals and the data date, so the trace
+   * stops there, as it does at activities placed by a constraint rather than logic.
+   */
+  private markLongestPath() {
+    const finishes = Array.from(this.activities.values())
+      .map(a => a.calculatedEarlyFinish?.getTime())
+      .filter((time): time is number => time !== undefined);
+    if (finishes.length === 0) return;
+    const projectFinish = Math.max(...finishes);
+
+    const pending = Array.from(this.activities.values())
+      .filter(a => a.calculatedEarlyFinish?.getTime() === projectFinish);
+    while (pending.length > 0) {
+      const activity = pending.pop()!;
+      if (activity.isLongestPath) continue;
+      activity.isLongestPath = true;
+      activity.calculatedIsCritical = true;
+      if (activity.actualStart) continue;
+
+      this.relationships
+        .filter(r => r.successorId === activity.id && this.isDriving(r))
+        .forEach(r => {
+          const predecessor = this.activities.get(r.predecessorId);
+          if (predecessor && !predecessor.isLongestPath) pending.push(predecessor);
+        });
+    }
   }
 
   /**
    * Calculate critical path method
    */
-  public calculate(): CalculatedActivity[] {
+  public calculate(): CPMResult {
     // Reset all calculated values
     this.activities.forEach(activity => {
       activity.calculatedEarlyStart = null;
@@ -665,8 +762,11 @@ export class CPMCalculator {
       activity.calculatedTotalFloat = null;
       activity.calculatedFreeFloat = null;
       activity.calculatedIsCritical = false;
+      activity.isLongestPath = false;
       activity.hasConstraintViolation = false;
       activity.constraintViolationMessage = undefined;
+      activity.deadlineVariance = null;
+      activity.levelingDelay = 0;
     });
     
     // Perform CPM calculation
@@ -677,14 +777,356 @@ export class CPMCalculator {
     // Post-process special activity types
     this.postProcessSpecialActivities();
     
-    return Array.from(this.activities.values());
+    return this.getResult();
+  }
+
+  /**
+   * Results of the last calculation, including any leveling applied since
+   */
+  public getResult(): CPMResult {
+    const activities = Array.from(this.activities.values());
+    const starts = activities.map(a => a.calculatedEarlyStart).filter((d): d is Date => !!d);
+    const finishes = activities.map(a => a.calculatedEarlyFinish).filter((d): d is Date => !!d);
+    const projectStart = starts.length > 0 ? new Date(Math.min(...starts.map(d => d.getTime()))) : null;
+    const projectFinish = finishes.length > 0 ? new Date(Math.max(...finishes.map(d => d.getTime()))) : null;
+    const constraintViolations = this.getConstraintViolations();
+    const criticalPath = this.getCriticalPath().sort((a, b) =>
+      (a.calculatedEarlyStart?.getTime() ?? 0) - (b.calculatedEarlyStart?.getTime() ?? 0) ||
+      a.activityId.localeCompare(b.activityId)
+    );
+
+    return {
+      activities,
+      criticalPath,
+      relationships: this.getRelationshipFloats(),
+      projectStart,
+      projectFinish,
+      constraintViolations,
+      metrics: {
+        activityCount: activities.length,
+        completedCount: activities.filter(a => a.status === 'Completed').length,
+        inProgressCount: activities.filter(a => a.status === 'InProgress').length,
+        criticalCount: criticalPath.length,
+        negativeFloatCount: activities.filter(a => (a.calculatedTotalFloat ?? 0) < 0).length,
+        constraintViolationCount: constraintViolations.length,
+        longestPathLength: projectStart && projectFinish
+          ? Math.round(this.defaultCalendar.workingMinutesBetween(projectStart, projectFinish) / this.defaultCalendar.minutesPerDay * 100) / 100
+          : 0
+      }
+    };
+  }
+
+  /**
+   * Calculated dates, float and criticality as activity field updates, ready to persist
+   */
+  public getActivityUpdates(): { id: string; updates: Partial<Activity> }[] {
+    const formatDate = (date: Date | null) => date ? date.toISOString().split('T')[0] : null;
+    return Array.from(this.activities.values()).map(activity => ({
+      id: activity.id,
+      updates: {
+        earlyStart: formatDate(activity.calculatedEarlyStart),
+        earlyFinish: formatDate(activity.calculatedEarlyFinish),
+        lateStart: formatDate(activity.calculatedLateStart),
+        lateFinish: formatDate(activity.calculatedLateFinish),
+        totalFloat: activity.calculatedTotalFloat,
+        freeFloat: activity.calculatedFreeFloat,
+        isCritical: activity.calculatedIsCritical
+      }
+    }));
+  }
+
+  /**
+   * Serial priority-based resource leveling.
+   * Activities are taken in logic order; among those whose predecessors are
+   * already placed, the one with the lowest total float (then earliest early
+   * start, then the optional priority field) is scheduled at the first working
+   * day where every assigned resource stays within its maxUnits.
+   * Completed, in-progress and MSO/MFO-constrained activities are not moved.
+   */
+  public level(
+    resources: Resource[],
+    assignments: ResourceAssignment[],
+    options: LevelingOptions = {}
+  ): LevelingResult {
+    const { priorityField, levelWithinFloat = false, maxDelayDays = 730 } = options;
+    
+    if (!Array.from(this.activities.values()).some(a => a.calculatedEarlyStart)) {
+      this.calculate();
+    }
+    
+    const resourceMap = new Map(resources.map(r => [r.id, r]));
+    const assignmentsByActivity = new Map<string, ResourceAssignment[]>();
+    assignments.forEach(assignment => {
+      if (!resourceMap.has(assignment.resourceId) || !this.activities.has(assignment.activityId)) return;
+      const list = assignmentsByActivity.get(assignment.activityId) || [];
+      list.push(assignment);
+      assignmentsByActivity.set(assignment.activityId, list);
+    });
+    
+    const overallocatedBefore = this.findOverallocations(resourceMap, assignmentsByActivity);
+    
+    // Predecessor counts drive the eligible set so activities are placed in logic order
+    const predecessorsOf = new Map<string, ParsedRelationship[]>();
+    const successorsOf = new Map<string, ParsedRelationship[]>();
+    this.relationships.forEach(rel => {
+      if (!this.activities.has(rel.predecessorId) || !this.activities.has(rel.successorId)) return;
+      predecessorsOf.set(rel.successorId, [...(predecessorsOf.get(rel.successorId) || []), rel]);
+      successorsOf.set(rel.predecessorId, [...(successorsOf.get(rel.predecessorId) || []), rel]);
+    });
+    const remainingPredecessors = new Map<string, number>();
+    this.activities.forEach((_, id) => remainingPredecessors.set(id, predecessorsOf.get(id)?.length || 0));
+    
+    let eligible = Array.from(this.activities.keys()).filter(id => remainingPredecessors.get(id) === 0);
+    const usage = new Map<string, Map<string, number>>(); // resource id -> date -> units
+    const unresolvedActivities: string[] = [];
+    const compare = this.levelingPriority(priorityField);
+    
+    while (eligible.length > 0) {
+      eligible.sort((a, b) => compare(this.activities.get(a)!, this.activities.get(b)!));
+      const activityId = eligible.shift()!;
+      const activity = this.activities.get(activityId)!;
+      
+      const resolved = this.placeLeveledActivity(
+        activity,
+        predecessorsOf.get(activityId) || [],
+        assignmentsByActivity.get(activityId) || [],
+        resourceMap,
+        usage,
+        levelWithinFloat,
+        maxDelayDays
+      );
+      if (!resolved) unresolvedActivities.push(activity.activityId);
+      
+      (successorsOf.get(activityId) || []).forEach(rel => {
+        const count = remainingPredecessors.get(rel.successorId)! - 1;
+        remainingPredecessors.set(rel.successorId, count);
+        if (count === 0) eligible.push(rel.successorId);
+      });
+    }
+    
+    // Late dates and float are recomputed against the leveled early dates
+    this.backwardPass();
+    this.calculateFloat();
+    
+    const activities = Array.from(this.activities.values());
+    return {
+      activities,
+      levelingDelays: activities
+        .filter(a => a.levelingDelay > 0)
+        .map(a => ({ id: a.id, activityId: a.activityId, delayDays: a.levelingDelay })),
+      overallocatedBefore,
+      overallocatedAfter: this.findOverallocations(resourceMap, assignmentsByActivity),
+      unresolvedActivities
+    };
+  }
+  
+  /**
+   * Ordering used to pick the next activity during leveling
+   */
+  private levelingPriority(priorityField?: keyof Activity) {
+    return (a: CalculatedActivity, b: CalculatedActivity): number => {
+      const floatA = a.calculatedTotalFloat ?? Number.MAX_SAFE_INTEGER;
+      const floatB = b.calculatedTotalFloat ?? Number.MAX_SAFE_INTEGER;
+      if (floatA !== floatB) return floatA - floatB;
+      
+      const startA = a.calculatedEarlyStart?.getTime() ?? Number.MAX_SAFE_INTEGER;
+      const startB = b.calculatedEarlyStart?.getTime() ?? Number.MAX_SAFE_INTEGER;
+      if (startA !== startB) return startA - startB;
+      
+      if (priorityField) {
+        const valueA = a[priorityField];
+        const valueB = b[priorityField];
+        if (valueA !== valueB) {
+          if (valueA === null || valueA === undefined) return 1;
+          if (valueB === null || valueB === undefined) return -1;
+          return valueA < valueB ? -1 : 1;
+        }
+      }
+      
+      return a.activityId.localeCompare(b.activityId);
+    };
+  }
+  
+  /**
+   * Place one activity in the leveled schedule and reserve its resource usage.
+   * Returns false when the activity had to be left over-allocated.
+   */
+  private placeLeveledActivity(
+    activity: CalculatedActivity,
+    predecessors: ParsedRelationship[],
+    assignments: ResourceAssignment[],
+    resourceMap: Map<string, Resource>,
+    usage: Map<string, Map<string, number>>,
+    levelWithinFloat: boolean,
+    maxDelayDays: number
+  ): boolean {
+    const calendar = this.getCalendarForActivity(activity);
+    const earlyStart = activity.calculatedEarlyStart;
+    if (!earlyStart || !activity.calculatedEarlyFinish) return true;
+    
+    const isFixed = activity.status === 'Completed' || !!activity.actualStart ||
+      activity.constraintType === 'MSO' || activity.constraintType === 'MFO';
+    const isLevelable = !isFixed && assignments.length > 0 &&
+      !['StartMilestone', 'FinishMilestone', 'WBSSummary', 'LOE', 'Hammock'].includes(activity.type);
+    
+    if (!isFixed) {
+      // Re-derive the logic start from the (possibly leveled) predecessors
+      const predecessorStart = this.getLogicStart(activity, predecessors);
+      let start = predecessorStart && predecessorStart > earlyStart ? this.snapStart(activity, predecessorStart) : earlyStart;
+      const duration = this.getDurationMinutes(activity);
+      
+      let delayed = 0;
+      let resolved = true;
+      if (isLevelable) {
+        const logicStart = start;
+        while (this.hasResourceConflict(start, duration, calendar, assignments, resourceMap, usage)) {
+          const next = calendar.nextWorkingTime(this.nextDay(start));
+          delayed++;
+          const beyondFloat = levelWithinFloat && activity.calculatedLateStart && next > activity.calculatedLateStart;
+          if (beyondFloat || delayed > maxDelayDays) {
+            start = logicStart;
+            resolved = false;
+            break;
+          }
+          start = next;
+        }
+      }
+      
+      activity.levelingDelay = start > earlyStart
+        ? Math.round(calendar.workingMinutesBetween(earlyStart, start) / calendar.minutesPerDay * 100) / 100
+        : 0;
+      activity.calculatedEarlyStart = start;
+      activity.calculatedEarlyFinish = this.finishFrom(start, duration, calendar);
+      
+      this.reserveResources(activity, calendar, assignments, usage);
+      return resolved;
+    }
+    
+    this.reserveResources(activity, calendar, assignments, usage);
+    return true;
+  }
+  
+  private hasResourceConflict(
+    start: Date,
+    duration: number,
+    calendar: WorkCalendar,
+    assignments: ResourceAssignment[],
+    resourceMap: Map<string, Resource>,
+    usage: Map<string, Map<string, number>>
+  ): boolean {
+    const finish = this.finishFrom(start, duration, calendar);
+    return this.getWorkingDates(start, finish, calendar).some(date =>
+      assignments.some(assignment => {
+        const resource = resourceMap.get(assignment.resourceId)!;
+        const used = usage.get(resource.id)?.get(date) || 0;
+        return used + (assignment.units ?? 1) > (resource.maxUnits ?? 1);
+      })
+    );
+  }
+  
+  private reserveResources(
+    activity: CalculatedActivity,
+    calendar: WorkCalendar,
+    assignments: ResourceAssignment[],
+    usage: Map<string, Map<string, number>>
+  ) {
+    if (!activity.calculatedEarlyStart || !activity.calculatedEarlyFinish || assignments.length === 0) return;
+    if (activity.status === 'Completed') return;
+    
+    // In-progress work only consumes resources from the data date onward
+    const from = this.dataDate && activity.calculatedEarlyStart < this.dataDate
+      ? this.dataDate
+      : activity.calculatedEarlyStart;
+    
+    this.getWorkingDates(from, activity.calculatedEarlyFinish, calendar).forEach(date => {
+      assignments.forEach(assignment => {
+        const resourceUsage = usage.get(assignment.resourceId) || new Map<string, number>();
+        resourceUsage.set(date, (resourceUsage.get(date) || 0) + (assignment.units ?? 1));
+        usage.set(assignment.resourceId, resourceUsage);
+      });
+    });
+  }
+  
+  /**
+   * Resources whose daily demand exceeds maxUnits on the current early dates
+   */
+  private findOverallocations(
+    resourceMap: Map<string, Resource>,
+    assignmentsByActivity: Map<string, ResourceAssignment[]>
+  ): ResourceOverallocation[] {
+    const usage = new Map<string, Map<string, number>>();
+    assignmentsByActivity.forEach((assignments, activityId) => {
+      const activity = this.activities.get(activityId)!;
+      if (['StartMilestone', 'FinishMilestone', 'WBSSummary'].includes(activity.type)) return;
+      this.reserveResources(activity, this.getCalendarForActivity(activity), assignments, usage);
+    });
+    
+    const overallocations: ResourceOverallocation[] = [];
+    usage.forEach((dailyUsage, resourceId) => {
+      const resource = resourceMap.get(resourceId)!;
+      const maxUnits = resource.maxUnits ?? 1;
+      const overDates = Array.from(dailyUsage.entries())
+        .filter(([, units]) => units > maxUnits)
+        .map(([date]) => date)
+        .sort();
+      
+      if (overDates.length > 0) {
+        overallocations.push({
+          resourceId,
+          resourceCode: resource.resourceId,
+          name: resource.name,
+          maxUnits,
+          peakUnits: Math.max(...Array.from(dailyUsage.values())),
+          overallocatedDays: overDates.length,
+          firstOverallocatedDate: overDates[0],
+          lastOverallocatedDate: overDates[overDates.length - 1]
+        });
+      }
+    });
+    
+    return overallocations;
+  }
+  
+  /**
+   * Dates (YYYY-MM-DD) with working time between start and finish
+   */
+  private getWorkingDates(start: Date, finish: Date, calendar: WorkCalendar): string[] {
+    const dates: string[] = [];
+    for (let day = new Date(Math.floor(start.getTime() / DAY_MS) * DAY_MS); day < finish; day = this.nextDay(day)) {
+      const from = day > start ? day : start;
+      const to = this.nextDay(day) < finish ? this.nextDay(day) : finish;
+      if (calendar.workingMinutesBetween(from, to) > 0) {
+        dates.push(day.toISOString().split('T')[0]);
+      }
+    }
+    return dates;
+  }
+  
+  // Midnight (UTC) after the given instant
+  private nextDay(date: Date): Date {
+    return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS + DAY_MS);
   }
 
   /**
    * Get activities with constraint violations
    */
-  public getConstraintViolations(): CalculatedActivity[] {
-    return Array.from(this.activities.values()).filter(a => a.hasConstraintViolation);
+  public getConstraintViolations(): ConstraintViolation[] {
+    const formatDate = (date: Date | null) => date ? date.toISOString().split('T')[0] : null;
+    return Array.from(this.activities.values())
+      .filter(a => a.hasConstraintViolation)
+      .map(a => ({
+        id: a.id,
+        activityId: a.activityId,
+        name: a.name,
+        constraintType: a.constraintType,
+        constraintDate: a.constraintDate,
+        deadline: a.deadline,
+        earlyStart: formatDate(a.calculatedEarlyStart),
+        earlyFinish: formatDate(a.calculatedEarlyFinish),
+        totalFloat: a.calculatedTotalFloat,
+        deadlineVariance: a.deadlineVariance,
+        message: a.constraintViolationMessage ?? ''
+      }));
   }
 
   /**
@@ -694,6 +1136,106 @@ export class CPMCalculator {
     return Array.from(this.activities.values()).filter(a => a.calculatedIsCritical);
   }
   
+  /**
+   * Longest path activities in early start order
+   */
+  public getLongestPath(): CalculatedActivity[] {
+    return Array.from(this.activities.values())
+      .filter(a => a.isLongestPath)
+      .sort((a, b) => (a.calculatedEarlyStart?.getTime() ?? 0) - (b.calculatedEarlyStart?.getTime() ?? 0));
+  }
+
+  /**
+   * Multiple float paths to a target activity, as in P6. Relative float is how far
+   * an activity can slip before it delays the target: the smallest sum of relationship
+   * gaps on any chain of logic to the target. Path 1 is the driving path; each further
+   * path starts at the unassigned activity with the least relative float and follows
+   * driving links back through unassigned predecessors, so every activity on a path
+   * shares its relative float. Completed activities cannot slip and are left out.
+   */
+  public getFloatPaths(targetId: string, count: number): FloatPath[] {
+    const target = this.activities.get(targetId);
+    if (!target) return [];
+
+    // Links that can carry float to the target, indexed by successor, with their gaps
+    const links = new Map<string, { predecessorId: string; gap: number }[]>();
+    this.relationships.forEach(rel => {
+      const predecessor = this.activities.get(rel.predecessorId);
+      if (!predecessor || predecessor.status === 'Completed') return;
+      const gap = this.relationshipGap(rel);
+      if (gap === null) return;
+      if (!links.has(rel.successorId)) links.set(rel.successorId, []);
+      links.get(rel.successorId)!.push({ predecessorId: rel.predecessorId, gap });
+    });
+    // Started activities are held by their actuals, so logic before them does not reach the target
+    const linksInto = (id: string) =>
+      id !== targetId && this.activities.get(id)!.actualStart ? [] : links.get(id) ?? [];
+
+    // Activities with logic to the target, and how many of their links lead into that set
+    const reach = new Map<string, number>([[targetId, 0]]);
+    const queue = [targetId];
+    for (let i = 0; i < queue.length; i++) {
+      linksInto(queue[i]).forEach(({ predecessorId }) => {
+        if (!reach.has(predecessorId)) queue.push(predecessorId);
+        reach.set(predecessorId, (reach.get(predecessorId) ?? 0) + 1);
+      });
+    }
+
+    // Relative float in working minutes, relaxed backward in topological order:
+    // an activity is settled once every link it has toward the target is counted
+    const relativeFloat = new Map<string, number>([[targetId, 0]]);
+    const settled = [targetId];
+    for (let i = 0; i < settled.length; i++) {
+      const id = settled[i];
+      linksInto(id).forEach(({ predecessorId, gap }) => {
+        const candidate = relativeFloat.get(id)! + gap;
+        if (candidate < (relativeFloat.get(predecessorId) ?? Infinity)) {
+          relativeFloat.set(predecessorId, candidate);
+        }
+        const remaining = reach.get(predecessorId)! - 1;
+        reach.set(predecessorId, remaining);
+        if (remaining === 0) settled.push(predecessorId);
+      });
+    }
+
+    // Nearer the target first among equal floats
+    const byFloat = (a: string, b: string) =>
+      relativeFloat.get(a)! - relativeFloat.get(b)! ||
+      (this.activities.get(b)!.calculatedEarlyFinish?.getTime() ?? 0) -
+      (this.activities.get(a)!.calculatedEarlyFinish?.getTime() ?? 0);
+    const seeds = Array.from(relativeFloat.keys()).sort(byFloat);
+
+    const assigned = new Set<string>();
+    const paths: FloatPath[] = [];
+    for (const seed of seeds) {
+      if (paths.length >= count) break;
+      if (assigned.has(seed)) continue;
+
+      const pathIds: string[] = [];
+      let current: string | undefined = seed;
+      while (current) {
+        pathIds.push(current);
+        assigned.add(current);
+        current = linksInto(current)
+          .filter(link => link.gap < 1 && !assigned.has(link.predecessorId))
+          .map(link => link.predecessorId)
+          .sort(byFloat)[0];
+      }
+
+      const calendar = this.getCalendarForActivity(this.activities.get(seed)!);
+      paths.push({
+        pathNumber: paths.length + 1,
+        relativeFloat: Math.round(relativeFloat.get(seed)! / calendar.minutesPerDay * 100) / 100,
+        activityIds: pathIds
+          .map(id => this.activities.get(id)!)
+          .sort((a, b) => (a.calculatedEarlyStart?.getTime() ?? 0) - (b.calculatedEarlyStart?.getTime() ?? 0))
+          .map(a => a.id)
+      });
+    }
+
+    return paths;
+  }
+
   /**
    * Post-process WBS summary activities and LOE/Hammock spans
    */
@@ -756,7 +1298,9 @@ export class CPMCalculator {
     // Update duration to span from earliest start to latest finish
     if (earliestStart && latestFinish) {
       const calendar = this.getCalendarForActivity(summaryActivity);
-      summaryActivity.originalDuration = this.getWorkingDaysBetween(earliestStart, latestFinish, calendar);
+      summaryActivity.originalDuration = Math.round(
+        calendar.workingMinutesBetween(earliestStart, latestFinish) / calendar.minutesPerDay * 100
+      ) / 100;
     }
   }
   
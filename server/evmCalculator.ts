@@ -0,0 +1,212 @@
+import type { Activity, Wbs, Calendar, Baseline } from "@shared/schema";
+import { WorkCalendar } from "./workCalendar";
+
+export interface EVMMetrics {
+  bac: number; // Budget at completion
+  pv: number; // Planned value
+  ev: number; // Earned value
+  ac: number; // Actual cost
+  sv: number;
+  cv: number;
+  spi: number | null;
+  cpi: number | null;
+  eac: number;
+  etc: number;
+  vac: number;
+}
+
+export interface ActivityEVM extends EVMMetrics {
+  id: string;
+  activityId: string;
+  name: string;
+  wbsId: string | null;
+  percentComplete: number;
+}
+
+export interface WbsEVM extends EVMMetrics {
+  wbsId: string;
+  code: string;
+  name: string;
+  parentId: string | null;
+  level: number;
+}
+
+export interface EVMResult {
+  dataDate: string;
+  baselineId: string | null;
+  baselineName: string | null;
+  project: EVMMetrics;
+  wbs: WbsEVM[];
+  activities: ActivityEVM[];
+}
+
+// Planned budget window for one activity
+interface PlannedBudget {
+  start: string | null;
+  finish: string | null;
+  budget: number;
+  calendarId: string | null;
+}
+
+/**
+ * Earned value metrics at the data date.
+ * PV comes from the active baseline: each baseline activity's budget is spread
+ * evenly over its baseline working days. Without a baseline snapshot the
+ * activity's own baseline fields are used, then its budgeted cost and early dates.
+ * EV = BAC x % complete, AC = actual cost; EAC uses BAC / CPI when CPI is known.
+ */
+export class EVMCalculator {
+  private calendars: Map<string, WorkCalendar>;
+  private defaultCalendar = new WorkCalendar();
+  private baselineBudgets = new Map<string, PlannedBudget>();
+
+  constructor(
+    private activities: Activity[],
+    private wbs: Wbs[],
+    calendars: Calendar[],
+    private dataDate: string,
+    private baseline?: Baseline
+  ) {
+    this.calendars = new Map(calendars.map(cal => [cal.id, new WorkCalendar(cal)]));
+
+    const snapshotActivities = ((baseline?.snapshotData as any)?.activities || []) as Partial<Activity>[];
+    snapshotActivities.forEach(activity => {
+      if (!activity.activityId) return;
+      this.baselineBudgets.set(activity.activityId, {
+        start: activity.earlyStart ?? null,
+        finish: activity.earlyFinish ?? null,
+        budget: activity.budgetedCost ?? 0,
+        calendarId: activity.calendarId ?? null
+      });
+    });
+  }
+
+  public calculate(): EVMResult {
+    const activities = this.activities
+      .filter(activity => activity.type !== 'WBSSummary')
+      .map(activity => this.calculateActivity(activity));
+
+    return {
+      dataDate: this.dataDate,
+      baselineId: this.baseline?.id ?? null,
+      baselineName: this.baseline?.name ?? null,
+      project: this.summarize(activities),
+      wbs: this.rollupWbs(activities),
+      activities
+    };
+  }
+
+  private calculateActivity(activity: Activity): ActivityEVM {
+    const planned = this.getPlannedBudget(activity);
+    const percentComplete = activity.percentComplete ?? 0;
+
+    const bac = planned.budget;
+    const pv = bac * this.plannedFraction(planned);
+    const ev = activity.earnedValue ?? bac * percentComplete / 100;
+    const ac = activity.actualCost ?? 0;
+
+    return {
+      id: activity.id,
+      activityId: activity.activityId,
+      name: activity.name,
+      wbsId: activity.wbsId,
+      percentComplete,
+      ...this.derive(bac, pv, ev, ac)
+    };
+  }
+
+  private getPlannedBudget(activity: Activity): PlannedBudget {
+    const fromBaseline = this.baselineBudgets.get(activity.activityId);
+    if (fromBaseline) return fromBaseline;
+
+    // Activities added after the baseline carry no planned value of their own
+    if (this.baseline) {
+      return { start: null, finish: null, budget: 0, calendarId: activity.calendarId };
+    }
+
+    return {
+      start: activity.baselineStart ?? activity.earlyStart,
+      finish: activity.baselineFinish ?? activity.earlyFinish,
+      budget: activity.baselineCost ?? activity.budgetedCost ?? 0,
+      calendarId: activity.calendarId
+    };
+  }
+
+  /**
+   * Share of the budget planned to be spent by the data date (linear over working days)
+   */
+  private plannedFraction(planned: PlannedBudget): number {
+    if (!planned.start || !planned.finish || planned.budget === 0) return 0;
+    if (this.dataDate < planned.start) return 0;
+    if (this.dataDate >= planned.finish) return 1;
+
+    const calendar = (planned.calendarId && this.calendars.get(planned.calendarId)) || this.defaultCalendar;
+    let total = 0;
+    let elapsed = 0;
+    for (let current = new Date(planned.start); current <= new Date(planned.finish); current.setUTCDate(current.getUTCDate() + 1)) {
+      if (!calendar.isWorkingDay(current)) continue;
+      total++;
+      if (current.toISOString().split('T')[0] <= this.dataDate) elapsed++;
+    }
+
+    return total > 0 ? elapsed / total : 1;
+  }
+
+  private derive(bac: number, pv: number, ev: number, ac: number): EVMMetrics {
+    const spi = pv > 0 ? ev / pv : null;
+    const cpi = ac > 0 ? ev / ac : null;
+    const eac = cpi ? bac / cpi : ac + (bac - ev);
+
+    return {
+      bac: this.round(bac),
+      pv: this.round(pv),
+      ev: this.round(ev),
+      ac: this.round(ac),
+      sv: this.round(ev - pv),
+      cv: this.round(ev - ac),
+      spi: spi === null ? null : Math.round(spi * 1000) / 1000,
+      cpi: cpi === null ? null : Math.round(cpi * 1000) / 1000,
+      eac: this.round(eac),
+      etc: this.round(eac - ac),
+      vac: this.round(bac - eac)
+    };
+  }
+
+  private summarize(activities: EVMMetrics[]): EVMMetrics {
+    const sum = (field: 'bac' | 'pv' | 'ev' | 'ac') => activities.reduce((total, a) => total + a[field], 0);
+    return this.derive(sum('bac'), sum('pv'), sum('ev'), sum('ac'));
+  }
+
+  /**
+   * Sum activity values into their WBS element and every ancestor
+   */
+  private rollupWbs(activities: ActivityEVM[]): WbsEVM[] {
+    const wbsMap = new Map(this.wbs.map(w => [w.id, w]));
+    const members = new Map<string, ActivityEVM[]>(this.wbs.map(w => [w.id, []]));
+
+    activities.forEach(activity => {
+      const visited = new Set<string>();
+      let wbsId = activity.wbsId;
+      while (wbsId && wbsMap.has(wbsId) && !visited.has(wbsId)) {
+        visited.add(wbsId);
+        members.get(wbsId)!.push(activity);
+        wbsId = wbsMap.get(wbsId)!.parentId;
+      }
+    });
+
+    return [...this.wbs]
+      .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+      .map(w => ({
+        wbsId: w.id,
+        code: w.code,
+        name: w.name,
+        parentId: w.parentId,
+        level: w.level,
+        ...this.summarize(members.get(w.id)!)
+      }));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
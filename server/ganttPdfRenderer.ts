@@ -0,0 +1,529 @@
+import type { Project, Activity, Relationship, Wbs, GanttPdfOptions } from "@shared/schema";
+import { PDFWriter, type RGB } from "./pdfWriter";
+
+export interface GanttReportData {
+  project: Project;
+  activities: Activity[];
+  relationships: Relationship[];
+  wbs: Wbs[];
+}
+
+export interface GanttPdfReport {
+  pages: number;
+  activities: number;
+  wbs: number;
+  relationships: number;
+  pageSize: string;
+  orientation: string;
+  timescale: string;
+  warnings: string[];
+}
+
+type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+type GanttRow =
+  | { kind: 'wbs'; wbs: Wbs; level: number; start: number | null; finish: number | null }
+  | { kind: 'activity'; activity: Activity; level: number; start: number | null; finish: number | null };
+
+interface Column {
+  title: string;
+  width: number;
+  align?: 'left' | 'right';
+  value: (activity: Activity) => string;
+}
+
+// Portrait sizes in points
+const PAGE_SIZES: Record<GanttPdfOptions['pageSize'], [number, number]> = {
+  Letter: [612, 792],
+  Legal: [612, 1008],
+  Tabloid: [792, 1224],
+  A4: [595, 842],
+  A3: [842, 1191],
+  A1: [1684, 2384],
+  ArchD: [1728, 2592]
+};
+
+const MARGIN = 24;
+const TITLE_HEIGHT = 40;
+const HEADER_HEIGHT = 24;
+const ROW_HEIGHT = 13;
+const LEGEND_HEIGHT = 20;
+const FONT_SIZE = 6.5;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 86400000;
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [1, 1, 1];
+const GRID: RGB = [0.85, 0.85, 0.85];
+const TEXT_MUTED: RGB = [0.35, 0.35, 0.35];
+const CRITICAL: RGB = [0.85, 0.16, 0.16];
+const DATA_DATE: RGB = [0.15, 0.35, 0.85];
+const LINK: RGB = [0.45, 0.45, 0.45];
+
+/**
+ * Renders a project as a paginated PDF Gantt chart: an activity table on the
+ * left, bars on a fitted timescale on the right, WBS bands with summary bars,
+ * relationship lines, critical bars in red and the data date line. Rows flow
+ * down as many pages as needed with the title block, column headers and legend
+ * repeated on each. Relationships between rows on different pages are not drawn.
+ */
+export class GanttPDFRenderer {
+  private pdf: PDFWriter;
+  private primary: RGB;
+  private secondary: RGB;
+  private columns: Column[];
+  private tableWidth: number;
+  private ganttLeft: number;
+  private ganttWidth: number;
+  private rangeStart = 0;
+  private rangeEnd = 1;
+  private unit: Exclude<TimeUnit, 'year'> = 'month';
+  private dataDay: number | null;
+  private report: GanttPdfReport;
+
+  constructor(private data: GanttReportData, private options: GanttPdfOptions) {
+    const [shortSide, longSide] = PAGE_SIZES[options.pageSize];
+    const [width, height] = options.orientation === 'landscape' ? [longSide, shortSide] : [shortSide, longSide];
+    this.pdf = new PDFWriter(width, height, { title: `${data.project.name} Schedule`, subject: 'Gantt chart' });
+    this.primary = this.parseColor(data.project.colorPrimary, [0.06, 0.73, 0.51]);
+    this.secondary = this.parseColor(data.project.colorSecondary, [0.02, 0.59, 0.41]);
+    this.dataDay = this.toDay(data.project.dataDate);
+
+    this.columns = this.buildColumns(width - MARGIN * 2);
+    this.tableWidth = this.columns.reduce((sum, c) => sum + c.width, 0);
+    this.ganttLeft = MARGIN + this.tableWidth;
+    this.ganttWidth = width - MARGIN - this.ganttLeft;
+    this.report = {
+      pages: 0, activities: 0, wbs: 0, relationships: 0,
+      pageSize: options.pageSize, orientation: options.orientation, timescale: options.timescale, warnings: []
+    };
+  }
+
+  public render(): { content: Buffer; report: GanttPdfReport } {
+    const rows = this.buildRows();
+    this.prepareTimescale(rows);
+    this.report.timescale = this.unit;
+
+    const bodyTop = MARGIN + TITLE_HEIGHT + 6 + HEADER_HEIGHT;
+    const bodyBottom = this.pdf.height - MARGIN - LEGEND_HEIGHT - 4;
+    const rowsPerPage = Math.max(1, Math.floor((bodyBottom - bodyTop) / ROW_HEIGHT));
+    const pageCount = Math.max(1, Math.ceil(rows.length / rowsPerPage));
+
+    // Where each activity lands, so relationship lines can find both ends
+    const positions = new Map<string, { page: number; y: number; start: number | null; finish: number | null }>();
+    rows.forEach((row, index) => {
+      if (row.kind !== 'activity') return;
+      positions.set(row.activity.id, {
+        page: Math.floor(index / rowsPerPage),
+        y: bodyTop + (index % rowsPerPage) * ROW_HEIGHT + ROW_HEIGHT / 2,
+        start: row.start,
+        finish: row.finish
+      });
+    });
+
+    for (let page = 0; page < pageCount; page++) {
+      this.pdf.addPage();
+      const pageRows = rows.slice(page * rowsPerPage, (page + 1) * rowsPerPage);
+      const pageBottom = bodyTop + pageRows.length * ROW_HEIGHT;
+
+      this.drawTitleBlock(page, pageCount);
+      this.drawGrid(bodyTop - HEADER_HEIGHT, pageBottom);
+      pageRows.forEach((row, index) => this.drawRow(row, bodyTop + index * ROW_HEIGHT));
+      if (this.options.relationships) this.drawRelationships(page, positions);
+      this.drawDataDate(bodyTop - HEADER_HEIGHT, pageBottom);
+      this.drawHeaders(bodyTop - HEADER_HEIGHT);
+      this.drawLegend();
+    }
+
+    this.report.pages = pageCount;
+    return { content: this.pdf.toBuffer(), report: this.report };
+  }
+
+  /**
+   * Table columns sized to take at most ~45% of the page; narrow pages drop the
+   * remaining duration column and squeeze the name column first
+   */
+  private buildColumns(contentWidth: number): Column[] {
+    const columns: Column[] = [
+      { title: 'Activity ID', width: 58, value: a => a.activityId },
+      { title: 'Activity Name', width: 170, value: a => a.name },
+      { title: 'Orig Dur', width: 36, align: 'right', value: a => this.formatDays(a.originalDuration) },
+      { title: 'Rem Dur', width: 36, align: 'right', value: a => this.formatDays(a.status === 'Completed' ? 0 : a.remainingDuration) },
+      { title: 'Start', width: 48, value: a => this.formatDate(a.actualStart || a.earlyStart, !!a.actualStart) },
+      { title: 'Finish', width: 48, value: a => this.formatDate(a.actualFinish || a.earlyFinish, !!a.actualFinish) },
+      { title: 'Total Float', width: 42, align: 'right', value: a => this.formatDays(a.totalFloat) }
+    ];
+    const available = contentWidth * 0.45;
+    const visible = contentWidth < 700 ? columns.filter(c => c.title !== 'Rem Dur') : columns;
+    const fixed = visible.filter(c => c.title !== 'Activity Name').reduce((sum, c) => sum + c.width, 0);
+    visible[1].width = Math.max(70, Math.min(visible[1].width, available - fixed));
+    return visible;
+  }
+
+  /**
+   * WBS bands in sequence order, each followed by its activities (by start)
+   * and then its child elements; activities outside the WBS come last
+   */
+  private buildRows(): GanttRow[] {
+    const wbsMap = new Map(this.data.wbs.map(w => [w.id, w]));
+    const parentOf = (w: Wbs) => (w.parentId && wbsMap.has(w.parentId) ? w.parentId : null);
+    const byWbs = new Map<string | null, Activity[]>();
+    this.data.activities.forEach(activity => {
+      const key = activity.wbsId && wbsMap.has(activity.wbsId) ? activity.wbsId : null;
+      byWbs.set(key, [...(byWbs.get(key) || []), activity]);
+    });
+    byWbs.forEach(list => list.sort((a, b) =>
+      (this.startOf(a) ?? Infinity) - (this.startOf(b) ?? Infinity) || a.activityId.localeCompare(b.activityId)
+    ));
+
+    const rows: GanttRow[] = [];
+    const visit = (parentId: string | null, level: number): { start: number | null; finish: number | null } => {
+      const bounds = { start: null as number | null, finish: null as number | null };
+      const extend = (start: number | null, finish: number | null) => {
+        if (start !== null && (bounds.start === null || start < bounds.start)) bounds.start = start;
+        if (finish !== null && (bounds.finish === null || finish > bounds.finish)) bounds.finish = finish;
+      };
+
+      (parentId ? byWbs.get(parentId) || [] : []).forEach(activity => {
+        const row: GanttRow = { kind: 'activity', activity, level, start: this.startOf(activity), finish: this.finishOf(activity) };
+        rows.push(row);
+        extend(row.start, row.finish);
+      });
+      this.data.wbs
+        .filter(w => parentOf(w) === parentId)
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .forEach(w => {
+          const row: GanttRow = { kind: 'wbs', wbs: w, level, start: null, finish: null };
+          rows.push(row);
+          const childBounds = visit(w.id, level + 1);
+          row.start = childBounds.start;
+          row.finish = childBounds.finish;
+          extend(childBounds.start, childBounds.finish);
+          this.report.wbs++;
+        });
+      return bounds;
+    };
+    visit(null, 0);
+    (byWbs.get(null) || []).forEach(activity => {
+      rows.push({ kind: 'activity', activity, level: 0, start: this.startOf(activity), finish: this.finishOf(activity) });
+    });
+
+    const undated = this.data.activities.filter(a => this.startOf(a) === null || this.finishOf(a) === null);
+    if (undated.length > 0) {
+      this.report.warnings.push(`${undated.length} activities have no dates and are listed without bars; calculate the schedule first`);
+    }
+    this.report.activities = this.data.activities.length;
+    return rows;
+  }
+
+  /**
+   * Fits the whole schedule across the chart width and picks the finest
+   * timescale whose labels still fit, unless one was requested
+   */
+  private prepareTimescale(rows: GanttRow[]) {
+    const days = rows.flatMap(r => [r.start, r.finish]).filter((d): d is number => d !== null);
+    if (this.dataDay !== null) days.push(this.dataDay);
+    const today = Math.floor(Date.now() / DAY_MS);
+    let start = days.length > 0 ? Math.min(...days) : today;
+    let end = days.length > 0 ? Math.max(...days) + 1 : today + 30;
+
+    const pxPerDay = this.ganttWidth / Math.max(1, end - start);
+    this.unit = this.options.timescale !== 'auto'
+      ? this.options.timescale
+      : pxPerDay >= 12 ? 'day' : pxPerDay * 7 >= 16 ? 'week' : pxPerDay * 30.4 >= 16 ? 'month' : 'quarter';
+
+    start = this.unitStart(start, this.unit);
+    end = this.unitStart(end, this.unit) === end ? end : this.addUnit(this.unitStart(end, this.unit), this.unit);
+    this.rangeStart = start;
+    this.rangeEnd = Math.max(end, start + 1);
+  }
+
+  private drawTitleBlock(page: number, pageCount: number) {
+    const { project } = this.data;
+    const width = this.pdf.width - MARGIN * 2;
+    this.pdf.rect(MARGIN, MARGIN, width, TITLE_HEIGHT, this.primary);
+    this.pdf.text(this.pdf.fit(project.name, width * 0.6, 14, true), MARGIN + 8, MARGIN + 18, { size: 14, bold: true, color: WHITE });
+
+    const details = [
+      project.dataDate ? `Data Date: ${this.formatDate(project.dataDate)}` : null,
+      `Printed: ${this.formatDate(new Date().toISOString().slice(0, 10))}`,
+      `Timescale: ${this.unit[0].toUpperCase()}${this.unit.slice(1)}`
+    ].filter(Boolean).join('     ');
+    this.pdf.text(details, MARGIN + 8, MARGIN + 32, { size: 8, color: WHITE });
+    this.pdf.text(`Page ${page + 1} of ${pageCount}`, MARGIN + width - 8, MARGIN + 18, { size: 9, bold: true, color: WHITE, align: 'right' });
+
+    const starts = this.data.activities.map(a => a.actualStart || a.earlyStart).filter(Boolean).sort() as string[];
+    const finishes = this.data.activities.map(a => a.actualFinish || a.earlyFinish).filter(Boolean).sort() as string[];
+    if (starts.length > 0 && finishes.length > 0) {
+      this.pdf.text(
+        `${this.formatDate(starts[0])} - ${this.formatDate(finishes[finishes.length - 1])}`,
+        MARGIN + width - 8, MARGIN + 32, { size: 8, color: WHITE, align: 'right' }
+      );
+    }
+  }
+
+  private drawHeaders(top: number) {
+    // Column titles
+    this.pdf.rect(MARGIN, top, this.tableWidth, HEADER_HEIGHT, this.secondary, BLACK);
+    let x = MARGIN;
+    this.columns.forEach(column => {
+      const textX = column.align === 'right' ? x + column.width - 3 : x + 3;
+      this.pdf.text(this.pdf.fit(column.title, column.width - 6, FONT_SIZE, true), textX, top + HEADER_HEIGHT / 2 + 2.5, {
+        size: FONT_SIZE, bold: true, color: WHITE, align: column.align === 'right' ? 'right' : 'left'
+      });
+      x += column.width;
+      this.pdf.line(x, top, x, top + HEADER_HEIGHT, WHITE, 0.3);
+    });
+
+    // Timescale: major units above, minor units below
+    const half = HEADER_HEIGHT / 2;
+    const major: TimeUnit = this.unit === 'day' || this.unit === 'week' ? 'month' : 'year';
+    this.pdf.rect(this.ganttLeft, top, this.ganttWidth, HEADER_HEIGHT, [0.94, 0.94, 0.94], BLACK);
+    this.pdf.line(this.ganttLeft, top + half, this.ganttLeft + this.ganttWidth, top + half, TEXT_MUTED, 0.3);
+
+    for (let day = this.rangeStart; day < this.rangeEnd; day = this.addUnit(day, major)) {
+      const left = this.x(Math.max(day, this.rangeStart));
+      const right = this.x(Math.min(this.addUnit(day, major), this.rangeEnd));
+      this.pdf.line(left, top, left, top + half, TEXT_MUTED, 0.3);
+      const label = this.pdf.fit(this.unitLabel(day, major), right - left - 4, FONT_SIZE, true);
+      if (label) this.pdf.text(label, (left + right) / 2, top + half - 3.5, { size: FONT_SIZE, bold: true, align: 'center' });
+    }
+    for (let day = this.rangeStart; day < this.rangeEnd; day = this.addUnit(day, this.unit)) {
+      const left = this.x(day);
+      const right = this.x(Math.min(this.addUnit(day, this.unit), this.rangeEnd));
+      this.pdf.line(left, top + half, left, top + HEADER_HEIGHT, TEXT_MUTED, 0.3);
+      const label = this.unitLabel(day, this.unit);
+      if (this.pdf.textWidth(label, FONT_SIZE) <= right - left - 2) {
+        this.pdf.text(label, (left + right) / 2, top + HEADER_HEIGHT - 3.5, { size: FONT_SIZE, align: 'center' });
+      }
+    }
+  }
+
+  private drawGrid(top: number, bottom: number) {
+    for (let day = this.rangeStart; day < this.rangeEnd; day = this.addUnit(day, this.unit)) {
+      this.pdf.line(this.x(day), top + HEADER_HEIGHT, this.x(day), bottom, GRID, 0.3);
+    }
+    this.pdf.rect(MARGIN, top, this.tableWidth + this.ganttWidth, bottom - top, undefined, BLACK, 0.5);
+    let x = MARGIN;
+    this.columns.forEach(column => {
+      x += column.width;
+      this.pdf.line(x, top + HEADER_HEIGHT, x, bottom, GRID, 0.3);
+    });
+  }
+
+  private drawRow(row: GanttRow, top: number) {
+    const indent = Math.min(row.level, 6) * 6;
+    const baseline = top + ROW_HEIGHT / 2 + 2.3;
+
+    if (row.kind === 'wbs') {
+      // Deeper levels get lighter bands
+      const band = this.tint(this.primary, Math.min(0.9, 0.6 + row.level * 0.1));
+      this.pdf.rect(MARGIN, top, this.tableWidth + this.ganttWidth, ROW_HEIGHT, band);
+      const label = `${row.wbs.code}  ${row.wbs.name}`;
+      this.pdf.text(this.pdf.fit(label, this.tableWidth - indent - 6, FONT_SIZE, true), MARGIN + 3 + indent, baseline, {
+        size: FONT_SIZE, bold: true
+      });
+      if (row.start !== null && row.finish !== null) {
+        const left = this.x(row.start);
+        const right = this.x(row.finish + 1);
+        const y = top + ROW_HEIGHT / 2 - 1.5;
+        this.pdf.rect(left, y, Math.max(1, right - left), 3, BLACK);
+        this.pdf.polygon([[left, y], [left + 3, y], [left, y + 6]], BLACK);
+        this.pdf.polygon([[right, y], [right - 3, y], [right, y + 6]], BLACK);
+      }
+      this.pdf.line(MARGIN, top + ROW_HEIGHT, MARGIN + this.tableWidth + this.ganttWidth, top + ROW_HEIGHT, GRID, 0.3);
+      return;
+    }
+
+    const { activity } = row;
+    let x = MARGIN;
+    this.columns.forEach((column, index) => {
+      const offset = index === 1 ? indent : 0;
+      const value = this.pdf.fit(column.value(activity), column.width - 6 - offset, FONT_SIZE);
+      const textX = column.align === 'right' ? x + column.width - 3 : x + 3 + offset;
+      this.pdf.text(value, textX, baseline, {
+        size: FONT_SIZE,
+        color: activity.isCritical && activity.status !== 'Completed' ? CRITICAL : BLACK,
+        align: column.align === 'right' ? 'right' : 'left'
+      });
+      x += column.width;
+    });
+    this.pdf.line(MARGIN, top + ROW_HEIGHT, MARGIN + this.tableWidth + this.ganttWidth, top + ROW_HEIGHT, GRID, 0.3);
+
+    if (row.start === null || row.finish === null) return;
+    const mid = top + ROW_HEIGHT / 2;
+    const isMilestone = activity.type === 'StartMilestone' || activity.type === 'FinishMilestone';
+    const color = activity.status === 'Completed' ? this.secondary : activity.isCritical ? CRITICAL : this.primary;
+
+    if (isMilestone) {
+      const cx = activity.type === 'FinishMilestone' ? this.x(row.finish + 1) : this.x(row.start);
+      const r = ROW_HEIGHT / 2 - 2;
+      this.pdf.polygon([[cx, mid - r], [cx + r, mid], [cx, mid + r], [cx - r, mid]], color, BLACK, 0.3);
+      return;
+    }
+
+    const left = this.x(row.start);
+    const right = this.x(row.finish + 1);
+    const barTop = top + 3;
+    const barHeight = ROW_HEIGHT - 6;
+    this.pdf.rect(left, barTop, Math.max(1, right - left), barHeight, color);
+
+    // In-progress work before the data date is drawn as actual
+    if (activity.status === 'InProgress' && this.dataDay !== null && this.dataDay > row.start) {
+      const actualRight = Math.min(right, this.x(this.dataDay));
+      this.pdf.rect(left, barTop, Math.max(1, actualRight - left), barHeight, this.secondary);
+    }
+    this.pdf.rect(left, barTop, Math.max(1, right - left), barHeight, undefined, BLACK, 0.3);
+  }
+
+  /**
+   * Elbow connectors from the predecessor's start or finish to the successor's,
+   * turning at the row boundary above (or below) the successor
+   */
+  private drawRelationships(
+    page: number,
+    positions: Map<string, { page: number; y: number; start: number | null; finish: number | null }>
+  ) {
+    const critical = new Set(this.data.activities.filter(a => a.isCritical).map(a => a.id));
+    this.data.relationships.forEach(rel => {
+      const from = positions.get(rel.predecessorId);
+      const to = positions.get(rel.successorId);
+      if (!from || !to || from.page !== page || to.page !== page) return;
+      if (from.start === null || from.finish === null || to.start === null || to.finish === null) return;
+
+      const fromFinish = rel.type === 'FS' || rel.type === 'FF';
+      const toStart = rel.type === 'FS' || rel.type === 'SS';
+      const fromX = fromFinish ? this.x(from.finish + 1) : this.x(from.start);
+      const toX = toStart ? this.x(to.start) : this.x(to.finish + 1);
+      const outX = fromX + (fromFinish ? 3 : -3);
+      const inX = toX + (toStart ? -3 : 3);
+      const turnY = to.y + (to.y > from.y ? -ROW_HEIGHT / 2 : ROW_HEIGHT / 2);
+      const color = critical.has(rel.predecessorId) && critical.has(rel.successorId) ? CRITICAL : LINK;
+
+      this.pdf.polyline([[fromX, from.y], [outX, from.y], [outX, turnY], [inX, turnY], [inX, to.y], [toX, to.y]], color, 0.4);
+      const tip = toStart ? -2 : 2;
+      this.pdf.polygon([[toX, to.y], [toX + tip, to.y - 1.5], [toX + tip, to.y + 1.5]], color);
+      this.report.relationships++;
+    });
+  }
+
+  private drawDataDate(top: number, bottom: number) {
+    if (this.dataDay === null || this.dataDay < this.rangeStart || this.dataDay > this.rangeEnd) return;
+    const x = this.x(this.dataDay);
+    this.pdf.line(x, top + HEADER_HEIGHT, x, bottom, DATA_DATE, 0.8, [3, 2]);
+  }
+
+  private drawLegend() {
+    const top = this.pdf.height - MARGIN - LEGEND_HEIGHT;
+    const mid = top + LEGEND_HEIGHT / 2;
+    this.pdf.rect(MARGIN, top, this.pdf.width - MARGIN * 2, LEGEND_HEIGHT, [0.97, 0.97, 0.97], GRID);
+
+    let x = MARGIN + 8;
+    const label = (text: string) => {
+      this.pdf.text(text, x, mid + 2.3, { size: FONT_SIZE, color: TEXT_MUTED });
+      x += this.pdf.textWidth(text, FONT_SIZE) + 14;
+    };
+    const swatch = (color: RGB, text: string) => {
+      this.pdf.rect(x, mid - 3, 16, 6, color, BLACK, 0.3);
+      x += 20;
+      label(text);
+    };
+
+    swatch(CRITICAL, 'Critical');
+    swatch(this.primary, 'Non-critical');
+    swatch(this.secondary, 'Actual / Completed');
+    this.pdf.polygon([[x + 4, mid - 4], [x + 8, mid], [x + 4, mid + 4], [x, mid]], this.primary, BLACK, 0.3);
+    x += 12;
+    label('Milestone');
+    this.pdf.rect(x, mid - 1.5, 16, 3, BLACK);
+    x += 20;
+    label('WBS summary');
+    this.pdf.line(x, mid, x + 16, mid, DATA_DATE, 0.8, [3, 2]);
+    x += 20;
+    label('Data date');
+    if (this.options.relationships) {
+      this.pdf.line(x, mid, x + 16, mid, LINK, 0.4);
+      x += 20;
+      label('Relationship');
+    }
+  }
+
+  private x(day: number): number {
+    return this.ganttLeft + (day - this.rangeStart) / (this.rangeEnd - this.rangeStart) * this.ganttWidth;
+  }
+
+  private unitStart(day: number, unit: TimeUnit): number {
+    const date = new Date(day * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    switch (unit) {
+      case 'day': return day;
+      case 'week': return day - ((date.getUTCDay() + 6) % 7); // Weeks start on Monday
+      case 'month': return Date.UTC(year, month, 1) / DAY_MS;
+      case 'quarter': return Date.UTC(year, month - (month % 3), 1) / DAY_MS;
+      case 'year': return Date.UTC(year, 0, 1) / DAY_MS;
+    }
+  }
+
+  private addUnit(day: number, unit: TimeUnit): number {
+    const date = new Date(this.unitStart(day, unit) * DAY_MS);
+    switch (unit) {
+      case 'day': return day + 1;
+      case 'week': return this.unitStart(day, unit) + 7;
+      case 'month': return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / DAY_MS;
+      case 'quarter': return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 3, 1) / DAY_MS;
+      case 'year': return Date.UTC(date.getUTCFullYear() + 1, 0, 1) / DAY_MS;
+    }
+  }
+
+  private unitLabel(day: number, unit: TimeUnit): string {
+    const date = new Date(day * DAY_MS);
+    switch (unit) {
+      case 'day':
+      case 'week':
+        return String(date.getUTCDate());
+      case 'month': return MONTHS[date.getUTCMonth()];
+      case 'quarter': return `Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+      case 'year': return String(date.getUTCFullYear());
+    }
+  }
+
+  private startOf(activity: Activity): number | null {
+    return this.toDay(activity.actualStart || activity.earlyStart);
+  }
+
+  // Finish dates are inclusive, so bars run to the end of the finish day
+  private finishOf(activity: Activity): number | null {
+    const finish = this.toDay(activity.actualFinish || activity.earlyFinish);
+    const start = this.startOf(activity);
+    return finish !== null && start !== null ? Math.max(start, finish) : finish;
+  }
+
+  private toDay(date: string | null | undefined): number | null {
+    if (!date || !/^\d{4}-\d{2}-\d{2}/.test(date)) return null;
+    return Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS;
+  }
+
+  // P6 style dates: 03-Jan-25, with an A suffix for actuals
+  private formatDate(date: string | null | undefined, isActual = false): string {
+    if (!date) return '';
+    const [year, month, day] = date.slice(0, 10).split('-');
+    return `${day}-${MONTHS[Number(month) - 1]}-${year.slice(2)}${isActual ? ' A' : ''}`;
+  }
+
+  private formatDays(days: number | null | undefined): string {
+    return days === null || days === undefined ? '' : `${Math.round(days * 10) / 10}d`;
+  }
+
+  private parseColor(hex: string | null | undefined, fallback: RGB): RGB {
+    const match = (hex || '').match(/^#?([0-9a-fA-F]{6})$/);
+    if (!match) return fallback;
+    const value = parseInt(match[1], 16);
+    return [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+  }
+
+  private tint([r, g, b]: RGB, amount: number): RGB {
+    return [r + (1 - r) * amount, g + (1 - g) * amount, b + (1 - b) * amount];
+  }
+}
@@ -0,0 +1,86 @@
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface HolidaySet {
+  id: string;
+  name: string;
+  description: string;
+  holidays(year: number): Holiday[];
+}
+
+const iso = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+
+// The nth weekday (0 = Sunday) of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return iso(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  return iso(year, month, lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7));
+}
+
+// Fixed-date holidays falling on a weekend are observed on the nearest weekday
+function observed(year: number, month: number, day: number): string {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (weekday === 6) return iso(year, month, day - 1);
+  if (weekday === 0) return iso(year, month, day + 1);
+  return iso(year, month, day);
+}
+
+/**
+ * Holiday lists that can be imported into a calendar, by set id
+ */
+export const HOLIDAY_SETS: HolidaySet[] = [
+  {
+    id: 'us-federal',
+    name: 'US Federal Holidays',
+    description: 'The 11 federal holidays (5 U.S.C. 6103), on their observed weekdays',
+    holidays: year => [
+      { date: observed(year, 1, 1), name: "New Year's Day" },
+      { date: nthWeekday(year, 1, 1, 3), name: 'Birthday of Martin Luther King, Jr.' },
+      { date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+      { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+      { date: observed(year, 6, 19), name: 'Juneteenth National Independence Day' },
+      { date: observed(year, 7, 4), name: 'Independence Day' },
+      { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+      { date: nthWeekday(year, 10, 1, 2), name: 'Columbus Day' },
+      { date: observed(year, 11, 11), name: 'Veterans Day' },
+      { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+      { date: observed(year, 12, 25), name: 'Christmas Day' }
+    ]
+  },
+  {
+    id: 'us-construction',
+    name: 'US Construction (6 major holidays)',
+    description: "New Year's, Memorial Day, Independence Day, Labor Day, Thanksgiving (with the Friday after) and Christmas",
+    holidays: year => {
+      const thanksgiving = nthWeekday(year, 11, 4, 4);
+      return [
+        { date: observed(year, 1, 1), name: "New Year's Day" },
+        { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+        { date: observed(year, 7, 4), name: 'Independence Day' },
+        { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+        { date: thanksgiving, name: 'Thanksgiving Day' },
+        { date: iso(year, 11, Number(thanksgiving.slice(8)) + 1), name: 'Day after Thanksgiving' },
+        { date: observed(year, 12, 25), name: 'Christmas Day' }
+      ];
+    }
+  }
+];
+
+/**
+ * Holidays of a set for each year in the range, sorted by date
+ */
+export function getHolidays(setId: string, fromYear: number, toYear: number): Holiday[] | null {
+  const set = HOLIDAY_SETS.find(s => s.id === setId);
+  if (!set) return null;
+  const holidays: Holiday[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    holidays.push(...set.holidays(year));
+  }
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
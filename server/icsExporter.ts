@@ -0,0 +1,199 @@
+import type { Project, Activity, ProjectMember } from "@shared/schema";
+
+export interface ICSFeedOptions {
+  lookaheadDays: number; // Activities starting or underway within this many days of the data date
+  responsibility?: string;
+  trade?: string;
+  activityCode?: { name: string; value: string }; // e.g. Area = North
+}
+
+export interface ICSFeedData {
+  project: Project;
+  activities: Activity[];
+  member: ProjectMember;
+  dataDate: string; // YYYY-MM-DD
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MILESTONE_TYPES = new Set(['StartMilestone', 'FinishMilestone']);
+const SUMMARY_TYPES = new Set(['WBSSummary', 'LOE', 'Hammock']);
+// Constraints that fix or limit a date the field needs to work toward
+const DEADLINE_CONSTRAINTS: Record<string, string> = {
+  FNLT: 'Finish no later than',
+  SNLT: 'Start no later than',
+  MFO: 'Must finish on',
+  MSO: 'Must start on'
+};
+
+/**
+ * iCalendar (RFC 5545) feed of a project for one member's calendar app:
+ * - milestones on their forecast (or actual) dates
+ * - incomplete activities in the lookahead window, optionally filtered
+ *   by responsibility, trade or an activity code value
+ * - deadlines and date constraints of incomplete activities matching the filters
+ * Events are all-day. UIDs are derived from the activity id and event kind,
+ * so a subscribed calendar moves an event when its dates change instead of
+ * adding a second one.
+ */
+export class ICSExporter {
+  private lines: string[] = [];
+  private stamp: string;
+  private host: string;
+
+  constructor(private data: ICSFeedData, private options: ICSFeedOptions) {
+    this.stamp = this.formatDateTime(new Date());
+    this.host = `schedulesam.${data.project.id}`;
+  }
+
+  public export(): { content: string; events: number } {
+    const { project, activities } = this.data;
+    this.lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//ScheduleSam//Schedule Feed//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(`${project.name} - ${this.data.member.userName}`)}`,
+      `X-WR-CALDESC:${this.escape(`Milestones and ${this.options.lookaheadDays}-day lookahead from ${this.data.dataDate}`)}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H'
+    ];
+
+    let events = 0;
+    activities.filter(a => MILESTONE_TYPES.has(a.type)).forEach(activity => {
+      const date = activity.type === 'StartMilestone'
+        ? this.startOf(activity)
+        : this.finishOf(activity);
+      if (!date) return;
+      this.addEvent(activity, 'milestone', date, date, `${activity.status === 'Completed' ? '\u2713 ' : ''}\u25C6 ${activity.activityId} ${activity.name}`);
+      events++;
+    });
+
+    const assigned = this.assigned();
+    this.lookahead(assigned).forEach(activity => {
+      const start = this.startOf(activity)!;
+      const finish = this.finishOf(activity) ?? start;
+      this.addEvent(activity, 'activity', start, finish, `${activity.activityId} ${activity.name}`);
+      events++;
+    });
+
+    // Deadlines are shown however far out they are, so the field sees them coming
+    assigned.forEach(activity => {
+      if (activity.deadline) {
+        const date = activity.deadline.slice(0, 10);
+        this.addEvent(activity, 'deadline', date, date, `Deadline: ${activity.activityId} ${activity.name}`);
+        events++;
+      }
+      const constraint = activity.constraintType && DEADLINE_CONSTRAINTS[activity.constraintType];
+      if (constraint && activity.constraintDate) {
+        const date = activity.constraintDate.slice(0, 10);
+        this.addEvent(activity, 'constraint', date, date, `${constraint}: ${activity.activityId} ${activity.name}`);
+        events++;
+      }
+    });
+
+    this.lines.push('END:VCALENDAR');
+    return { content: this.lines.map(line => this.fold(line)).join('\r\n') + '\r\n', events };
+  }
+
+  /**
+   * Incomplete activities matching the member's responsibility, trade and code filters
+   */
+  private assigned(): Activity[] {
+    const { responsibility, trade, activityCode } = this.options;
+    return this.data.activities
+      .filter(a => !SUMMARY_TYPES.has(a.type) && a.status !== 'Completed')
+      .filter(a => !responsibility || (a.responsibility ?? '').toLowerCase() === responsibility.toLowerCase())
+      .filter(a => !trade || (a.trade ?? '').toLowerCase() === trade.toLowerCase())
+      .filter(a => {
+        if (!activityCode) return true;
+        const codes = (a.activityCodes ?? {}) as Record<string, string>;
+        return codes[activityCode.name] === activityCode.value;
+      });
+  }
+
+  /**
+   * Work (not milestones) overlapping the window that starts at the data date
+   */
+  private lookahead(activities: Activity[]): Activity[] {
+    const windowStart = this.data.dataDate;
+    const windowEnd = this.addDays(windowStart, this.options.lookaheadDays);
+
+    return activities
+      .filter(a => !MILESTONE_TYPES.has(a.type))
+      .filter(a => {
+        const start = this.startOf(a);
+        const finish = this.finishOf(a) ?? start;
+        return !!start && start <= windowEnd && finish! >= windowStart;
+      })
+      .sort((a, b) => this.startOf(a)!.localeCompare(this.startOf(b)!));
+  }
+
+  private addEvent(activity: Activity, kind: string, start: string, finish: string, summary: string) {
+    const description = [
+      `Activity: ${activity.activityId}`,
+      `Status: ${activity.status}${activity.percentComplete ? ` (${activity.percentComplete}% complete)` : ''}`,
+      activity.totalFloat !== null && activity.totalFloat !== undefined ? `Total float: ${activity.totalFloat} days` : null,
+      activity.responsibility ? `Responsibility: ${activity.responsibility}` : null,
+      activity.trade ? `Trade: ${activity.trade}` : null
+    ].filter(Boolean).join('\n');
+
+    this.lines.push(
+      'BEGIN:VEVENT',
+      `UID:${kind}-${activity.id}@${this.host}`,
+      `DTSTAMP:${this.stamp}`,
+      ...(activity.updatedAt ? [`LAST-MODIFIED:${this.formatDateTime(new Date(activity.updatedAt))}`] : []),
+      `DTSTART;VALUE=DATE:${start.replace(/-/g, '')}`,
+      // All-day end dates are exclusive
+      `DTEND;VALUE=DATE:${this.addDays(finish < start ? start : finish, 1).replace(/-/g, '')}`,
+      `SUMMARY:${this.escape(summary)}`,
+      `DESCRIPTION:${this.escape(description)}`,
+      ...(activity.location ? [`LOCATION:${this.escape(activity.location)}`] : []),
+      `CATEGORIES:${kind === 'activity' ? 'Lookahead' : kind === 'milestone' ? 'Milestone' : 'Deadline'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  private startOf(activity: Activity): string | null {
+    return (activity.actualStart ?? activity.earlyStart)?.slice(0, 10) ?? null;
+  }
+
+  private finishOf(activity: Activity): string | null {
+    return (activity.actualFinish ?? activity.earlyFinish)?.slice(0, 10) ?? null;
+  }
+
+  private addDays(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+  }
+
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  // Lines longer than 75 octets continue on the next line after a space
+  private fold(line: string): string {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+      const size = Buffer.byteLength(char, 'utf8');
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + size > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+  }
+}
@@ -0,0 +1,644 @@
+import { XMLBuilder } from "fast-xml-parser";
+import type {
+  Project, Activity, Relationship, Wbs, Calendar, Resource, ResourceAssignment
+} from "@shared/schema";
+
+export interface MSPDIExportData {
+  project: Project;
+  activities: Activity[];
+  relationships: Relationship[];
+  wbs: Wbs[];
+  calendars: Calendar[];
+  resources: Resource[];
+  assignments: ResourceAssignment[];
+}
+
+export interface MSPDIExportReport {
+  wbs: number;
+  calendars: number;
+  resources: number;
+  activities: number;
+  relationships: number;
+  resourceAssignments: number;
+  customFieldValues: number;
+  warnings: string[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface ExportCalendar {
+  uid: number;
+  name: string;
+  isResource: boolean;
+  week: { isWorking: boolean; workingTimes: WorkingTime[] }[];
+  exceptions: { date: string; isWorking: boolean; workingTimes: WorkingTime[] }[];
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const LINK_TYPES: Record<string, number> = {
+  FF: 0,
+  FS: 1,
+  SF: 2,
+  SS: 3
+};
+
+const CONSTRAINT_TYPES: Record<string, number> = {
+  MSO: 2,
+  MFO: 3,
+  SNET: 4,
+  SNLT: 5,
+  FNET: 6,
+  FNLT: 7
+};
+
+// Resource Type: 0 = Material, 1 = Work
+const RESOURCE_TYPES: Record<string, number> = {
+  Labor: 1,
+  Equipment: 1,
+  Material: 0
+};
+
+// DurationFormat / LagFormat codes
+const FORMAT_HOURS = 5;
+const FORMAT_DAYS = 7;
+
+// Task Text1-Text10 field ids; Text1 carries our activity ID
+const TEXT_FIELD_IDS = [
+  188743731, 188743734, 188743737, 188743740, 188743743,
+  188743746, 188743747, 188743748, 188743749, 188743750
+];
+export const ACTIVITY_ID_ALIAS = 'Activity ID';
+
+/**
+ * Writes a project as Microsoft Project XML (MSPDI).
+ * WBS elements become summary tasks with activities beneath them, so MS Project
+ * rebuilds the same outline. Durations, slack and lags are written with the
+ * project calendar's minutes per day, which is also what MSPDIImporter reads.
+ */
+export class MSPDIExporter {
+  private calendars = new Map<string, ExportCalendar>();
+  private defaultCalendar!: ExportCalendar;
+  private minutesPerDay = 480;
+  private taskUids = new Map<string, number>();
+  private resourceUids = new Map<string, number>();
+  private textFields = new Map<string, number>();
+  private report: MSPDIExportReport = {
+    wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+    resourceAssignments: 0, customFieldValues: 0, warnings: []
+  };
+
+  constructor(private data: MSPDIExportData) {}
+
+  public export(): { content: string; report: MSPDIExportReport } {
+    const { project } = this.data;
+    this.prepareCalendars();
+    this.prepareTextFields();
+
+    const tasks = this.buildTasks();
+    const starts = this.data.activities.map(a => a.actualStart || a.earlyStart).filter(Boolean) as string[];
+    const finishes = this.data.activities.map(a => a.actualFinish || a.earlyFinish).filter(Boolean) as string[];
+    const startDate = starts.sort()[0] || project.contractStartDate || project.dataDate || this.today();
+    const finishDate = finishes.sort()[finishes.length - 1] || project.contractFinishDate || startDate;
+    const { start, finish } = this.dayBounds(this.defaultCalendar);
+
+    const document = {
+      '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8', '@_standalone': 'yes' },
+      Project: {
+        '@_xmlns': 'http://schemas.microsoft.com/project',
+        SaveVersion: 14,
+        Name: `${project.name}.xml`,
+        Title: project.name,
+        ScheduleFromStart: 1,
+        StartDate: this.formatDateTime(startDate, start),
+        FinishDate: this.formatDateTime(finishDate, finish),
+        CalendarUID: this.defaultCalendar.uid,
+        DefaultStartTime: `${start}:00`,
+        DefaultFinishTime: `${finish}:00`,
+        MinutesPerDay: this.minutesPerDay,
+        MinutesPerWeek: this.minutesPerDay * 5,
+        DaysPerMonth: 20,
+        StatusDate: this.formatDateTime(project.dataDate, start),
+        CurrentDate: this.formatDateTime(project.dataDate || this.today(), start),
+        ExtendedAttributes: {
+          ExtendedAttribute: Array.from(this.textFields.entries()).map(([alias, fieldId], index) => ({
+            FieldID: fieldId,
+            FieldName: `Text${index + 1}`,
+            Alias: alias
+          }))
+        },
+        Calendars: { Calendar: this.buildCalendars() },
+        Tasks: { Task: tasks },
+        Resources: { Resource: this.buildResources() },
+        Assignments: { Assignment: this.buildAssignments() }
+      }
+    };
+
+    const builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      suppressEmptyNode: true
+    });
+    return { content: builder.build(this.compact(document)), report: this.report };
+  }
+
+  /**
+   * Normalize every calendar the project uses; the first project calendar becomes
+   * the project calendar and sets minutes per day
+   */
+  private prepareCalendars() {
+    const usedIds = new Set<string>([
+      ...this.data.activities.map(a => a.calendarId),
+      ...this.data.resources.map(r => r.calendarId)
+    ].filter((id): id is string => !!id));
+
+    let nextUid = 1;
+    this.data.calendars
+      .filter(cal => cal.projectId === this.data.project.id || usedIds.has(cal.id))
+      .forEach(cal => {
+        const week = this.normalizeWeek(cal.standardWorkweek);
+        this.calendars.set(cal.id, {
+          uid: nextUid++,
+          name: cal.name,
+          isResource: cal.type === 'Resource',
+          week,
+          exceptions: this.normalizeExceptions(cal)
+        });
+      });
+
+    const projectCalendar = Array.from(this.calendars.values()).find(c => !c.isResource);
+    this.defaultCalendar = projectCalendar || {
+      uid: nextUid,
+      name: 'Standard',
+      isResource: false,
+      week: this.normalizeWeek(null),
+      exceptions: []
+    };
+    if (!projectCalendar) this.calendars.set('default', this.defaultCalendar);
+
+    const hours = Math.max(0, ...this.defaultCalendar.week.map(d => this.sumHours(d.workingTimes)));
+    this.minutesPerDay = Math.round((hours || 8) * 60);
+  }
+
+  private prepareTextFields() {
+    this.textFields.set(ACTIVITY_ID_ALIAS, TEXT_FIELD_IDS[0]);
+    const skipped = new Set<string>();
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+        if (this.textFields.has(label) || !['string', 'number'].includes(typeof value)) return;
+        if (this.textFields.size < TEXT_FIELD_IDS.length) {
+          this.textFields.set(label, TEXT_FIELD_IDS[this.textFields.size]);
+        } else {
+          skipped.add(label);
+        }
+      });
+    });
+    if (skipped.size > 0) {
+      this.warn(`Custom fields ${Array.from(skipped).join(', ')} were not exported; only ${TEXT_FIELD_IDS.length - 1} text fields are available`);
+    }
+  }
+
+  private buildCalendars(): XmlNode[] {
+    const calendars = Array.from(this.calendars.values()).map(cal => ({
+      UID: cal.uid,
+      Name: cal.name,
+      // Resource calendars are derived from the project calendar in MS Project
+      IsBaseCalendar: cal.isResource ? 0 : 1,
+      BaseCalendarUID: cal.isResource ? this.defaultCalendar.uid : -1,
+      WeekDays: {
+        WeekDay: cal.week.map((day, index) => ({
+          DayType: index + 1,
+          DayWorking: day.isWorking ? 1 : 0,
+          WorkingTimes: day.isWorking ? { WorkingTime: this.workingTimes(day.workingTimes) } : undefined
+        }))
+      },
+      Exceptions: {
+        Exception: cal.exceptions.map(ex => ({
+          EnteredByOccurrence: 0,
+          TimePeriod: { FromDate: `${ex.date}T00:00:00`, ToDate: `${ex.date}T23:59:00` },
+          Occurrences: 1,
+          Name: ex.isWorking ? 'Working exception' : 'Holiday',
+          Type: 1,
+          DayWorking: ex.isWorking ? 1 : 0,
+          WorkingTimes: ex.isWorking ? { WorkingTime: this.workingTimes(ex.workingTimes) } : undefined
+        }))
+      }
+    }));
+    this.report.calendars = calendars.length;
+    return calendars;
+  }
+
+  /**
+   * Outline order: the project summary task, then each WBS element followed by
+   * its activities and child elements. Activities outside the WBS come last.
+   */
+  private buildTasks(): XmlNode[] {
+    const { project } = this.data;
+    const wbsMap = new Map(this.data.wbs.map(w => [w.id, w]));
+    const parentOf = (w: Wbs) => (w.parentId && wbsMap.has(w.parentId) ? w.parentId : null);
+    const activitiesByWbs = new Map<string | null, Activity[]>();
+    this.data.activities.forEach(activity => {
+      const key = activity.wbsId && wbsMap.has(activity.wbsId) ? activity.wbsId : null;
+      if (activity.wbsId && key === null) {
+        this.warn(`Activity ${activity.activityId} WBS was not found; placed at the top level`);
+      }
+      activitiesByWbs.set(key, [...(activitiesByWbs.get(key) || []), activity]);
+    });
+    activitiesByWbs.forEach(list => list.sort((a, b) =>
+      (a.earlyStart || '').localeCompare(b.earlyStart || '') || a.activityId.localeCompare(b.activityId)
+    ));
+
+    // UIDs first so links can point forward
+    let nextUid = 1;
+    const order: { item: Wbs | Activity; isSummary: boolean; level: number; outline: string }[] = [];
+    const visit = (parentId: string | null, level: number, prefix: string) => {
+      let position = 0;
+      (parentId ? activitiesByWbs.get(parentId) || [] : []).forEach(activity => {
+        order.push({ item: activity, isSummary: false, level, outline: `${prefix}${++position}` });
+        this.taskUids.set(activity.id, nextUid++);
+      });
+      this.data.wbs
+        .filter(w => parentOf(w) === parentId)
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .forEach(w => {
+          const outline = `${prefix}${++position}`;
+          order.push({ item: w, isSummary: true, level, outline });
+          nextUid++;
+          visit(w.id, level + 1, `${outline}.`);
+        });
+      if (parentId === null) {
+        (activitiesByWbs.get(null) || []).forEach(activity => {
+          order.push({ item: activity, isSummary: false, level, outline: `${++position}` });
+          this.taskUids.set(activity.id, nextUid++);
+        });
+      }
+    };
+    visit(null, 1, '');
+
+    const bounds = this.summaryBounds(parentOf);
+    const tasks: XmlNode[] = [{
+      UID: 0,
+      ID: 0,
+      Name: project.name,
+      Type: 1,
+      IsNull: 0,
+      WBS: 0,
+      OutlineNumber: 0,
+      OutlineLevel: 0,
+      Summary: 1
+    }];
+
+    let uid = 1;
+    order.forEach(({ item, isSummary, level, outline }) => {
+      if (isSummary) {
+        const wbs = item as Wbs;
+        const { start, finish } = this.dayBounds(this.defaultCalendar);
+        const range = bounds.get(wbs.id);
+        tasks.push({
+          UID: uid,
+          ID: uid,
+          Name: wbs.name,
+          Type: 1,
+          IsNull: 0,
+          WBS: wbs.code,
+          OutlineNumber: outline,
+          OutlineLevel: level,
+          Start: this.formatDateTime(range?.start, start),
+          Finish: this.formatDateTime(range?.finish, finish),
+          Summary: 1
+        });
+        this.report.wbs++;
+      } else {
+        tasks.push(this.buildTask(item as Activity, uid, level, outline));
+        this.report.activities++;
+      }
+      uid++;
+    });
+
+    return tasks;
+  }
+
+  private buildTask(activity: Activity, uid: number, level: number, outline: string): XmlNode {
+    const calendar = this.getCalendar(activity.calendarId);
+    const { start, finish } = this.dayBounds(calendar);
+    const isMilestone = activity.type === 'StartMilestone' || activity.type === 'FinishMilestone';
+    const isFinishConstraint = activity.constraintType === 'FNET' || activity.constraintType === 'FNLT' || activity.constraintType === 'MFO';
+    const earlyStart = activity.actualStart || activity.earlyStart;
+    const earlyFinish = activity.actualFinish || activity.earlyFinish;
+    const remaining = activity.status === 'Completed' ? 0 : activity.remainingDuration ?? activity.originalDuration;
+
+    if (activity.type === 'LOE' || activity.type === 'Hammock' || activity.type === 'WBSSummary') {
+      this.warn(`Activity ${activity.activityId} is a ${activity.type} and was exported as a fixed duration task`);
+    }
+
+    const extendedAttributes = [{ FieldID: TEXT_FIELD_IDS[0], Value: activity.activityId }];
+    Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+      const fieldId = this.textFields.get(label);
+      if (fieldId && label !== ACTIVITY_ID_ALIAS && ['string', 'number'].includes(typeof value)) {
+        extendedAttributes.push({ FieldID: fieldId, Value: String(value) });
+        this.report.customFieldValues++;
+      }
+    });
+
+    const predecessorLinks = this.data.relationships
+      .filter(rel => rel.successorId === activity.id)
+      .map(rel => {
+        const predecessorUid = this.taskUids.get(rel.predecessorId);
+        if (predecessorUid === undefined) {
+          this.warn(`Relationship ${rel.id} references an activity outside the project and was skipped`);
+          return null;
+        }
+        this.report.relationships++;
+        const isHours = rel.lagUnit === 'hours';
+        // LinkLag is stored in tenths of a minute
+        const lagMinutes = isHours ? (rel.lag ?? 0) * 60 : (rel.lag ?? 0) * this.minutesPerDay;
+        return {
+          PredecessorUID: predecessorUid,
+          Type: LINK_TYPES[rel.type] ?? 1,
+          CrossProject: 0,
+          LinkLag: Math.round(lagMinutes * 10),
+          LagFormat: isHours ? FORMAT_HOURS : FORMAT_DAYS
+        };
+      })
+      .filter(Boolean);
+
+    const hasBaseline = activity.baselineStart || activity.baselineFinish;
+
+    return {
+      UID: uid,
+      ID: uid,
+      Name: activity.name,
+      Type: 1, // Fixed duration
+      IsNull: 0,
+      WBS: outline,
+      OutlineNumber: outline,
+      OutlineLevel: level,
+      Start: this.formatDateTime(earlyStart, start),
+      Finish: this.formatDateTime(isMilestone ? earlyStart || earlyFinish : earlyFinish, isMilestone ? start : finish),
+      Duration: this.formatDuration(isMilestone ? 0 : activity.originalDuration),
+      DurationFormat: FORMAT_DAYS,
+      Milestone: isMilestone ? 1 : 0,
+      Summary: 0,
+      Critical: activity.isCritical ? 1 : 0,
+      EarlyStart: this.formatDateTime(activity.earlyStart, start),
+      EarlyFinish: this.formatDateTime(activity.earlyFinish, finish),
+      LateStart: this.formatDateTime(activity.lateStart, start),
+      LateFinish: this.formatDateTime(activity.lateFinish, finish),
+      FreeSlack: this.toTenthsOfMinutes(activity.freeFloat),
+      TotalSlack: this.toTenthsOfMinutes(activity.totalFloat),
+      PercentComplete: Math.round(activity.percentComplete ?? 0),
+      Cost: activity.budgetedCost ?? undefined,
+      ActualStart: this.formatDateTime(activity.actualStart, start),
+      ActualFinish: this.formatDateTime(activity.actualFinish, finish),
+      ActualDuration: activity.actualDuration !== null ? this.formatDuration(activity.actualDuration) : undefined,
+      ActualCost: activity.actualCost ?? undefined,
+      RemainingDuration: this.formatDuration(isMilestone ? 0 : remaining),
+      ConstraintType: activity.constraintType ? CONSTRAINT_TYPES[activity.constraintType] : 0,
+      CalendarUID: activity.calendarId && this.calendars.has(activity.calendarId) ? calendar.uid : -1,
+      ConstraintDate: activity.constraintType
+        ? this.formatDateTime(activity.constraintDate, isFinishConstraint ? finish : start)
+        : undefined,
+      Deadline: this.formatDateTime(activity.deadline, finish),
+      Notes: activity.notes || undefined,
+      PhysicalPercentComplete: activity.physicalPercentComplete !== null
+        ? Math.round(activity.physicalPercentComplete)
+        : undefined,
+      PredecessorLink: predecessorLinks,
+      ExtendedAttribute: extendedAttributes,
+      Baseline: hasBaseline ? [{
+        Number: 0,
+        Start: this.formatDateTime(activity.baselineStart, start),
+        Finish: this.formatDateTime(activity.baselineFinish, finish),
+        Duration: this.formatDuration(activity.baselineDuration ?? activity.originalDuration),
+        DurationFormat: FORMAT_DAYS,
+        Cost: activity.baselineCost ?? undefined
+      }] : undefined
+    };
+  }
+
+  private buildResources(): XmlNode[] {
+    const resources = this.data.resources.map((resource, index) => {
+      const uid = index + 1;
+      this.resourceUids.set(resource.id, uid);
+      const calendar = resource.calendarId ? this.calendars.get(resource.calendarId) : undefined;
+      return {
+        UID: uid,
+        ID: uid,
+        Name: resource.name,
+        Type: RESOURCE_TYPES[resource.type] ?? 1,
+        IsNull: 0,
+        Initials: resource.resourceId,
+        MaterialLabel: resource.type === 'Material' ? resource.unit || undefined : undefined,
+        MaxUnits: resource.type === 'Material' ? undefined : resource.maxUnits ?? 1,
+        StandardRate: resource.standardRate ?? 0,
+        StandardRateFormat: 2, // Per hour
+        OvertimeRate: resource.overtimeRate ?? 0,
+        OvertimeRateFormat: 2,
+        CalendarUID: calendar ? calendar.uid : undefined,
+        Notes: resource.notes || undefined
+      };
+    });
+    this.report.resources = resources.length;
+    return resources;
+  }
+
+  private buildAssignments(): XmlNode[] {
+    const activityMap = new Map(this.data.activities.map(a => [a.id, a]));
+    const assignments: XmlNode[] = [];
+
+    this.data.assignments.forEach(assignment => {
+      const taskUid = this.taskUids.get(assignment.activityId);
+      const resourceUid = this.resourceUids.get(assignment.resourceId);
+      if (taskUid === undefined || resourceUid === undefined) return;
+
+      const activity = activityMap.get(assignment.activityId)!;
+      const { start, finish } = this.dayBounds(this.getCalendar(activity.calendarId));
+      const units = assignment.units ?? 1;
+      const work = assignment.plannedUnits ?? units * (activity.originalDuration ?? 0) * this.minutesPerDay / 60;
+      const actualWork = assignment.actualUnits ?? 0;
+
+      assignments.push({
+        UID: assignments.length + 1,
+        TaskUID: taskUid,
+        ResourceUID: resourceUid,
+        ActualCost: assignment.actualCost ?? undefined,
+        ActualWork: this.formatHours(actualWork),
+        Cost: assignment.cost ?? undefined,
+        Finish: this.formatDateTime(activity.actualFinish || activity.earlyFinish, finish),
+        RemainingCost: assignment.remainingCost ?? undefined,
+        RemainingWork: this.formatHours(assignment.remainingUnits ?? Math.max(0, work - actualWork)),
+        Start: this.formatDateTime(activity.actualStart || activity.earlyStart, start),
+        Units: units,
+        Work: this.formatHours(work)
+      });
+    });
+    this.report.resourceAssignments = assignments.length;
+    return assignments;
+  }
+
+  /**
+   * Earliest start and latest finish of the activities under each WBS element
+   */
+  private summaryBounds(parentOf: (w: Wbs) => string | null): Map<string, { start?: string; finish?: string }> {
+    const bounds = new Map<string, { start?: string; finish?: string }>();
+    const wbsMap = new Map(this.data.wbs.map(w => [w.id, w]));
+    this.data.activities.forEach(activity => {
+      const start = activity.actualStart || activity.earlyStart;
+      const finish = activity.actualFinish || activity.earlyFinish;
+      let current = activity.wbsId ? wbsMap.get(activity.wbsId) : undefined;
+      const seen = new Set<string>();
+      while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        const range = bounds.get(current.id) || {};
+        if (start && (!range.start || start < range.start)) range.start = start;
+        if (finish && (!range.finish || finish > range.finish)) range.finish = finish;
+        bounds.set(current.id, range);
+        const parentId = parentOf(current);
+        current = parentId ? wbsMap.get(parentId) : undefined;
+      }
+    });
+    return bounds;
+  }
+
+  /**
+   * Accepts both stored workweek shapes (array of days or object keyed by weekday name)
+   */
+  private normalizeWeek(value: unknown): ExportCalendar['week'] {
+    const week = DAY_NAMES.map((_, day) => ({
+      isWorking: day >= 1 && day <= 5,
+      workingTimes: day >= 1 && day <= 5 ? this.timesFor(8) : []
+    }));
+    const workweek = this.parseJson(value);
+
+    if (Array.isArray(workweek)) {
+      workweek.forEach((day: any) => {
+        if (typeof day?.dayOfWeek !== 'number') return;
+        const hours = day.isWorking ? day.hoursPerDay ?? 8 : 0;
+        week[day.dayOfWeek] = {
+          isWorking: !!day.isWorking && hours > 0,
+          workingTimes: Array.isArray(day.workingTimes) && day.workingTimes.length > 0 ? day.workingTimes : this.timesFor(hours)
+        };
+      });
+    } else if (workweek && typeof workweek === 'object') {
+      DAY_NAMES.forEach((name, day) => {
+        const pattern = (workweek as any)[name];
+        if (!pattern) return;
+        const [from, to] = Array.isArray(pattern.hours) && pattern.hours.length === 2 ? pattern.hours : [8, 16];
+        week[day] = pattern.working
+          ? { isWorking: true, workingTimes: [{ start: this.formatHour(from), finish: this.formatHour(to) }] }
+          : { isWorking: false, workingTimes: [] };
+      });
+    }
+
+    return week;
+  }
+
+  private normalizeExceptions(cal: Calendar): ExportCalendar['exceptions'] {
+    const exceptions = new Map<string, ExportCalendar['exceptions'][number]>();
+    this.parseList(cal.holidays).forEach(date => {
+      if (typeof date === 'string') exceptions.set(date, { date, isWorking: false, workingTimes: [] });
+    });
+    this.parseList(cal.exceptions).forEach(ex => {
+      if (!ex?.date) return;
+      exceptions.set(ex.date, {
+        date: ex.date,
+        isWorking: !!ex.isWorking,
+        workingTimes: !ex.isWorking
+          ? []
+          : Array.isArray(ex.workingTimes) && ex.workingTimes.length > 0 ? ex.workingTimes : this.timesFor(ex.hoursPerDay || 8)
+      });
+    });
+    return Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Working ranges starting at 08:00 with a one hour break after four hours
+  private timesFor(hours: number): WorkingTime[] {
+    if (hours <= 0) return [];
+    if (hours <= 4) return [{ start: '08:00', finish: this.formatHour(8 + hours) }];
+    return [{ start: '08:00', finish: '12:00' }, { start: '13:00', finish: this.formatHour(13 + hours - 4) }];
+  }
+
+  private workingTimes(times: WorkingTime[]): XmlNode[] {
+    return times.map(t => ({ FromTime: `${t.start}:00`, ToTime: `${t.finish}:00` }));
+  }
+
+  private sumHours(times: WorkingTime[]): number {
+    const minutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+    return times.reduce((total, t) => {
+      const finish = t.finish === '00:00' ? 24 * 60 : minutes(t.finish);
+      return total + Math.max(0, finish - minutes(t.start)) / 60;
+    }, 0);
+  }
+
+  private dayBounds(calendar: ExportCalendar): { start: string; finish: string } {
+    const day = calendar.week.find(d => d.isWorking && d.workingTimes.length > 0);
+    if (!day) return { start: '08:00', finish: '17:00' };
+    return { start: day.workingTimes[0].start, finish: day.workingTimes[day.workingTimes.length - 1].finish };
+  }
+
+  private getCalendar(calendarId: string | null): ExportCalendar {
+    return (calendarId && this.calendars.get(calendarId)) || this.defaultCalendar;
+  }
+
+  // Working days to an ISO 8601 duration in hours and minutes
+  private formatDuration(days: number | null): string {
+    return this.formatHours((days ?? 0) * this.minutesPerDay / 60);
+  }
+
+  private formatHours(hours: number): string {
+    const totalMinutes = Math.round(hours * 60);
+    return `PT${Math.floor(totalMinutes / 60)}H${totalMinutes % 60}M0S`;
+  }
+
+  private toTenthsOfMinutes(days: number | null): number | undefined {
+    return days === null ? undefined : Math.round(days * this.minutesPerDay * 10);
+  }
+
+  private formatDateTime(date: string | null | undefined, time: string): string | undefined {
+    return date ? `${date.slice(0, 10)}T${time}:00` : undefined;
+  }
+
+  private formatHour(hour: number): string {
+    const h = Math.floor(hour);
+    const m = Math.round((hour - h) * 60);
+    return `${String(h % 24).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private parseJson(value: unknown): Record<string, any> {
+    if (value === null || value === undefined) return {};
+    return (typeof value === 'string' ? JSON.parse(value) : value) as Record<string, any>;
+  }
+
+  private parseList(value: unknown): any[] {
+    const parsed = this.parseJson(value);
+    return Array.isArray(parsed) ? parsed : [];
+  }
+
+  // Drop unset fields so MS Project falls back to its own defaults
+  private compact(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(v => this.compact(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null && !(Array.isArray(v) && v.length === 0))
+        .map(([k, v]) => [k, this.compact(v)]));
+    }
+    return value;
+  }
+
+  private warn(message: string) {
+    this.report.warnings.push(message);
+  }
+}
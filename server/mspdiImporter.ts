@@ -0,0 +1,617 @@
+import { XMLParser } from "fast-xml-parser";
+import type { IStorage } from "./storage";
+import type { InsertCalendar } from "@shared/schema";
+import { ACTIVITY_ID_ALIAS } from "./mspdiExporter";
+
+type XmlNode = Record<string, any>;
+
+export interface MSPDIConversionReport {
+  projectName: string;
+  imported: {
+    wbs: number;
+    calendars: number;
+    resources: number;
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+    customFieldValues: number;
+  };
+  skipped: {
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+  };
+  unmappedTables: string[]; // Top-level project sections that were not imported
+  warnings: string[];
+}
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface CalendarDay {
+  dayOfWeek: number;
+  isWorking: boolean;
+  hoursPerDay: number;
+  workingTimes: WorkingTime[];
+}
+
+interface CalendarException {
+  date: string;
+  isWorking: boolean;
+  hoursPerDay: number;
+  workingTimes: WorkingTime[];
+}
+
+// Elements that may repeat and must always parse as arrays
+const ARRAY_ELEMENTS = new Set([
+  'Calendar', 'WeekDay', 'WorkingTime', 'Exception', 'WorkWeek', 'Task', 'PredecessorLink',
+  'Resource', 'Assignment', 'ExtendedAttribute', 'Baseline'
+]);
+
+// Top-level sections the importer reads; the rest are reported as unmapped
+const MAPPED_SECTIONS = new Set(['Calendars', 'Tasks', 'Resources', 'Assignments', 'ExtendedAttributes']);
+
+// PredecessorLink Type: 0 = FF, 1 = FS, 2 = SF, 3 = SS
+const LINK_TYPES: Record<string, 'FS' | 'SS' | 'FF' | 'SF'> = {
+  '0': 'FF',
+  '1': 'FS',
+  '2': 'SF',
+  '3': 'SS'
+};
+
+// ConstraintType: 0 = ASAP and 1 = ALAP carry no date
+const CONSTRAINT_TYPES: Record<string, 'SNET' | 'FNET' | 'SNLT' | 'FNLT' | 'MSO' | 'MFO'> = {
+  '2': 'MSO',
+  '3': 'MFO',
+  '4': 'SNET',
+  '5': 'SNLT',
+  '6': 'FNET',
+  '7': 'FNLT'
+};
+
+// Resource Type: 0 = Material, 1 = Work, 2 = Cost
+const RESOURCE_TYPES: Record<string, 'Labor' | 'Equipment' | 'Material'> = {
+  '0': 'Material',
+  '1': 'Labor',
+  '2': 'Material'
+};
+
+// LagFormat values for elapsed (24 hour) and percentage lags
+const ELAPSED_LAG_FORMATS = new Set(['4', '6', '8', '10', '12']);
+const PERCENT_LAG_FORMATS = new Set(['19', '20']);
+
+const MAX_WARNINGS = 200;
+
+/**
+ * Imports a Microsoft Project XML (MSPDI) file into an existing project.
+ * Summary tasks become WBS elements following the outline levels; detail tasks
+ * become activities. Durations use the file's MinutesPerDay, and LinkLag and
+ * slack values are stored in tenths of minutes.
+ */
+export class MSPDIImporter {
+  private project: XmlNode;
+  private minutesPerDay: number;
+  private warnings: string[] = [];
+  private suppressedWarnings = 0;
+
+  constructor(content: string) {
+    const parser = new XMLParser({
+      ignoreAttributes: true,
+      parseTagValue: false,
+      trimValues: true,
+      isArray: (name) => ARRAY_ELEMENTS.has(name)
+    });
+    const document = parser.parse(content);
+    if (!document?.Project || typeof document.Project !== 'object') {
+      throw new Error("Not a Microsoft Project XML file");
+    }
+    this.project = document.Project;
+    this.minutesPerDay = Number(this.project.MinutesPerDay) || 480;
+  }
+
+  public getProjectName(): string {
+    return this.text(this.project.Title) || this.text(this.project.Name) || 'Microsoft Project';
+  }
+
+  public async importInto(projectId: string, storage: IStorage): Promise<MSPDIConversionReport> {
+    const report: MSPDIConversionReport = {
+      projectName: this.getProjectName(),
+      imported: {
+        wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+        resourceAssignments: 0, customFieldValues: 0
+      },
+      skipped: { activities: 0, relationships: 0, resourceAssignments: 0 },
+      unmappedTables: Object.keys(this.project).filter(key =>
+        typeof this.project[key] === 'object' && !MAPPED_SECTIONS.has(key)
+      ),
+      warnings: this.warnings
+    };
+
+    const tasks = this.list(this.project.Tasks?.Task).filter(t => this.text(t.IsNull) !== '1');
+
+    const calendarMap = await this.importCalendars(projectId, storage, report);
+    const wbsMap = await this.importWbs(projectId, tasks, storage, report);
+    const resourceMap = await this.importResources(projectId, calendarMap, storage, report);
+    const activityMap = await this.importActivities(projectId, tasks, calendarMap, wbsMap, storage, report);
+    await this.importRelationships(projectId, tasks, activityMap, wbsMap, storage, report);
+    await this.importAssignments(activityMap, resourceMap, storage, report);
+
+    const dataDate = this.toDate(this.project.StatusDate) ?? this.toDate(this.project.CurrentDate);
+    const project = await storage.getProject(projectId);
+    if (project && !project.dataDate && dataDate) {
+      await storage.updateProject(projectId, { dataDate });
+    }
+
+    if (this.suppressedWarnings > 0) {
+      this.warnings.push(`${this.suppressedWarnings} further warnings omitted`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Calendars with their base calendar's week filled in for days they do not override
+   */
+  private async importCalendars(
+    projectId: string, storage: IStorage, report: MSPDIConversionReport
+  ): Promise<Map<string, string>> {
+    const calendars = this.list(this.project.Calendars?.Calendar);
+    const byUid = new Map(calendars.map(c => [this.text(c.UID), c]));
+    const resolved = new Map<string, { week: CalendarDay[]; exceptions: CalendarException[] }>();
+
+    const resolve = (calendar: XmlNode, seen = new Set<string>()): { week: CalendarDay[]; exceptions: CalendarException[] } => {
+      const uid = this.text(calendar.UID);
+      if (resolved.has(uid)) return resolved.get(uid)!;
+
+      const baseUid = this.text(calendar.BaseCalendarUID);
+      const base = baseUid && baseUid !== '-1' && byUid.has(baseUid) && !seen.has(baseUid)
+        ? resolve(byUid.get(baseUid)!, new Set([...Array.from(seen), uid]))
+        : { week: this.standardWeek(), exceptions: [] };
+
+      const week = base.week.map(day => ({ ...day }));
+      const exceptions = new Map(base.exceptions.map(ex => [ex.date, ex]));
+
+      this.list(calendar.WeekDays?.WeekDay).forEach(weekDay => {
+        const dayType = Number(this.text(weekDay.DayType));
+        const workingTimes = this.workingTimes(weekDay);
+        const isWorking = this.text(weekDay.DayWorking) === '1';
+        if (dayType >= 1 && dayType <= 7) {
+          week[dayType - 1] = {
+            dayOfWeek: dayType - 1,
+            isWorking,
+            hoursPerDay: isWorking ? this.sumHours(workingTimes) : 0,
+            workingTimes: isWorking ? workingTimes : []
+          };
+        } else if (dayType === 0) {
+          // Older files store exceptions as DayType 0 with a date range
+          this.expandRange(weekDay.TimePeriod).forEach(date => {
+            exceptions.set(date, this.exceptionDay(date, isWorking, workingTimes));
+          });
+        }
+      });
+
+      this.list(calendar.Exceptions?.Exception).forEach(exception => {
+        const isWorking = this.text(exception.DayWorking) === '1';
+        const workingTimes = this.workingTimes(exception);
+        this.exceptionDates(exception, this.text(calendar.Name)).forEach(date => {
+          exceptions.set(date, this.exceptionDay(date, isWorking, workingTimes));
+        });
+      });
+
+      if (this.list(calendar.WorkWeeks?.WorkWeek).length > 0) {
+        this.warn(`Calendar ${this.text(calendar.Name)} alternate work weeks were not imported`);
+      }
+
+      const result = {
+        week,
+        exceptions: Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date))
+      };
+      resolved.set(uid, result);
+      return result;
+    };
+
+    // Re-importing refreshes the project's calendars of the same name instead of adding copies
+    const existing = new Map((await storage.getCalendarsByProject(projectId))
+      .filter(c => c.projectId === projectId)
+      .map(c => [c.name, c.id]));
+
+    const calendarMap = new Map<string, string>();
+    for (const calendar of calendars) {
+      const { week, exceptions } = resolve(calendar);
+      const values: InsertCalendar = {
+        projectId,
+        name: this.text(calendar.Name) || `Calendar ${this.text(calendar.UID)}`,
+        type: this.text(calendar.IsBaseCalendar) === '0' ? 'Resource' : 'Project',
+        standardWorkweek: week,
+        holidays: exceptions.filter(ex => !ex.isWorking).map(ex => ex.date),
+        exceptions
+      };
+      const existingId = existing.get(values.name);
+      const saved = existingId
+        ? await storage.updateCalendar(existingId, values)
+        : await storage.createCalendar(values);
+      if (!saved) continue;
+      existing.set(saved.name, saved.id);
+      calendarMap.set(this.text(calendar.UID), saved.id);
+      report.imported.calendars++;
+    }
+
+    return calendarMap;
+  }
+
+  /**
+   * Summary tasks become WBS elements; each hangs under the closest summary above it
+   * with a lower outline level. The project summary task (outline level 0) is skipped.
+   */
+  private async importWbs(
+    projectId: string, tasks: XmlNode[], storage: IStorage, report: MSPDIConversionReport
+  ): Promise<Map<string, string>> {
+    const wbsMap = new Map<string, string>();
+    const stack: { level: number; id: string }[] = [];
+    const siblingCounts = new Map<string, number>();
+
+    for (const task of tasks) {
+      const level = Number(this.text(task.OutlineLevel)) || 0;
+      if (level === 0 || this.text(task.Summary) !== '1') continue;
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      const parentId = stack[stack.length - 1]?.id ?? null;
+      const sequenceNumber = (siblingCounts.get(parentId ?? '') || 0) + 1;
+      siblingCounts.set(parentId ?? '', sequenceNumber);
+
+      const created = await storage.createWbs({
+        projectId,
+        parentId,
+        code: this.text(task.WBS) || this.text(task.OutlineNumber) || String(sequenceNumber),
+        name: this.text(task.Name) || `WBS ${this.text(task.UID)}`,
+        level,
+        sequenceNumber
+      });
+      wbsMap.set(this.text(task.UID), created.id);
+      stack.push({ level, id: created.id });
+      report.imported.wbs++;
+    }
+
+    return wbsMap;
+  }
+
+  private async importResources(
+    projectId: string, calendarMap: Map<string, string>, storage: IStorage, report: MSPDIConversionReport
+  ): Promise<Map<string, string>> {
+    const existing = new Map((await storage.getResourcesByProject(projectId)).map(r => [r.resourceId, r.id]));
+    const resourceMap = new Map<string, string>();
+
+    for (const resource of this.list(this.project.Resources?.Resource)) {
+      const uid = this.text(resource.UID);
+      // UID 0 is MS Project's placeholder for unassigned work
+      if (uid === '0' || this.text(resource.IsNull) === '1' || !this.text(resource.Name)) continue;
+
+      const code = this.text(resource.Initials) || `R${this.text(resource.ID) || uid}`;
+      const existingId = existing.get(code);
+      if (existingId) {
+        resourceMap.set(uid, existingId);
+        continue;
+      }
+
+      const type = this.text(resource.Type) || '1';
+      if (type === '2') this.warn(`Cost resource ${code} imported as Material`);
+
+      const created = await storage.createResource({
+        projectId,
+        resourceId: code,
+        name: this.text(resource.Name),
+        type: RESOURCE_TYPES[type] || 'Labor',
+        unit: this.text(resource.MaterialLabel) || (type === '1' ? 'hours' : null),
+        standardRate: this.toNumber(resource.StandardRate),
+        overtimeRate: this.toNumber(resource.OvertimeRate),
+        maxUnits: this.toNumber(resource.MaxUnits) ?? 1,
+        calendarId: calendarMap.get(this.text(resource.CalendarUID)) ?? null,
+        notes: this.text(resource.Notes) || null
+      });
+      existing.set(code, created.id);
+      resourceMap.set(uid, created.id);
+      report.imported.resources++;
+    }
+
+    return resourceMap;
+  }
+
+  private async importActivities(
+    projectId: string,
+    tasks: XmlNode[],
+    calendarMap: Map<string, string>,
+    wbsMap: Map<string, string>,
+    storage: IStorage,
+    report: MSPDIConversionReport
+  ): Promise<Map<string, string>> {
+    const existing = new Set((await storage.getActivitiesByProject(projectId)).map(a => a.activityId));
+    const fieldNames = new Map(this.list(this.project.ExtendedAttributes?.ExtendedAttribute).map(attr => [
+      this.text(attr.FieldID), this.text(attr.Alias) || this.text(attr.FieldName)
+    ]));
+    const defaultCalendarId = calendarMap.get(this.text(this.project.CalendarUID)) ?? null;
+
+    const activityMap = new Map<string, string>();
+    const stack: { level: number; uid: string }[] = [];
+
+    for (const task of tasks) {
+      const uid = this.text(task.UID);
+      const level = Number(this.text(task.OutlineLevel)) || 0;
+      if (level === 0) continue;
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      const parentUid = stack[stack.length - 1]?.uid;
+
+      if (this.text(task.Summary) === '1') {
+        stack.push({ level, uid });
+        continue;
+      }
+
+      const customFields: Record<string, string> = {};
+      this.list(task.ExtendedAttribute).forEach(attr => {
+        const name = fieldNames.get(this.text(attr.FieldID));
+        if (name && this.text(attr.Value) !== '') customFields[name] = this.text(attr.Value);
+      });
+
+      // Files written by MSPDIExporter carry our activity ID in a text field
+      const activityId = customFields[ACTIVITY_ID_ALIAS] || this.text(task.ID) || uid;
+      delete customFields[ACTIVITY_ID_ALIAS];
+      if (existing.has(activityId)) {
+        this.warn(`Activity ${activityId} already exists in the project and was skipped`);
+        report.skipped.activities++;
+        continue;
+      }
+      existing.add(activityId);
+      report.imported.customFieldValues += Object.keys(customFields).length;
+
+      const percentComplete = this.toNumber(task.PercentComplete) ?? 0;
+      const actualStart = this.toDate(task.ActualStart);
+      const actualFinish = this.toDate(task.ActualFinish);
+      const status = percentComplete >= 100 || actualFinish
+        ? 'Completed'
+        : percentComplete > 0 || actualStart ? 'InProgress' : 'NotStarted';
+
+      const constraintCode = this.text(task.ConstraintType);
+      const constraintType = CONSTRAINT_TYPES[constraintCode] ?? null;
+      if (constraintCode === '1') {
+        this.warn(`Activity ${activityId} As Late As Possible constraint was dropped`);
+      }
+
+      const baseline = this.list(task.Baseline).find(b => this.text(b.Number) === '0');
+      const originalDuration = this.toDays(task.Duration);
+      const isMilestone = this.text(task.Milestone) === '1';
+      const hasPredecessors = this.list(task.PredecessorLink).length > 0;
+
+      const activity = await storage.createActivity({
+        projectId,
+        activityId,
+        name: this.text(task.Name) || activityId,
+        wbsId: parentUid ? wbsMap.get(parentUid) ?? null : null,
+        // Milestones with logic leading in mark a finish; the rest mark a start
+        type: isMilestone ? (hasPredecessors ? 'FinishMilestone' : 'StartMilestone') : 'Task',
+        originalDuration: isMilestone ? 0 : originalDuration,
+        remainingDuration: isMilestone ? 0 : this.toDays(task.RemainingDuration) ?? originalDuration,
+        actualDuration: this.toDays(task.ActualDuration),
+        durationUnit: 'days',
+        earlyStart: this.toDate(task.EarlyStart) ?? this.toDate(task.Start),
+        earlyFinish: this.toDate(task.EarlyFinish) ?? this.toDate(task.Finish),
+        lateStart: this.toDate(task.LateStart),
+        lateFinish: this.toDate(task.LateFinish),
+        actualStart,
+        actualFinish,
+        baselineStart: baseline ? this.toDate(baseline.Start) : null,
+        baselineFinish: baseline ? this.toDate(baseline.Finish) : null,
+        baselineDuration: baseline ? this.toDays(baseline.Duration) : null,
+        baselineCost: baseline ? this.toNumber(baseline.Cost) : null,
+        totalFloat: this.fromTenthsOfMinutes(task.TotalSlack),
+        freeFloat: this.fromTenthsOfMinutes(task.FreeSlack),
+        isCritical: this.text(task.Critical) === '1',
+        percentComplete,
+        physicalPercentComplete: this.toNumber(task.PhysicalPercentComplete),
+        status,
+        calendarId: calendarMap.get(this.text(task.CalendarUID)) ?? defaultCalendarId,
+        constraintType,
+        constraintDate: constraintType ? this.toDate(task.ConstraintDate) : null,
+        deadline: this.toDate(task.Deadline),
+        customFields: Object.keys(customFields).length > 0 ? customFields : null,
+        budgetedCost: this.toNumber(task.Cost),
+        actualCost: this.toNumber(task.ActualCost),
+        notes: this.text(task.Notes) || null
+      });
+
+      activityMap.set(uid, activity.id);
+      report.imported.activities++;
+    }
+
+    return activityMap;
+  }
+
+  private async importRelationships(
+    projectId: string,
+    tasks: XmlNode[],
+    activityMap: Map<string, string>,
+    wbsMap: Map<string, string>,
+    storage: IStorage,
+    report: MSPDIConversionReport
+  ): Promise<void> {
+    for (const task of tasks) {
+      for (const link of this.list(task.PredecessorLink)) {
+        const successorUid = this.text(task.UID);
+        const predecessorUid = this.text(link.PredecessorUID);
+        const predecessorId = activityMap.get(predecessorUid);
+        const successorId = activityMap.get(successorUid);
+
+        if (!predecessorId || !successorId) {
+          if (this.text(link.CrossProject) === '1') {
+            this.warn(`Cross-project link into task ${this.text(task.ID)} was skipped`);
+          } else if (wbsMap.has(predecessorUid) || wbsMap.has(successorUid)) {
+            this.warn(`Summary task link into task ${this.text(task.ID)} was skipped`);
+          }
+          report.skipped.relationships++;
+          continue;
+        }
+
+        const lagFormat = this.text(link.LagFormat);
+        let lag = (Number(this.text(link.LinkLag)) || 0) / 10 / this.minutesPerDay;
+        if (PERCENT_LAG_FORMATS.has(lagFormat)) {
+          this.warn(`Percentage lag on link into task ${this.text(task.ID)} was imported as zero`);
+          lag = 0;
+        } else if (ELAPSED_LAG_FORMATS.has(lagFormat)) {
+          lag = (Number(this.text(link.LinkLag)) || 0) / 10 / 1440;
+          this.warn(`Elapsed lag on link into task ${this.text(task.ID)} was converted to working days`);
+        }
+
+        await storage.createRelationship({
+          projectId,
+          predecessorId,
+          successorId,
+          type: LINK_TYPES[this.text(link.Type) || '1'] || 'FS',
+          lag: Math.round(lag * 100) / 100,
+          lagUnit: 'days'
+        });
+        report.imported.relationships++;
+      }
+    }
+  }
+
+  private async importAssignments(
+    activityMap: Map<string, string>,
+    resourceMap: Map<string, string>,
+    storage: IStorage,
+    report: MSPDIConversionReport
+  ): Promise<void> {
+    for (const assignment of this.list(this.project.Assignments?.Assignment)) {
+      const activityId = activityMap.get(this.text(assignment.TaskUID));
+      const resourceId = resourceMap.get(this.text(assignment.ResourceUID));
+      if (!activityId || !resourceId) {
+        // Assignments to summary tasks or the unassigned placeholder resource
+        if (this.text(assignment.ResourceUID) !== '-65535') report.skipped.resourceAssignments++;
+        continue;
+      }
+
+      await storage.createAssignment({
+        activityId,
+        resourceId,
+        units: this.toNumber(assignment.Units) ?? 1,
+        plannedUnits: this.toHours(assignment.Work),
+        actualUnits: this.toHours(assignment.ActualWork),
+        remainingUnits: this.toHours(assignment.RemainingWork),
+        cost: this.toNumber(assignment.Cost),
+        actualCost: this.toNumber(assignment.ActualCost),
+        remainingCost: this.toNumber(assignment.RemainingCost)
+      });
+      report.imported.resourceAssignments++;
+    }
+  }
+
+  /**
+   * Dates an Exception applies to: plain date ranges (Type 1) and yearly
+   * recurrences on a fixed month and day (Type 2). Other recurrences are skipped.
+   */
+  private exceptionDates(exception: XmlNode, calendarName: string): string[] {
+    const type = this.text(exception.Type) || '1';
+    const range = this.expandRange(exception.TimePeriod);
+    if (type === '1') return range;
+
+    if (type === '2') {
+      const month = Number(this.text(exception.Month)) + 1; // Month is zero-based
+      const day = Number(this.text(exception.MonthDay));
+      return range.filter(date => Number(date.slice(5, 7)) === month && Number(date.slice(8, 10)) === day);
+    }
+
+    this.warn(`Calendar ${calendarName} recurring exception ${this.text(exception.Name) || this.text(exception.Type)} was not imported`);
+    return [];
+  }
+
+  private exceptionDay(date: string, isWorking: boolean, workingTimes: WorkingTime[]): CalendarException {
+    return {
+      date,
+      isWorking: isWorking && workingTimes.length > 0,
+      hoursPerDay: isWorking ? this.sumHours(workingTimes) : 0,
+      workingTimes: isWorking ? workingTimes : []
+    };
+  }
+
+  private expandRange(period: XmlNode | undefined): string[] {
+    const from = this.toDate(period?.FromDate);
+    const to = this.toDate(period?.ToDate) ?? from;
+    if (!from || !to) return [];
+
+    const dates: string[] = [];
+    for (let current = new Date(from); current <= new Date(to) && dates.length < 3660; current.setUTCDate(current.getUTCDate() + 1)) {
+      dates.push(current.toISOString().split('T')[0]);
+    }
+    return dates;
+  }
+
+  private workingTimes(node: XmlNode): WorkingTime[] {
+    return this.list(node.WorkingTimes?.WorkingTime)
+      .filter(t => this.text(t.FromTime) && this.text(t.ToTime))
+      .map(t => ({ start: this.text(t.FromTime).slice(0, 5), finish: this.text(t.ToTime).slice(0, 5) }));
+  }
+
+  private sumHours(times: WorkingTime[]): number {
+    const minutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+    return times.reduce((total, t) => {
+      const finish = t.finish === '00:00' ? 24 * 60 : minutes(t.finish);
+      return total + Math.max(0, finish - minutes(t.start)) / 60;
+    }, 0);
+  }
+
+  private standardWeek(): CalendarDay[] {
+    return [0, 1, 2, 3, 4, 5, 6].map(day => day >= 1 && day <= 5
+      ? { dayOfWeek: day, isWorking: true, hoursPerDay: 8, workingTimes: [{ start: '08:00', finish: '12:00' }, { start: '13:00', finish: '17:00' }] }
+      : { dayOfWeek: day, isWorking: false, hoursPerDay: 0, workingTimes: [] });
+  }
+
+  /**
+   * ISO 8601 durations such as PT16H0M0S, in working days
+   */
+  private toDays(value: unknown): number | null {
+    const hours = this.toHours(value);
+    return hours === null ? null : Math.round(hours * 60 / this.minutesPerDay * 100) / 100;
+  }
+
+  private toHours(value: unknown): number | null {
+    const match = this.text(value).match(/^-?P(?:(\d+(?:\.\d+)?)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+    if (!match) return null;
+    const [, days, hours, minutes, seconds] = match.map(v => Number(v) || 0);
+    const total = days * this.minutesPerDay / 60 + hours + minutes / 60 + seconds / 3600;
+    return this.text(value).startsWith('-') ? -total : total;
+  }
+
+  private fromTenthsOfMinutes(value: unknown): number | null {
+    const tenths = this.toNumber(value);
+    return tenths === null ? null : Math.round(tenths / 10 / this.minutesPerDay * 100) / 100;
+  }
+
+  private toDate(value: unknown): string | null {
+    const text = this.text(value);
+    return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+  }
+
+  private toNumber(value: unknown): number | null {
+    const text = this.text(value);
+    return text !== '' && !isNaN(Number(text)) ? Number(text) : null;
+  }
+
+  private text(value: unknown): string {
+    return value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+  }
+
+  private list(value: unknown): XmlNode[] {
+    return Array.isArray(value) ? value : value ? [value as XmlNode] : [];
+  }
+
+  private warn(message: string) {
+    if (this.warnings.length < MAX_WARNINGS) {
+      this.warnings.push(message);
+    } else {
+      this.suppressedWarnings++;
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import type { Activity, Relationship, NetworkIssue, NetworkValidationResult } from "@shared/schema";
+
+// The fields of a relationship the validator looks at; new relationships have no id yet
+type Link = Pick<Relationship, 'predecessorId' | 'successorId'> & { id?: string; type?: Relationship['type']; lag?: number | null };
+
+// Summary activities take their dates from their members, not from logic
+const UNLINKED_TYPES = new Set(['WBSSummary', 'LOE', 'Hammock']);
+
+/**
+ * Checks the activity network for problems the CPM passes cannot handle or
+ * would silently hide:
+ * - errors: logic loops (reported with the full path), self-loops and links to
+ *   activities outside the project
+ * - warnings: duplicate links between the same pair, redundant links already
+ *   implied by a longer path, open starts and finishes on incomplete work, and
+ *   progress that contradicts the logic (out-of-sequence progress)
+ */
+export class NetworkValidator {
+  private activityMap: Map<string, Activity>;
+
+  constructor(private activities: Activity[], private relationships: Relationship[]) {
+    this.activityMap = new Map(activities.map(a => [a.id, a]));
+  }
+
+  public validate(): NetworkValidationResult {
+    const issues = [
+      ...this.findBrokenLinks(this.relationships),
+      ...this.findCycles(this.relationships),
+      ...this.findDuplicates(),
+      ...this.findRedundant(),
+      ...this.findOpenEnds(),
+      ...this.findProgressViolations()
+    ];
+    return this.summarize(issues);
+  }
+
+  /**
+   * Problems adding this relationship would introduce. Duplicates count as
+   * errors here so the same link cannot be entered twice.
+   */
+  public validateNew(link: Link): NetworkValidationResult {
+    const issues = this.findBrokenLinks([link]);
+    if (issues.length === 0) {
+      const existing = this.relationships.filter(r =>
+        r.predecessorId === link.predecessorId && r.successorId === link.successorId
+      );
+      if (existing.length > 0) {
+        issues.push({
+          type: 'Duplicate',
+          severity: 'error',
+          message: `${this.label(link.predecessorId)} is already a predecessor of ${this.label(link.successorId)} (${existing.map(r => r.type).join(', ')})`,
+          activityIds: [link.predecessorId, link.successorId],
+          relationshipIds: existing.map(r => r.id)
+        });
+      }
+
+      // Only a path back from the successor to the predecessor can close a loop
+      const path = this.findPath(link.successorId, link.predecessorId, this.relationships);
+      if (path) {
+        const loop = [...path, path[0]];
+        issues.push({
+          type: 'Cycle',
+          severity: 'error',
+          message: `Circular logic: ${loop.map(id => this.label(id)).join(' -> ')}`,
+          activityIds: path,
+          relationshipIds: this.linksAlong(path, this.relationships).map(r => r.id)
+        });
+      }
+    }
+    return this.summarize(issues);
+  }
+
+  private findBrokenLinks(relationships: Link[]): NetworkIssue[] {
+    const issues: NetworkIssue[] = [];
+    relationships.forEach(rel => {
+      const missing = [rel.predecessorId, rel.successorId].filter(id => !this.activityMap.has(id));
+      if (missing.length > 0) {
+        issues.push({
+          type: 'MissingActivity',
+          severity: 'error',
+          message: `Relationship refers to ${missing.length === 1 ? 'an activity' : 'activities'} not in this project`,
+          activityIds: [rel.predecessorId, rel.successorId].filter(id => this.activityMap.has(id)),
+          relationshipIds: rel.id ? [rel.id] : []
+        });
+      } else if (rel.predecessorId === rel.successorId) {
+        issues.push({
+          type: 'SelfLoop',
+          severity: 'error',
+          message: `${this.label(rel.predecessorId)} cannot be its own predecessor`,
+          activityIds: [rel.predecessorId],
+          relationshipIds: rel.id ? [rel.id] : []
+        });
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Depth-first search with an explicit stack; each back edge closes a loop,
+   * reported once per distinct set of activities
+   */
+  private findCycles(relationships: Relationship[]): NetworkIssue[] {
+    const successors = this.successorMap(relationships.filter(r => r.predecessorId !== r.successorId));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const seen = new Set<string>();
+    const issues: NetworkIssue[] = [];
+
+    this.activities.forEach(root => {
+      if (state.has(root.id)) return;
+      const path: string[] = [];
+      const stack: { id: string; next: number }[] = [{ id: root.id, next: 0 }];
+      state.set(root.id, 'visiting');
+      path.push(root.id);
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const next = (successors.get(frame.id) || [])[frame.next++];
+        if (next === undefined) {
+          state.set(frame.id, 'done');
+          stack.pop();
+          path.pop();
+          continue;
+        }
+
+        const nextState = state.get(next.successorId);
+        if (nextState === 'visiting') {
+          const loop = path.slice(path.indexOf(next.successorId));
+          const key = [...loop].sort().join('|');
+          if (!seen.has(key)) {
+            seen.add(key);
+            issues.push({
+              type: 'Cycle',
+              severity: 'error',
+              message: `Circular logic: ${[...loop, loop[0]].map(id => this.label(id)).join(' -> ')}`,
+              activityIds: loop,
+              relationshipIds: this.linksAlong([...loop, loop[0]], relationships).map(r => r.id)
+            });
+          }
+        } else if (!nextState && this.activityMap.has(next.successorId)) {
+          state.set(next.successorId, 'visiting');
+          path.push(next.successorId);
+          stack.push({ id: next.successorId, next: 0 });
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  private findDuplicates(): NetworkIssue[] {
+    const pairs = new Map<string, Relationship[]>();
+    this.relationships.forEach(rel => {
+      const key = `${rel.predecessorId}|${rel.successorId}`;
+      pairs.set(key, [...(pairs.get(key) || []), rel]);
+    });
+
+    return Array.from(pairs.values())
+      .filter(group => group.length > 1)
+      .map(group => ({
+        type: 'Duplicate' as const,
+        severity: 'warning' as const,
+        message: `${group.length} relationships from ${this.label(group[0].predecessorId)} to ${this.label(group[0].successorId)} (${group.map(r => r.type).join(', ')})`,
+        activityIds: [group[0].predecessorId, group[0].successorId],
+        relationshipIds: group.map(r => r.id)
+      }));
+  }
+
+  /**
+   * Finish-to-start links without lag that a longer FS chain already enforces
+   */
+  private findRedundant(): NetworkIssue[] {
+    const issues: NetworkIssue[] = [];
+    // A chain of FS links with no leads finishes the predecessor no later than a direct link would
+    const chains = this.relationships.filter(r => r.type === 'FS' && (r.lag ?? 0) >= 0 && r.predecessorId !== r.successorId);
+
+    chains.filter(r => (r.lag ?? 0) === 0).forEach(rel => {
+      const others = chains.filter(r => r !== rel && !(r.predecessorId === rel.predecessorId && r.successorId === rel.successorId));
+      const path = this.findPath(rel.predecessorId, rel.successorId, others);
+      if (path && path.length > 2) {
+        issues.push({
+          type: 'Redundant',
+          severity: 'warning',
+          message: `${this.label(rel.predecessorId)} -> ${this.label(rel.successorId)} is already implied by ${path.map(id => this.label(id)).join(' -> ')}`,
+          activityIds: [rel.predecessorId, rel.successorId],
+          relationshipIds: [rel.id]
+        });
+      }
+    });
+    return issues;
+  }
+
+  // Start milestones may open the network and finish milestones may close it
+  private findOpenEnds(): NetworkIssue[] {
+    const hasPredecessor = new Set(this.relationships.map(r => r.successorId));
+    const hasSuccessor = new Set(this.relationships.map(r => r.predecessorId));
+    const issues: NetworkIssue[] = [];
+
+    this.activities
+      .filter(a => a.status !== 'Completed' && !UNLINKED_TYPES.has(a.type))
+      .forEach(a => {
+        if (!hasPredecessor.has(a.id) && a.type !== 'StartMilestone' && !a.actualStart) {
+          issues.push({ type: 'OpenStart', severity: 'warning', message: `${this.label(a.id)} has no predecessor`, activityIds: [a.id], relationshipIds: [] });
+        }
+        if (!hasSuccessor.has(a.id) && a.type !== 'FinishMilestone') {
+          issues.push({ type: 'OpenFinish', severity: 'warning', message: `${this.label(a.id)} has no successor`, activityIds: [a.id], relationshipIds: [] });
+        }
+      });
+    return issues;
+  }
+
+  /**
+   * Successors that have started or finished before their predecessors allow
+   */
+  private findProgressViolations(): NetworkIssue[] {
+    const issues: NetworkIssue[] = [];
+    this.relationships.forEach(rel => {
+      const predecessor = this.activityMap.get(rel.predecessorId);
+      const successor = this.activityMap.get(rel.successorId);
+      if (!predecessor || !successor) return;
+
+      const predecessorStarted = !!predecessor.actualStart || predecessor.status !== 'NotStarted';
+      const predecessorFinished = !!predecessor.actualFinish || predecessor.status === 'Completed';
+      const successorStarted = !!successor.actualStart || successor.status !== 'NotStarted';
+      const successorFinished = !!successor.actualFinish || successor.status === 'Completed';
+
+      let violation: string | null = null;
+      if (rel.type === 'FS' && successorStarted && !predecessorFinished) violation = 'started before its FS predecessor finished';
+      if (rel.type === 'SS' && successorStarted && !predecessorStarted) violation = 'started before its SS predecessor started';
+      if (rel.type === 'FF' && successorFinished && !predecessorFinished) violation = 'finished before its FF predecessor finished';
+      if (rel.type === 'SF' && successorFinished && !predecessorStarted) violation = 'finished before its SF predecessor started';
+
+      if (violation) {
+        issues.push({
+          type: 'ProgressViolation',
+          severity: 'warning',
+          message: `${this.label(successor.id)} ${violation} (${this.label(predecessor.id)})`,
+          activityIds: [predecessor.id, successor.id],
+          relationshipIds: [rel.id]
+        });
+      }
+    });
+    return issues;
+  }
+
+  // Breadth-first path of activity ids from one activity to another, or null
+  private findPath(fromId: string, toId: string, relationships: Link[]): string[] | null {
+    const successors = this.successorMap(relationships);
+    const previous = new Map<string, string>([[fromId, fromId]]);
+    const queue = [fromId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === toId) {
+        const path = [toId];
+        while (path[0] !== fromId) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      (successors.get(current) || []).forEach(rel => {
+        if (previous.has(rel.successorId)) return;
+        previous.set(rel.successorId, current);
+        queue.push(rel.successorId);
+      });
+    }
+    return null;
+  }
+
+  private successorMap<T extends Link>(relationships: T[]): Map<string, T[]> {
+    const map = new Map<string, T[]>();
+    relationships.forEach(rel => map.set(rel.predecessorId, [...(map.get(rel.predecessorId) || []), rel]));
+    return map;
+  }
+
+  // Relationships joining consecutive activities of a path
+  private linksAlong(path: string[], relationships: Relationship[]): Relationship[] {
+    return path.slice(1)
+      .map((id, index) => relationships.find(r => r.predecessorId === path[index] && r.successorId === id))
+      .filter((r): r is Relationship => !!r);
+  }
+
+  private label(activityId: string): string {
+    return this.activityMap.get(activityId)?.activityId ?? activityId;
+  }
+
+  private summarize(issues: NetworkIssue[]): NetworkValidationResult {
+    const errors = issues.filter(i => i.severity === 'error').length;
+    return { valid: errors === 0, errors, warnings: issues.length - errors, issues };
+  }
+}
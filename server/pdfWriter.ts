@@ -0,0 +1,208 @@
+import { deflateSync } from "zlib";
+
+export type RGB = [number, number, number];
+
+export interface PDFTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  align?: 'left' | 'center' | 'right';
+}
+
+// Helvetica advance widths (1/1000 em) for characters 32-126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+/**
+ * Minimal PDF 1.4 writer for vector reports: rectangles, lines, polygons and
+ * text in the built-in Helvetica fonts (WinAnsi encoding), with one compressed
+ * content stream per page. Coordinates are in points from the top-left corner.
+ */
+export class PDFWriter {
+  private pages: string[][] = [];
+
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    private info: { title: string; subject?: string } = { title: 'Report' }
+  ) {}
+
+  public get pageCount(): number {
+    return this.pages.length;
+  }
+
+  public addPage() {
+    this.pages.push([]);
+  }
+
+  public rect(x: number, y: number, width: number, height: number, fill?: RGB, stroke?: RGB, lineWidth = 0.5) {
+    if (!fill && !stroke) return;
+    const ops = [`${this.num(x)} ${this.num(this.height - y - height)} ${this.num(width)} ${this.num(height)} re`];
+    this.draw(ops, fill, stroke, lineWidth);
+  }
+
+  public line(x1: number, y1: number, x2: number, y2: number, color: RGB, lineWidth = 0.5, dash?: number[]) {
+    this.write([
+      'q',
+      `${this.color(color)} RG`,
+      `${this.num(lineWidth)} w`,
+      dash ? `[${dash.map(d => this.num(d)).join(' ')}] 0 d` : '',
+      `${this.num(x1)} ${this.num(this.height - y1)} m ${this.num(x2)} ${this.num(this.height - y2)} l S`,
+      'Q'
+    ].filter(Boolean));
+  }
+
+  // Open path through the points, e.g. relationship elbows
+  public polyline(points: [number, number][], color: RGB, lineWidth = 0.5) {
+    if (points.length < 2) return;
+    const path = points.map(([x, y], index) => `${this.num(x)} ${this.num(this.height - y)} ${index === 0 ? 'm' : 'l'}`);
+    this.write(['q', `${this.color(color)} RG`, `${this.num(lineWidth)} w`, ...path, 'S', 'Q']);
+  }
+
+  public polygon(points: [number, number][], fill?: RGB, stroke?: RGB, lineWidth = 0.5) {
+    if (points.length < 3) return;
+    const path = points.map(([x, y], index) => `${this.num(x)} ${this.num(this.height - y)} ${index === 0 ? 'm' : 'l'}`);
+    this.draw([...path, 'h'], fill, stroke, lineWidth);
+  }
+
+  /**
+   * Draws text with its baseline at y; align positions it against x
+   */
+  public text(value: string, x: number, y: number, options: PDFTextOptions = {}) {
+    const size = options.size ?? 8;
+    const width = this.textWidth(value, size, options.bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.write([
+      'BT',
+      `/${options.bold ? 'F2' : 'F1'} ${this.num(size)} Tf`,
+      `${this.color(options.color ?? [0, 0, 0])} rg`,
+      `${this.num(left)} ${this.num(this.height - y)} Td`,
+      `(${this.escape(value)}) Tj`,
+      'ET'
+    ]);
+  }
+
+  public textWidth(value: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return total * size / 1000;
+  }
+
+  // Shortens text with an ellipsis so it fits within maxWidth
+  public fit(value: string, maxWidth: number, size: number, bold = false): string {
+    if (this.textWidth(value, size, bold) <= maxWidth) return value;
+    let end = value.length;
+    while (end > 0 && this.textWidth(`${value.slice(0, end)}...`, size, bold) > maxWidth) end--;
+    return end > 0 ? `${value.slice(0, end)}...` : '';
+  }
+
+  public toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+
+    // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add('');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    add(`<< /Title (${this.escape(this.info.title)})${this.info.subject ? ` /Subject (${this.escape(this.info.subject)})` : ''} /Producer (ScheduleSam) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+
+    const pageIds: number[] = [];
+    (this.pages.length > 0 ? this.pages : [[]]).forEach(ops => {
+      const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      const contentId = add(Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+      pageIds.push(add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.num(this.width)} ${this.num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      ));
+    });
+    objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1')
+      ]);
+      offsets.push(length);
+      length += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+      ''
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  private draw(path: string[], fill: RGB | undefined, stroke: RGB | undefined, lineWidth: number) {
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.write([
+      'q',
+      fill ? `${this.color(fill)} rg` : '',
+      stroke ? `${this.color(stroke)} RG ${this.num(lineWidth)} w` : '',
+      ...path,
+      paint,
+      'Q'
+    ].filter(Boolean));
+  }
+
+  private write(ops: string[]) {
+    if (this.pages.length === 0) this.addPage();
+    this.pages[this.pages.length - 1].push(...ops);
+  }
+
+  private color([r, g, b]: RGB): string {
+    return [r, g, b].map(c => this.num(Math.min(1, Math.max(0, c)))).join(' ');
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  // Characters outside WinAnsi's Latin-1 range become '?'
+  private escape(value: string): string {
+    return value
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+      .replace(/([\\()])/g, '\\$1');
+  }
+}
@@ -0,0 +1,650 @@
+import { XMLBuilder } from "fast-xml-parser";
+import type {
+  Project, Activity, Relationship, Wbs, Calendar, Resource, ResourceAssignment, ActivityCode
+} from "@shared/schema";
+
+export interface PMXMLExportData {
+  project: Project;
+  activities: Activity[];
+  relationships: Relationship[];
+  wbs: Wbs[];
+  calendars: Calendar[];
+  resources: Resource[];
+  assignments: ResourceAssignment[];
+  activityCodes: ActivityCode[];
+}
+
+export interface PMXMLExportReport {
+  wbs: number;
+  calendars: number;
+  resources: number;
+  activities: number;
+  relationships: number;
+  resourceAssignments: number;
+  activityCodes: number;
+  customFieldValues: number;
+  warnings: string[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface ExportCalendar {
+  objectId: number;
+  name: string;
+  type: 'Global' | 'Project' | 'Resource';
+  week: { isWorking: boolean; workingTimes: WorkingTime[] }[];
+  exceptions: { date: string; workingTimes: WorkingTime[] }[];
+  hoursPerDay: number;
+}
+
+const PROJECT_OBJECT_ID = 1;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ACTIVITY_TYPES: Record<string, string> = {
+  Task: 'Task Dependent',
+  StartMilestone: 'Start Milestone',
+  FinishMilestone: 'Finish Milestone',
+  LOE: 'Level of Effort',
+  Hammock: 'Level of Effort',
+  WBSSummary: 'WBS Summary'
+};
+
+const ACTIVITY_STATUSES: Record<string, string> = {
+  NotStarted: 'Not Started',
+  InProgress: 'In Progress',
+  Completed: 'Completed'
+};
+
+const CONSTRAINT_TYPES: Record<string, string> = {
+  SNET: 'Start On or After',
+  SNLT: 'Start On or Before',
+  FNET: 'Finish On or After',
+  FNLT: 'Finish On or Before',
+  MSO: 'Mandatory Start',
+  MFO: 'Mandatory Finish'
+};
+
+const RELATIONSHIP_TYPES: Record<string, string> = {
+  FS: 'Finish to Start',
+  SS: 'Start to Start',
+  FF: 'Finish to Finish',
+  SF: 'Start to Finish'
+};
+
+const RESOURCE_TYPES: Record<string, string> = {
+  Labor: 'Labor',
+  Equipment: 'Nonlabor',
+  Material: 'Material'
+};
+
+/**
+ * Writes a project as Primavera P6 XML (PMXML).
+ * Calendars, resources, activity code types and UDF types are global business
+ * objects; WBS, activities, relationships and assignments are nested in the
+ * Project element. Durations, floats and lags are written as hours on the
+ * activity's calendar and percentages as fractions, matching PMXMLImporter.
+ */
+export class PMXMLExporter {
+  private calendars = new Map<string, ExportCalendar>();
+  private defaultCalendar!: ExportCalendar;
+  private wbsIds = new Map<string, number>();
+  private activityIds = new Map<string, number>();
+  private resourceIds = new Map<string, number>();
+  private codeIds = new Map<string, { typeId: number; valueId: number }>();
+  private udfTypes = new Map<string, { objectId: number; dataType: string }>();
+  private report: PMXMLExportReport = {
+    wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+    resourceAssignments: 0, activityCodes: 0, customFieldValues: 0, warnings: []
+  };
+
+  constructor(private data: PMXMLExportData) {}
+
+  public export(): { content: string; report: PMXMLExportReport } {
+    const { project } = this.data;
+    this.prepareCalendars();
+
+    const units = Array.from(new Set(this.data.resources.map(r => r.unit).filter((u): u is string => !!u)));
+    const { codeTypes, codeValues } = this.buildActivityCodes();
+    const udfTypes = this.buildUdfTypes();
+    const resources = this.buildResources(units);
+    const wbs = this.buildWbs();
+    const activities = this.buildActivities();
+
+    const starts = this.data.activities.map(a => a.actualStart || a.earlyStart).filter(Boolean) as string[];
+    const finishes = this.data.activities.map(a => a.actualFinish || a.earlyFinish).filter(Boolean) as string[];
+    const planStart = project.contractStartDate || starts.sort()[0] || project.dataDate || this.today();
+    const scheduledFinish = finishes.sort()[finishes.length - 1] || project.contractFinishDate;
+    const { start, finish } = this.dayBounds(this.defaultCalendar);
+
+    const document = {
+      '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+      APIBusinessObjects: {
+        '@_xmlns': 'http://xmlns.oracle.com/Primavera/P6/V19.12/API/BusinessObjects',
+        UnitOfMeasure: units.map((unit, index) => ({
+          Abbreviation: unit,
+          Name: unit,
+          ObjectId: index + 1,
+          SequenceNumber: index + 1
+        })),
+        ActivityCodeType: codeTypes,
+        ActivityCode: codeValues,
+        UDFType: udfTypes,
+        Calendar: this.buildCalendars(),
+        Resource: resources.resources,
+        ResourceRate: resources.rates,
+        Project: {
+          ActivityDefaultCalendarObjectId: this.defaultCalendar.objectId,
+          DataDate: this.formatDateTime(project.dataDate || planStart, start),
+          Id: this.shortName(project.name, 40),
+          MustFinishByDate: this.formatDateTime(project.contractFinishDate, finish),
+          Name: project.name,
+          ObjectId: PROJECT_OBJECT_ID,
+          PlannedStartDate: this.formatDateTime(planStart, start),
+          ScheduledFinishDate: this.formatDateTime(scheduledFinish, finish),
+          WBS: wbs,
+          Activity: activities,
+          ResourceAssignment: this.buildAssignments(),
+          Relationship: this.buildRelationships()
+        }
+      }
+    };
+
+    const builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      suppressEmptyNode: true
+    });
+    return { content: builder.build(this.compact(document)), report: this.report };
+  }
+
+  /**
+   * Normalize every calendar the project uses; the first non-resource calendar
+   * becomes the project's default activity calendar
+   */
+  private prepareCalendars() {
+    const usedIds = new Set<string>([
+      ...this.data.activities.map(a => a.calendarId),
+      ...this.data.resources.map(r => r.calendarId)
+    ].filter((id): id is string => !!id));
+
+    let nextId = 1;
+    this.data.calendars
+      .filter(cal => cal.projectId === this.data.project.id || usedIds.has(cal.id))
+      .forEach(cal => {
+        const week = this.normalizeWeek(cal.standardWorkweek);
+        this.calendars.set(cal.id, {
+          objectId: nextId++,
+          name: cal.name,
+          type: cal.type === 'Resource' ? 'Resource' : cal.projectId ? 'Project' : 'Global',
+          week,
+          exceptions: this.normalizeExceptions(cal),
+          hoursPerDay: Math.max(0, ...week.map(d => this.sumHours(d.workingTimes))) || 8
+        });
+      });
+
+    const projectCalendar = Array.from(this.calendars.values()).find(c => c.type !== 'Resource');
+    this.defaultCalendar = projectCalendar || {
+      objectId: nextId,
+      name: 'Standard 5 Day Workweek',
+      type: 'Global',
+      week: this.normalizeWeek(null),
+      exceptions: [],
+      hoursPerDay: 8
+    };
+    if (!projectCalendar) this.calendars.set('default', this.defaultCalendar);
+  }
+
+  private buildCalendars(): XmlNode[] {
+    const calendars = Array.from(this.calendars.values()).map(cal => ({
+      HoursPerDay: cal.hoursPerDay,
+      HoursPerWeek: cal.week.reduce((sum, d) => sum + this.sumHours(d.workingTimes), 0),
+      IsDefault: cal === this.defaultCalendar,
+      Name: cal.name,
+      ObjectId: cal.objectId,
+      ProjectObjectId: cal.type === 'Project' ? PROJECT_OBJECT_ID : undefined,
+      Type: cal.type,
+      StandardWorkWeek: {
+        StandardWorkHours: cal.week.map((day, index) => ({
+          DayOfWeek: DAY_NAMES[index],
+          WorkTime: day.isWorking ? this.workTimes(day.workingTimes) : undefined
+        }))
+      },
+      HolidayOrExceptions: {
+        HolidayOrException: cal.exceptions.map(ex => ({
+          Date: `${ex.date}T00:00:00`,
+          WorkTime: this.workTimes(ex.workingTimes)
+        }))
+      }
+    }));
+    this.report.calendars = calendars.length;
+    return calendars;
+  }
+
+  /**
+   * ActivityCodeType/ActivityCode from the activityCodes table plus any values only found on activities
+   */
+  private buildActivityCodes(): { codeTypes: XmlNode[]; codeValues: XmlNode[] } {
+    const values = new Map<string, { codeName: string; codeValue: string; description: string | null; color: string | null; isProject: boolean }>();
+    this.data.activityCodes.forEach(code => {
+      values.set(`${code.codeName}\u0000${code.codeValue}`, {
+        codeName: code.codeName,
+        codeValue: code.codeValue,
+        description: code.description,
+        color: code.color,
+        isProject: code.codeType === 'Project'
+      });
+    });
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.activityCodes)).forEach(([codeName, codeValue]) => {
+        const key = `${codeName}\u0000${codeValue}`;
+        if (!values.has(key)) {
+          values.set(key, { codeName, codeValue: String(codeValue), description: null, color: null, isProject: true });
+        }
+      });
+    });
+
+    const typeIds = new Map<string, number>();
+    const codeTypes: XmlNode[] = [];
+    const codeValues: XmlNode[] = [];
+    Array.from(values.entries()).forEach(([key, value]) => {
+      let typeId = typeIds.get(value.codeName);
+      if (typeId === undefined) {
+        typeId = typeIds.size + 1;
+        typeIds.set(value.codeName, typeId);
+        codeTypes.push({
+          Name: value.codeName,
+          ObjectId: typeId,
+          ProjectObjectId: value.isProject ? PROJECT_OBJECT_ID : undefined,
+          Scope: value.isProject ? 'Project' : 'Global',
+          SequenceNumber: typeId
+        });
+      }
+
+      const valueId = codeValues.length + 1;
+      this.codeIds.set(key, { typeId, valueId });
+      codeValues.push({
+        CodeTypeObjectId: typeId,
+        CodeValue: value.codeValue,
+        Color: value.color || undefined,
+        Description: value.description || value.codeValue,
+        ObjectId: valueId,
+        SequenceNumber: valueId
+      });
+    });
+    this.report.activityCodes = codeValues.length;
+
+    return { codeTypes, codeValues };
+  }
+
+  /**
+   * One Activity user-defined field per scalar customFields key
+   */
+  private buildUdfTypes(): XmlNode[] {
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+        if (this.udfTypes.has(label) || !['string', 'number'].includes(typeof value)) return;
+        const dataType = typeof value === 'number'
+          ? 'Double'
+          : /^\d{4}-\d{2}-\d{2}$/.test(value as string) ? 'Start Date' : 'Text';
+        this.udfTypes.set(label, { objectId: this.udfTypes.size + 1, dataType });
+      });
+    });
+
+    return Array.from(this.udfTypes.entries()).map(([label, udf]) => ({
+      DataType: udf.dataType,
+      ObjectId: udf.objectId,
+      SubjectArea: 'Activity',
+      Title: label
+    }));
+  }
+
+  private buildResources(units: string[]): { resources: XmlNode[]; rates: XmlNode[] } {
+    const rates: XmlNode[] = [];
+    const resources = this.data.resources.map((resource, index) => {
+      const objectId = index + 1;
+      this.resourceIds.set(resource.id, objectId);
+      const standardRate = resource.standardRate ?? 0;
+      rates.push({
+        EffectiveDate: '2000-01-01T00:00:00',
+        MaxUnitsPerTime: resource.maxUnits ?? 1,
+        ObjectId: objectId,
+        PricePerUnit: standardRate,
+        ResourceObjectId: objectId
+      });
+      return {
+        CalendarObjectId: this.getCalendar(resource.calendarId).objectId,
+        Id: resource.resourceId,
+        IsActive: true,
+        Name: resource.name,
+        ObjectId: objectId,
+        OvertimeFactor: standardRate > 0 && resource.overtimeRate ? this.round(resource.overtimeRate / standardRate) : undefined,
+        ResourceNotes: resource.notes || undefined,
+        ResourceType: RESOURCE_TYPES[resource.type] || 'Labor',
+        UnitOfMeasureObjectId: resource.unit ? units.indexOf(resource.unit) + 1 : undefined
+      };
+    });
+    this.report.resources = resources.length;
+    return { resources, rates };
+  }
+
+  /**
+   * P6 builds WBS codes from the codes along the path, so each element exports
+   * its last code segment; top-level elements hang under the project
+   */
+  private buildWbs(): XmlNode[] {
+    const wbsMap = new Map(this.data.wbs.map(w => [w.id, w]));
+    const rows: XmlNode[] = [];
+
+    let nextId = PROJECT_OBJECT_ID + 1;
+    const visit = (parentId: string | null, parentObjectId: number) => {
+      this.data.wbs
+        .filter(w => (w.parentId && wbsMap.has(w.parentId) ? w.parentId : null) === parentId)
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .forEach(w => {
+          const objectId = nextId++;
+          this.wbsIds.set(w.id, objectId);
+          const parent = w.parentId ? wbsMap.get(w.parentId) : undefined;
+          const code = parent && w.code.startsWith(`${parent.code}.`) ? w.code.slice(parent.code.length + 1) : w.code;
+          rows.push({
+            Code: code,
+            Name: w.name,
+            ObjectId: objectId,
+            ParentObjectId: parentObjectId,
+            ProjectObjectId: PROJECT_OBJECT_ID,
+            SequenceNumber: w.sequenceNumber
+          });
+          visit(w.id, objectId);
+        });
+    };
+    visit(null, PROJECT_OBJECT_ID);
+    this.report.wbs = rows.length;
+    return rows;
+  }
+
+  private buildActivities(): XmlNode[] {
+    const activities = this.data.activities.map((activity, index) => {
+      const objectId = index + 1;
+      this.activityIds.set(activity.id, objectId);
+      const calendar = this.getCalendar(activity.calendarId);
+      const toHours = (days: number | null) => days === null ? undefined : this.round(days * calendar.hoursPerDay);
+      const { start, finish } = this.dayBounds(calendar);
+
+      const remaining = activity.status === 'Completed' ? 0 : activity.remainingDuration ?? activity.originalDuration;
+      const isFinishConstraint = activity.constraintType === 'FNET' || activity.constraintType === 'FNLT' || activity.constraintType === 'MFO';
+      const earlyStart = activity.earlyStart || activity.actualStart;
+      const earlyFinish = activity.earlyFinish || activity.actualFinish;
+
+      if (activity.type === 'Hammock') {
+        this.warn(`Activity ${activity.activityId} is a Hammock and was exported as Level of Effort`);
+      }
+      if (activity.wbsId && !this.wbsIds.has(activity.wbsId)) {
+        this.warn(`Activity ${activity.activityId} WBS was not found; placed under the project node`);
+      }
+
+      const codes = Object.entries(this.parseJson(activity.activityCodes))
+        .map(([codeName, codeValue]) => this.codeIds.get(`${codeName}\u0000${codeValue}`))
+        .filter((code): code is { typeId: number; valueId: number } => !!code)
+        .map(code => ({ TypeObjectId: code.typeId, ValueObjectId: code.valueId }));
+
+      const udfs: XmlNode[] = [];
+      Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+        const udf = this.udfTypes.get(label);
+        if (!udf || !['string', 'number'].includes(typeof value)) return;
+        const field = udf.dataType === 'Start Date' ? 'StartDateValue' : udf.dataType === 'Double' ? 'DoubleValue' : 'TextValue';
+        udfs.push({
+          TypeObjectId: udf.objectId,
+          [field]: udf.dataType === 'Start Date' ? `${value}T00:00:00` : value
+        });
+        this.report.customFieldValues++;
+      });
+
+      return {
+        ActualDuration: toHours(activity.actualDuration),
+        ActualFinishDate: this.formatDateTime(activity.actualFinish, finish),
+        ActualStartDate: this.formatDateTime(activity.actualStart, start),
+        CalendarObjectId: calendar.objectId,
+        EarlyFinishDate: this.formatDateTime(earlyFinish, finish),
+        EarlyStartDate: this.formatDateTime(earlyStart, start),
+        FinishDate: this.formatDateTime(activity.actualFinish || earlyFinish, finish),
+        FreeFloat: toHours(activity.freeFloat),
+        Id: activity.activityId,
+        IsCritical: !!activity.isCritical,
+        LateFinishDate: this.formatDateTime(activity.lateFinish, finish),
+        LateStartDate: this.formatDateTime(activity.lateStart, start),
+        Name: activity.name,
+        ObjectId: objectId,
+        PercentComplete: this.round((activity.percentComplete ?? 0) / 100),
+        PercentCompleteType: activity.physicalPercentComplete !== null ? 'Physical' : 'Duration',
+        PhysicalPercentComplete: activity.physicalPercentComplete !== null
+          ? this.round(activity.physicalPercentComplete / 100)
+          : undefined,
+        PlannedDuration: toHours(activity.originalDuration) ?? 0,
+        PlannedFinishDate: this.formatDateTime(activity.baselineFinish || earlyFinish, finish),
+        PlannedStartDate: this.formatDateTime(activity.baselineStart || earlyStart, start),
+        PrimaryConstraintDate: activity.constraintType
+          ? this.formatDateTime(activity.constraintDate, isFinishConstraint ? finish : start)
+          : undefined,
+        PrimaryConstraintType: activity.constraintType ? CONSTRAINT_TYPES[activity.constraintType] : 'None',
+        ProjectObjectId: PROJECT_OBJECT_ID,
+        RemainingDuration: toHours(remaining) ?? 0,
+        StartDate: this.formatDateTime(activity.actualStart || earlyStart, start),
+        Status: ACTIVITY_STATUSES[activity.status] || 'Not Started',
+        TotalFloat: toHours(activity.totalFloat),
+        Type: ACTIVITY_TYPES[activity.type] || 'Task Dependent',
+        WBSObjectId: (activity.wbsId && this.wbsIds.get(activity.wbsId)) || undefined,
+        Code: codes,
+        UDF: udfs
+      };
+    });
+    this.report.activities = activities.length;
+    return activities;
+  }
+
+  /**
+   * Lags are converted with the successor's calendar, as PMXMLImporter expects
+   */
+  private buildRelationships(): XmlNode[] {
+    const activityMap = new Map(this.data.activities.map(a => [a.id, a]));
+    const rows: XmlNode[] = [];
+
+    this.data.relationships.forEach(rel => {
+      const predecessorId = this.activityIds.get(rel.predecessorId);
+      const successorId = this.activityIds.get(rel.successorId);
+      if (!predecessorId || !successorId) {
+        this.warn(`Relationship ${rel.id} references an activity outside the project and was skipped`);
+        return;
+      }
+
+      const successor = activityMap.get(rel.successorId)!;
+      const hoursPerDay = this.getCalendar(successor.calendarId).hoursPerDay;
+      const lagHours = rel.lagUnit === 'hours' ? rel.lag ?? 0 : (rel.lag ?? 0) * hoursPerDay;
+      rows.push({
+        Lag: this.round(lagHours),
+        ObjectId: rows.length + 1,
+        PredecessorActivityObjectId: predecessorId,
+        PredecessorProjectObjectId: PROJECT_OBJECT_ID,
+        SuccessorActivityObjectId: successorId,
+        SuccessorProjectObjectId: PROJECT_OBJECT_ID,
+        Type: RELATIONSHIP_TYPES[rel.type] || 'Finish to Start'
+      });
+    });
+    this.report.relationships = rows.length;
+    return rows;
+  }
+
+  private buildAssignments(): XmlNode[] {
+    const activityMap = new Map(this.data.activities.map(a => [a.id, a]));
+    const rows: XmlNode[] = [];
+
+    this.data.assignments.forEach(assignment => {
+      const activityObjectId = this.activityIds.get(assignment.activityId);
+      const resourceObjectId = this.resourceIds.get(assignment.resourceId);
+      if (!activityObjectId || !resourceObjectId) return;
+
+      const activity = activityMap.get(assignment.activityId)!;
+      const calendar = this.getCalendar(activity.calendarId);
+      const { start, finish } = this.dayBounds(calendar);
+      const units = assignment.units ?? 1;
+      const plannedUnits = assignment.plannedUnits ?? units * (activity.originalDuration ?? 0) * calendar.hoursPerDay;
+
+      rows.push({
+        ActivityObjectId: activityObjectId,
+        ActualCost: assignment.actualCost ?? 0,
+        ActualUnits: assignment.actualUnits ?? 0,
+        FinishDate: this.formatDateTime(activity.earlyFinish || activity.actualFinish, finish),
+        ObjectId: rows.length + 1,
+        PlannedCost: assignment.cost ?? 0,
+        PlannedUnits: this.round(plannedUnits),
+        PlannedUnitsPerTime: units,
+        ProjectObjectId: PROJECT_OBJECT_ID,
+        RemainingCost: assignment.remainingCost ?? this.round((assignment.cost ?? 0) - (assignment.actualCost ?? 0)),
+        RemainingUnits: this.round(assignment.remainingUnits ?? plannedUnits - (assignment.actualUnits ?? 0)),
+        ResourceObjectId: resourceObjectId,
+        StartDate: this.formatDateTime(activity.earlyStart || activity.actualStart, start)
+      });
+    });
+    this.report.resourceAssignments = rows.length;
+    return rows;
+  }
+
+  /**
+   * Accepts both stored workweek shapes (array of days or object keyed by weekday name)
+   */
+  private normalizeWeek(value: unknown): ExportCalendar['week'] {
+    const week = DAY_NAMES.map((_, day) => ({
+      isWorking: day >= 1 && day <= 5,
+      workingTimes: day >= 1 && day <= 5 ? this.timesFor(8) : []
+    }));
+    const workweek = this.parseJson(value);
+
+    if (Array.isArray(workweek)) {
+      workweek.forEach((day: any) => {
+        if (typeof day?.dayOfWeek !== 'number') return;
+        const hours = day.isWorking ? day.hoursPerDay ?? 8 : 0;
+        week[day.dayOfWeek] = {
+          isWorking: !!day.isWorking && hours > 0,
+          workingTimes: Array.isArray(day.workingTimes) && day.workingTimes.length > 0 ? day.workingTimes : this.timesFor(hours)
+        };
+      });
+    } else if (workweek && typeof workweek === 'object') {
+      DAY_NAMES.forEach((name, day) => {
+        const pattern = (workweek as any)[name.toLowerCase()];
+        if (!pattern) return;
+        const [from, to] = Array.isArray(pattern.hours) && pattern.hours.length === 2 ? pattern.hours : [8, 16];
+        week[day] = pattern.working
+          ? { isWorking: true, workingTimes: [{ start: this.formatHour(from), finish: this.formatHour(to) }] }
+          : { isWorking: false, workingTimes: [] };
+      });
+    }
+
+    return week;
+  }
+
+  private normalizeExceptions(cal: Calendar): ExportCalendar['exceptions'] {
+    const exceptions = new Map<string, ExportCalendar['exceptions'][number]>();
+    this.parseList(cal.holidays).forEach(date => {
+      if (typeof date === 'string') exceptions.set(date, { date, workingTimes: [] });
+    });
+    this.parseList(cal.exceptions).forEach(ex => {
+      if (!ex?.date) return;
+      exceptions.set(ex.date, {
+        date: ex.date,
+        workingTimes: !ex.isWorking
+          ? []
+          : Array.isArray(ex.workingTimes) && ex.workingTimes.length > 0 ? ex.workingTimes : this.timesFor(ex.hoursPerDay || 8)
+      });
+    });
+    return Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Working ranges starting at 08:00 with a one hour break after four hours
+  private timesFor(hours: number): WorkingTime[] {
+    if (hours <= 0) return [];
+    if (hours <= 4) return [{ start: '08:00', finish: this.formatHour(8 + hours) }];
+    return [{ start: '08:00', finish: '12:00' }, { start: '13:00', finish: this.formatHour(13 + hours - 4) }];
+  }
+
+  // P6 XML finish times are inclusive, one minute before the range ends
+  private workTimes(times: WorkingTime[]): XmlNode[] {
+    return times.map(t => {
+      const [h, m] = t.finish.split(':').map(Number);
+      const minutes = (h === 0 && m === 0 ? 24 * 60 : h * 60 + m) - 1;
+      return { Finish: `${this.formatHour(minutes / 60)}:00`, Start: `${t.start}:00` };
+    });
+  }
+
+  private sumHours(times: WorkingTime[]): number {
+    const minutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+    return times.reduce((total, t) => {
+      const finish = t.finish === '00:00' ? 24 * 60 : minutes(t.finish);
+      return total + Math.max(0, finish - minutes(t.start)) / 60;
+    }, 0);
+  }
+
+  private dayBounds(calendar: ExportCalendar): { start: string; finish: string } {
+    const day = calendar.week.find(d => d.isWorking && d.workingTimes.length > 0);
+    if (!day) return { start: '08:00', finish: '17:00' };
+    return { start: day.workingTimes[0].start, finish: day.workingTimes[day.workingTimes.length - 1].finish };
+  }
+
+  private getCalendar(calendarId: string | null): ExportCalendar {
+    return (calendarId && this.calendars.get(calendarId)) || this.defaultCalendar;
+  }
+
+  private formatDateTime(date: string | null | undefined, time: string): string | undefined {
+    return date ? `${date.slice(0, 10)}T${time}:00` : undefined;
+  }
+
+  private formatHour(hour: number): string {
+    const h = Math.floor(hour);
+    const m = Math.round((hour - h) * 60);
+    return `${String(h % 24).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private parseJson(value: unknown): Record<string, any> {
+    if (value === null || value === undefined) return {};
+    return (typeof value === 'string' ? JSON.parse(value) : value) as Record<string, any>;
+  }
+
+  private parseList(value: unknown): any[] {
+    const parsed = this.parseJson(value);
+    return Array.isArray(parsed) ? parsed : [];
+  }
+
+  private shortName(value: string, maxLength: number): string {
+    return value.replace(/\s+/g, ' ').trim().slice(0, maxLength);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Drop unset fields so P6 falls back to its own defaults
+  private compact(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(v => this.compact(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null && !(Array.isArray(v) && v.length === 0))
+        .map(([k, v]) => [k, this.compact(v)]));
+    }
+    return value;
+  }
+
+  private warn(message: string) {
+    this.report.warnings.push(message);
+  }
+}
@@ -0,0 +1,755 @@
+import { XMLParser } from "fast-xml-parser";
+import type { IStorage } from "./storage";
+import type { InsertCalendar } from "@shared/schema";
+import type { XERProjectSummary } from "./xerImporter";
+
+type XmlNode = Record<string, any>;
+
+export interface PMXMLConversionReport {
+  pmxmlProjectId: string;
+  projectName: string;
+  imported: {
+    wbs: number;
+    calendars: number;
+    resources: number;
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+    activityCodes: number;
+    customFieldValues: number;
+  };
+  skipped: {
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+    customFieldValues: number;
+  };
+  unmappedTables: string[]; // Business object elements that were not imported
+  warnings: string[];
+}
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface CalendarDay {
+  dayOfWeek: number;
+  isWorking: boolean;
+  hoursPerDay: number;
+  workingTimes: WorkingTime[];
+}
+
+interface CalendarException {
+  date: string;
+  isWorking: boolean;
+  hoursPerDay: number;
+  workingTimes: WorkingTime[];
+}
+
+// Elements that may repeat and must always parse as arrays
+const ARRAY_ELEMENTS = new Set([
+  'Project', 'Calendar', 'StandardWorkHours', 'WorkTime', 'HolidayOrException', 'WBS', 'Activity',
+  'Relationship', 'Resource', 'ResourceRate', 'ResourceAssignment', 'ActivityCodeType', 'ActivityCode',
+  'UDFType', 'UnitOfMeasure'
+]);
+
+// Code and UDF assignments repeat inside Activity; elsewhere Code is a plain value (e.g. WBS Code)
+const ACTIVITY_ARRAY_ELEMENTS = new Set(['Code', 'UDF']);
+
+// Business objects the importer reads; the rest are reported as unmapped
+const MAPPED_ELEMENTS = new Set([
+  'Project', 'Calendar', 'WBS', 'Activity', 'Relationship', 'Resource', 'ResourceRate',
+  'ResourceAssignment', 'ActivityCodeType', 'ActivityCode', 'UDFType', 'UnitOfMeasure'
+]);
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ACTIVITY_TYPES: Record<string, 'Task' | 'StartMilestone' | 'FinishMilestone' | 'LOE' | 'WBSSummary'> = {
+  'Task Dependent': 'Task',
+  'Resource Dependent': 'Task',
+  'Start Milestone': 'StartMilestone',
+  'Finish Milestone': 'FinishMilestone',
+  'Level of Effort': 'LOE',
+  'WBS Summary': 'WBSSummary'
+};
+
+const ACTIVITY_STATUSES: Record<string, 'NotStarted' | 'InProgress' | 'Completed'> = {
+  'Not Started': 'NotStarted',
+  'In Progress': 'InProgress',
+  'Completed': 'Completed'
+};
+
+const CONSTRAINT_TYPES: Record<string, 'SNET' | 'FNET' | 'SNLT' | 'FNLT' | 'MSO' | 'MFO'> = {
+  'Start On or After': 'SNET',
+  'Start On or Before': 'SNLT',
+  'Finish On or After': 'FNET',
+  'Finish On or Before': 'FNLT',
+  'Mandatory Start': 'MSO',
+  'Mandatory Finish': 'MFO'
+};
+
+const RELATIONSHIP_TYPES: Record<string, 'FS' | 'SS' | 'FF' | 'SF'> = {
+  'Finish to Start': 'FS',
+  'Start to Start': 'SS',
+  'Finish to Finish': 'FF',
+  'Start to Finish': 'SF'
+};
+
+const RESOURCE_TYPES: Record<string, 'Labor' | 'Equipment' | 'Material'> = {
+  Labor: 'Labor',
+  Nonlabor: 'Equipment',
+  Material: 'Material'
+};
+
+const MAX_WARNINGS = 200;
+
+/**
+ * Imports one project from a Primavera P6 XML (PMXML) file into an existing project.
+ * Global objects (calendars, resources, code types, UDF types) sit directly under
+ * APIBusinessObjects while WBS, activities, relationships and assignments are
+ * nested in each Project. Durations, floats and lags are hours and percentages
+ * are fractions, as in the P6 API.
+ */
+export class PMXMLImporter {
+  private root: XmlNode;
+  private warnings: string[] = [];
+  private suppressedWarnings = 0;
+
+  constructor(content: string) {
+    const parser = new XMLParser({
+      ignoreAttributes: true,
+      parseTagValue: false,
+      trimValues: true,
+      removeNSPrefix: true,
+      isArray: (name, jpath) => ARRAY_ELEMENTS.has(name) ||
+        (ACTIVITY_ARRAY_ELEMENTS.has(name) && String(jpath).endsWith(`Activity.${name}`))
+    });
+    const document = parser.parse(content);
+    if (!document?.APIBusinessObjects || typeof document.APIBusinessObjects !== 'object') {
+      throw new Error("Not a Primavera P6 XML file");
+    }
+    this.root = document.APIBusinessObjects;
+  }
+
+  public listProjects(): XERProjectSummary[] {
+    return this.list(this.root.Project).map(project => {
+      const objectId = this.text(project.ObjectId);
+      return {
+        projId: objectId,
+        shortName: this.text(project.Id) || objectId,
+        name: this.text(project.Name) || this.text(project.Id) || objectId,
+        startDate: this.toDate(project.PlannedStartDate) ?? this.toDate(project.StartDate),
+        finishDate: this.toDate(project.ScheduledFinishDate) ?? this.toDate(project.FinishDate),
+        dataDate: this.toDate(project.DataDate),
+        activityCount: this.projectElements(project, 'Activity').length
+      };
+    });
+  }
+
+  public async importInto(projectId: string, storage: IStorage, pmxmlProjectId?: string): Promise<PMXMLConversionReport> {
+    const projects = this.listProjects();
+    const summary = pmxmlProjectId ? projects.find(p => p.projId === pmxmlProjectId) : projects[0];
+    if (!summary) {
+      throw new Error(pmxmlProjectId ? `Project ${pmxmlProjectId} not found in P6 XML file` : "P6 XML file contains no projects");
+    }
+    const source = this.list(this.root.Project).find(p => this.text(p.ObjectId) === summary.projId)!;
+
+    const report: PMXMLConversionReport = {
+      pmxmlProjectId: summary.projId,
+      projectName: summary.name,
+      imported: {
+        wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+        resourceAssignments: 0, activityCodes: 0, customFieldValues: 0
+      },
+      skipped: { activities: 0, relationships: 0, resourceAssignments: 0, customFieldValues: 0 },
+      unmappedTables: Array.from(new Set([...Object.keys(this.root), ...Object.keys(source)]))
+        .filter(key => !MAPPED_ELEMENTS.has(key) && (typeof this.root[key] === 'object' || typeof source[key] === 'object')),
+      warnings: this.warnings
+    };
+
+    const activities = this.projectElements(source, 'Activity');
+    const assignments = this.projectElements(source, 'ResourceAssignment');
+
+    const calendarMap = await this.importCalendars(projectId, source, activities, assignments, storage, report);
+    const wbsMap = await this.importWbs(projectId, source, storage, report);
+    const resourceMap = await this.importResources(projectId, assignments, calendarMap, storage, report);
+    const codeValues = await this.importActivityCodes(projectId, source, activities, storage, report);
+    const { activityMap, hoursPerDay } = await this.importActivities(
+      projectId, source, activities, assignments, calendarMap, wbsMap, codeValues, storage, report
+    );
+    await this.importRelationships(projectId, source, activityMap, hoursPerDay, storage, report);
+    await this.importAssignments(assignments, activityMap, resourceMap, storage, report);
+
+    const project = await storage.getProject(projectId);
+    if (project && !project.dataDate && summary.dataDate) {
+      await storage.updateProject(projectId, { dataDate: summary.dataDate });
+    }
+
+    if (this.suppressedWarnings > 0) {
+      this.warnings.push(`${this.suppressedWarnings} further warnings omitted`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Calendars owned by the project or used by its activities and resources.
+   * Calendars without a work week of their own take their base calendar's week.
+   */
+  private async importCalendars(
+    projectId: string,
+    source: XmlNode,
+    activities: XmlNode[],
+    assignments: XmlNode[],
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<Map<string, { id: string; hoursPerDay: number }>> {
+    const sourceId = this.text(source.ObjectId);
+    const resourceIds = new Set(assignments.map(a => this.text(a.ResourceObjectId)));
+    const usedIds = new Set<string>([
+      this.text(source.ActivityDefaultCalendarObjectId),
+      ...activities.map(a => this.text(a.CalendarObjectId)),
+      ...this.list(this.root.Resource)
+        .filter(r => resourceIds.has(this.text(r.ObjectId)))
+        .map(r => this.text(r.CalendarObjectId))
+    ].filter(Boolean));
+
+    const calendars = [...this.list(this.root.Calendar), ...this.list(source.Calendar)];
+    const byId = new Map(calendars.map(c => [this.text(c.ObjectId), c]));
+    const resolved = new Map<string, { week: CalendarDay[]; exceptions: CalendarException[] }>();
+
+    const resolve = (calendar: XmlNode, seen = new Set<string>()): { week: CalendarDay[]; exceptions: CalendarException[] } => {
+      const objectId = this.text(calendar.ObjectId);
+      if (resolved.has(objectId)) return resolved.get(objectId)!;
+
+      const baseId = this.text(calendar.BaseCalendarObjectId);
+      const base = baseId && byId.has(baseId) && !seen.has(baseId)
+        ? resolve(byId.get(baseId)!, new Set([...Array.from(seen), objectId]))
+        : null;
+
+      const days = this.list(calendar.StandardWorkWeek?.StandardWorkHours);
+      const week = days.length > 0 || !base
+        ? DAY_NAMES.map((_, day) => ({ dayOfWeek: day, isWorking: false, hoursPerDay: 0, workingTimes: [] as WorkingTime[] }))
+        : base.week.map(day => ({ ...day }));
+      days.forEach(day => {
+        const dayOfWeek = DAY_NAMES.indexOf(this.text(day.DayOfWeek));
+        if (dayOfWeek < 0) return;
+        const workingTimes = this.workingTimes(day.WorkTime);
+        const hoursPerDay = this.sumHours(workingTimes);
+        week[dayOfWeek] = { dayOfWeek, isWorking: hoursPerDay > 0, hoursPerDay, workingTimes };
+      });
+
+      const exceptions = new Map((base?.exceptions || []).map(ex => [ex.date, ex]));
+      this.list(calendar.HolidayOrExceptions?.HolidayOrException).forEach(exception => {
+        const date = this.toDate(exception.Date);
+        if (!date) return;
+        const workingTimes = this.workingTimes(exception.WorkTime);
+        const hoursPerDay = this.sumHours(workingTimes);
+        exceptions.set(date, { date, isWorking: hoursPerDay > 0, hoursPerDay, workingTimes });
+      });
+
+      const result = {
+        week,
+        exceptions: Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date))
+      };
+      resolved.set(objectId, result);
+      return result;
+    };
+
+    // Re-importing refreshes the project's calendars of the same name instead of adding copies
+    const existing = new Map((await storage.getCalendarsByProject(projectId))
+      .filter(c => c.projectId === projectId)
+      .map(c => [c.name, c.id]));
+
+    const calendarMap = new Map<string, { id: string; hoursPerDay: number }>();
+    for (const calendar of calendars) {
+      const objectId = this.text(calendar.ObjectId);
+      const ownedByProject = this.text(calendar.ProjectObjectId) === sourceId || this.list(source.Calendar).includes(calendar);
+      if (calendarMap.has(objectId) || (!usedIds.has(objectId) && !ownedByProject)) continue;
+
+      const { week, exceptions } = resolve(calendar);
+      const hoursPerDay = this.toNumber(calendar.HoursPerDay) || Math.max(0, ...week.map(d => d.hoursPerDay)) || 8;
+      const values: InsertCalendar = {
+        projectId,
+        name: this.text(calendar.Name) || `Calendar ${objectId}`,
+        type: this.text(calendar.Type) === 'Resource' ? 'Resource' : 'Project',
+        standardWorkweek: week,
+        holidays: exceptions.filter(ex => !ex.isWorking).map(ex => ex.date),
+        exceptions
+      };
+      const existingId = existing.get(values.name);
+      const saved = existingId
+        ? await storage.updateCalendar(existingId, values)
+        : await storage.createCalendar(values);
+      if (!saved) continue;
+      existing.set(saved.name, saved.id);
+      calendarMap.set(objectId, { id: saved.id, hoursPerDay });
+      report.imported.calendars++;
+    }
+
+    const missing = Array.from(usedIds).filter(id => !calendarMap.has(id));
+    if (missing.length > 0) {
+      this.warn(`${missing.length} calendars referenced by the project are not in the file; their activities use the project default`);
+    }
+
+    return calendarMap;
+  }
+
+  /**
+   * WBS elements hang under the project (ParentObjectId is the project) or another
+   * element; codes are joined along the path as P6 displays them
+   */
+  private async importWbs(
+    projectId: string, source: XmlNode, storage: IStorage, report: PMXMLConversionReport
+  ): Promise<Map<string, string>> {
+    const rows = this.projectElements(source, 'WBS');
+    const ids = new Set(rows.map(w => this.text(w.ObjectId)));
+    const children = new Map<string, XmlNode[]>();
+    rows.forEach(row => {
+      const parentId = this.text(row.ParentObjectId);
+      const parent = ids.has(parentId) ? parentId : '';
+      children.set(parent, [...(children.get(parent) || []), row]);
+    });
+
+    const wbsMap = new Map<string, string>();
+    const visit = async (parentKey: string, parentId: string | null, parentCode: string, level: number) => {
+      const siblings = (children.get(parentKey) || [])
+        .sort((a, b) => (this.toNumber(a.SequenceNumber) ?? 0) - (this.toNumber(b.SequenceNumber) ?? 0));
+      for (let i = 0; i < siblings.length; i++) {
+        const row = siblings[i];
+        const objectId = this.text(row.ObjectId);
+        if (wbsMap.has(objectId)) continue;
+        const shortCode = this.text(row.Code) || objectId;
+        const code = parentCode ? `${parentCode}.${shortCode}` : shortCode;
+        const created = await storage.createWbs({
+          projectId,
+          parentId,
+          code,
+          name: this.text(row.Name) || shortCode,
+          level,
+          sequenceNumber: i + 1
+        });
+        wbsMap.set(objectId, created.id);
+        report.imported.wbs++;
+        await visit(objectId, created.id, code, level + 1);
+      }
+    };
+    await visit('', null, '', 1);
+
+    return wbsMap;
+  }
+
+  /**
+   * Resources assigned in the project; existing resources with the same ID are reused
+   */
+  private async importResources(
+    projectId: string,
+    assignments: XmlNode[],
+    calendarMap: Map<string, { id: string; hoursPerDay: number }>,
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<Map<string, string>> {
+    const usedIds = new Set(assignments.map(a => this.text(a.ResourceObjectId)));
+    const existing = new Map((await storage.getResourcesByProject(projectId)).map(r => [r.resourceId, r.id]));
+    const units = new Map(this.list(this.root.UnitOfMeasure).map(u => [
+      this.text(u.ObjectId), this.text(u.Abbreviation) || this.text(u.Name)
+    ]));
+
+    const resourceMap = new Map<string, string>();
+    for (const row of this.list(this.root.Resource)) {
+      const objectId = this.text(row.ObjectId);
+      if (!usedIds.has(objectId)) continue;
+
+      const code = this.text(row.Id) || objectId;
+      const existingId = existing.get(code);
+      if (existingId) {
+        resourceMap.set(objectId, existingId);
+        continue;
+      }
+
+      // Latest effective rate carries the price and max units
+      const rate = this.list(this.root.ResourceRate)
+        .filter(r => this.text(r.ResourceObjectId) === objectId)
+        .sort((a, b) => this.text(b.EffectiveDate).localeCompare(this.text(a.EffectiveDate)))[0];
+      const standardRate = rate ? this.toNumber(rate.PricePerUnit) : null;
+      const overtimeFactor = this.toNumber(row.OvertimeFactor);
+
+      const resourceType = this.text(row.ResourceType);
+      const type = RESOURCE_TYPES[resourceType];
+      if (!type) this.warn(`Resource ${code} has unknown type ${resourceType || '(blank)'}; imported as Labor`);
+
+      const resource = await storage.createResource({
+        projectId,
+        resourceId: code,
+        name: this.text(row.Name) || code,
+        type: type || 'Labor',
+        unit: units.get(this.text(row.UnitOfMeasureObjectId)) || null,
+        standardRate,
+        overtimeRate: standardRate !== null && overtimeFactor ? standardRate * overtimeFactor : null,
+        maxUnits: (rate && this.toNumber(rate.MaxUnitsPerTime)) ?? 1,
+        calendarId: calendarMap.get(this.text(row.CalendarObjectId))?.id ?? null,
+        notes: this.text(row.ResourceNotes) || null
+      });
+      existing.set(code, resource.id);
+      resourceMap.set(objectId, resource.id);
+      report.imported.resources++;
+    }
+
+    return resourceMap;
+  }
+
+  /**
+   * Creates activityCodes rows for every code value the project's activities use,
+   * plus all values of project-scoped code types. Returns code value ObjectId to
+   * { codeTypeName, codeValue }.
+   */
+  private async importActivityCodes(
+    projectId: string,
+    source: XmlNode,
+    activities: XmlNode[],
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<Map<string, { codeName: string; codeValue: string }>> {
+    const codeTypes = new Map([...this.list(this.root.ActivityCodeType), ...this.list(source.ActivityCodeType)]
+      .map(t => [this.text(t.ObjectId), t]));
+    const codes = [...this.list(this.root.ActivityCode), ...this.list(source.ActivityCode)];
+    const usedIds = new Set(activities.flatMap(a => this.list(a.Code).map(c => this.text(c.ValueObjectId))));
+    const sourceId = this.text(source.ObjectId);
+
+    const codeValues = new Map<string, { codeName: string; codeValue: string }>();
+    for (const code of codes) {
+      const objectId = this.text(code.ObjectId);
+      const codeType = codeTypes.get(this.text(code.CodeTypeObjectId));
+      if (!codeType || codeValues.has(objectId)) continue;
+      const isProject = this.text(codeType.Scope) === 'Project';
+      if (!usedIds.has(objectId) && !(isProject && this.text(codeType.ProjectObjectId) === sourceId)) continue;
+
+      const codeName = this.text(codeType.Name);
+      const codeValue = this.text(code.CodeValue);
+      await storage.createActivityCode({
+        projectId,
+        codeType: isProject ? 'Project' : 'Global',
+        codeName,
+        codeValue,
+        description: this.text(code.Description) || null,
+        color: this.text(code.Color) || null
+      });
+      codeValues.set(objectId, { codeName, codeValue });
+      report.imported.activityCodes++;
+    }
+
+    return codeValues;
+  }
+
+  private async importActivities(
+    projectId: string,
+    source: XmlNode,
+    activities: XmlNode[],
+    assignments: XmlNode[],
+    calendarMap: Map<string, { id: string; hoursPerDay: number }>,
+    wbsMap: Map<string, string>,
+    codeValues: Map<string, { codeName: string; codeValue: string }>,
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<{ activityMap: Map<string, string>; hoursPerDay: Map<string, number> }> {
+    const existing = new Set((await storage.getActivitiesByProject(projectId)).map(a => a.activityId));
+    const udfTypes = new Map([...this.list(this.root.UDFType), ...this.list(source.UDFType)]
+      .map(u => [this.text(u.ObjectId), u]));
+    const costs = this.assignmentCosts(assignments);
+    const defaultCalendar = calendarMap.get(this.text(source.ActivityDefaultCalendarObjectId));
+
+    const activityMap = new Map<string, string>();
+    const hoursPerDay = new Map<string, number>();
+    for (const row of activities) {
+      const objectId = this.text(row.ObjectId);
+      const activityId = this.text(row.Id) || objectId;
+      if (existing.has(activityId)) {
+        this.warn(`Activity ${activityId} already exists in the project and was skipped`);
+        report.skipped.activities++;
+        continue;
+      }
+      existing.add(activityId);
+
+      const calendar = calendarMap.get(this.text(row.CalendarObjectId)) ?? defaultCalendar;
+      const hours = calendar?.hoursPerDay || 8;
+      const toDays = (value: unknown) => {
+        const number = this.toNumber(value);
+        return number === null ? null : this.round(number / hours);
+      };
+
+      const activityType = this.text(row.Type);
+      const type = ACTIVITY_TYPES[activityType];
+      if (!type) this.warn(`Activity ${activityId} has unknown type ${activityType || '(blank)'}; imported as Task`);
+
+      const constraintName = this.text(row.PrimaryConstraintType);
+      const constraintType = CONSTRAINT_TYPES[constraintName] ?? null;
+      if (constraintName && constraintName !== 'None' && !constraintType) {
+        this.warn(`Activity ${activityId} constraint ${constraintName} has no equivalent and was dropped`);
+      }
+      const secondaryConstraint = this.text(row.SecondaryConstraintType);
+      if (secondaryConstraint && secondaryConstraint !== 'None') {
+        this.warn(`Activity ${activityId} secondary constraint ${secondaryConstraint} was dropped`);
+      }
+
+      const activityCodes: Record<string, string> = {};
+      this.list(row.Code).forEach(code => {
+        const value = codeValues.get(this.text(code.ValueObjectId));
+        if (value) activityCodes[value.codeName] = value.codeValue;
+      });
+
+      const customFields: Record<string, string | number> = {};
+      this.list(row.UDF).forEach(udf => {
+        const udfType = udfTypes.get(this.text(udf.TypeObjectId));
+        if (!udfType) {
+          report.skipped.customFieldValues++;
+          return;
+        }
+        const value = this.udfValue(udf);
+        if (value === null) return;
+        customFields[this.text(udfType.Title) || this.text(udfType.ObjectId)] = value;
+        report.imported.customFieldValues++;
+      });
+
+      const status = ACTIVITY_STATUSES[this.text(row.Status)] || 'NotStarted';
+      const originalDuration = toDays(row.PlannedDuration);
+      const remainingDuration = toDays(row.RemainingDuration);
+      const actualDuration = toDays(row.ActualDuration);
+      const totalFloat = toDays(row.TotalFloat);
+      const cost = costs.get(objectId);
+
+      const activity = await storage.createActivity({
+        projectId,
+        activityId,
+        name: this.text(row.Name) || activityId,
+        wbsId: wbsMap.get(this.text(row.WBSObjectId)) ?? null,
+        type: type || 'Task',
+        originalDuration,
+        remainingDuration,
+        actualDuration: actualDuration ?? (originalDuration !== null && remainingDuration !== null && status !== 'NotStarted'
+          ? Math.max(0, this.round(originalDuration - remainingDuration))
+          : null),
+        durationUnit: 'days',
+        earlyStart: this.toDate(row.EarlyStartDate) ?? this.toDate(row.StartDate) ?? this.toDate(row.PlannedStartDate),
+        earlyFinish: this.toDate(row.EarlyFinishDate) ?? this.toDate(row.FinishDate) ?? this.toDate(row.PlannedFinishDate),
+        lateStart: this.toDate(row.LateStartDate),
+        lateFinish: this.toDate(row.LateFinishDate),
+        actualStart: this.toDate(row.ActualStartDate),
+        actualFinish: this.toDate(row.ActualFinishDate),
+        totalFloat,
+        freeFloat: toDays(row.FreeFloat),
+        isCritical: this.toBoolean(row.IsCritical) ?? (totalFloat !== null && totalFloat <= 0),
+        percentComplete: status === 'Completed' ? 100 : this.toPercent(row.PercentComplete) ?? 0,
+        physicalPercentComplete: this.toPercent(row.PhysicalPercentComplete),
+        status,
+        calendarId: calendar?.id ?? null,
+        constraintType,
+        constraintDate: constraintType ? this.toDate(row.PrimaryConstraintDate) : null,
+        activityCodes: Object.keys(activityCodes).length > 0 ? activityCodes : null,
+        customFields: Object.keys(customFields).length > 0 ? customFields : null,
+        budgetedCost: cost ? cost.budgeted : null,
+        actualCost: cost ? cost.actual : null
+      });
+
+      activityMap.set(objectId, activity.id);
+      hoursPerDay.set(objectId, hours);
+      report.imported.activities++;
+    }
+
+    return { activityMap, hoursPerDay };
+  }
+
+  /**
+   * Lag hours use the predecessor's calendar, as P6 does by default
+   */
+  private async importRelationships(
+    projectId: string,
+    source: XmlNode,
+    activityMap: Map<string, string>,
+    hoursPerDay: Map<string, number>,
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<void> {
+    const sourceId = this.text(source.ObjectId);
+    const links = [
+      ...this.list(source.Relationship),
+      ...this.list(this.root.Relationship).filter(l =>
+        activityMap.has(this.text(l.PredecessorActivityObjectId)) || activityMap.has(this.text(l.SuccessorActivityObjectId))
+      )
+    ];
+
+    for (const link of links) {
+      const predecessorObjectId = this.text(link.PredecessorActivityObjectId);
+      const successorObjectId = this.text(link.SuccessorActivityObjectId);
+      const predecessorId = activityMap.get(predecessorObjectId);
+      const successorId = activityMap.get(successorObjectId);
+      if (!predecessorId || !successorId) {
+        const otherProject = [this.text(link.PredecessorProjectObjectId), this.text(link.SuccessorProjectObjectId)]
+          .find(id => id && id !== sourceId);
+        if (otherProject) {
+          this.warn(`External relationship ${this.text(link.ObjectId)} to project ${otherProject} was skipped`);
+        }
+        report.skipped.relationships++;
+        continue;
+      }
+
+      const linkType = this.text(link.Type);
+      const type = RELATIONSHIP_TYPES[linkType];
+      if (!type) this.warn(`Relationship ${this.text(link.ObjectId)} has unknown type ${linkType || '(blank)'}; imported as FS`);
+
+      await storage.createRelationship({
+        projectId,
+        predecessorId,
+        successorId,
+        type: type || 'FS',
+        lag: this.round((this.toNumber(link.Lag) ?? 0) / (hoursPerDay.get(predecessorObjectId) || 8)),
+        lagUnit: 'days'
+      });
+      report.imported.relationships++;
+    }
+  }
+
+  private async importAssignments(
+    assignments: XmlNode[],
+    activityMap: Map<string, string>,
+    resourceMap: Map<string, string>,
+    storage: IStorage,
+    report: PMXMLConversionReport
+  ): Promise<void> {
+    for (const row of assignments) {
+      const activityId = activityMap.get(this.text(row.ActivityObjectId));
+      if (!activityId) continue;
+
+      const resourceId = resourceMap.get(this.text(row.ResourceObjectId));
+      if (!resourceId) {
+        report.skipped.resourceAssignments++;
+        continue;
+      }
+
+      const actualUnits = this.toNumber(row.ActualUnits)
+        ?? (this.toNumber(row.ActualRegularUnits) ?? 0) + (this.toNumber(row.ActualOvertimeUnits) ?? 0);
+      const actualCost = this.toNumber(row.ActualCost)
+        ?? (this.toNumber(row.ActualRegularCost) ?? 0) + (this.toNumber(row.ActualOvertimeCost) ?? 0);
+      await storage.createAssignment({
+        activityId,
+        resourceId,
+        units: this.toNumber(row.PlannedUnitsPerTime) || 1,
+        plannedUnits: this.toNumber(row.PlannedUnits),
+        actualUnits,
+        remainingUnits: this.toNumber(row.RemainingUnits),
+        cost: this.toNumber(row.PlannedCost),
+        actualCost,
+        remainingCost: this.toNumber(row.RemainingCost)
+      });
+      report.imported.resourceAssignments++;
+    }
+  }
+
+  private assignmentCosts(assignments: XmlNode[]): Map<string, { budgeted: number; actual: number }> {
+    const costs = new Map<string, { budgeted: number; actual: number }>();
+    assignments.forEach(row => {
+      const activityId = this.text(row.ActivityObjectId);
+      const cost = costs.get(activityId) || { budgeted: 0, actual: 0 };
+      cost.budgeted += this.toNumber(row.PlannedCost) ?? 0;
+      cost.actual += this.toNumber(row.ActualCost)
+        ?? (this.toNumber(row.ActualRegularCost) ?? 0) + (this.toNumber(row.ActualOvertimeCost) ?? 0);
+      costs.set(activityId, cost);
+    });
+    return costs;
+  }
+
+  /**
+   * Objects of one kind belonging to a project: nested in its Project element,
+   * or at the top level with a matching ProjectObjectId
+   */
+  private projectElements(project: XmlNode, name: string): XmlNode[] {
+    const objectId = this.text(project.ObjectId);
+    return [
+      ...this.list(project[name]),
+      ...this.list(this.root[name]).filter(item => this.text(item.ProjectObjectId) === objectId)
+    ];
+  }
+
+  private udfValue(udf: XmlNode): string | number | null {
+    for (const field of ['StartDateValue', 'FinishDateValue']) {
+      const date = this.toDate(udf[field]);
+      if (date) return date;
+    }
+    for (const field of ['DoubleValue', 'IntegerValue', 'CostValue']) {
+      const number = this.toNumber(udf[field]);
+      if (number !== null) return number;
+    }
+    return this.text(udf.TextValue) || this.text(udf.CodeValue) || null;
+  }
+
+  /**
+   * WorkTime Finish is inclusive in P6 XML (16:59 for a day ending at 17:00)
+   */
+  private workingTimes(value: unknown): WorkingTime[] {
+    return this.list(value)
+      .filter(t => this.text(t.Start) && this.text(t.Finish))
+      .map(t => {
+        const finish = this.text(t.Finish).slice(0, 5);
+        const [h, m] = finish.split(':').map(Number);
+        return {
+          start: this.text(t.Start).slice(0, 5),
+          finish: m === 59 ? `${String((h + 1) % 24).padStart(2, '0')}:00` : finish
+        };
+      });
+  }
+
+  private sumHours(times: WorkingTime[]): number {
+    const minutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+    return times.reduce((total, t) => {
+      const finish = t.finish === '00:00' ? 24 * 60 : minutes(t.finish);
+      return total + Math.max(0, finish - minutes(t.start)) / 60;
+    }, 0);
+  }
+
+  // P6 writes percentages as fractions between 0 and 1
+  private toPercent(value: unknown): number | null {
+    const number = this.toNumber(value);
+    if (number === null) return null;
+    return this.round(number <= 1 ? number * 100 : number);
+  }
+
+  private toBoolean(value: unknown): boolean | null {
+    const text = this.text(value).toLowerCase();
+    if (text === 'true' || text === '1') return true;
+    if (text === 'false' || text === '0') return false;
+    return null;
+  }
+
+  private toDate(value: unknown): string | null {
+    const text = this.text(value);
+    return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+  }
+
+  private toNumber(value: unknown): number | null {
+    const text = this.text(value);
+    return text !== '' && !isNaN(Number(text)) ? Number(text) : null;
+  }
+
+  private text(value: unknown): string {
+    return value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+  }
+
+  private list(value: unknown): XmlNode[] {
+    return Array.isArray(value) ? value : value ? [value as XmlNode] : [];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private warn(message: string) {
+    if (this.warnings.length < MAX_WARNINGS) {
+      this.warnings.push(message);
+    } else {
+      this.suppressedWarnings++;
+    }
+  }
+}
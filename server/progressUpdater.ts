@@ -0,0 +1,357 @@
+import type {
+  Project, Activity, Relationship, Calendar, ScheduleUpdate, ProgressUpdate, ProgressEntry,
+  ActivityProgress, ProgressData, ScheduleUpdateChanges, ActivityUpdateChange, ProgressSuggestion
+} from "@shared/schema";
+import { CPMCalculator, type CalculatedActivity } from "./cpmCalculator";
+import { NetworkValidator } from "./networkValidator";
+import { WorkCalendar } from "./workCalendar";
+
+export interface ProgressUpdateResult {
+  activityUpdates: { id: string; updates: Partial<Activity> }[];
+  progressData: ProgressData;
+  changesFromPrevious: ScheduleUpdateChanges;
+}
+
+const MILESTONE_TYPES = new Set(['StartMilestone', 'FinishMilestone']);
+
+/**
+ * Statusing workflow for moving a schedule to a new data date:
+ * - suggests actuals, remaining duration and percent complete from the current
+ *   forecast and the previous update
+ * - checks entered progress against the statusing rules
+ * - applies it, recalculates with the chosen progress method and reports the
+ *   progress and the changes since the previous update for the schedule_updates record
+ */
+export class ProgressUpdater {
+  private calendars: Map<string, WorkCalendar>;
+  private defaultCalendar = new WorkCalendar();
+  private previousDataDate: string | null;
+
+  constructor(
+    private project: Project,
+    private activities: Activity[],
+    private relationships: Relationship[],
+    private calendarRecords: Calendar[],
+    private previousUpdate: ScheduleUpdate | null
+  ) {
+    this.calendars = new Map(calendarRecords.map(c => [c.id, new WorkCalendar(c)]));
+    this.previousDataDate = previousUpdate?.dataDate ?? project.dataDate ?? null;
+  }
+
+  /**
+   * Entry sheet for a new data date: every incomplete activity with the progress its
+   * forecast implies. Work since the previous data date is deducted from the remaining
+   * duration on the activity's calendar.
+   */
+  public suggest(dataDate: string): ProgressSuggestion[] {
+    const previous = new Map(
+      ((this.previousUpdate?.progressData as ProgressData | null)?.activities ?? []).map(p => [p.id, p])
+    );
+
+    return this.activities
+      .filter(a => a.type !== 'WBSSummary' && a.status !== 'Completed')
+      .map(activity => {
+        const original = activity.originalDuration ?? 0;
+        const current = this.toProgress(activity);
+        let suggested: ProgressSuggestion['suggested'] = {
+          actualStart: current.actualStart,
+          actualFinish: current.actualFinish,
+          remainingDuration: current.remainingDuration,
+          percentComplete: current.percentComplete
+        };
+
+        const plannedStart = activity.earlyStart?.slice(0, 10) ?? null;
+        const plannedFinish = activity.earlyFinish?.slice(0, 10) ?? null;
+        const start = activity.actualStart?.slice(0, 10) ?? (plannedStart && plannedStart < dataDate ? plannedStart : null);
+
+        if (start && MILESTONE_TYPES.has(activity.type)) {
+          suggested = { actualStart: start, actualFinish: start, remainingDuration: 0, percentComplete: 100 };
+        } else if (start && plannedFinish && plannedFinish < dataDate) {
+          suggested = {
+            actualStart: start,
+            actualFinish: plannedFinish < start ? start : plannedFinish,
+            remainingDuration: 0,
+            percentComplete: 100
+          };
+        } else if (start) {
+          // Already started work has been statused to the previous data date
+          const from = activity.actualStart && this.previousDataDate && this.previousDataDate > start
+            ? this.previousDataDate
+            : start;
+          const remaining = activity.actualStart ? (activity.remainingDuration ?? original) : original;
+          const worked = this.workingDuration(activity, from, dataDate);
+          const remainingDuration = Math.max(0, Math.round((remaining - worked) * 100) / 100);
+          suggested = {
+            actualStart: start,
+            actualFinish: null,
+            remainingDuration,
+            percentComplete: this.percentFrom(original, remainingDuration)
+          };
+        }
+
+        return {
+          id: activity.id,
+          activityId: activity.activityId,
+          name: activity.name,
+          type: activity.type,
+          originalDuration: original,
+          durationUnit: activity.durationUnit,
+          plannedStart,
+          plannedFinish,
+          current,
+          previous: previous.get(activity.id) ?? null,
+          suggested,
+          due: !!start
+        };
+      })
+      .sort((a, b) => (a.plannedStart ?? '9999').localeCompare(b.plannedStart ?? '9999') || a.activityId.localeCompare(b.activityId));
+  }
+
+  /**
+   * Statusing rules broken by an update; empty when it can be applied
+   */
+  public validate(update: ProgressUpdate): string[] {
+    const errors: string[] = [];
+    if (this.previousDataDate && update.dataDate <= this.previousDataDate.slice(0, 10)) {
+      errors.push(`The data date must be after the previous data date (${this.previousDataDate.slice(0, 10)})`);
+    }
+
+    const activityMap = new Map(this.activities.map(a => [a.id, a]));
+    const seen = new Set<string>();
+    update.entries.forEach(entry => {
+      const activity = activityMap.get(entry.id);
+      if (!activity) {
+        errors.push(`Activity ${entry.id} is not in this project`);
+        return;
+      }
+      if (seen.has(entry.id)) {
+        errors.push(`${activity.activityId} is entered more than once`);
+        return;
+      }
+      seen.add(entry.id);
+
+      const { actualStart, actualFinish } = this.applyEntry(activity, entry);
+      if (actualFinish && !actualStart) {
+        errors.push(`${activity.activityId} has an actual finish but no actual start`);
+      }
+      if (actualStart && actualFinish && actualFinish < actualStart) {
+        errors.push(`${activity.activityId} finishes (${actualFinish}) before it starts (${actualStart})`);
+      }
+      // Only the Actual Dates method schedules from actuals recorded after the data date
+      if (update.progressMethod !== 'ActualDates') {
+        if (actualStart && actualStart > update.dataDate) {
+          errors.push(`${activity.activityId} actual start ${actualStart} is after the data date`);
+        }
+        if (actualFinish && actualFinish > update.dataDate) {
+          errors.push(`${activity.activityId} actual finish ${actualFinish} is after the data date`);
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Apply the entered progress and recalculate the schedule at the new data date
+   */
+  public apply(update: ProgressUpdate): ProgressUpdateResult {
+    const entries = new Map(update.entries.map(e => [e.id, e]));
+    const progressed = this.activities.map(activity => {
+      const entry = entries.get(activity.id);
+      return entry ? this.applyEntry(activity, entry) : activity;
+    });
+
+    const calculated = new CPMCalculator(
+      progressed,
+      this.relationships,
+      this.calendarRecords,
+      new Date(update.dataDate),
+      update.progressMethod
+    ).calculate().activities;
+
+    const activityUpdates = calculated.map(activity => ({
+      id: activity.id,
+      updates: {
+        status: activity.status,
+        actualStart: activity.actualStart,
+        actualFinish: activity.actualFinish,
+        remainingDuration: activity.remainingDuration,
+        percentComplete: activity.percentComplete,
+        earlyStart: this.formatDate(activity.calculatedEarlyStart),
+        earlyFinish: this.formatDate(activity.calculatedEarlyFinish),
+        lateStart: this.formatDate(activity.calculatedLateStart),
+        lateFinish: this.formatDate(activity.calculatedLateFinish),
+        totalFloat: activity.calculatedTotalFloat,
+        freeFloat: activity.calculatedFreeFloat,
+        isCritical: activity.calculatedIsCritical
+      }
+    }));
+
+    const outOfSequence = new NetworkValidator(progressed, this.relationships).validate().issues
+      .filter(issue => issue.type === 'ProgressViolation');
+
+    return {
+      activityUpdates,
+      progressData: {
+        progressMethod: update.progressMethod,
+        previousDataDate: this.previousDataDate,
+        activities: progressed.filter(a => a.status !== 'NotStarted').map(a => this.toProgress(a)),
+        statused: Array.from(entries.keys()),
+        outOfSequence,
+        summary: this.summarize(progressed)
+      },
+      changesFromPrevious: this.compare(calculated)
+    };
+  }
+
+  /**
+   * An activity with an entry's progress. Statuses follow the actuals: an actual
+   * finish completes the activity, an actual start puts it in progress. Whichever of
+   * remaining duration and percent complete is left out is derived from the other.
+   */
+  private applyEntry(activity: Activity, entry: ProgressEntry): Activity {
+    const actualStart = entry.actualStart !== undefined ? entry.actualStart : activity.actualStart?.slice(0, 10) ?? null;
+    const actualFinish = entry.actualFinish !== undefined ? entry.actualFinish : activity.actualFinish?.slice(0, 10) ?? null;
+    const original = activity.originalDuration ?? 0;
+
+    // Milestones happen on a single date
+    if (MILESTONE_TYPES.has(activity.type) && (actualStart || actualFinish)) {
+      const date = actualFinish ?? actualStart;
+      return { ...activity, actualStart: date, actualFinish: date, status: 'Completed', percentComplete: 100, remainingDuration: 0 };
+    }
+    if (actualFinish) {
+      return { ...activity, actualStart, actualFinish, status: 'Completed', percentComplete: 100, remainingDuration: 0 };
+    }
+    if (actualStart) {
+      let remainingDuration = activity.remainingDuration ?? original;
+      let percentComplete = activity.percentComplete ?? 0;
+      if (entry.remainingDuration !== undefined) {
+        remainingDuration = entry.remainingDuration;
+        percentComplete = entry.percentComplete ?? this.percentFrom(original, remainingDuration);
+      } else if (entry.percentComplete !== undefined) {
+        percentComplete = entry.percentComplete;
+        remainingDuration = Math.round(original * (100 - percentComplete)) / 100;
+      }
+      return { ...activity, actualStart, actualFinish: null, status: 'InProgress', percentComplete, remainingDuration };
+    }
+    return {
+      ...activity,
+      actualStart: null,
+      actualFinish: null,
+      status: 'NotStarted',
+      percentComplete: 0,
+      remainingDuration: entry.remainingDuration ?? activity.remainingDuration ?? original
+    };
+  }
+
+  /**
+   * Changes from the schedule as it stood before this update
+   */
+  private compare(calculated: CalculatedActivity[]): ScheduleUpdateChanges {
+    const before = new Map(this.activities.map(a => [a.id, a]));
+    const changes: ActivityUpdateChange[] = [];
+    const criticalPath = { added: [] as string[], removed: [] as string[] };
+    let started = 0;
+    let completed = 0;
+
+    calculated.forEach(activity => {
+      const previous = before.get(activity.id)!;
+      const earlyStart = this.formatDate(activity.calculatedEarlyStart);
+      const earlyFinish = this.formatDate(activity.calculatedEarlyFinish);
+
+      if (previous.status === 'NotStarted' && activity.status !== 'NotStarted') started++;
+      if (previous.status !== 'Completed' && activity.status === 'Completed') completed++;
+      if (activity.calculatedIsCritical && !previous.isCritical) criticalPath.added.push(activity.activityId);
+      if (!activity.calculatedIsCritical && previous.isCritical) criticalPath.removed.push(activity.activityId);
+
+      const change: ActivityUpdateChange = {
+        id: activity.id,
+        activityId: activity.activityId,
+        name: activity.name,
+        previousStatus: previous.status,
+        status: activity.status,
+        startVariance: this.daysBetween(previous.earlyStart, earlyStart),
+        finishVariance: this.daysBetween(previous.earlyFinish, earlyFinish),
+        floatChange: previous.totalFloat !== null && activity.calculatedTotalFloat !== null
+          ? Math.round((activity.calculatedTotalFloat - previous.totalFloat) * 100) / 100
+          : null,
+        percentCompleteChange: Math.round(((activity.percentComplete ?? 0) - (previous.percentComplete ?? 0)) * 100) / 100
+      };
+      if (change.status !== change.previousStatus || change.startVariance !== 0 || change.finishVariance !== 0 ||
+          (change.floatChange ?? 0) !== 0 || change.percentCompleteChange !== 0) {
+        changes.push(change);
+      }
+    });
+
+    const previousFinish = this.latest(this.activities.map(a => a.earlyFinish?.slice(0, 10) ?? null));
+    const currentFinish = this.latest(calculated.map(a => this.formatDate(a.calculatedEarlyFinish)));
+
+    return {
+      previousUpdateNumber: this.previousUpdate?.updateNumber ?? null,
+      previousDataDate: this.previousDataDate,
+      projectFinish: {
+        previous: previousFinish,
+        current: currentFinish,
+        varianceDays: this.daysBetween(previousFinish, currentFinish)
+      },
+      criticalPath,
+      started,
+      completed,
+      activities: changes.sort((a, b) => b.finishVariance - a.finishVariance)
+    };
+  }
+
+  private summarize(activities: Activity[]): ProgressData['summary'] {
+    const work = activities.filter(a => a.type !== 'WBSSummary');
+    const totalDuration = work.reduce((sum, a) => sum + (a.originalDuration ?? 0), 0);
+    const earned = work.reduce((sum, a) => sum + (a.originalDuration ?? 0) * (a.percentComplete ?? 0), 0);
+    return {
+      completed: work.filter(a => a.status === 'Completed').length,
+      inProgress: work.filter(a => a.status === 'InProgress').length,
+      notStarted: work.filter(a => a.status === 'NotStarted').length,
+      percentComplete: totalDuration > 0 ? Math.round(earned / totalDuration * 10) / 10 : 0
+    };
+  }
+
+  private toProgress(activity: Activity): ActivityProgress {
+    return {
+      id: activity.id,
+      activityId: activity.activityId,
+      name: activity.name,
+      status: activity.status,
+      actualStart: activity.actualStart?.slice(0, 10) ?? null,
+      actualFinish: activity.actualFinish?.slice(0, 10) ?? null,
+      remainingDuration: activity.remainingDuration,
+      percentComplete: activity.percentComplete ?? 0
+    };
+  }
+
+  /**
+   * Working time between two dates on the activity's calendar, in its duration unit
+   */
+  private workingDuration(activity: Activity, from: string, to: string): number {
+    const calendar = (activity.calendarId && this.calendars.get(activity.calendarId)) || this.defaultCalendar;
+    const minutes = calendar.workingMinutesBetween(new Date(`${from}T00:00:00Z`), new Date(`${to}T00:00:00Z`));
+    return activity.durationUnit === 'hours' ? minutes / 60 : minutes / calendar.minutesPerDay;
+  }
+
+  private percentFrom(original: number, remaining: number): number {
+    return original > 0 ? Math.min(100, Math.max(0, Math.round((original - remaining) / original * 100))) : 0;
+  }
+
+  private latest(dates: (string | null)[]): string | null {
+    return dates.reduce<string | null>((latest, date) => date && (!latest || date > latest) ? date : latest, null);
+  }
+
+  /**
+   * Calendar-day difference; zero when either date is missing
+   */
+  private daysBetween(from: string | null, to: string | null): number {
+    if (!from || !to) return 0;
+    return Math.round((new Date(to.slice(0, 10)).getTime() - new Date(from.slice(0, 10)).getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  private formatDate(date: Date | null): string | null {
+    return date ? date.toISOString().split('T')[0] : null;
+  }
+}
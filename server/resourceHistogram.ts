@@ -0,0 +1,159 @@
+import type { Activity, Resource, ResourceAssignment, Calendar } from "@shared/schema";
+import { WorkCalendar } from "./workCalendar";
+
+export type HistogramInterval = 'day' | 'week' | 'month';
+
+interface HistogramPeriod {
+  period: string; // First date of the period (YYYY-MM-DD)
+  units: number; // Peak daily units within the period
+  unitDays: number; // Sum of daily units across the period
+  cost: number;
+  overallocated: boolean;
+}
+
+export interface ResourceHistogramSeries {
+  resourceId: string;
+  resourceCode: string;
+  name: string;
+  type: string;
+  maxUnits: number;
+  periods: HistogramPeriod[];
+  overallocatedPeriods: number;
+}
+
+export interface ResourceHistogramResult {
+  interval: HistogramInterval;
+  startDate: string | null;
+  finishDate: string | null;
+  periods: string[];
+  resources: ResourceHistogramSeries[];
+  totals: { period: string; unitDays: number; cost: number; cumulativeCost: number }[];
+}
+
+/**
+ * Time-phased resource demand.
+ * Each assignment's units are applied to every working day of its activity
+ * (working on both the activity and the resource calendar). Assignment cost is
+ * spread evenly over those days; without a cost, standardRate x units per day is used.
+ */
+export class ResourceHistogram {
+  private calendars: Map<string, WorkCalendar>;
+  private defaultCalendar = new WorkCalendar();
+
+  constructor(
+    private activities: Activity[],
+    private resources: Resource[],
+    private assignments: ResourceAssignment[],
+    calendars: Calendar[] = []
+  ) {
+    this.calendars = new Map(calendars.map(cal => [cal.id, new WorkCalendar(cal)]));
+  }
+
+  public build(interval: HistogramInterval = 'week'): ResourceHistogramResult {
+    const activityMap = new Map(this.activities.map(a => [a.id, a]));
+    const daily = new Map<string, Map<string, { units: number; cost: number }>>(); // resource -> date -> demand
+
+    this.assignments.forEach(assignment => {
+      const activity = activityMap.get(assignment.activityId);
+      const resource = this.resources.find(r => r.id === assignment.resourceId);
+      if (!activity || !resource) return;
+
+      const start = activity.actualStart || activity.earlyStart;
+      const finish = activity.actualFinish || activity.earlyFinish;
+      if (!start || !finish) return;
+
+      const activityCalendar = this.getCalendar(activity.calendarId);
+      const resourceCalendar = resource.calendarId ? this.getCalendar(resource.calendarId) : null;
+      const days: string[] = [];
+      for (let current = new Date(start); current <= new Date(finish); current.setUTCDate(current.getUTCDate() + 1)) {
+        if (activityCalendar.isWorkingDay(current) && (!resourceCalendar || resourceCalendar.isWorkingDay(current))) {
+          days.push(current.toISOString().split('T')[0]);
+        }
+      }
+      if (days.length === 0) return;
+
+      const units = assignment.units ?? 1;
+      const dailyCost = assignment.cost !== null && assignment.cost !== undefined
+        ? assignment.cost / days.length
+        : (resource.standardRate ?? 0) * units;
+
+      const resourceDays = daily.get(resource.id) || new Map<string, { units: number; cost: number }>();
+      days.forEach(date => {
+        const demand = resourceDays.get(date) || { units: 0, cost: 0 };
+        demand.units += units;
+        demand.cost += dailyCost;
+        resourceDays.set(date, demand);
+      });
+      daily.set(resource.id, resourceDays);
+    });
+
+    const allDates = Array.from(daily.values()).flatMap(days => Array.from(days.keys())).sort();
+    const startDate = allDates[0] ?? null;
+    const finishDate = allDates[allDates.length - 1] ?? null;
+    const periods = startDate && finishDate ? this.buildPeriods(startDate, finishDate, interval) : [];
+
+    const resources: ResourceHistogramSeries[] = this.resources
+      .filter(resource => daily.has(resource.id))
+      .map(resource => {
+        const maxUnits = resource.maxUnits ?? 1;
+        const buckets = new Map<string, HistogramPeriod>(periods.map(period => [period, {
+          period, units: 0, unitDays: 0, cost: 0, overallocated: false
+        }]));
+
+        daily.get(resource.id)!.forEach((demand, date) => {
+          const bucket = buckets.get(this.periodFor(date, interval))!;
+          bucket.units = Math.max(bucket.units, demand.units);
+          bucket.unitDays += demand.units;
+          bucket.cost += demand.cost;
+          if (demand.units > maxUnits) bucket.overallocated = true;
+        });
+
+        const series = Array.from(buckets.values());
+        return {
+          resourceId: resource.id,
+          resourceCode: resource.resourceId,
+          name: resource.name,
+          type: resource.type,
+          maxUnits,
+          periods: series,
+          overallocatedPeriods: series.filter(p => p.overallocated).length
+        };
+      });
+
+    let cumulativeCost = 0;
+    const totals = periods.map((period, index) => {
+      const unitDays = resources.reduce((sum, r) => sum + r.periods[index].unitDays, 0);
+      const cost = resources.reduce((sum, r) => sum + r.periods[index].cost, 0);
+      cumulativeCost += cost;
+      return { period, unitDays, cost, cumulativeCost };
+    });
+
+    return { interval, startDate, finishDate, periods, resources, totals };
+  }
+
+  private getCalendar(calendarId: string | null): WorkCalendar {
+    return (calendarId && this.calendars.get(calendarId)) || this.defaultCalendar;
+  }
+
+  /**
+   * First date of the day/week/month containing the given date (weeks start Monday)
+   */
+  private periodFor(date: string, interval: HistogramInterval): string {
+    if (interval === 'day') return date;
+    if (interval === 'month') return `${date.slice(0, 7)}-01`;
+
+    const d = new Date(date);
+    const offset = (d.getUTCDay() + 6) % 7;
+    d.setUTCDate(d.getUTCDate() - offset);
+    return d.toISOString().split('T')[0];
+  }
+
+  private buildPeriods(startDate: string, finishDate: string, interval: HistogramInterval): string[] {
+    const periods: string[] = [];
+    for (let current = new Date(startDate); current <= new Date(finishDate); current.setUTCDate(current.getUTCDate() + 1)) {
+      const period = this.periodFor(current.toISOString().split('T')[0], interval);
+      if (periods[periods.length - 1] !== period) periods.push(period);
+    }
+    return periods;
+  }
+}
@@ -0,0 +1,281 @@
+import type { Activity, Relationship, Calendar, RiskDuration } from "@shared/schema";
+import { riskDurationSchema } from "@shared/schema";
+import { CPMCalculator } from "./cpmCalculator";
+
+type Distribution = 'triangular' | 'pert' | 'uniform';
+
+const ITERATIONS_PER_BATCH = 10;
+
+export interface RiskAnalysisSettings {
+  iterations: number;
+  seed: number;
+  distribution: Distribution;
+  dataDate: Date;
+}
+
+export interface RiskAnalysisResult {
+  deterministicFinish: string | null;
+  p50Finish: string | null;
+  p80Finish: string | null;
+  p90Finish: string | null;
+  meanFinish: string | null;
+  finishDistribution: { finish: string; count: number; cumulativeProbability: number }[];
+  criticality: { id: string; activityId: string; name: string; criticalityIndex: number }[];
+  tornado: { id: string; activityId: string; name: string; correlation: number }[];
+  uncertainActivities: number;
+  iterations: number;
+}
+
+/**
+ * Mulberry32 - small seedable PRNG so a run can be reproduced from its seed
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Monte Carlo schedule risk analysis:
+ * - Samples every activity that has a three-point estimate in customFields.riskDurations
+ * - Runs CPMCalculator once per iteration on the sampled network
+ * - Reports finish percentiles, criticality index and duration sensitivity (tornado)
+ * Iterations run in batches that yield to the event loop, so a long analysis
+ * does not hold up other requests.
+ */
+export class RiskAnalyzer {
+  private random: () => number;
+  private estimates = new Map<string, RiskDuration>();
+
+  constructor(
+    private activities: Activity[],
+    private relationships: Relationship[],
+    private calendars: Calendar[],
+    private settings: RiskAnalysisSettings
+  ) {
+    this.random = createRandom(settings.seed);
+
+    activities.forEach(activity => {
+      const parsed = riskDurationSchema.safeParse((activity.customFields as any)?.riskDurations);
+      if (parsed.success) {
+        this.estimates.set(activity.id, parsed.data);
+      }
+    });
+  }
+
+  public async run(): Promise<RiskAnalysisResult> {
+    const { iterations } = this.settings;
+    const finishes: number[] = [];
+    const criticalCounts = new Map<string, number>(this.activities.map(a => [a.id, 0]));
+    const sampledDurations = new Map<string, number[]>(
+      Array.from(this.estimates.keys()).map(id => [id, []])
+    );
+
+    const deterministicFinish = this.runIteration(this.activities).finish;
+
+    for (let i = 0; i < iterations; i++) {
+      if (i > 0 && i % ITERATIONS_PER_BATCH === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      const durations = new Map<string, number>();
+      const sampled = this.activities.map(activity => {
+        const estimate = this.estimates.get(activity.id);
+        if (!estimate) return activity;
+
+        const duration = this.sample(estimate);
+        durations.set(activity.id, duration);
+        return this.withDuration(activity, duration, estimate);
+      });
+
+      // An iteration without any finish date has nothing to contribute
+      const { finish, critical } = this.runIteration(sampled);
+      if (finish === null) continue;
+
+      finishes.push(finish);
+      durations.forEach((duration, id) => sampledDurations.get(id)!.push(duration));
+      critical.forEach(id => criticalCounts.set(id, (criticalCounts.get(id) || 0) + 1));
+    }
+
+    const sortedFinishes = [...finishes].sort((a, b) => a - b);
+    const percentile = (p: number) => sortedFinishes.length > 0
+      ? this.formatDate(sortedFinishes[Math.min(sortedFinishes.length - 1, Math.ceil(p * sortedFinishes.length) - 1)])
+      : null;
+
+    return {
+      deterministicFinish: deterministicFinish ? this.formatDate(deterministicFinish) : null,
+      p50Finish: percentile(0.5),
+      p80Finish: percentile(0.8),
+      p90Finish: percentile(0.9),
+      meanFinish: finishes.length > 0
+        ? this.formatDate(finishes.reduce((sum, f) => sum + f, 0) / finishes.length)
+        : null,
+      finishDistribution: this.buildDistribution(sortedFinishes),
+      criticality: this.activities
+        .map(activity => ({
+          id: activity.id,
+          activityId: activity.activityId,
+          name: activity.name,
+          criticalityIndex: finishes.length > 0
+            ? Math.round((criticalCounts.get(activity.id)! / finishes.length) * 1000) / 10
+            : 0
+        }))
+        .sort((a, b) => b.criticalityIndex - a.criticalityIndex),
+      tornado: this.buildTornado(sampledDurations, finishes),
+      uncertainActivities: this.estimates.size,
+      iterations
+    };
+  }
+
+  private runIteration(activities: Activity[]): { finish: number | null; critical: string[] } {
+    const calculator = new CPMCalculator(activities, this.relationships, this.calendars, this.settings.dataDate);
+    const calculated = calculator.calculate().activities;
+
+    let finish: number | null = null;
+    const critical: string[] = [];
+    calculated.forEach(activity => {
+      const earlyFinish = activity.calculatedEarlyFinish?.getTime();
+      if (earlyFinish !== undefined && (finish === null || earlyFinish > finish)) {
+        finish = earlyFinish;
+      }
+      if (activity.calculatedIsCritical) critical.push(activity.id);
+    });
+
+    return { finish, critical };
+  }
+
+  /**
+   * Apply a sampled total duration; in-progress work scales its remaining duration
+   */
+  private withDuration(activity: Activity, duration: number, estimate: RiskDuration): Activity {
+    const rounded = Math.max(0, Math.round(duration));
+    if (activity.status === 'Completed') return activity;
+
+    if (activity.status === 'InProgress' && activity.remainingDuration !== null && estimate.mostLikely > 0) {
+      return {
+        ...activity,
+        remainingDuration: Math.max(0, Math.round(activity.remainingDuration * duration / estimate.mostLikely))
+      };
+    }
+
+    return { ...activity, originalDuration: rounded, remainingDuration: rounded };
+  }
+
+  private sample(estimate: RiskDuration): number {
+    const { optimistic: a, mostLikely: m, pessimistic: b } = estimate;
+    if (b === a) return m;
+
+    switch (estimate.distribution || this.settings.distribution) {
+      case 'uniform':
+        return a + (b - a) * this.random();
+
+      case 'pert': {
+        const alpha = 1 + 4 * (m - a) / (b - a);
+        const beta = 1 + 4 * (b - m) / (b - a);
+        const x = this.sampleGamma(alpha);
+        const y = this.sampleGamma(beta);
+        return a + (b - a) * (x / (x + y));
+      }
+
+      case 'triangular':
+      default: {
+        const u = this.random();
+        const split = (m - a) / (b - a);
+        return u < split
+          ? a + Math.sqrt(u * (b - a) * (m - a))
+          : b - Math.sqrt((1 - u) * (b - a) * (b - m));
+      }
+    }
+  }
+
+  /**
+   * Marsaglia-Tsang gamma sampler (shape >= 1, which PERT always satisfies)
+   */
+  private sampleGamma(shape: number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+    while (true) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+      v = v * v * v;
+      const u = this.random();
+      if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+    }
+  }
+
+  private sampleNormal(): number {
+    const u1 = this.random() || Number.MIN_VALUE;
+    const u2 = this.random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /**
+   * Rank uncertain activities by correlation between their duration and the project finish
+   */
+  private buildTornado(sampledDurations: Map<string, number[]>, finishes: number[]) {
+    const activityMap = new Map(this.activities.map(a => [a.id, a]));
+
+    return Array.from(sampledDurations.entries())
+      .map(([id, durations]) => {
+        const activity = activityMap.get(id)!;
+        return {
+          id,
+          activityId: activity.activityId,
+          name: activity.name,
+          correlation: Math.round(this.correlation(durations, finishes) * 1000) / 1000
+        };
+      })
+      .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation))
+      .slice(0, 20);
+  }
+
+  private correlation(xs: number[], ys: number[]): number {
+    const n = Math.min(xs.length, ys.length);
+    if (n < 2) return 0;
+
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+      varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+  }
+
+  private buildDistribution(sortedFinishes: number[]) {
+    const counts = new Map<string, number>();
+    sortedFinishes.forEach(finish => {
+      const date = this.formatDate(finish);
+      counts.set(date, (counts.get(date) || 0) + 1);
+    });
+
+    let cumulative = 0;
+    return Array.from(counts.entries()).map(([finish, count]) => {
+      cumulative += count;
+      return {
+        finish,
+        count,
+        cumulativeProbability: Math.round((cumulative / sortedFinishes.length) * 1000) / 1000
+      };
+    });
+  }
+
+  private formatDate(time: number): string {
+    return new Date(time).toISOString().split('T')[0];
+  }
+}
@@ -3,15 +3,40 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { 
-  insertProjectSchema, insertActivitySchema, insertWbsSchema,
-  insertCalendarSchema, insertRelationshipSchema, insertResourceSchema,
-  insertResourceAssignmentSchema, insertBaselineSchema, insertTiaScenarioSchema,
-  insertScheduleUpdateSchema
+  insertProjectSchema, insertActivitySchema, insertWbsSchema, wbsRollupSettingsSchema, wbsMoveSchema, wbsActivityMoveSchema,
+  calendarSchema, calendarPreviewSchema, calendarAssignmentSchema, insertRelationshipSchema, insertResourceSchema,
+  insertResourceAssignmentSchema, insertBaselineSchema, insertTiaScenarioSchema, insertScheduleVersionSchema,
+  insertScheduleUpdateSchema, progressUpdateSchema, constraintBulkSchema, calculateScheduleSchema, insertTiaFragnetSchema, insertTiaDelaySchema,
+  fragnetContentSchema, riskAnalysisOptionsSchema, scheduleImportSchema, tabularImportSchema, mappingProfileSchema,
+  tabularMappingSchema, ganttPdfOptionsSchema, type Project, type Activity, type ScheduleSnapshot, type ScheduleVersion, type PathAnalysis
 } from "@shared/schema";
 import { z } from "zod";
+import { randomBytes } from "crypto";
 import { generateScheduleWithAI, identifyScheduleImpacts } from "./scheduleAITools";
 import { poe } from "./poeClient";
 import { SYSTEM_ASSISTANT, ToolSchema } from "./assistantTools";
+import { TIAAnalyzer } from "./tiaAnalyzer";
+import { ScheduleComparator } from "./scheduleComparator";
+import { ResourceHistogram, type HistogramInterval } from "./resourceHistogram";
+import { EVMCalculator } from "./evmCalculator";
+import { RiskAnalyzer } from "./riskAnalyzer";
+import { ScheduleHealthCheck } from "./scheduleHealthCheck";
+import { NetworkValidator } from "./networkValidator";
+import { CPMCalculator } from "./cpmCalculator";
+import { WorkCalendar } from "./workCalendar";
+import { HOLIDAY_SETS, getHolidays } from "./holidaySets";
+import { XERImporter } from "./xerImporter";
+import { XERExporter } from "./xerExporter";
+import { MSPDIImporter } from "./mspdiImporter";
+import { MSPDIExporter } from "./mspdiExporter";
+import { PMXMLImporter } from "./pmxmlImporter";
+import { PMXMLExporter } from "./pmxmlExporter";
+import { sniffScheduleFormat } from "./scheduleFormat";
+import { GanttPDFRenderer } from "./ganttPdfRenderer";
+import { ICSExporter } from "./icsExporter";
+import { ProgressUpdater } from "./progressUpdater";
+import { WBSStructure } from "./wbsStructure";
+import { TabularImporter, readSpreadsheet, suggestMapping } from "./tabularImporter";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -124,14 +149,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/wbs/:id", async (req, res) => {
     try {
-      const wbs = await storage.updateWbs(req.params.id, req.body);
+      const updates = req.body.rollupSettings
+        ? { ...req.body, rollupSettings: wbsRollupSettingsSchema.parse(req.body.rollupSettings) }
+        : req.body;
+      const wbs = await storage.updateWbs(req.params.id, updates);
       if (!wbs) {
         return res.status(404).json({ error: "WBS not found" });
       }
       res.json(wbs);
     } catch (error) {
       console.error("Error updating WBS:", error);
-      res.status(500).json({ error: "Failed to update WBS" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid rollup settings", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update WBS" });
+      }
+    }
+  });
+
+  // Re-parent or reorder a WBS node; codes, levels and sequence numbers are renumbered
+  app.post("/api/wbs/:id/move", async (req, res) => {
+    try {
+      const node = await storage.getWbs(req.params.id);
+      if (!node) {
+        return res.status(404).json({ error: "WBS not found" });
+      }
+      const { parentId, position } = wbsMoveSchema.parse(req.body);
+
+      const wbs = await storage.getWbsByProject(node.projectId);
+      const structure = new WBSStructure(wbs);
+      const problem = structure.checkMove(node.id, parentId);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const changes = structure.move(node.id, parentId, position);
+      await storage.transaction(async (tx) => {
+        for (const change of changes) {
+          await tx.updateWbs(change.id, change.updates);
+        }
+      });
+
+      await storage.createAuditLog({
+        projectId: node.projectId,
+        entityType: 'wbs',
+        entityId: node.id,
+        action: 'Update',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `Moved WBS ${node.code} ${node.name}${parentId ? ` under ${wbs.find(w => w.id === parentId)!.code}` : ' to the top level'}; renumbered ${changes.length} nodes`
+      });
+
+      res.json(await storage.getWbsByProject(node.projectId));
+    } catch (error) {
+      console.error("Error moving WBS:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid WBS move", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to move WBS" });
+      }
+    }
+  });
+
+  // Move activities into a WBS node
+  app.post("/api/wbs/:id/activities", async (req, res) => {
+    try {
+      const node = await storage.getWbs(req.params.id);
+      if (!node) {
+        return res.status(404).json({ error: "WBS not found" });
+      }
+      const { activityIds } = wbsActivityMoveSchema.parse(req.body);
+
+      const projectActivityIds = new Set((await storage.getActivitiesByProject(node.projectId)).map(a => a.id));
+      const ids = activityIds.filter(id => projectActivityIds.has(id));
+      await storage.bulkUpdateActivities(ids.map(id => ({ id, updates: { wbsId: node.id } })));
+
+      await storage.createAuditLog({
+        projectId: node.projectId,
+        entityType: 'wbs',
+        entityId: node.id,
+        action: 'Update',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `Moved ${ids.length} activities to WBS ${node.code} ${node.name}`
+      });
+
+      res.json({ activities: ids.length });
+    } catch (error) {
+      console.error("Error moving activities to WBS:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid activity move", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to move activities to WBS" });
+      }
+    }
+  });
+
+  app.get("/api/projects/:projectId/wbs/rollup", async (req, res) => {
+    try {
+      const [wbs, activities] = await Promise.all([
+        storage.getWbsByProject(req.params.projectId),
+        storage.getActivitiesByProject(req.params.projectId)
+      ]);
+      res.json(new WBSStructure(wbs).rollup(activities));
+    } catch (error) {
+      console.error("Error calculating WBS rollup:", error);
+      res.status(500).json({ error: "Failed to calculate WBS rollup" });
     }
   });
 
@@ -277,6 +398,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         projectId: req.params.projectId
       });
+      
+      // Reject self-loops, duplicates and links that would close a logic loop
+      const [activities, relationships] = await Promise.all([
+        storage.getActivitiesByProject(req.params.projectId),
+        storage.getRelationshipsByProject(req.params.projectId)
+      ]);
+      const validation = new NetworkValidator(activities, relationships).validateNew(relationshipData);
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.issues[0].message, validation });
+      }
+      
       const relationship = await storage.createRelationship(relationshipData);
       res.json(relationship);
     } catch (error) {
@@ -289,16 +421,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/projects/:projectId/network-validation", async (req, res) => {
+    try {
+      const [activities, relationships] = await Promise.all([
+        storage.getActivitiesByProject(req.params.projectId),
+        storage.getRelationshipsByProject(req.params.projectId)
+      ]);
+      res.json(new NetworkValidator(activities, relationships).validate());
+    } catch (error) {
+      console.error("Error validating schedule network:", error);
+      res.status(500).json({ error: "Failed to validate schedule network" });
+    }
+  });
+
   app.put("/api/relationships/:id", async (req, res) => {
     try {
-      const relationship = await storage.updateRelationship(req.params.id, req.body);
+      const existing = await storage.getRelationship(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Relationship not found" });
+      }
+      // Float columns are written by calculation only
+      const updates = insertRelationshipSchema
+        .omit({ projectId: true, isDriving: true, freeFloat: true, totalFloat: true })
+        .partial()
+        .parse(req.body);
+
+      // Check the edited link as if it were new, against every other link in the project
+      const [activities, relationships] = await Promise.all([
+        storage.getActivitiesByProject(existing.projectId),
+        storage.getRelationshipsByProject(existing.projectId)
+      ]);
+      const validation = new NetworkValidator(activities, relationships.filter(r => r.id !== existing.id))
+        .validateNew({ ...existing, ...updates });
+      if (!validation.valid) {
+        return res.status(400).json({ error: validation.issues[0].message, validation });
+      }
+
+      const relationship = await storage.updateRelationship(req.params.id, updates);
       if (!relationship) {
         return res.status(404).json({ error: "Relationship not found" });
       }
       res.json(relationship);
     } catch (error) {
       console.error("Error updating relationship:", error);
-      res.status(500).json({ error: "Failed to update relationship" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid relationship data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update relationship" });
+      }
     }
   });
 
@@ -338,7 +508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/calendars", async (req, res) => {
     try {
-      const calendarData = insertCalendarSchema.parse(req.body);
+      const calendarData = calendarSchema.parse(req.body);
       const calendar = await storage.createCalendar(calendarData);
       res.json(calendar);
     } catch (error) {
@@ -353,14 +523,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/calendars/:id", async (req, res) => {
     try {
-      const calendar = await storage.updateCalendar(req.params.id, req.body);
+      const updates = calendarSchema.partial().parse(req.body);
+      const calendar = await storage.updateCalendar(req.params.id, updates);
       if (!calendar) {
         return res.status(404).json({ error: "Calendar not found" });
       }
       res.json(calendar);
     } catch (error) {
       console.error("Error updating calendar:", error);
-      res.status(500).json({ error: "Failed to update calendar" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid calendar data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update calendar" });
+      }
+    }
+  });
+
+  // Month of working and non-working days for calendar data that may not be saved yet
+  app.post("/api/calendars/preview", async (req, res) => {
+    try {
+      const { month, ...data } = calendarPreviewSchema.parse(req.body);
+      const calendar = new WorkCalendar(data);
+      const [year, monthNumber] = month.split('-').map(Number);
+      const days = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+      res.json({
+        month,
+        hoursPerDay: calendar.hoursPerDay,
+        days: Array.from({ length: days }, (_, i) => calendar.describeDay(new Date(Date.UTC(year, monthNumber - 1, i + 1))))
+      });
+    } catch (error) {
+      console.error("Error previewing calendar:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid calendar data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to preview calendar" });
+      }
+    }
+  });
+
+  app.get("/api/holiday-sets", async (req, res) => {
+    res.json(HOLIDAY_SETS.map(({ id, name, description }) => ({ id, name, description })));
+  });
+
+  app.get("/api/holiday-sets/:setId", async (req, res) => {
+    try {
+      const currentYear = new Date().getUTCFullYear();
+      const fromYear = Number(req.query.from) || currentYear;
+      const toYear = Math.min(Number(req.query.to) || fromYear, fromYear + 50);
+      const holidays = getHolidays(req.params.setId, fromYear, toYear);
+      if (!holidays) {
+        return res.status(404).json({ error: "Holiday set not found" });
+      }
+      res.json(holidays);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      res.status(500).json({ error: "Failed to fetch holidays" });
+    }
+  });
+
+  // Assign a calendar to many activities and resources at once
+  app.post("/api/projects/:projectId/calendars/:id/assign", async (req, res) => {
+    try {
+      const { activityIds, resourceIds } = calendarAssignmentSchema.parse(req.body);
+      const [calendars, globalCalendars, activities, resources] = await Promise.all([
+        storage.getCalendarsByProject(req.params.projectId),
+        storage.getCalendarsByProject(null),
+        storage.getActivitiesByProject(req.params.projectId),
+        storage.getResourcesByProject(req.params.projectId)
+      ]);
+      const calendar = [...calendars, ...globalCalendars].find(c => c.id === req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+
+      // Only ids belonging to this project are updated
+      const activityIdSet = new Set(activityIds);
+      const resourceIdSet = new Set(resourceIds);
+      const targetActivities = activities.filter(a => activityIdSet.has(a.id));
+      const targetResources = resources.filter(r => resourceIdSet.has(r.id));
+
+      await storage.transaction(async (tx) => {
+        await tx.bulkUpdateActivities(targetActivities.map(a => ({ id: a.id, updates: { calendarId: calendar.id } })));
+        for (const resource of targetResources) {
+          await tx.updateResource(resource.id, { calendarId: calendar.id });
+        }
+      });
+
+      await storage.createAuditLog({
+        projectId: req.params.projectId,
+        entityType: 'calendar',
+        entityId: calendar.id,
+        action: 'Update',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `Assigned calendar "${calendar.name}" to ${targetActivities.length} activities and ${targetResources.length} resources`
+      });
+
+      res.json({ activities: targetActivities.length, resources: targetResources.length });
+    } catch (error) {
+      console.error("Error assigning calendar:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid calendar assignment", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to assign calendar" });
+      }
     }
   });
 
@@ -388,6 +653,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/projects/:projectId/resources/histogram", async (req, res) => {
+    try {
+      const interval = (req.query.interval as string) || 'week';
+      if (!['day', 'week', 'month'].includes(interval)) {
+        return res.status(400).json({ error: "Interval must be one of day, week or month" });
+      }
+      
+      const [activities, resources, calendars] = await Promise.all([
+        storage.getActivitiesByProject(req.params.projectId),
+        storage.getResourcesByProject(req.params.projectId),
+        storage.getCalendarsByProject(req.params.projectId)
+      ]);
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      
+      const histogram = new ResourceHistogram(activities, resources, assignments, calendars);
+      res.json(histogram.build(interval as HistogramInterval));
+    } catch (error) {
+      console.error("Error building resource histogram:", error);
+      res.status(500).json({ error: "Failed to build resource histogram" });
+    }
+  });
+
   app.post("/api/projects/:projectId/resources", async (req, res) => {
     try {
       const resourceData = insertResourceSchema.parse({
@@ -557,6 +844,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/projects/:projectId/evm", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      
+      const { baselineId } = req.query as { baselineId?: string };
+      const dataDate = (req.query.dataDate as string) || project.dataDate || new Date().toISOString().split('T')[0];
+      
+      const [activities, wbs, calendars, baselines] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getWbsByProject(project.id),
+        storage.getCalendarsByProject(project.id),
+        storage.getBaselinesByProject(project.id)
+      ]);
+      const baseline = baselineId
+        ? baselines.find(b => b.id === baselineId)
+        : baselines.find(b => b.isActive);
+      if (baselineId && !baseline) {
+        return res.status(404).json({ error: "Baseline not found" });
+      }
+      
+      const calculator = new EVMCalculator(activities, wbs, calendars, dataDate, baseline);
+      res.json(calculator.calculate());
+    } catch (error) {
+      console.error("Error calculating earned value:", error);
+      res.status(500).json({ error: "Failed to calculate earned value" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/health-check", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      
+      const { baselineId } = req.query as { baselineId?: string };
+      const dataDate = (req.query.dataDate as string) || project.dataDate || new Date().toISOString().split('T')[0];
+      
+      const [activities, relationships, resources, calendars, baselines] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getResourcesByProject(project.id),
+        storage.getCalendarsByProject(project.id),
+        storage.getBaselinesByProject(project.id)
+      ]);
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      const baseline = baselineId
+        ? baselines.find(b => b.id === baselineId)
+        : baselines.find(b => b.isActive);
+      if (baselineId && !baseline) {
+        return res.status(404).json({ error: "Baseline not found" });
+      }
+      
+      const healthCheck = new ScheduleHealthCheck(project, activities, relationships, assignments, calendars, dataDate, baseline);
+      res.json(healthCheck.analyze());
+    } catch (error) {
+      console.error("Error running schedule health check:", error);
+      res.status(500).json({ error: "Failed to run schedule health check" });
+    }
+  });
+
   // Activity Comments
   app.get("/api/activities/:activityId/comments", async (req, res) => {
     try {
@@ -645,7 +996,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:projectId/members", async (req, res) => {
     try {
       const members = await storage.getProjectMembers(req.params.projectId);
-      res.json(members);
+      // Feed tokens are only shown when issued
+      res.json(members.map(({ calendarToken, ...member }) => ({ ...member, hasCalendarFeed: !!calendarToken })));
     } catch (error) {
       console.error("Error fetching project members:", error);
       res.status(500).json({ error: "Failed to fetch project members" });
@@ -654,11 +1006,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/projects/:projectId/members", async (req, res) => {
     try {
-      const member = await storage.createProjectMember({
-        ...req.body,
+      // Feed tokens are only issued through the calendar-token route
+      const { calendarToken: _token, ...memberData } = req.body;
+      const { calendarToken, ...member } = await storage.createProjectMember({
+        ...memberData,
         projectId: req.params.projectId
       });
-      res.json(member);
+      res.json({ ...member, hasCalendarFeed: !!calendarToken });
     } catch (error) {
       console.error("Error adding project member:", error);
       res.status(500).json({ error: "Failed to add project member" });
@@ -667,17 +1021,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/members/:memberId", async (req, res) => {
     try {
-      const member = await storage.updateProjectMember(req.params.memberId, req.body);
+      const { calendarToken: _token, ...updates } = req.body;
+      const member = await storage.updateProjectMember(req.params.memberId, updates);
       if (!member) {
         return res.status(404).json({ error: "Member not found" });
       }
-      res.json(member);
+      const { calendarToken, ...rest } = member;
+      res.json({ ...rest, hasCalendarFeed: !!calendarToken });
     } catch (error) {
       console.error("Error updating project member:", error);
       res.status(500).json({ error: "Failed to update project member" });
     }
   });
 
+  // Calendar feed tokens - issuing a new token revokes the previous one
+  app.post("/api/members/:memberId/calendar-token", async (req, res) => {
+    try {
+      const existing = await storage.getProjectMember(req.params.memberId);
+      if (!existing || !existing.isActive) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+
+      const token = randomBytes(24).toString('hex');
+      await storage.updateProjectMember(existing.id, { calendarToken: token });
+      await storage.createAuditLog({
+        projectId: existing.projectId,
+        entityType: 'projectMember',
+        entityId: existing.id,
+        action: 'Update',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `${existing.calendarToken ? 'Regenerated' : 'Issued'} calendar feed for ${existing.userName}`
+      });
+
+      const url = `${req.protocol}://${req.get('host')}/api/projects/${existing.projectId}/calendar.ics?token=${token}`;
+      res.json({ token, url });
+    } catch (error) {
+      console.error("Error issuing calendar token:", error);
+      res.status(500).json({ error: "Failed to issue calendar token" });
+    }
+  });
+
+  app.delete("/api/members/:memberId/calendar-token", async (req, res) => {
+    try {
+      const existing = await storage.getProjectMember(req.params.memberId);
+      if (!existing) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+
+      if (existing.calendarToken) {
+        await storage.updateProjectMember(existing.id, { calendarToken: null });
+        await storage.createAuditLog({
+          projectId: existing.projectId,
+          entityType: 'projectMember',
+          entityId: existing.id,
+          action: 'Update',
+          performedBy: (req as any).user?.claims?.sub || 'System',
+          notes: `Revoked calendar feed for ${existing.userName}`
+        });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking calendar token:", error);
+      res.status(500).json({ error: "Failed to revoke calendar token" });
+    }
+  });
+
+  // Read-only iCalendar feed; calendar apps can't log in, so the member's token authenticates
+  app.get("/api/projects/:projectId/calendar.ics", async (req, res) => {
+    try {
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      const member = token ? await storage.getProjectMemberByCalendarToken(token) : undefined;
+      if (!member || !member.isActive || member.projectId !== req.params.projectId) {
+        return res.status(401).json({ error: "Invalid or revoked calendar token" });
+      }
+
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const days = Number(req.query.days ?? 21);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: "days must be a whole number from 1 to 365" });
+      }
+      // code=Name:Value filters on an activity code assignment
+      let activityCode: { name: string; value: string } | undefined;
+      if (typeof req.query.code === 'string' && req.query.code) {
+        const separator = req.query.code.indexOf(':');
+        if (separator < 1) {
+          return res.status(400).json({ error: "code must be in the form Name:Value" });
+        }
+        activityCode = { name: req.query.code.slice(0, separator), value: req.query.code.slice(separator + 1) };
+      }
+
+      const activities = await storage.getActivitiesByProject(project.id);
+      const { content } = new ICSExporter(
+        { project, activities, member, dataDate: (project.dataDate ?? new Date().toISOString()).split('T')[0] },
+        {
+          lookaheadDays: days,
+          responsibility: typeof req.query.responsibility === 'string' ? req.query.responsibility : undefined,
+          trade: typeof req.query.trade === 'string' ? req.query.trade : undefined,
+          activityCode
+        }
+      ).export();
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="${project.name.replace(/[^A-Za-z0-9_-]+/g, '_')}.ics"`);
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(content);
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      res.status(500).json({ error: "Failed to generate calendar feed" });
+    }
+  });
+
   // Schedule Versions
   app.get("/api/projects/:projectId/versions", async (req, res) => {
     try {
@@ -691,20 +1148,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/projects/:projectId/versions", async (req, res) => {
     try {
+      const projectId = req.params.projectId;
+      const { versionName, description } = insertScheduleVersionSchema
+        .pick({ versionName: true, description: true })
+        .parse(req.body);
+      const [latest] = await storage.getScheduleVersions(projectId);
       const version = await storage.createScheduleVersion({
-        ...req.body,
-        projectId: req.params.projectId
+        versionNumber: (latest?.versionNumber ?? 0) + 1,
+        createdBy: (req as any).user?.claims?.sub || 'System',
+        versionName,
+        description,
+        // Always captured server-side so compare and restore can rely on its shape
+        snapshotData: await storage.getScheduleSnapshot(projectId),
+        projectId
       });
       res.json(version);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid version", details: error.errors });
+      }
       console.error("Error creating schedule version:", error);
       res.status(500).json({ error: "Failed to create schedule version" });
     }
   });
 
+  app.get("/api/projects/:projectId/versions/compare", async (req, res) => {
+    try {
+      const { from, to } = req.query as { from?: string; to?: string };
+      if (!from) {
+        return res.status(400).json({ error: "Query parameter 'from' is required" });
+      }
+      
+      const versions = await storage.getScheduleVersions(req.params.projectId);
+      const fromVersion = versions.find(v => v.id === from);
+      if (!fromVersion) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      
+      // Without 'to' (or with to=current) the live schedule is compared
+      let toSnapshot: ScheduleSnapshot;
+      let toVersion: ScheduleVersion | null = null;
+      if (!to || to === 'current') {
+        toSnapshot = await storage.getScheduleSnapshot(req.params.projectId);
+      } else {
+        toVersion = versions.find(v => v.id === to) ?? null;
+        if (!toVersion) {
+          return res.status(404).json({ error: "Version not found" });
+        }
+        toSnapshot = toVersion.snapshotData as ScheduleSnapshot;
+      }
+      
+      const comparator = new ScheduleComparator(fromVersion.snapshotData as ScheduleSnapshot, toSnapshot);
+      res.json({
+        from: { id: fromVersion.id, versionNumber: fromVersion.versionNumber, versionName: fromVersion.versionName },
+        to: toVersion
+          ? { id: toVersion.id, versionNumber: toVersion.versionNumber, versionName: toVersion.versionName }
+          : { id: 'current', versionNumber: null, versionName: 'Current schedule' },
+        ...comparator.compare()
+      });
+    } catch (error) {
+      console.error("Error comparing schedule versions:", error);
+      res.status(500).json({ error: "Failed to compare schedule versions" });
+    }
+  });
+
   app.post("/api/versions/:versionId/restore", async (req, res) => {
     try {
-      const success = await storage.restoreScheduleVersion(req.params.versionId);
+      const success = await storage.restoreScheduleVersion(
+        req.params.versionId,
+        (req as any).user?.claims?.sub || 'System'
+      );
       if (!success) {
         return res.status(404).json({ error: "Version not found" });
       }
@@ -715,6 +1228,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Schedule Risk Analysis
+  app.get("/api/projects/:projectId/risk-analyses", async (req, res) => {
+    try {
+      const analyses = await storage.getRiskAnalysesByProject(req.params.projectId);
+      res.json(analyses);
+    } catch (error) {
+      console.error("Error fetching risk analyses:", error);
+      res.status(500).json({ error: "Failed to fetch risk analyses" });
+    }
+  });
+
+  app.get("/api/risk-analyses/:id", async (req, res) => {
+    try {
+      const analysis = await storage.getRiskAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ error: "Risk analysis not found" });
+      }
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error fetching risk analysis:", error);
+      res.status(500).json({ error: "Failed to fetch risk analysis" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/risk-analysis", async (req, res) => {
+    try {
+      const options = riskAnalysisOptionsSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      
+      const [activities, relationships, calendars] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getCalendarsByProject(project.id)
+      ]);
+      
+      // Every iteration is a full CPM pass, so a network with loops fails before the first
+      const validation = new NetworkValidator(activities, relationships).validate();
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Schedule network has errors", validation });
+      }
+      
+      // A fixed data date and seed make the run reproducible
+      const dataDate = options.dataDate || project.dataDate || new Date().toISOString().split('T')[0];
+      const seed = options.seed ?? Math.floor(Math.random() * 2147483647);
+      const analyzer = new RiskAnalyzer(activities, relationships, calendars, {
+        iterations: options.iterations,
+        seed,
+        distribution: options.distribution,
+        dataDate: new Date(dataDate)
+      });
+      const results = await analyzer.run();
+      
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const analysis = await storage.createRiskAnalysis({
+        projectId: project.id,
+        name: options.name ?? null,
+        iterations: options.iterations,
+        seed,
+        distribution: options.distribution,
+        dataDate,
+        results,
+        createdBy: performedBy
+      });
+      
+      if (options.updateCriticality) {
+        await storage.bulkUpdateActivities(results.criticality.map(c => ({
+          id: c.id,
+          updates: { criticalityIndex: c.criticalityIndex }
+        })));
+      }
+      
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'riskAnalysis',
+        entityId: analysis.id,
+        action: 'Calculate',
+        performedBy,
+        notes: `Risk analysis (${options.iterations} iterations, seed ${seed}): P80 finish ${results.p80Finish}`
+      });
+      
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error running risk analysis:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid risk analysis options", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to run risk analysis" });
+      }
+    }
+  });
+
   // TIA Scenarios
   app.get("/api/projects/:projectId/tia-scenarios", async (req, res) => {
     try {
@@ -783,75 +1390,1125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Schedule Updates
-  app.get("/api/projects/:projectId/schedule-updates", async (req, res) => {
+  // TIA Fragnets
+  app.get("/api/tia-scenarios/:id/fragnets", async (req, res) => {
     try {
-      const updates = await storage.getScheduleUpdatesByProject(req.params.projectId);
-      res.json(updates);
+      const fragnets = await storage.getFragnetsByScenario(req.params.id);
+      res.json(fragnets);
     } catch (error) {
-      console.error("Error fetching schedule updates:", error);
-      res.status(500).json({ error: "Failed to fetch schedule updates" });
+      console.error("Error fetching TIA fragnets:", error);
+      res.status(500).json({ error: "Failed to fetch TIA fragnets" });
     }
   });
 
-  app.post("/api/projects/:projectId/schedule-updates", async (req, res) => {
+  app.post("/api/tia-scenarios/:id/fragnets", async (req, res) => {
     try {
-      const updateData = insertScheduleUpdateSchema.parse({
-        ...req.body,
-        projectId: req.params.projectId
+      const scenario = await storage.getTiaScenario(req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ error: "TIA scenario not found" });
+      }
+      
+      // Validate the fragnet network before it is stored as jsonb
+      const content = fragnetContentSchema.parse(req.body);
+      const fragnetIds = new Set(content.activities.map(a => a.activityId));
+      const unknownIds = [
+        ...content.relationships.flatMap(r => [r.predecessorId, r.successorId]),
+        ...content.linkedActivities.map(l => l.fragnetActivityId)
+      ].filter(activityId => !fragnetIds.has(activityId));
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ 
+          error: "Fragnet references unknown activities", 
+          details: Array.from(new Set(unknownIds)) 
+        });
+      }
+      
+      const fragnetData = insertTiaFragnetSchema.parse({
+        scenarioId: scenario.id,
+        name: req.body.name,
+        description: req.body.description,
+        insertionPoint: req.body.insertionPoint,
+        ...content
       });
-      const update = await storage.createScheduleUpdate(updateData);
-      res.json(update);
+      const fragnet = await storage.createFragnet(fragnetData);
+      res.json(fragnet);
     } catch (error) {
-      console.error("Error creating schedule update:", error);
+      console.error("Error creating TIA fragnet:", error);
       if (error instanceof z.ZodError) {
-        res.status(400).json({ error: "Invalid schedule update data", details: error.errors });
+        res.status(400).json({ error: "Invalid fragnet data", details: error.errors });
       } else {
-        res.status(500).json({ error: "Failed to create schedule update" });
+        res.status(500).json({ error: "Failed to create TIA fragnet" });
       }
     }
   });
 
-  // CPM Calculation Engine - Advanced Scheduling Features
-  app.post("/api/projects/:projectId/calculate-schedule", async (req, res) => {
+  app.delete("/api/tia-fragnets/:id", async (req, res) => {
     try {
-      const { retainedLogic = true, dataDate } = req.body;
-      
-      // Get all project data needed for CPM calculation
-      const activities = await storage.getActivitiesByProject(req.params.projectId);
-      const relationships = await storage.getRelationshipsByProject(req.params.projectId);
-      const calendars = await storage.getCalendarsByProject(req.params.projectId);
-      
-      // Import CPM calculator
-      const { CPMCalculator } = require("./cpmCalculator");
+      const success = await storage.deleteFragnet(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "TIA fragnet not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting TIA fragnet:", error);
+      res.status(500).json({ error: "Failed to delete TIA fragnet" });
+    }
+  });
+
+  // TIA Delays
+  app.get("/api/tia-scenarios/:id/delays", async (req, res) => {
+    try {
+      const delays = await storage.getDelaysByScenario(req.params.id);
+      res.json(delays);
+    } catch (error) {
+      console.error("Error fetching TIA delays:", error);
+      res.status(500).json({ error: "Failed to fetch TIA delays" });
+    }
+  });
+
+  app.post("/api/tia-scenarios/:id/delays", async (req, res) => {
+    try {
+      const delayData = insertTiaDelaySchema.parse({
+        ...req.body,
+        scenarioId: req.params.id
+      });
+      const delay = await storage.createDelay(delayData);
+      res.json(delay);
+    } catch (error) {
+      console.error("Error creating TIA delay:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid delay data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create TIA delay" });
+      }
+    }
+  });
+
+  app.delete("/api/tia-delays/:id", async (req, res) => {
+    try {
+      const success = await storage.deleteDelay(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "TIA delay not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting TIA delay:", error);
+      res.status(500).json({ error: "Failed to delete TIA delay" });
+    }
+  });
+
+  // TIA Analysis
+  app.get("/api/tia-scenarios/:id/result", async (req, res) => {
+    try {
+      const result = await storage.getTiaResult(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "TIA scenario has not been analyzed" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching TIA result:", error);
+      res.status(500).json({ error: "Failed to fetch TIA result" });
+    }
+  });
+
+  app.post("/api/tia-scenarios/:id/analyze", async (req, res) => {
+    try {
+      const scenario = await storage.getTiaScenario(req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ error: "TIA scenario not found" });
+      }
+      
+      const [activities, relationships, calendars, fragnets, delays] = await Promise.all([
+        storage.getActivitiesByProject(scenario.projectId),
+        storage.getRelationshipsByProject(scenario.projectId),
+        storage.getCalendarsByProject(scenario.projectId),
+        storage.getFragnetsByScenario(scenario.id),
+        storage.getDelaysByScenario(scenario.id)
+      ]);
+      
+      if (fragnets.length === 0) {
+        return res.status(400).json({ error: "TIA scenario has no fragnets to analyze" });
+      }
+      
+      const analyzer = new TIAAnalyzer(activities, relationships, calendars, scenario, fragnets, delays);
+      const result = await storage.saveTiaResult(analyzer.analyze());
+      
+      await storage.createAuditLog({
+        projectId: scenario.projectId,
+        entityType: 'tiaScenario',
+        entityId: scenario.id,
+        action: 'Calculate',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `Time impact analysis "${scenario.name}": ${result.netImpactDays} day(s) net impact`
+      });
       
-      // Create calculator instance with project data
+      res.json(result);
+    } catch (error) {
+      console.error("Error analyzing TIA scenario:", error);
+      res.status(500).json({ error: "Failed to analyze TIA scenario" });
+    }
+  });
+
+  // Schedule Updates
+  app.get("/api/projects/:projectId/schedule-updates", async (req, res) => {
+    try {
+      const updates = await storage.getScheduleUpdatesByProject(req.params.projectId);
+      res.json(updates);
+    } catch (error) {
+      console.error("Error fetching schedule updates:", error);
+      res.status(500).json({ error: "Failed to fetch schedule updates" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/schedule-updates", async (req, res) => {
+    try {
+      const updateData = insertScheduleUpdateSchema.parse({
+        ...req.body,
+        projectId: req.params.projectId
+      });
+      const update = await storage.createScheduleUpdate(updateData);
+      res.json(update);
+    } catch (error) {
+      console.error("Error creating schedule update:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid schedule update data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create schedule update" });
+      }
+    }
+  });
+
+  // Progress statusing: suggested entries for a new data date
+  app.get("/api/projects/:projectId/progress-update/suggestions", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      const dataDate = typeof req.query.dataDate === 'string' ? req.query.dataDate : '';
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dataDate)) {
+        return res.status(400).json({ error: "dataDate must be YYYY-MM-DD" });
+      }
+
+      const [{ activities, calendars }, updates] = await Promise.all([
+        loadScheduleNetwork(project),
+        storage.getScheduleUpdatesByProject(project.id)
+      ]);
+      const previousUpdate = updates.reduce<typeof updates[number] | null>(
+        (latest, u) => !latest || u.updateNumber > latest.updateNumber ? u : latest, null
+      );
+
+      const rows = new ProgressUpdater(project, activities, [], calendars, previousUpdate)
+        .suggest(dataDate);
+      res.json({
+        previousUpdate: previousUpdate && { updateNumber: previousUpdate.updateNumber, dataDate: previousUpdate.dataDate },
+        previousDataDate: previousUpdate?.dataDate ?? project.dataDate,
+        rows
+      });
+    } catch (error) {
+      console.error("Error suggesting progress:", error);
+      res.status(500).json({ error: "Failed to suggest progress" });
+    }
+  });
+
+  // Progress statusing: apply progress, recalculate at the new data date and record the update
+  app.post("/api/projects/:projectId/progress-updates", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      const update = progressUpdateSchema.parse(req.body);
+
+      const [{ activities, relationships, calendars }, updates] = await Promise.all([
+        loadScheduleNetwork(project),
+        storage.getScheduleUpdatesByProject(project.id)
+      ]);
+      const previousUpdate = updates.reduce<typeof updates[number] | null>(
+        (latest, u) => !latest || u.updateNumber > latest.updateNumber ? u : latest, null
+      );
+
+      const validation = new NetworkValidator(activities, relationships).validate();
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Schedule network has errors", validation });
+      }
+
+      const updater = new ProgressUpdater(
+        project, activities, relationships, calendars, previousUpdate
+      );
+      const errors = updater.validate(update);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Progress breaks the statusing rules", details: errors });
+      }
+
+      const { activityUpdates, progressData, changesFromPrevious } = updater.apply(update);
+
+      // Progress, the new data date and the numbered update are saved together
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const scheduleUpdate = await storage.transaction(async (tx) => {
+        await tx.bulkUpdateActivities(activityUpdates);
+        await tx.updateProject(project.id, { dataDate: update.dataDate });
+        return await tx.createScheduleUpdate({
+          projectId: project.id,
+          updateNumber: (previousUpdate?.updateNumber ?? 0) + 1,
+          dataDate: update.dataDate,
+          narrative: update.narrative,
+          progressData,
+          changesFromPrevious,
+          createdBy: performedBy
+        });
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Update',
+        performedBy,
+        notes: `Update ${scheduleUpdate.updateNumber}: statused ${progressData.statused.length} activities to data date ${update.dataDate} (${update.progressMethod})`
+      });
+
+      res.json(scheduleUpdate);
+    } catch (error) {
+      console.error("Error applying progress update:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid progress update", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to apply progress update" });
+      }
+    }
+  });
+
+  // Import/Export
+  app.get("/api/projects/:projectId/import-export-history", async (req, res) => {
+    try {
+      const history = await storage.getImportExportHistory(req.params.projectId);
+      res.json(history.filter(record => record.type !== 'MappingProfile'));
+    } catch (error) {
+      console.error("Error fetching import/export history:", error);
+      res.status(500).json({ error: "Failed to fetch import/export history" });
+    }
+  });
+
+  // Identifies the format of an uploaded schedule file and lists the projects in
+  // multi-project formats, so the client can route .xml files to the right importer
+  app.post("/api/projects/:projectId/import/detect", async (req, res) => {
+    try {
+      const { fileContent, filename } = scheduleImportSchema.parse(req.body);
+      const format = sniffScheduleFormat(fileContent, filename);
+      switch (format) {
+        case 'XER':
+          return res.json({ format, projects: new XERImporter(fileContent).listProjects() });
+        case 'PMXML':
+          return res.json({ format, projects: new PMXMLImporter(fileContent).listProjects() });
+        default:
+          return res.json({ format, projects: [] });
+      }
+    } catch (error) {
+      console.error("Error detecting schedule format:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(400).json({ error: "Could not read schedule file" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/xer/preview", async (req, res) => {
+    try {
+      const { fileContent } = scheduleImportSchema.parse(req.body);
+      const projects = new XERImporter(fileContent).listProjects();
+      if (projects.length === 0) {
+        return res.status(400).json({ error: "No projects found in XER file" });
+      }
+      res.json({ projects });
+    } catch (error) {
+      console.error("Error reading XER file:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to read XER file" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/xer", async (req, res) => {
+    try {
+      const { fileContent, filename, sourceProjectId } = scheduleImportSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const importer = new XERImporter(fileContent);
+      const projects = importer.listProjects();
+      if (projects.length === 0) {
+        return res.status(400).json({ error: "No projects found in XER file" });
+      }
+      if (sourceProjectId && !projects.some(p => p.projId === sourceProjectId)) {
+        return res.status(400).json({ error: "Selected project not found in XER file", projects });
+      }
+      // Multi-project files need an explicit choice
+      if (!sourceProjectId && projects.length > 1) {
+        return res.status(400).json({ error: "XER file contains multiple projects; select one to import", projects });
+      }
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const report = await storage.transaction(tx => importer.importInto(project.id, tx, sourceProjectId))
+        .catch(async (error) => {
+          await recordFailedImport(project.id, 'XER', filename, error, performedBy);
+          throw error;
+        });
+
+      const record = await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Import',
+        format: 'XER',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Import',
+        performedBy,
+        notes: `Imported ${report.imported.activities} activities and ${report.imported.relationships} relationships from ${filename} (${report.projectName})`
+      });
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error importing XER file:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to import XER file" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/mspdi", async (req, res) => {
+    try {
+      const { fileContent, filename } = scheduleImportSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      let importer: MSPDIImporter;
+      try {
+        importer = new MSPDIImporter(fileContent);
+      } catch (parseError) {
+        return res.status(400).json({ error: "File is not a valid Microsoft Project XML (MSPDI) file" });
+      }
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const report = await storage.transaction(tx => importer.importInto(project.id, tx))
+        .catch(async (error) => {
+          await recordFailedImport(project.id, 'MSPDI', filename, error, performedBy);
+          throw error;
+        });
+
+      const record = await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Import',
+        format: 'MSPDI',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Import',
+        performedBy,
+        notes: `Imported ${report.imported.activities} activities and ${report.imported.relationships} relationships from ${filename} (${report.projectName})`
+      });
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error importing MSPDI file:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to import MSPDI file" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/pmxml", async (req, res) => {
+    try {
+      const { fileContent, filename, sourceProjectId } = scheduleImportSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      let importer: PMXMLImporter;
+      try {
+        importer = new PMXMLImporter(fileContent);
+      } catch (parseError) {
+        return res.status(400).json({ error: "File is not a valid Primavera P6 XML (PMXML) file" });
+      }
+
+      const projects = importer.listProjects();
+      if (projects.length === 0) {
+        return res.status(400).json({ error: "No projects found in P6 XML file" });
+      }
+      if (sourceProjectId && !projects.some(p => p.projId === sourceProjectId)) {
+        return res.status(400).json({ error: "Selected project not found in P6 XML file", projects });
+      }
+      // Multi-project files need an explicit choice
+      if (!sourceProjectId && projects.length > 1) {
+        return res.status(400).json({ error: "P6 XML file contains multiple projects; select one to import", projects });
+      }
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const report = await storage.transaction(tx => importer.importInto(project.id, tx, sourceProjectId))
+        .catch(async (error) => {
+          await recordFailedImport(project.id, 'PMXML', filename, error, performedBy);
+          throw error;
+        });
+
+      const record = await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Import',
+        format: 'PMXML',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Import',
+        performedBy,
+        notes: `Imported ${report.imported.activities} activities and ${report.imported.relationships} relationships from ${filename} (${report.projectName})`
+      });
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error importing PMXML file:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to import PMXML file" });
+      }
+    }
+  });
+
+  // Spreadsheet (CSV/XLSX) import with column mapping
+  app.post("/api/projects/:projectId/import/tabular/preview", async (req, res) => {
+    try {
+      const { fileContent, filename, sheet, mapping } = tabularImportSchema.parse(req.body);
+
+      let sheets;
+      try {
+        sheets = readSpreadsheet(fileContent, filename);
+      } catch (parseError) {
+        return res.status(400).json({ error: "Could not read spreadsheet file" });
+      }
+      const sheetName = sheet ?? Array.from(sheets.keys())[0];
+      const table = sheets.get(sheetName);
+      if (!table) {
+        return res.status(400).json({ error: "Sheet not found in file", sheets: Array.from(sheets.keys()) });
+      }
+
+      // Without a mapping the suggested one is validated, if it covers the required columns
+      const suggestedMapping = suggestMapping(table.headers);
+      const suggested = tabularMappingSchema.safeParse(suggestedMapping);
+      const activeMapping = mapping ?? (suggested.success ? suggested.data : null);
+
+      const importer = activeMapping ? new TabularImporter(table, activeMapping) : null;
+      const mappingErrors = importer ? importer.validateMapping() : [];
+      const activities = await storage.getActivitiesByProject(req.params.projectId);
+      const rows = importer && mappingErrors.length === 0 ? importer.validate(activities.map(a => a.activityId)) : [];
+
+      res.json({
+        sheets: Array.from(sheets.keys()),
+        sheet: sheetName,
+        headers: table.headers,
+        suggestedMapping,
+        mapping: activeMapping,
+        mappingErrors,
+        rowCount: table.rows.length,
+        errorCount: rows.filter(row => row.errors.length > 0).length,
+        rows: rows.slice(0, 500)
+      });
+    } catch (error) {
+      console.error("Error previewing spreadsheet import:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to read spreadsheet file" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/tabular", async (req, res) => {
+    try {
+      const { fileContent, filename, sheet, mapping } = tabularImportSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (!mapping) {
+        return res.status(400).json({ error: "Column mapping is required" });
+      }
+
+      let sheets;
+      try {
+        sheets = readSpreadsheet(fileContent, filename);
+      } catch (parseError) {
+        return res.status(400).json({ error: "Could not read spreadsheet file" });
+      }
+      const table = sheets.get(sheet ?? Array.from(sheets.keys())[0]);
+      if (!table) {
+        return res.status(400).json({ error: "Sheet not found in file", sheets: Array.from(sheets.keys()) });
+      }
+
+      const importer = new TabularImporter(table, mapping);
+      const mappingErrors = importer.validateMapping();
+      if (mappingErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid column mapping", details: mappingErrors });
+      }
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const format = filename.toLowerCase().endsWith('.xlsx') ? 'XLSX' : 'CSV';
+      const report = await storage.transaction(tx => importer.importInto(project.id, tx, filename))
+        .catch(async (error) => {
+          await recordFailedImport(project.id, format, filename, error, performedBy);
+          throw error;
+        });
+
+      const record = await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Import',
+        format,
+        filename,
+        mappingRules: mapping,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Import',
+        performedBy,
+        notes: `Imported ${report.imported.activities} activities and ${report.imported.relationships} relationships from ${filename}`
+      });
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error importing spreadsheet:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid import data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to import spreadsheet" });
+      }
+    }
+  });
+
+  // Saved column mappings live in importExportHistory rows of type MappingProfile
+  app.get("/api/projects/:projectId/import/mapping-profiles", async (req, res) => {
+    try {
+      const history = await storage.getImportExportHistory(req.params.projectId);
+      res.json(history
+        .filter(record => record.type === 'MappingProfile')
+        .map(record => ({ id: record.id, name: record.filename, mapping: record.mappingRules, createdAt: record.createdAt })));
+    } catch (error) {
+      console.error("Error fetching mapping profiles:", error);
+      res.status(500).json({ error: "Failed to fetch mapping profiles" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/import/mapping-profiles", async (req, res) => {
+    try {
+      const { name, mapping } = mappingProfileSchema.parse(req.body);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      // Saving under an existing name replaces that profile
+      const history = await storage.getImportExportHistory(project.id);
+      for (const record of history.filter(r => r.type === 'MappingProfile' && r.filename === name)) {
+        await storage.deleteImportExportRecord(record.id);
+      }
+
+      const record = await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'MappingProfile',
+        format: 'Spreadsheet',
+        filename: name,
+        mappingRules: mapping,
+        status: 'Saved',
+        createdBy: (req as any).user?.claims?.sub || 'System'
+      });
+      res.json({ id: record.id, name: record.filename, mapping: record.mappingRules, createdAt: record.createdAt });
+    } catch (error) {
+      console.error("Error saving mapping profile:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid mapping profile data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to save mapping profile" });
+      }
+    }
+  });
+
+  app.delete("/api/projects/:projectId/import/mapping-profiles/:id", async (req, res) => {
+    try {
+      const history = await storage.getImportExportHistory(req.params.projectId);
+      if (!history.some(r => r.id === req.params.id && r.type === 'MappingProfile')) {
+        return res.status(404).json({ error: "Mapping profile not found" });
+      }
+      await storage.deleteImportExportRecord(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting mapping profile:", error);
+      res.status(500).json({ error: "Failed to delete mapping profile" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export/xer", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const [activities, relationships, wbs, projectCalendars, globalCalendars, resources, activityCodes] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getWbsByProject(project.id),
+        storage.getCalendarsByProject(project.id),
+        storage.getCalendarsByProject(null),
+        storage.getResourcesByProject(project.id),
+        storage.getActivityCodesByProject(project.id)
+      ]);
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      const calendars = Array.from(new Map([...projectCalendars, ...globalCalendars].map(c => [c.id, c])).values());
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const { content, report } = new XERExporter({
+        project, activities, relationships, wbs, calendars, resources, assignments, activityCodes,
+        exportedBy: performedBy
+      }).export();
+
+      const filename = `${project.name.replace(/[^A-Za-z0-9_-]+/g, '_')}.xer`;
+      await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Export',
+        format: 'XER',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Export',
+        performedBy,
+        notes: `Exported ${report.activities} activities and ${report.relationships} relationships to ${filename}`
+      });
+
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting XER file:", error);
+      res.status(500).json({ error: "Failed to export XER file" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export/mspdi", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const [activities, relationships, wbs, projectCalendars, globalCalendars, resources] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getWbsByProject(project.id),
+        storage.getCalendarsByProject(project.id),
+        storage.getCalendarsByProject(null),
+        storage.getResourcesByProject(project.id)
+      ]);
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      const calendars = Array.from(new Map([...projectCalendars, ...globalCalendars].map(c => [c.id, c])).values());
+
+      const { content, report } = new MSPDIExporter({
+        project, activities, relationships, wbs, calendars, resources, assignments
+      }).export();
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const filename = `${project.name.replace(/[^A-Za-z0-9_-]+/g, '_')}.xml`;
+      await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Export',
+        format: 'MSPDI',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Export',
+        performedBy,
+        notes: `Exported ${report.activities} activities and ${report.relationships} relationships to ${filename}`
+      });
+
+      res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting MSPDI file:", error);
+      res.status(500).json({ error: "Failed to export MSPDI file" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export/pmxml", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const [activities, relationships, wbs, projectCalendars, globalCalendars, resources, activityCodes] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getWbsByProject(project.id),
+        storage.getCalendarsByProject(project.id),
+        storage.getCalendarsByProject(null),
+        storage.getResourcesByProject(project.id),
+        storage.getActivityCodesByProject(project.id)
+      ]);
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      const calendars = Array.from(new Map([...projectCalendars, ...globalCalendars].map(c => [c.id, c])).values());
+
+      const { content, report } = new PMXMLExporter({
+        project, activities, relationships, wbs, calendars, resources, assignments, activityCodes
+      }).export();
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const filename = `${project.name.replace(/[^A-Za-z0-9_-]+/g, '_')}_P6.xml`;
+      await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Export',
+        format: 'PMXML',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Export',
+        performedBy,
+        notes: `Exported ${report.activities} activities and ${report.relationships} relationships to ${filename}`
+      });
+
+      res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting PMXML file:", error);
+      res.status(500).json({ error: "Failed to export PMXML file" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export/pdf", async (req, res) => {
+    try {
+      const options = ganttPdfOptionsSchema.parse(req.query);
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const [activities, relationships, wbs] = await Promise.all([
+        storage.getActivitiesByProject(project.id),
+        storage.getRelationshipsByProject(project.id),
+        storage.getWbsByProject(project.id)
+      ]);
+
+      const { content, report } = new GanttPDFRenderer({ project, activities, relationships, wbs }, options).render();
+
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const filename = `${project.name.replace(/[^A-Za-z0-9_-]+/g, '_')}.pdf`;
+      await storage.createImportExportRecord({
+        projectId: project.id,
+        type: 'Export',
+        format: 'PDF',
+        filename,
+        conversionReport: report,
+        status: report.warnings.length > 0 ? 'CompletedWithWarnings' : 'Completed',
+        createdBy: performedBy
+      });
+
+      await storage.createAuditLog({
+        projectId: project.id,
+        entityType: 'project',
+        entityId: project.id,
+        action: 'Export',
+        performedBy,
+        notes: `Exported ${report.activities} activities on ${report.pages} ${options.pageSize} pages to ${filename}`
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting PDF report:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid export options", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to export PDF report" });
+      }
+    }
+  });
+
+  // Constraints and deadlines
+  app.get("/api/projects/:projectId/constraint-violations", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      const { activities, relationships, calendars, dataDate } = await loadScheduleNetwork(project);
+
+      // Loops leave dates undefined, so there is nothing to check until they are fixed
+      const validation = new NetworkValidator(activities, relationships).validate();
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Schedule network has errors", validation });
+      }
+
+      const calculator = new CPMCalculator(activities, relationships, calendars, dataDate);
+      res.json(calculator.calculate().constraintViolations);
+    } catch (error) {
+      console.error("Error checking constraint violations:", error);
+      res.status(500).json({ error: "Failed to check constraint violations" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/constraints/bulk", async (req, res) => {
+    try {
+      const { activityIds, constraintType, constraintDate, deadline } = constraintBulkSchema.parse(req.body);
+
+      const projectActivityIds = new Set((await storage.getActivitiesByProject(req.params.projectId)).map(a => a.id));
+      const ids = activityIds.filter(id => projectActivityIds.has(id));
+
+      const updates: Partial<Activity> = {};
+      if (constraintType !== undefined) {
+        updates.constraintType = constraintType;
+        updates.constraintDate = constraintType ? constraintDate ?? null : null;
+      }
+      if (deadline !== undefined) updates.deadline = deadline;
+      await storage.bulkUpdateActivities(ids.map(id => ({ id, updates })));
+
+      const changes = [
+        constraintType !== undefined && (constraintType ? `set ${constraintType} ${constraintDate}` : 'cleared constraints'),
+        deadline !== undefined && (deadline ? `set deadline ${deadline}` : 'cleared deadlines')
+      ].filter(Boolean).join(' and ');
+      await storage.createAuditLog({
+        projectId: req.params.projectId,
+        entityType: 'project',
+        entityId: req.params.projectId,
+        action: 'Update',
+        performedBy: (req as any).user?.claims?.sub || 'System',
+        notes: `Bulk ${changes || 'constraint update'} on ${ids.length} activities`
+      });
+
+      res.json({ activities: ids.length });
+    } catch (error) {
+      console.error("Error updating constraints:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid constraint update", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update constraints" });
+      }
+    }
+  });
+
+  // CPM Calculation Engine - Advanced Scheduling Features
+  // Longest path and multiple float paths to a target activity (database id or activity ID)
+  app.get("/api/projects/:projectId/paths", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      const count = req.query.count ? Number(req.query.count) : 10;
+      if (!Number.isInteger(count) || count < 1 || count > 50) {
+        return res.status(400).json({ error: "count must be a whole number from 1 to 50" });
+      }
+      const { activities, relationships, calendars, dataDate } = await loadScheduleNetwork(project);
+
+      const validation = new NetworkValidator(activities, relationships).validate();
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Schedule network has errors", validation });
+      }
+
+      const calculator = new CPMCalculator(activities, relationships, calendars, dataDate);
+      const result = calculator.calculate();
+      const longestPath = calculator.getLongestPath();
+
+      // Without a target, paths lead to the activity that finishes the project
+      const targetParam = req.query.target as string | undefined;
+      const target = targetParam
+        ? result.activities.find(a => a.id === targetParam || a.activityId === targetParam)
+        : longestPath.find(a => a.calculatedEarlyFinish?.getTime() === result.projectFinish?.getTime());
+      if (!target) {
+        return res.status(404).json({ error: "Target activity not found" });
+      }
+
+      const analysis: PathAnalysis = {
+        target: {
+          id: target.id,
+          activityId: target.activityId,
+          name: target.name,
+          earlyFinish: target.calculatedEarlyFinish?.toISOString().split('T')[0] ?? null
+        },
+        longestPath: longestPath.map(a => a.id),
+        paths: calculator.getFloatPaths(target.id, count)
+      };
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error analyzing float paths:", error);
+      res.status(500).json({ error: "Failed to analyze float paths" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/calculate-schedule", async (req, res) => {
+    try {
+      const projectId = req.params.projectId;
+      const {
+        retainedLogic, progressMethod, dataDate, level, levelingPriority, levelWithinFloat, lagCalendar,
+        createVersion, versionName
+      } = calculateScheduleSchema.parse(req.body);
+      const performedBy = (req as any).user?.claims?.sub || 'System';
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      
+      // Get all project data needed for CPM calculation
+      const network = await loadScheduleNetwork(project, dataDate);
+      const { activities, relationships, calendars } = network;
+      const resources = level ? await storage.getResourcesByProject(projectId) : [];
+      const assignments = (await Promise.all(resources.map(r => storage.getAssignmentsByResource(r.id)))).flat();
+      
+      // The passes cannot order a network with loops, so stop before calculating
+      const validation = new NetworkValidator(activities, relationships).validate();
+      if (!validation.valid) {
+        return res.status(400).json({ error: "Schedule network has errors", validation });
+      }
+      
+      const method = progressMethod ?? (retainedLogic ? 'RetainedLogic' : 'ProgressOverride');
       const calculator = new CPMCalculator(
         activities,
         relationships,
         calendars,
-        dataDate ? new Date(dataDate) : undefined,
-        retainedLogic
+        network.dataDate,
+        method,
+        lagCalendar
       );
+      calculator.calculate();
+      
+      // Optional resource leveling pass on top of the CPM dates
+      const leveling = level
+        ? calculator.level(resources, assignments, { priorityField: levelingPriority, levelWithinFloat })
+        : null;
+      
+      // Leveling moves the calculator's dates, so the result is read after it
+      // Dates and relationship floats come from the same pass, so they are saved together
+      const results = calculator.getResult();
+      await storage.transaction(async (tx) => {
+        await tx.bulkUpdateActivities(calculator.getActivityUpdates());
+        await tx.bulkUpdateRelationships(results.relationships.map(({ id, isDriving, freeFloat, totalFloat }) => ({
+          id,
+          updates: { isDriving, freeFloat, totalFloat }
+        })));
+      });
+      
+      const projectFinish = results.projectFinish?.toISOString().split('T')[0] ?? null;
+      await storage.createAuditLog({
+        projectId,
+        entityType: 'project',
+        entityId: projectId,
+        action: 'Calculate',
+        performedBy,
+        notes: `Calculated ${results.metrics.activityCount} activities (${method}${leveling ? ', leveled' : ''}): ` +
+          `finish ${projectFinish ?? 'n/a'}, ${results.metrics.criticalCount} critical, ` +
+          `${results.metrics.constraintViolationCount} constraint violation(s)`
+      });
       
-      // Run comprehensive CPM calculation with advanced features
-      const results = calculator.calculate();
+      let version = null;
+      if (createVersion) {
+        const [latest] = await storage.getScheduleVersions(projectId);
+        version = await storage.createScheduleVersion({
+          projectId,
+          versionNumber: (latest?.versionNumber ?? 0) + 1,
+          versionName: versionName || `Calculated ${new Date().toISOString().split('T')[0]}`,
+          snapshotData: await storage.getScheduleSnapshot(projectId),
+          createdBy: performedBy,
+          isAutoSave: true
+        });
+      }
       
       res.json({
         success: true,
         results: {
           activities: results.activities,
-          criticalPath: results.criticalPath,
-          projectDuration: results.projectDuration,
+          criticalPath: results.criticalPath.map(a => a.id),
+          relationships: results.relationships,
+          projectStart: results.projectStart?.toISOString().split('T')[0] ?? null,
+          projectFinish,
+          projectDuration: results.metrics.longestPathLength,
           constraintViolations: results.constraintViolations,
-          scheduleMetrics: results.scheduleMetrics,
+          scheduleMetrics: results.metrics,
+          progressMethod: method,
           retainedLogic,
+          validation,
+          leveling: leveling && {
+            levelingDelays: leveling.levelingDelays,
+            overallocatedBefore: leveling.overallocatedBefore,
+            overallocatedAfter: leveling.overallocatedAfter,
+            unresolvedActivities: leveling.unresolvedActivities
+          },
+          version,
           calculatedAt: new Date().toISOString()
         }
       });
     } catch (error) {
       console.error("Error calculating schedule:", error);
-      res.status(500).json({ error: "Failed to calculate schedule", details: error.message });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid calculation options", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to calculate schedule", details: error.message });
+      }
     }
   });
 
@@ -1272,4 +2929,47 @@ Return ONLY the enhanced prompt text, nothing else.`;
 
   const httpServer = createServer(app);
   return httpServer;
+}
+
+/**
+ * Imports run in one transaction, so a failure leaves nothing behind; the attempt
+ * is still recorded in the project's import history
+ */
+async function recordFailedImport(
+  projectId: string, format: string, filename: string, error: unknown, createdBy: string
+): Promise<void> {
+  try {
+    await storage.createImportExportRecord({
+      projectId,
+      type: 'Import',
+      format,
+      filename,
+      conversionReport: { error: error instanceof Error ? error.message : String(error) },
+      status: 'Failed',
+      createdBy
+    });
+  } catch (recordError) {
+    console.error("Error recording failed import:", recordError);
+  }
+}
+
+/**
+ * The activities, logic, calendars and data date a CPM pass runs on. Calculation,
+ * constraint checks and path analysis all load through here so their dates agree;
+ * without an explicit data date the project's own is used.
+ */
+async function loadScheduleNetwork(project: Project, dataDate?: string | null) {
+  const [activities, relationships, projectCalendars, globalCalendars] = await Promise.all([
+    storage.getActivitiesByProject(project.id),
+    storage.getRelationshipsByProject(project.id),
+    storage.getCalendarsByProject(project.id),
+    storage.getCalendarsByProject(null)
+  ]);
+  const effectiveDataDate = dataDate || project.dataDate;
+  return {
+    activities,
+    relationships,
+    calendars: Array.from(new Map([...projectCalendars, ...globalCalendars].map(c => [c.id, c])).values()),
+    dataDate: effectiveDataDate ? new Date(effectiveDataDate) : undefined
+  };
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+import type { Activity, Relationship, ScheduleSnapshot } from "@shared/schema";
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ActivityDiff {
+  activityId: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+export interface RelationshipDiff {
+  predecessorActivityId: string;
+  successorActivityId: string;
+  type: string;
+  lag: number;
+  oldType?: string;
+  oldLag?: number;
+}
+
+export interface ScheduleDiff {
+  addedActivities: { activityId: string; name: string }[];
+  deletedActivities: { activityId: string; name: string }[];
+  modifiedActivities: ActivityDiff[];
+  addedRelationships: RelationshipDiff[];
+  removedRelationships: RelationshipDiff[];
+  changedRelationships: RelationshipDiff[];
+  finishMovement: {
+    oldFinish: string | null;
+    newFinish: string | null;
+    days: number;
+  };
+}
+
+// Fields reported as per-field changes on modified activities
+const COMPARED_FIELDS: (keyof Activity)[] = [
+  'name', 'type', 'wbsId', 'calendarId', 'status',
+  'originalDuration', 'remainingDuration', 'percentComplete',
+  'earlyStart', 'earlyFinish', 'lateStart', 'lateFinish',
+  'actualStart', 'actualFinish', 'totalFloat', 'freeFloat', 'isCritical',
+  'constraintType', 'constraintDate', 'deadline', 'budgetedCost', 'actualCost'
+];
+
+/**
+ * Compares two schedule snapshots. Activities are matched on their
+ * user-facing Activity ID so that re-imported schedules still line up,
+ * relationships on the predecessor/successor Activity ID pair.
+ */
+export class ScheduleComparator {
+  constructor(private from: ScheduleSnapshot, private to: ScheduleSnapshot) {}
+
+  public compare(): ScheduleDiff {
+    const fromActivities = new Map(this.from.activities.map(a => [a.activityId, a]));
+    const toActivities = new Map(this.to.activities.map(a => [a.activityId, a]));
+
+    const addedActivities = this.to.activities
+      .filter(a => !fromActivities.has(a.activityId))
+      .map(a => ({ activityId: a.activityId, name: a.name }));
+
+    const deletedActivities = this.from.activities
+      .filter(a => !toActivities.has(a.activityId))
+      .map(a => ({ activityId: a.activityId, name: a.name }));
+
+    const modifiedActivities: ActivityDiff[] = [];
+    this.to.activities.forEach(after => {
+      const before = fromActivities.get(after.activityId);
+      if (!before) return;
+
+      const changes = COMPARED_FIELDS
+        .filter(field => !this.valuesEqual(before[field], after[field]))
+        .map(field => ({ field, oldValue: before[field] ?? null, newValue: after[field] ?? null }));
+
+      if (changes.length > 0) {
+        modifiedActivities.push({ activityId: after.activityId, name: after.name, changes });
+      }
+    });
+
+    const fromRelationships = this.indexRelationships(this.from);
+    const toRelationships = this.indexRelationships(this.to);
+
+    const addedRelationships: RelationshipDiff[] = [];
+    const changedRelationships: RelationshipDiff[] = [];
+    toRelationships.forEach((after, key) => {
+      const before = fromRelationships.get(key);
+      if (!before) {
+        addedRelationships.push(after);
+      } else if (before.type !== after.type || before.lag !== after.lag) {
+        changedRelationships.push({ ...after, oldType: before.type, oldLag: before.lag });
+      }
+    });
+
+    const removedRelationships = Array.from(fromRelationships.entries())
+      .filter(([key]) => !toRelationships.has(key))
+      .map(([, rel]) => rel);
+
+    const oldFinish = this.getProjectFinish(this.from);
+    const newFinish = this.getProjectFinish(this.to);
+
+    return {
+      addedActivities,
+      deletedActivities,
+      modifiedActivities,
+      addedRelationships,
+      removedRelationships,
+      changedRelationships,
+      finishMovement: {
+        oldFinish,
+        newFinish,
+        days: oldFinish && newFinish
+          ? Math.round((new Date(newFinish).getTime() - new Date(oldFinish).getTime()) / (1000 * 60 * 60 * 24))
+          : 0
+      }
+    };
+  }
+
+  /**
+   * Counts stored in schedule_versions.changes_summary
+   */
+  public summarize() {
+    const diff = this.compare();
+    return {
+      activitiesAdded: diff.addedActivities.length,
+      activitiesDeleted: diff.deletedActivities.length,
+      activitiesModified: diff.modifiedActivities.length,
+      relationshipsAdded: diff.addedRelationships.length,
+      relationshipsRemoved: diff.removedRelationships.length,
+      relationshipsChanged: diff.changedRelationships.length,
+      finishMovementDays: diff.finishMovement.days
+    };
+  }
+
+  private indexRelationships(snapshot: ScheduleSnapshot): Map<string, RelationshipDiff> {
+    const activityCodes = new Map(snapshot.activities.map(a => [a.id, a.activityId]));
+    const index = new Map<string, RelationshipDiff>();
+
+    snapshot.relationships.forEach((rel: Relationship) => {
+      const predecessorActivityId = activityCodes.get(rel.predecessorId);
+      const successorActivityId = activityCodes.get(rel.successorId);
+      if (!predecessorActivityId || !successorActivityId) return;
+
+      index.set(`${predecessorActivityId}->${successorActivityId}`, {
+        predecessorActivityId,
+        successorActivityId,
+        type: rel.type,
+        lag: rel.lag ?? 0
+      });
+    });
+
+    return index;
+  }
+
+  private getProjectFinish(snapshot: ScheduleSnapshot): string | null {
+    let finish: string | null = null;
+    snapshot.activities.forEach(activity => {
+      const activityFinish = activity.actualFinish || activity.earlyFinish;
+      if (activityFinish && (!finish || activityFinish > finish)) {
+        finish = activityFinish;
+      }
+    });
+    return finish;
+  }
+
+  private valuesEqual(a: unknown, b: unknown): boolean {
+    return (a ?? null) === (b ?? null);
+  }
+}
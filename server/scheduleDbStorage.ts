@@ -1,6 +1,7 @@
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
-import { eq, desc, and, or, isNull } from "drizzle-orm";
+import { eq, desc, and, or, isNull, inArray, sql, getTableColumns } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 import { randomUUID } from "crypto";
 import * as schema from "@shared/schema";
 import type {
@@ -14,10 +15,12 @@ import type {
   ActivityCode, InsertActivityCode,
   ActivityComment, InsertActivityComment, Attachment, InsertAttachment,
   AuditLog, InsertAuditLog, ProjectMember, InsertProjectMember,
-  ScheduleVersion, InsertScheduleVersion,
+  ScheduleVersion, InsertScheduleVersion, ScheduleSnapshot,
+  RiskAnalysis, InsertRiskAnalysis,
   User, UpsertUser
 } from "@shared/schema";
 import type { IStorage } from "./storage";
+import { ScheduleComparator } from "./scheduleComparator";
 import ws from "ws";
 
 // Configure Neon to use WebSocket
@@ -26,15 +29,27 @@ neonConfig.webSocketConstructor = ws.WebSocket || ws;
 const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+// Rows per UPDATE in bulk updates, well inside Postgres' bind parameter limit
+const UPDATE_BATCH_SIZE = 500;
+
 export class ScheduleDbStorage implements IStorage {
+  /**
+   * Bound to the shared pool by default; transaction() hands work a copy bound
+   * to the open transaction so every write commits or rolls back together
+   */
+  constructor(private readonly executor: Executor = db) {}
+
   // User operations (MANDATORY for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(schema.users).where(eq(schema.users.id, id));
+    const [user] = await this.executor.select().from(schema.users).where(eq(schema.users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.executor
       .insert(schema.users)
       .values(userData)
       .onConflictDoUpdate({
@@ -50,16 +65,16 @@ export class ScheduleDbStorage implements IStorage {
 
   // Projects
   async getProjects(): Promise<Project[]> {
-    return await db.select().from(schema.projects).orderBy(desc(schema.projects.createdAt));
+    return await this.executor.select().from(schema.projects).orderBy(desc(schema.projects.createdAt));
   }
 
   async getProject(id: string): Promise<Project | undefined> {
-    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, id));
+    const [project] = await this.executor.select().from(schema.projects).where(eq(schema.projects.id, id));
     return project;
   }
 
   async createProject(project: InsertProject): Promise<Project> {
-    const [newProject] = await db.insert(schema.projects).values({
+    const [newProject] = await this.executor.insert(schema.projects).values({
       ...project,
       colorPrimary: project.colorPrimary || "#10b981",
       colorSecondary: project.colorSecondary || "#059669",
@@ -68,7 +83,7 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async updateProject(id: string, updates: Partial<Project>): Promise<Project | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.projects)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(schema.projects.id, id))
@@ -81,19 +96,19 @@ export class ScheduleDbStorage implements IStorage {
       // Delete in the correct order to avoid foreign key constraint violations
       
       // 1. Delete all relationships for activities in this project
-      await db.delete(schema.relationships).where(eq(schema.relationships.projectId, id));
+      await this.executor.delete(schema.relationships).where(eq(schema.relationships.projectId, id));
       
       // 2. Delete all activities in this project
-      await db.delete(schema.activities).where(eq(schema.activities.projectId, id));
+      await this.executor.delete(schema.activities).where(eq(schema.activities.projectId, id));
       
       // 3. Delete all WBS items in this project
-      await db.delete(schema.wbs).where(eq(schema.wbs.projectId, id));
+      await this.executor.delete(schema.wbs).where(eq(schema.wbs.projectId, id));
       
       // 4. Delete all calendars in this project
-      await db.delete(schema.calendars).where(eq(schema.calendars.projectId, id));
+      await this.executor.delete(schema.calendars).where(eq(schema.calendars.projectId, id));
       
       // 5. Finally delete the project itself
-      const result = await db.delete(schema.projects).where(eq(schema.projects.id, id));
+      const result = await this.executor.delete(schema.projects).where(eq(schema.projects.id, id));
       
       return !!result;
     } catch (error) {
@@ -104,21 +119,21 @@ export class ScheduleDbStorage implements IStorage {
 
   // WBS
   async getWbsByProject(projectId: string): Promise<Wbs[]> {
-    return await db.select().from(schema.wbs).where(eq(schema.wbs.projectId, projectId));
+    return await this.executor.select().from(schema.wbs).where(eq(schema.wbs.projectId, projectId));
   }
 
   async getWbs(id: string): Promise<Wbs | undefined> {
-    const [wbs] = await db.select().from(schema.wbs).where(eq(schema.wbs.id, id));
+    const [wbs] = await this.executor.select().from(schema.wbs).where(eq(schema.wbs.id, id));
     return wbs;
   }
 
   async createWbs(wbs: InsertWbs): Promise<Wbs> {
-    const [newWbs] = await db.insert(schema.wbs).values(wbs).returning();
+    const [newWbs] = await this.executor.insert(schema.wbs).values(wbs).returning();
     return newWbs;
   }
 
   async updateWbs(id: string, updates: Partial<Wbs>): Promise<Wbs | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.wbs)
       .set(updates)
       .where(eq(schema.wbs.id, id))
@@ -127,27 +142,27 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async deleteWbs(id: string): Promise<boolean> {
-    const result = await db.delete(schema.wbs).where(eq(schema.wbs.id, id));
+    const result = await this.executor.delete(schema.wbs).where(eq(schema.wbs.id, id));
     return !!result;
   }
 
   // Activities
   async getActivitiesByProject(projectId: string): Promise<Activity[]> {
-    return await db.select().from(schema.activities).where(eq(schema.activities.projectId, projectId));
+    return await this.executor.select().from(schema.activities).where(eq(schema.activities.projectId, projectId));
   }
 
   async getActivity(id: string): Promise<Activity | undefined> {
-    const [activity] = await db.select().from(schema.activities).where(eq(schema.activities.id, id));
+    const [activity] = await this.executor.select().from(schema.activities).where(eq(schema.activities.id, id));
     return activity;
   }
 
   async createActivity(activity: InsertActivity): Promise<Activity> {
-    const [newActivity] = await db.insert(schema.activities).values(activity).returning();
+    const [newActivity] = await this.executor.insert(schema.activities).values(activity).returning();
     return newActivity;
   }
 
   async updateActivity(id: string, updates: Partial<Activity>): Promise<Activity | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.activities)
       .set(updates)
       .where(eq(schema.activities.id, id))
@@ -156,42 +171,47 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async deleteActivity(id: string): Promise<boolean> {
-    const result = await db.delete(schema.activities).where(eq(schema.activities.id, id));
+    const result = await this.executor.delete(schema.activities).where(eq(schema.activities.id, id));
     return !!result;
   }
 
   async bulkUpdateActivities(updates: { id: string; updates: Partial<Activity> }[]): Promise<void> {
-    for (const { id, updates: activityUpdates } of updates) {
-      await this.updateActivity(id, activityUpdates);
-    }
+    await this.executor.transaction(async (tx) => {
+      await this.updateInBatches(tx, schema.activities, updates);
+    });
   }
 
   // Relationships
   async getRelationshipsByProject(projectId: string): Promise<Relationship[]> {
-    return await db.select().from(schema.relationships)
+    return await this.executor.select().from(schema.relationships)
       .innerJoin(schema.activities, eq(schema.relationships.predecessorId, schema.activities.id))
       .where(eq(schema.activities.projectId, projectId))
       .then(results => results.map(r => r.relationships));
   }
 
+  async getRelationship(id: string): Promise<Relationship | undefined> {
+    const [relationship] = await this.executor.select().from(schema.relationships).where(eq(schema.relationships.id, id));
+    return relationship;
+  }
+
   async getRelationshipsForActivity(activityId: string): Promise<{
     predecessors: Relationship[];
     successors: Relationship[];
   }> {
     const [predecessors, successors] = await Promise.all([
-      db.select().from(schema.relationships).where(eq(schema.relationships.successorId, activityId)),
-      db.select().from(schema.relationships).where(eq(schema.relationships.predecessorId, activityId)),
+      this.executor.select().from(schema.relationships).where(eq(schema.relationships.successorId, activityId)),
+      this.executor.select().from(schema.relationships).where(eq(schema.relationships.predecessorId, activityId)),
     ]);
     return { predecessors, successors };
   }
 
   async createRelationship(relationship: InsertRelationship): Promise<Relationship> {
-    const [newRel] = await db.insert(schema.relationships).values(relationship).returning();
+    const [newRel] = await this.executor.insert(schema.relationships).values(relationship).returning();
     return newRel;
   }
 
   async updateRelationship(id: string, updates: Partial<Relationship>): Promise<Relationship | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.relationships)
       .set(updates)
       .where(eq(schema.relationships.id, id))
@@ -199,32 +219,76 @@ export class ScheduleDbStorage implements IStorage {
     return updated;
   }
 
+  async bulkUpdateRelationships(updates: { id: string; updates: Partial<Relationship> }[]): Promise<void> {
+    await this.executor.transaction(async (tx) => {
+      await this.updateInBatches(tx, schema.relationships, updates);
+    });
+  }
+
+  /**
+   * Rows changing the same columns share one UPDATE per batch, each column set
+   * by a CASE on the row id
+   */
+  private async updateInBatches(
+    executor: Executor,
+    table: typeof schema.activities | typeof schema.relationships,
+    updates: { id: string; updates: Record<string, unknown> }[]
+  ): Promise<void> {
+    const columns: Record<string, PgColumn> = getTableColumns(table);
+    const groups = new Map<string, typeof updates>();
+    for (const update of updates) {
+      const keys = Object.keys(update.updates)
+        .filter(key => key !== 'id' && key in columns && update.updates[key] !== undefined)
+        .sort()
+        .join(',');
+      if (!keys) continue;
+      if (!groups.has(keys)) groups.set(keys, []);
+      groups.get(keys)!.push(update);
+    }
+
+    for (const [keys, group] of Array.from(groups)) {
+      for (let i = 0; i < group.length; i += UPDATE_BATCH_SIZE) {
+        const batch = group.slice(i, i + UPDATE_BATCH_SIZE);
+        const set = Object.fromEntries(keys.split(',').map(key => {
+          const column = columns[key];
+          // Parameters carry no type of their own, so each value is cast to its column's type
+          const cases = batch.map(({ id, updates: values }) => {
+            const value = values[key] === null ? sql`null` : sql.param(values[key], column);
+            return sql`when ${id} then ${value}::${sql.raw(column.getSQLType())}`;
+          });
+          return [key, sql`case ${columns.id} ${sql.join(cases, sql` `)} end`];
+        }));
+        await executor.update(table).set(set).where(inArray(columns.id, batch.map(u => u.id)));
+      }
+    }
+  }
+
   async deleteRelationship(id: string): Promise<boolean> {
-    const result = await db.delete(schema.relationships).where(eq(schema.relationships.id, id));
+    const result = await this.executor.delete(schema.relationships).where(eq(schema.relationships.id, id));
     return !!result;
   }
 
   // Calendars
   async getCalendarsByProject(projectId: string | null): Promise<Calendar[]> {
     if (projectId === null) {
-      return await db.select().from(schema.calendars).where(isNull(schema.calendars.projectId));
+      return await this.executor.select().from(schema.calendars).where(isNull(schema.calendars.projectId));
     }
-    return await db.select().from(schema.calendars)
+    return await this.executor.select().from(schema.calendars)
       .where(or(eq(schema.calendars.projectId, projectId), isNull(schema.calendars.projectId)));
   }
 
   async getCalendar(id: string): Promise<Calendar | undefined> {
-    const [calendar] = await db.select().from(schema.calendars).where(eq(schema.calendars.id, id));
+    const [calendar] = await this.executor.select().from(schema.calendars).where(eq(schema.calendars.id, id));
     return calendar;
   }
 
   async createCalendar(calendar: InsertCalendar): Promise<Calendar> {
-    const [newCalendar] = await db.insert(schema.calendars).values(calendar).returning();
+    const [newCalendar] = await this.executor.insert(schema.calendars).values(calendar).returning();
     return newCalendar;
   }
 
   async updateCalendar(id: string, updates: Partial<Calendar>): Promise<Calendar | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.calendars)
       .set(updates)
       .where(eq(schema.calendars.id, id))
@@ -233,27 +297,27 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async deleteCalendar(id: string): Promise<boolean> {
-    const result = await db.delete(schema.calendars).where(eq(schema.calendars.id, id));
+    const result = await this.executor.delete(schema.calendars).where(eq(schema.calendars.id, id));
     return !!result;
   }
 
   // Resources
   async getResourcesByProject(projectId: string): Promise<Resource[]> {
-    return await db.select().from(schema.resources).where(eq(schema.resources.projectId, projectId));
+    return await this.executor.select().from(schema.resources).where(eq(schema.resources.projectId, projectId));
   }
 
   async getResource(id: string): Promise<Resource | undefined> {
-    const [resource] = await db.select().from(schema.resources).where(eq(schema.resources.id, id));
+    const [resource] = await this.executor.select().from(schema.resources).where(eq(schema.resources.id, id));
     return resource;
   }
 
   async createResource(resource: InsertResource): Promise<Resource> {
-    const [newResource] = await db.insert(schema.resources).values(resource).returning();
+    const [newResource] = await this.executor.insert(schema.resources).values(resource).returning();
     return newResource;
   }
 
   async updateResource(id: string, updates: Partial<Resource>): Promise<Resource | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.resources)
       .set(updates)
       .where(eq(schema.resources.id, id))
@@ -262,28 +326,28 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async deleteResource(id: string): Promise<boolean> {
-    const result = await db.delete(schema.resources).where(eq(schema.resources.id, id));
+    const result = await this.executor.delete(schema.resources).where(eq(schema.resources.id, id));
     return !!result;
   }
 
   // Resource Assignments
   async getAssignmentsByActivity(activityId: string): Promise<ResourceAssignment[]> {
-    return await db.select().from(schema.resourceAssignments)
+    return await this.executor.select().from(schema.resourceAssignments)
       .where(eq(schema.resourceAssignments.activityId, activityId));
   }
 
   async getAssignmentsByResource(resourceId: string): Promise<ResourceAssignment[]> {
-    return await db.select().from(schema.resourceAssignments)
+    return await this.executor.select().from(schema.resourceAssignments)
       .where(eq(schema.resourceAssignments.resourceId, resourceId));
   }
 
   async createAssignment(assignment: InsertResourceAssignment): Promise<ResourceAssignment> {
-    const [newAssignment] = await db.insert(schema.resourceAssignments).values(assignment).returning();
+    const [newAssignment] = await this.executor.insert(schema.resourceAssignments).values(assignment).returning();
     return newAssignment;
   }
 
   async updateAssignment(id: string, updates: Partial<ResourceAssignment>): Promise<ResourceAssignment | undefined> {
-    const [updated] = await db
+    const [updated] = await this.executor
       .update(schema.resourceAssignments)
       .set(updates)
       .where(eq(schema.resourceAssignments.id, id))
@@ -292,30 +356,100 @@ export class ScheduleDbStorage implements IStorage {
   }
 
   async deleteAssignment(id: string): Promise<boolean> {
-    const result = await db.delete(schema.resourceAssignments).where(eq(schema.resourceAssignments.id, id));
+    const result = await this.executor.delete(schema.resourceAssignments).where(eq(schema.resourceAssignments.id, id));
     return !!result;
   }
 
-  // Baselines - stub implementations for now
+  // Baselines
   async getBaselinesByProject(projectId: string): Promise<Baseline[]> {
-    return [];
+    return await this.executor.select().from(schema.baselines)
+      .where(eq(schema.baselines.projectId, projectId))
+      .orderBy(desc(schema.baselines.createdAt));
   }
 
   async getBaseline(id: string): Promise<Baseline | undefined> {
-    return undefined;
+    const [baseline] = await this.executor.select().from(schema.baselines).where(eq(schema.baselines.id, id));
+    return baseline;
   }
 
   async createBaseline(baseline: InsertBaseline): Promise<Baseline> {
-    throw new Error("Baselines not yet implemented");
+    const projectActivities = await this.getActivitiesByProject(baseline.projectId);
+    const relationships = await this.getRelationshipsByProject(baseline.projectId);
+    const assignments = projectActivities.length > 0
+      ? await this.executor.select().from(schema.resourceAssignments)
+          .where(inArray(schema.resourceAssignments.activityId, projectActivities.map(a => a.id)))
+      : [];
+    
+    // Planned work is the sum of the planned units assigned; activities without any have none
+    const plannedWork = new Map<string, number>();
+    assignments.forEach(a => {
+      if (a.plannedUnits !== null) plannedWork.set(a.activityId, (plannedWork.get(a.activityId) ?? 0) + a.plannedUnits);
+    });
+    
+    const snapshotData = {
+      activities: projectActivities.map(activity => ({
+        id: activity.id,
+        activityId: activity.activityId,
+        name: activity.name,
+        originalDuration: activity.originalDuration,
+        earlyStart: activity.earlyStart,
+        earlyFinish: activity.earlyFinish,
+        budgetedCost: activity.budgetedCost,
+        baselineWork: plannedWork.get(activity.id) ?? null,
+        type: activity.type,
+        wbsId: activity.wbsId,
+        calendarId: activity.calendarId
+      })),
+      relationships,
+      capturedAt: new Date().toISOString(),
+      totalActivities: projectActivities.length
+    };
+    
+    const [newBaseline] = await this.executor.insert(schema.baselines)
+      .values({ ...baseline, snapshotData })
+      .returning();
+    
+    if (baseline.isActive) {
+      await this.setActiveBaseline(baseline.projectId, newBaseline.id);
+    }
+    
+    return newBaseline;
   }
 
   async setActiveBaseline(projectId: string, baselineId: string): Promise<void> {
-    // Stub implementation
-    return;
+    const baseline = await this.getBaseline(baselineId);
+    if (!baseline) return;
+    
+    await this.executor.transaction(async (tx) => {
+      await tx.update(schema.baselines)
+        .set({ isActive: false })
+        .where(eq(schema.baselines.projectId, projectId));
+      await tx.update(schema.baselines)
+        .set({ isActive: true })
+        .where(eq(schema.baselines.id, baselineId));
+      
+      // Copy baseline values onto the activities
+      const baselineActivities = ((baseline.snapshotData as any)?.activities || []) as Activity[];
+      for (const activity of baselineActivities) {
+        await tx.update(schema.activities)
+          .set({
+            baselineStart: activity.earlyStart,
+            baselineFinish: activity.earlyFinish,
+            baselineDuration: activity.originalDuration,
+            baselineCost: activity.budgetedCost,
+            baselineWork: activity.baselineWork ?? null
+          })
+          .where(and(eq(schema.activities.id, activity.id), eq(schema.activities.projectId, projectId)));
+      }
+    });
   }
 
   async deleteBaseline(id: string): Promise<boolean> {
-    return false;
+    return await this.executor.transaction(async (tx) => {
+      await tx.delete(schema.baselineActivities).where(eq(schema.baselineActivities.baselineId, id));
+      const deleted = await tx.delete(schema.baselines).where(eq(schema.baselines.id, id)).returning();
+      return deleted.length > 0;
+    });
   }
 
   async calculateVariance(projectId: string, baselineId?: string): Promise<any[]> {
@@ -323,82 +457,136 @@ export class ScheduleDbStorage implements IStorage {
     return [];
   }
 
-  // TIA Scenarios - stub implementations
+  // TIA Scenarios
   async getTiaScenariosByProject(projectId: string): Promise<TiaScenario[]> {
-    return [];
+    return await this.executor.select().from(schema.tiaScenarios)
+      .where(eq(schema.tiaScenarios.projectId, projectId))
+      .orderBy(desc(schema.tiaScenarios.createdAt));
   }
 
   async getTiaScenario(id: string): Promise<TiaScenario | undefined> {
-    return undefined;
+    const [scenario] = await this.executor.select().from(schema.tiaScenarios).where(eq(schema.tiaScenarios.id, id));
+    return scenario;
   }
 
   async createTiaScenario(scenario: InsertTiaScenario): Promise<TiaScenario> {
-    throw new Error("TIA scenarios not yet implemented");
+    const [newScenario] = await this.executor.insert(schema.tiaScenarios).values(scenario).returning();
+    return newScenario;
   }
 
   async updateTiaScenario(id: string, updates: Partial<TiaScenario>): Promise<TiaScenario | undefined> {
-    return undefined;
+    const [updated] = await this.executor
+      .update(schema.tiaScenarios)
+      .set(updates)
+      .where(eq(schema.tiaScenarios.id, id))
+      .returning();
+    return updated;
   }
 
   async deleteTiaScenario(id: string): Promise<boolean> {
-    return false;
+    // Delete children first to satisfy foreign keys
+    await this.executor.delete(schema.tiaResults).where(eq(schema.tiaResults.scenarioId, id));
+    await this.executor.delete(schema.tiaDelays).where(eq(schema.tiaDelays.scenarioId, id));
+    await this.executor.delete(schema.tiaFragnets).where(eq(schema.tiaFragnets.scenarioId, id));
+    const deleted = await this.executor.delete(schema.tiaScenarios).where(eq(schema.tiaScenarios.id, id)).returning();
+    return deleted.length > 0;
   }
 
-  // TIA Fragnets - stub implementations
+  // TIA Fragnets
   async getFragnetsByScenario(scenarioId: string): Promise<TiaFragnet[]> {
-    return [];
+    return await this.executor.select().from(schema.tiaFragnets).where(eq(schema.tiaFragnets.scenarioId, scenarioId));
+  }
+
+  async getFragnet(id: string): Promise<TiaFragnet | undefined> {
+    const [fragnet] = await this.executor.select().from(schema.tiaFragnets).where(eq(schema.tiaFragnets.id, id));
+    return fragnet;
   }
 
   async createFragnet(fragnet: InsertTiaFragnet): Promise<TiaFragnet> {
-    throw new Error("TIA fragnets not yet implemented");
+    const [newFragnet] = await this.executor.insert(schema.tiaFragnets).values(fragnet).returning();
+    return newFragnet;
+  }
+
+  async updateFragnet(id: string, updates: Partial<TiaFragnet>): Promise<TiaFragnet | undefined> {
+    const [updated] = await this.executor
+      .update(schema.tiaFragnets)
+      .set(updates)
+      .where(eq(schema.tiaFragnets.id, id))
+      .returning();
+    return updated;
   }
 
   async deleteFragnet(id: string): Promise<boolean> {
-    return false;
+    await this.executor.update(schema.tiaDelays).set({ fragnetId: null }).where(eq(schema.tiaDelays.fragnetId, id));
+    const deleted = await this.executor.delete(schema.tiaFragnets).where(eq(schema.tiaFragnets.id, id)).returning();
+    return deleted.length > 0;
   }
 
-  // TIA Delays - stub implementations
+  // TIA Delays
   async getDelaysByScenario(scenarioId: string): Promise<TiaDelay[]> {
-    return [];
+    return await this.executor.select().from(schema.tiaDelays).where(eq(schema.tiaDelays.scenarioId, scenarioId));
   }
 
   async createDelay(delay: InsertTiaDelay): Promise<TiaDelay> {
-    throw new Error("TIA delays not yet implemented");
+    const [newDelay] = await this.executor.insert(schema.tiaDelays).values(delay).returning();
+    return newDelay;
   }
 
   async deleteDelay(id: string): Promise<boolean> {
-    return false;
+    const deleted = await this.executor.delete(schema.tiaDelays).where(eq(schema.tiaDelays.id, id)).returning();
+    return deleted.length > 0;
   }
 
-  // TIA Results - stub implementations
+  // TIA Results
   async getTiaResult(scenarioId: string): Promise<TiaResult | undefined> {
-    return undefined;
+    const [result] = await this.executor.select().from(schema.tiaResults)
+      .where(eq(schema.tiaResults.scenarioId, scenarioId))
+      .orderBy(desc(schema.tiaResults.analysisDate))
+      .limit(1);
+    return result;
   }
 
   async saveTiaResult(result: InsertTiaResult): Promise<TiaResult> {
-    throw new Error("TIA results not yet implemented");
+    // Only the latest analysis is kept per scenario
+    return await this.executor.transaction(async (tx) => {
+      await tx.delete(schema.tiaResults).where(eq(schema.tiaResults.scenarioId, result.scenarioId));
+      const [saved] = await tx.insert(schema.tiaResults).values(result).returning();
+      return saved;
+    });
   }
 
-  // Schedule Updates - stub implementations
+  // Schedule Updates
   async getScheduleUpdatesByProject(projectId: string): Promise<ScheduleUpdate[]> {
-    return [];
+    return await this.executor.select().from(schema.scheduleUpdates)
+      .where(eq(schema.scheduleUpdates.projectId, projectId))
+      .orderBy(desc(schema.scheduleUpdates.updateNumber));
   }
 
   async getScheduleUpdate(id: string): Promise<ScheduleUpdate | undefined> {
-    return undefined;
+    const [update] = await this.executor.select().from(schema.scheduleUpdates).where(eq(schema.scheduleUpdates.id, id));
+    return update;
   }
 
   async createScheduleUpdate(update: InsertScheduleUpdate): Promise<ScheduleUpdate> {
-    throw new Error("Schedule updates not yet implemented");
+    const [newUpdate] = await this.executor.insert(schema.scheduleUpdates).values(update).returning();
+    return newUpdate;
   }
 
-  // Import/Export History - stub implementations
+  // Import/Export History
   async getImportExportHistory(projectId: string): Promise<ImportExportHistory[]> {
-    return [];
+    return await this.executor.select().from(schema.importExportHistory)
+      .where(eq(schema.importExportHistory.projectId, projectId))
+      .orderBy(desc(schema.importExportHistory.createdAt));
   }
 
   async createImportExportRecord(record: InsertImportExportHistory): Promise<ImportExportHistory> {
-    throw new Error("Import/export history not yet implemented");
+    const [newRecord] = await this.executor.insert(schema.importExportHistory).values(record).returning();
+    return newRecord;
+  }
+
+  async deleteImportExportRecord(id: string): Promise<boolean> {
+    const result = await this.executor.delete(schema.importExportHistory).where(eq(schema.importExportHistory.id, id));
+    return !!result;
   }
 
   // AI Context - stub implementations
@@ -410,25 +598,33 @@ export class ScheduleDbStorage implements IStorage {
     throw new Error("AI context not yet implemented");
   }
 
-  // Activity Codes - stub implementations
+  // Activity Codes
   async getActivityCodesByProject(projectId: string): Promise<ActivityCode[]> {
-    return [];
+    return await this.executor.select().from(schema.activityCodes).where(eq(schema.activityCodes.projectId, projectId));
   }
 
   async getActivityCode(id: string): Promise<ActivityCode | undefined> {
-    return undefined;
+    const [code] = await this.executor.select().from(schema.activityCodes).where(eq(schema.activityCodes.id, id));
+    return code;
   }
 
   async createActivityCode(code: InsertActivityCode): Promise<ActivityCode> {
-    throw new Error("Activity codes not yet implemented");
+    const [newCode] = await this.executor.insert(schema.activityCodes).values(code).returning();
+    return newCode;
   }
 
   async updateActivityCode(id: string, updates: Partial<ActivityCode>): Promise<ActivityCode | undefined> {
-    return undefined;
+    const [updated] = await this.executor
+      .update(schema.activityCodes)
+      .set(updates)
+      .where(eq(schema.activityCodes.id, id))
+      .returning();
+    return updated;
   }
 
   async deleteActivityCode(id: string): Promise<boolean> {
-    return false;
+    const result = await this.executor.delete(schema.activityCodes).where(eq(schema.activityCodes.id, id));
+    return !!result;
   }
 
   // Activity Comments - stub implementations
@@ -457,38 +653,287 @@ export class ScheduleDbStorage implements IStorage {
     throw new Error("Attachments not yet implemented");
   }
 
-  // Audit Logs - stub implementations
+  // Audit Logs
   async getAuditLogs(projectId: string, entityId?: string, entityType?: string): Promise<AuditLog[]> {
-    return [];
+    const conditions = [eq(schema.auditLogs.projectId, projectId)];
+    if (entityId) conditions.push(eq(schema.auditLogs.entityId, entityId));
+    if (entityType) conditions.push(eq(schema.auditLogs.entityType, entityType));
+    
+    return await this.executor
+      .select()
+      .from(schema.auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(schema.auditLogs.performedAt));
   }
 
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    throw new Error("Audit logs not yet implemented");
+    const [newLog] = await this.executor
+      .insert(schema.auditLogs)
+      .values(log)
+      .returning();
+    return newLog;
   }
 
-  // Project Members - stub implementations
+  // Project Members
   async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
-    return [];
+    return await this.executor
+      .select()
+      .from(schema.projectMembers)
+      .where(and(eq(schema.projectMembers.projectId, projectId), eq(schema.projectMembers.isActive, true)));
   }
 
   async createProjectMember(member: InsertProjectMember): Promise<ProjectMember> {
-    throw new Error("Project members not yet implemented");
+    const [newMember] = await this.executor
+      .insert(schema.projectMembers)
+      .values(member)
+      .returning();
+    return newMember;
   }
 
   async updateProjectMember(memberId: string, updates: Partial<ProjectMember>): Promise<ProjectMember | undefined> {
-    return undefined;
+    const [updated] = await this.executor
+      .update(schema.projectMembers)
+      .set({ ...updates, lastActiveAt: new Date() })
+      .where(eq(schema.projectMembers.id, memberId))
+      .returning();
+    return updated;
   }
 
-  // Schedule Versions - stub implementations
-  async getScheduleVersions(projectId: string): Promise<ScheduleVersion[]> {
-    return [];
+  async getProjectMember(memberId: string): Promise<ProjectMember | undefined> {
+    const [member] = await this.executor
+      .select()
+      .from(schema.projectMembers)
+      .where(eq(schema.projectMembers.id, memberId));
+    return member;
   }
 
-  async createScheduleVersion(version: InsertScheduleVersion): Promise<ScheduleVersion> {
-    throw new Error("Schedule versions not yet implemented");
+  async getProjectMemberByCalendarToken(token: string): Promise<ProjectMember | undefined> {
+    const [member] = await this.executor
+      .select()
+      .from(schema.projectMembers)
+      .where(eq(schema.projectMembers.calendarToken, token));
+    return member;
+  }
+
+  // Schedule Versions
+  async getScheduleVersions(projectId: string): Promise<ScheduleVersion[]> {
+    return await this.executor
+      .select()
+      .from(schema.scheduleVersions)
+      .where(eq(schema.scheduleVersions.projectId, projectId))
+      .orderBy(desc(schema.scheduleVersions.versionNumber));
   }
 
-  async restoreScheduleVersion(versionId: string): Promise<boolean> {
-    return false;
+  async createScheduleVersion(version: InsertScheduleVersion): Promise<ScheduleVersion> {
+    const [previous] = await this.getScheduleVersions(version.projectId);
+    const [newVersion] = await this.executor
+      .insert(schema.scheduleVersions)
+      .values({
+        ...version,
+        changesSummary: version.changesSummary ?? (previous
+          ? new ScheduleComparator(
+              previous.snapshotData as ScheduleSnapshot,
+              version.snapshotData as ScheduleSnapshot
+            ).summarize()
+          : null)
+      })
+      .returning();
+    
+    await this.createAuditLog({
+      projectId: version.projectId,
+      entityType: 'scheduleVersion',
+      entityId: newVersion.id,
+      action: 'Create',
+      performedBy: version.createdBy,
+      notes: `Created version ${version.versionNumber}: ${version.versionName || 'Auto-save'}`
+    });
+    
+    return newVersion;
+  }
+
+  async getScheduleSnapshot(projectId: string): Promise<ScheduleSnapshot> {
+    return this.readSnapshot(this.executor, projectId);
+  }
+
+  private async readSnapshot(executor: Executor, projectId: string): Promise<ScheduleSnapshot> {
+    const activities = await executor.select().from(schema.activities)
+      .where(eq(schema.activities.projectId, projectId));
+    const activityIds = activities.map(a => a.id);
+    
+    return {
+      activities,
+      relationships: await executor.select().from(schema.relationships)
+        .innerJoin(schema.activities, eq(schema.relationships.predecessorId, schema.activities.id))
+        .where(eq(schema.activities.projectId, projectId))
+        .then(results => results.map(r => r.relationships)),
+      wbs: await executor.select().from(schema.wbs).where(eq(schema.wbs.projectId, projectId)),
+      calendars: await executor.select().from(schema.calendars)
+        .where(eq(schema.calendars.projectId, projectId)),
+      resourceAssignments: activityIds.length > 0
+        ? await executor.select().from(schema.resourceAssignments)
+            .where(inArray(schema.resourceAssignments.activityId, activityIds))
+        : []
+    };
+  }
+
+  /**
+   * Bring the live schedule back to a version. Rows keep their ids: rows that differ
+   * from the snapshot are updated, missing ones inserted and extra ones deleted, so
+   * comments, attachments, baselines and resources that point at surviving rows stay valid.
+   */
+  async restoreScheduleVersion(versionId: string, restoredBy: string = 'System'): Promise<boolean> {
+    const [version] = await this.executor
+      .select()
+      .from(schema.scheduleVersions)
+      .where(eq(schema.scheduleVersions.id, versionId));
+    if (!version) return false;
+    
+    const projectId = version.projectId;
+    const snapshot = version.snapshotData as ScheduleSnapshot;
+    
+    await this.executor.transaction(async (tx) => {
+      // Auto-save the current schedule first so the restore can be undone
+      const current = await this.readSnapshot(tx, projectId);
+      const [latest] = await tx
+        .select()
+        .from(schema.scheduleVersions)
+        .where(eq(schema.scheduleVersions.projectId, projectId))
+        .orderBy(desc(schema.scheduleVersions.versionNumber))
+        .limit(1);
+      await tx.insert(schema.scheduleVersions).values({
+        projectId,
+        versionNumber: (latest?.versionNumber ?? 0) + 1,
+        versionName: `Before restore to version ${version.versionNumber}`,
+        snapshotData: current,
+        createdBy: restoredBy,
+        isAutoSave: true,
+        changesSummary: latest
+          ? new ScheduleComparator(latest.snapshotData as ScheduleSnapshot, current).summarize()
+          : null
+      });
+      
+      // Snapshot rows went through jsonb, which reorders keys, so rows are compared as sorted JSON
+      const canonical = (row: unknown) => JSON.stringify(row, (_, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+          : value
+      );
+      const diff = <T extends { id: string }>(live: T[], target: T[]) => {
+        const liveById = new Map(live.map(row => [row.id, canonical(row)]));
+        const targetIds = new Set(target.map(row => row.id));
+        return {
+          inserted: target.filter(row => !liveById.has(row.id)),
+          changed: target.filter(row => liveById.has(row.id) && liveById.get(row.id) !== canonical(row)),
+          removedIds: live.filter(row => !targetIds.has(row.id)).map(row => row.id)
+        };
+      };
+      const calendars = diff(current.calendars, snapshot.calendars);
+      const wbs = diff(current.wbs, snapshot.wbs);
+      const activities = diff(current.activities, snapshot.activities);
+      const relationships = diff(current.relationships, snapshot.relationships);
+      const assignments = diff(current.resourceAssignments, snapshot.resourceAssignments);
+      // Timestamps come back from jsonb as ISO strings
+      const toActivityRow = (a: Activity) => ({ ...a, createdAt: new Date(a.createdAt), updatedAt: new Date(a.updatedAt) });
+      
+      // Parents the snapshot's activities point at, parents before children
+      if (calendars.inserted.length > 0) {
+        await tx.insert(schema.calendars).values(calendars.inserted);
+      }
+      for (const calendar of calendars.changed) {
+        await tx.update(schema.calendars).set(calendar).where(eq(schema.calendars.id, calendar.id));
+      }
+      const byLevel = (a: Wbs, b: Wbs) => a.level - b.level;
+      if (wbs.inserted.length > 0) {
+        await tx.insert(schema.wbs).values([...wbs.inserted].sort(byLevel));
+      }
+      for (const node of [...wbs.changed].sort(byLevel)) {
+        await tx.update(schema.wbs).set(node).where(eq(schema.wbs.id, node.id));
+      }
+      
+      // Links and assignments that are not in the version go before their activities
+      if (assignments.removedIds.length > 0) {
+        await tx.delete(schema.resourceAssignments)
+          .where(inArray(schema.resourceAssignments.id, assignments.removedIds));
+      }
+      if (relationships.removedIds.length > 0) {
+        await tx.delete(schema.relationships).where(inArray(schema.relationships.id, relationships.removedIds));
+      }
+      if (activities.removedIds.length > 0) {
+        // Attachments stay with the project; comments and baseline rows need their activity
+        await tx.update(schema.attachments).set({ activityId: null })
+          .where(inArray(schema.attachments.activityId, activities.removedIds));
+        await tx.delete(schema.activityComments)
+          .where(inArray(schema.activityComments.activityId, activities.removedIds));
+        await tx.delete(schema.baselineActivities)
+          .where(inArray(schema.baselineActivities.originalActivityId, activities.removedIds));
+        await tx.delete(schema.activities).where(inArray(schema.activities.id, activities.removedIds));
+      }
+      
+      for (const activity of activities.changed) {
+        await tx.update(schema.activities).set(toActivityRow(activity)).where(eq(schema.activities.id, activity.id));
+      }
+      if (activities.inserted.length > 0) {
+        await tx.insert(schema.activities).values(activities.inserted.map(toActivityRow));
+      }
+      for (const relationship of relationships.changed) {
+        await tx.update(schema.relationships).set(relationship).where(eq(schema.relationships.id, relationship.id));
+      }
+      if (relationships.inserted.length > 0) {
+        await tx.insert(schema.relationships).values(relationships.inserted);
+      }
+      for (const assignment of assignments.changed) {
+        await tx.update(schema.resourceAssignments).set(assignment)
+          .where(eq(schema.resourceAssignments.id, assignment.id));
+      }
+      if (assignments.inserted.length > 0) {
+        await tx.insert(schema.resourceAssignments).values(assignments.inserted);
+      }
+      
+      // Parents no longer used, children before parents
+      if (wbs.removedIds.length > 0) {
+        const removed = current.wbs.filter(node => wbs.removedIds.includes(node.id)).sort((a, b) => b.level - a.level);
+        for (const node of removed) {
+          await tx.delete(schema.wbs).where(eq(schema.wbs.id, node.id));
+        }
+      }
+      if (calendars.removedIds.length > 0) {
+        await tx.update(schema.resources).set({ calendarId: null })
+          .where(inArray(schema.resources.calendarId, calendars.removedIds));
+        await tx.delete(schema.calendars).where(inArray(schema.calendars.id, calendars.removedIds));
+      }
+    });
+    
+    await this.createAuditLog({
+      projectId,
+      entityType: 'scheduleVersion',
+      entityId: versionId,
+      action: 'Update',
+      performedBy: restoredBy,
+      notes: `Restored schedule to version ${version.versionNumber}: ${version.versionName || 'Auto-save'}`
+    });
+    
+    return true;
+  }
+
+  // Risk Analyses
+  async getRiskAnalysesByProject(projectId: string): Promise<RiskAnalysis[]> {
+    return await this.executor.select().from(schema.riskAnalyses)
+      .where(eq(schema.riskAnalyses.projectId, projectId))
+      .orderBy(desc(schema.riskAnalyses.createdAt));
+  }
+
+  async getRiskAnalysis(id: string): Promise<RiskAnalysis | undefined> {
+    const [analysis] = await this.executor.select().from(schema.riskAnalyses).where(eq(schema.riskAnalyses.id, id));
+    return analysis;
+  }
+
+  async createRiskAnalysis(analysis: InsertRiskAnalysis): Promise<RiskAnalysis> {
+    const [newAnalysis] = await this.executor.insert(schema.riskAnalyses).values(analysis).returning();
+    return newAnalysis;
+  }
+
+  // Transactions
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return await this.executor.transaction(async (tx) => work(new ScheduleDbStorage(tx)));
   }
 }
\ No newline at end of file
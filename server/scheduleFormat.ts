@@ -0,0 +1,52 @@
+export type ScheduleFormat = 'XER' | 'MSPDI' | 'PMXML' | 'CSV' | 'XLSX' | 'Unknown';
+
+// Root elements of the two XML schedule dialects; both are commonly saved as .xml
+const XML_ROOTS: Record<string, ScheduleFormat> = {
+  Project: 'MSPDI',
+  APIBusinessObjects: 'PMXML'
+};
+
+/**
+ * Detects a schedule file's format from its content, falling back to the
+ * extension only where the content is not conclusive. XML files are told apart
+ * by their root element rather than the extension, which is .xml for both
+ * Microsoft Project (MSPDI) and Primavera P6 (PMXML) exports.
+ */
+export function sniffScheduleFormat(content: string, filename = ''): ScheduleFormat {
+  const extension = filename.toLowerCase().split('.').pop();
+  const head = content.slice(0, 4096).replace(/^\uFEFF/, '').trimStart();
+
+  if (head.startsWith('ERMHDR') || head.includes('%T\tPROJECT')) return 'XER';
+
+  const root = xmlRootElement(head);
+  if (root) return XML_ROOTS[root] ?? 'Unknown';
+
+  // Spreadsheets arrive base64 encoded; "UEsDB" is the zip signature PK\x03\x04
+  if (extension === 'xlsx' || head.startsWith('UEsDB')) return 'XLSX';
+  if (extension === 'csv' || extension === 'txt') return 'CSV';
+  return 'Unknown';
+}
+
+/**
+ * Name of the first element after the XML declaration, comments and doctype,
+ * without any namespace prefix
+ */
+function xmlRootElement(content: string): string | null {
+  let rest = content.replace(/^\uFEFF/, '');
+  for (;;) {
+    rest = rest.trimStart();
+    if (rest.startsWith('<?')) {
+      rest = rest.slice(rest.indexOf('?>') + 2);
+    } else if (rest.startsWith('<!--')) {
+      rest = rest.slice(rest.indexOf('-->') + 3);
+    } else if (rest.startsWith('<!')) {
+      rest = rest.slice(rest.indexOf('>') + 1);
+    } else {
+      break;
+    }
+    if (rest.length === 0) return null;
+  }
+
+  const match = rest.match(/^<([A-Za-z_][\w.-]*:)?([A-Za-z_][\w.-]*)/);
+  return match ? match[2] : null;
+}
@@ -0,0 +1,396 @@
+import type { Project, Activity, Relationship, ResourceAssignment, Calendar, Baseline } from "@shared/schema";
+import { WorkCalendar } from "./workCalendar";
+
+export type HealthCheckStatus = 'Pass' | 'Fail' | 'NotApplicable';
+
+export interface HealthCheckOffender {
+  id: string;
+  activityId: string;
+  name: string;
+  detail: string;
+}
+
+export interface HealthCheckMetric {
+  number: number;
+  key: string;
+  name: string;
+  description: string;
+  threshold: string;
+  unit: 'percent' | 'count' | 'index' | 'test';
+  value: number | null;
+  count: number;
+  total: number;
+  status: HealthCheckStatus;
+  activities: HealthCheckOffender[];
+}
+
+export interface HealthCheckResult {
+  dataDate: string;
+  baselineId: string | null;
+  baselineName: string | null;
+  incompleteActivities: number;
+  relationships: number;
+  passed: number;
+  failed: number;
+  metrics: HealthCheckMetric[];
+}
+
+const HIGH_FLOAT_DAYS = 44;
+const HIGH_DURATION_DAYS = 44;
+const HARD_CONSTRAINTS = new Set(['MSO', 'MFO', 'SNLT', 'FNLT']);
+// Summary-type activities carry no logic of their own and are left out, as DCMA does
+const EXCLUDED_TYPES = new Set(['WBSSummary', 'LOE', 'Hammock']);
+
+/**
+ * DCMA 14-point schedule assessment.
+ * Checks run over incomplete, non-summary activities and the relationships
+ * into them; percentage checks fail above 5% (10% for relationship types).
+ * Baseline finishes for missed tasks and BEI come from the active baseline
+ * snapshot when there is one, otherwise from the activities' baseline fields.
+ * The critical path test walks the critical chain back from the forecast
+ * finish and passes when it reaches an activity with no open predecessors.
+ */
+export class ScheduleHealthCheck {
+  private calendars: Map<string, WorkCalendar>;
+  private defaultCalendar = new WorkCalendar();
+  private baselineFinishes = new Map<string, string>();
+  private tasks: Activity[];
+  private incomplete: Activity[];
+  private incompleteIds: Set<string>;
+
+  constructor(
+    private project: Project,
+    private activities: Activity[],
+    private relationships: Relationship[],
+    private assignments: ResourceAssignment[],
+    calendars: Calendar[],
+    private dataDate: string,
+    private baseline?: Baseline
+  ) {
+    this.calendars = new Map(calendars.map(cal => [cal.id, new WorkCalendar(cal)]));
+    this.tasks = activities.filter(a => !EXCLUDED_TYPES.has(a.type));
+    this.incomplete = this.tasks.filter(a => a.status !== 'Completed');
+    this.incompleteIds = new Set(this.incomplete.map(a => a.id));
+
+    const snapshotActivities = ((baseline?.snapshotData as any)?.activities || []) as Partial<Activity>[];
+    snapshotActivities.forEach(activity => {
+      if (activity.activityId && activity.earlyFinish) this.baselineFinishes.set(activity.activityId, activity.earlyFinish);
+    });
+  }
+
+  public analyze(): HealthCheckResult {
+    const metrics = [
+      this.checkLogic(),
+      this.checkLeads(),
+      this.checkLags(),
+      this.checkRelationshipTypes(),
+      this.checkHardConstraints(),
+      this.checkHighFloat(),
+      this.checkNegativeFloat(),
+      this.checkHighDuration(),
+      this.checkInvalidDates(),
+      this.checkResources(),
+      this.checkMissedTasks(),
+      this.checkCriticalPath(),
+      this.checkCPLI(),
+      this.checkBEI()
+    ];
+
+    return {
+      dataDate: this.dataDate,
+      baselineId: this.baseline?.id ?? null,
+      baselineName: this.baseline?.name ?? null,
+      incompleteActivities: this.incomplete.length,
+      relationships: this.openRelationships().length,
+      passed: metrics.filter(m => m.status === 'Pass').length,
+      failed: metrics.filter(m => m.status === 'Fail').length,
+      metrics
+    };
+  }
+
+  // 1. Incomplete activities without a predecessor or successor
+  private checkLogic(): HealthCheckMetric {
+    const hasPredecessor = new Set(this.relationships.map(r => r.successorId));
+    const hasSuccessor = new Set(this.relationships.map(r => r.predecessorId));
+    const offenders = this.incomplete
+      .filter(a => !hasPredecessor.has(a.id) || !hasSuccessor.has(a.id))
+      .map(a => this.offender(a, [
+        !hasPredecessor.has(a.id) ? 'No predecessor' : null,
+        !hasSuccessor.has(a.id) ? 'No successor' : null
+      ].filter(Boolean).join(', ')));
+
+    return this.percentMetric(1, 'logic', 'Logic', 'Incomplete activities missing a predecessor or a successor', 5, offenders, this.incomplete.length);
+  }
+
+  // 2. Relationships with a negative lag
+  private checkLeads(): HealthCheckMetric {
+    const leads = this.openRelationships().filter(r => (r.lag ?? 0) < 0);
+    return this.countMetric(2, 'leads', 'Leads', 'Relationships with a negative lag', this.relationshipOffenders(leads), this.openRelationships().length);
+  }
+
+  // 3. Relationships with a positive lag
+  private checkLags(): HealthCheckMetric {
+    const lags = this.openRelationships().filter(r => (r.lag ?? 0) > 0);
+    return this.percentMetric(3, 'lags', 'Lags', 'Relationships with a positive lag', 5, this.relationshipOffenders(lags), this.openRelationships().length);
+  }
+
+  // 4. Share of relationships that are not finish-to-start
+  private checkRelationshipTypes(): HealthCheckMetric {
+    const nonFS = this.openRelationships().filter(r => r.type !== 'FS');
+    return this.percentMetric(4, 'relationshipTypes', 'Relationship Types', 'Relationships other than finish-to-start', 10, this.relationshipOffenders(nonFS), this.openRelationships().length);
+  }
+
+  // 5. Constraints that override logic in both directions
+  private checkHardConstraints(): HealthCheckMetric {
+    const offenders = this.incomplete
+      .filter(a => a.constraintType && HARD_CONSTRAINTS.has(a.constraintType))
+      .map(a => this.offender(a, `${a.constraintType} ${a.constraintDate ?? ''}`.trim()));
+    return this.percentMetric(5, 'hardConstraints', 'Hard Constraints', 'Incomplete activities with MSO, MFO, SNLT or FNLT constraints', 5, offenders, this.incomplete.length);
+  }
+
+  // 6. Total float above 44 working days
+  private checkHighFloat(): HealthCheckMetric {
+    const offenders = this.incomplete
+      .filter(a => (a.totalFloat ?? 0) > HIGH_FLOAT_DAYS)
+      .map(a => this.offender(a, `Total float ${this.round(a.totalFloat ?? 0)}d`));
+    return this.percentMetric(6, 'highFloat', 'High Float', `Incomplete activities with more than ${HIGH_FLOAT_DAYS} days of total float`, 5, offenders, this.incomplete.length);
+  }
+
+  // 7. Total float below zero
+  private checkNegativeFloat(): HealthCheckMetric {
+    const offenders = this.incomplete
+      .filter(a => (a.totalFloat ?? 0) < 0)
+      .map(a => this.offender(a, `Total float ${this.round(a.totalFloat ?? 0)}d`));
+    return this.countMetric(7, 'negativeFloat', 'Negative Float', 'Incomplete activities with negative total float', offenders, this.incomplete.length);
+  }
+
+  // 8. Baseline (or original) durations above 44 working days
+  private checkHighDuration(): HealthCheckMetric {
+    const population = this.incomplete.filter(a => !this.isMilestone(a));
+    const offenders = population
+      .filter(a => (a.baselineDuration ?? a.originalDuration ?? 0) > HIGH_DURATION_DAYS)
+      .map(a => this.offender(a, `Duration ${this.round(a.baselineDuration ?? a.originalDuration ?? 0)}d`));
+    return this.percentMetric(8, 'highDuration', 'High Duration', `Incomplete activities longer than ${HIGH_DURATION_DAYS} days`, 5, offenders, population.length);
+  }
+
+  // 9. Forecasts before the data date or actuals after it
+  private checkInvalidDates(): HealthCheckMetric {
+    const offenders: HealthCheckOffender[] = [];
+    this.tasks.forEach(a => {
+      const problems: string[] = [];
+      if (a.actualStart && a.actualStart > this.dataDate) problems.push(`Actual start ${a.actualStart} after data date`);
+      if (a.actualFinish && a.actualFinish > this.dataDate) problems.push(`Actual finish ${a.actualFinish} after data date`);
+      if (!a.actualStart && a.earlyStart && a.earlyStart < this.dataDate) problems.push(`Forecast start ${a.earlyStart} before data date`);
+      if (!a.actualFinish && a.earlyFinish && a.earlyFinish < this.dataDate) problems.push(`Forecast finish ${a.earlyFinish} before data date`);
+      if (problems.length > 0) offenders.push(this.offender(a, problems.join(', ')));
+    });
+    return this.countMetric(9, 'invalidDates', 'Invalid Dates', 'Actual dates after, or forecast dates before, the data date', offenders, this.tasks.length);
+  }
+
+  // 10. Incomplete tasks with duration but no resources assigned
+  private checkResources(): HealthCheckMetric {
+    const resourced = new Set(this.assignments.map(a => a.activityId));
+    const population = this.incomplete.filter(a => !this.isMilestone(a) && (a.originalDuration ?? 0) > 0);
+    const offenders = population
+      .filter(a => !resourced.has(a.id))
+      .map(a => this.offender(a, 'No resources assigned'));
+    return this.countMetric(10, 'resources', 'Resources', 'Incomplete activities with duration but no resource assignments', offenders, population.length);
+  }
+
+  // 11. Activities baselined to finish by the data date that finished late or not at all
+  private checkMissedTasks(): HealthCheckMetric {
+    const due = this.baselineDue();
+    const offenders = due
+      .filter(({ activity, finish }) => !activity.actualFinish || activity.actualFinish > finish)
+      .map(({ activity, finish }) => this.offender(activity,
+        activity.actualFinish ? `Finished ${activity.actualFinish}, baseline ${finish}` : `Not finished, baseline ${finish}`
+      ));
+    if (due.length === 0) return this.notApplicable(11, 'missedTasks', 'Missed Tasks', 'Activities baselined to finish by the data date that finished late or not at all', '<= 5%', 'percent');
+    return this.percentMetric(11, 'missedTasks', 'Missed Tasks', 'Activities baselined to finish by the data date that finished late or not at all', 5, offenders, due.length);
+  }
+
+  // 12. A continuous critical chain from the forecast finish back to an open start
+  private checkCriticalPath(): HealthCheckMetric {
+    const description = 'Critical activities form an unbroken chain from the data date to the forecast finish';
+    const critical = this.incomplete.filter(a => a.isCritical);
+    const base = { number: 12, key: 'criticalPath', name: 'Critical Path Test', description, threshold: 'Pass', unit: 'test' as const };
+    if (critical.length === 0) {
+      return { ...base, value: 0, count: 0, total: 0, status: 'Fail', activities: [] };
+    }
+
+    const criticalIds = new Set(critical.map(a => a.id));
+    const byId = new Map(this.activities.map(a => [a.id, a]));
+    const finish = critical.reduce((latest, a) => ((a.earlyFinish ?? '') > (latest.earlyFinish ?? '') ? a : latest));
+
+    const reached = new Set<string>([finish.id]);
+    const queue = [finish.id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      this.relationships
+        .filter(r => r.successorId === current && criticalIds.has(r.predecessorId) && !reached.has(r.predecessorId))
+        .forEach(r => {
+          reached.add(r.predecessorId);
+          queue.push(r.predecessorId);
+        });
+    }
+
+    // The chain starts properly where an activity has no incomplete predecessors left
+    const chainStarts = Array.from(reached).filter(id =>
+      !this.relationships.some(r => r.successorId === id && this.incompleteIds.has(r.predecessorId))
+    );
+    const breaks = Array.from(reached).filter(id =>
+      !this.relationships.some(r => r.successorId === id && reached.has(r.predecessorId))
+    );
+    const passed = chainStarts.length > 0;
+
+    return {
+      ...base,
+      value: passed ? 1 : 0,
+      count: passed ? 0 : breaks.length,
+      total: reached.size,
+      status: passed ? 'Pass' : 'Fail',
+      activities: passed ? [] : breaks.map(id => this.offender(byId.get(id)!, 'Critical chain breaks here: driven by non-critical work'))
+    };
+  }
+
+  // 13. Critical path length index: (CPL + total float) / CPL
+  private checkCPLI(): HealthCheckMetric {
+    const description = 'Critical path length plus float to the contract finish, divided by the critical path length';
+    const finish = this.forecastFinish();
+    if (!finish) return this.notApplicable(13, 'cpli', 'CPLI', description, '>= 0.95', 'index');
+
+    const calendar = (finish.calendarId && this.calendars.get(finish.calendarId)) || this.defaultCalendar;
+    const finishDate = finish.earlyFinish!;
+    const length = this.workingDaysBetween(this.dataDate, finishDate, calendar);
+    if (length <= 0) return this.notApplicable(13, 'cpli', 'CPLI', description, '>= 0.95', 'index');
+
+    const contractFinish = this.project.contractFinishDate;
+    const float = contractFinish
+      ? (contractFinish >= finishDate
+        ? this.workingDaysBetween(finishDate, contractFinish, calendar) - 1
+        : -(this.workingDaysBetween(contractFinish, finishDate, calendar) - 1))
+      : Math.min(...this.incomplete.filter(a => a.isCritical).map(a => a.totalFloat ?? 0), finish.totalFloat ?? 0);
+
+    const cpli = Math.round((length + float) / length * 1000) / 1000;
+    return {
+      number: 13, key: 'cpli', name: 'CPLI', description, threshold: '>= 0.95', unit: 'index',
+      value: cpli,
+      count: 0,
+      total: length,
+      status: cpli >= 0.95 ? 'Pass' : 'Fail',
+      activities: cpli >= 0.95 ? [] : [this.offender(finish, `Forecast finish ${finishDate}${contractFinish ? `, contract finish ${contractFinish}` : ''}`)]
+    };
+  }
+
+  // 14. Baseline execution index: finished activities / activities baselined to finish by the data date
+  private checkBEI(): HealthCheckMetric {
+    const description = 'Activities finished by the data date divided by those baselined to finish by it';
+    const due = this.baselineDue();
+    if (due.length === 0) return this.notApplicable(14, 'bei', 'BEI', description, '>= 0.95', 'index');
+
+    const finished = this.tasks.filter(a => a.actualFinish && a.actualFinish <= this.dataDate).length;
+    const bei = Math.round(finished / due.length * 1000) / 1000;
+    const offenders = due
+      .filter(({ activity }) => !activity.actualFinish)
+      .map(({ activity, finish }) => this.offender(activity, `Not finished, baseline ${finish}`));
+    return {
+      number: 14, key: 'bei', name: 'BEI', description, threshold: '>= 0.95', unit: 'index',
+      value: bei,
+      count: offenders.length,
+      total: due.length,
+      status: bei >= 0.95 ? 'Pass' : 'Fail',
+      activities: offenders
+    };
+  }
+
+  private openRelationships(): Relationship[] {
+    return this.relationships.filter(r => this.incompleteIds.has(r.successorId));
+  }
+
+  private relationshipOffenders(relationships: Relationship[]): HealthCheckOffender[] {
+    const byId = new Map(this.activities.map(a => [a.id, a]));
+    return relationships
+      .filter(r => byId.has(r.successorId))
+      .map(r => {
+        const predecessor = byId.get(r.predecessorId);
+        const lag = r.lag ? ` ${r.lag > 0 ? '+' : ''}${this.round(r.lag)}d` : '';
+        return this.offender(byId.get(r.successorId)!, `${r.type}${lag} from ${predecessor?.activityId ?? 'unknown'}`);
+      });
+  }
+
+  private baselineDue(): { activity: Activity; finish: string }[] {
+    return this.tasks
+      .map(activity => ({
+        activity,
+        finish: this.baseline ? this.baselineFinishes.get(activity.activityId) : activity.baselineFinish
+      }))
+      .filter((entry): entry is { activity: Activity; finish: string } => !!entry.finish && entry.finish <= this.dataDate);
+  }
+
+  private forecastFinish(): Activity | null {
+    const dated = this.incomplete.filter(a => a.earlyFinish);
+    if (dated.length === 0) return null;
+    return dated.reduce((latest, a) => (a.earlyFinish! > latest.earlyFinish! ? a : latest));
+  }
+
+  // Working days from start to finish inclusive
+  private workingDaysBetween(start: string, finish: string, calendar: WorkCalendar): number {
+    let days = 0;
+    for (let current = new Date(start); current <= new Date(finish); current.setUTCDate(current.getUTCDate() + 1)) {
+      if (calendar.isWorkingDay(current)) days++;
+    }
+    return days;
+  }
+
+  private percentMetric(
+    number: number, key: string, name: string, description: string,
+    maxPercent: number, offenders: HealthCheckOffender[], total: number
+  ): HealthCheckMetric {
+    const value = total > 0 ? Math.round(offenders.length / total * 1000) / 10 : 0;
+    return {
+      number, key, name, description,
+      threshold: `<= ${maxPercent}%`,
+      unit: 'percent',
+      value,
+      count: offenders.length,
+      total,
+      status: value <= maxPercent ? 'Pass' : 'Fail',
+      activities: offenders
+    };
+  }
+
+  private countMetric(
+    number: number, key: string, name: string, description: string,
+    offenders: HealthCheckOffender[], total: number
+  ): HealthCheckMetric {
+    return {
+      number, key, name, description,
+      threshold: '0',
+      unit: 'count',
+      value: offenders.length,
+      count: offenders.length,
+      total,
+      status: offenders.length === 0 ? 'Pass' : 'Fail',
+      activities: offenders
+    };
+  }
+
+  private notApplicable(
+    number: number, key: string, name: string, description: string,
+    threshold: string, unit: HealthCheckMetric['unit']
+  ): HealthCheckMetric {
+    return { number, key, name, description, threshold, unit, value: null, count: 0, total: 0, status: 'NotApplicable', activities: [] };
+  }
+
+  private offender(activity: Activity, detail: string): HealthCheckOffender {
+    return { id: activity.id, activityId: activity.activityId, name: activity.name, detail };
+  }
+
+  private isMilestone(activity: Activity): boolean {
+    return activity.type === 'StartMilestone' || activity.type === 'FinishMilestone';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
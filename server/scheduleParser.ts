@@ -1,4 +1,6 @@
+import { XMLParser } from "fast-xml-parser";
 import { poe } from "./poeClient";
+import { sniffScheduleFormat } from "./scheduleFormat";
 import type { Activity } from "../client/src/components/ScheduleEditor";
 
 interface ParsedScheduleData {
@@ -223,6 +225,82 @@ export class MSProjectXMLParser {
   }
 }
 
+// Primavera P6 XML Parser (PMXML format, APIBusinessObjects root)
+export class PrimaveraXMLParser {
+  parse(content: string): ParsedScheduleData {
+    const parser = new XMLParser({
+      ignoreAttributes: true,
+      parseTagValue: false,
+      removeNSPrefix: true,
+      isArray: (name) => ['Project', 'WBS', 'Activity', 'Relationship', 'Calendar'].includes(name)
+    });
+    const root = parser.parse(content).APIBusinessObjects || {};
+    const project = (root.Project || [])[0] || {};
+    const calendars: any[] = [...(root.Calendar || []), ...(project.Calendar || [])];
+    const defaultCalendar = calendars.find(c => c.ObjectId === project.ActivityDefaultCalendarObjectId);
+    const hoursPerDay = (calendarId: string) =>
+      Number((calendars.find(c => c.ObjectId === calendarId) || defaultCalendar)?.HoursPerDay) || 8;
+    const wbsCodes = new Map<string, string>((project.WBS || []).map((w: any) => [w.ObjectId, w.Code || '']));
+    
+    const activities: Activity[] = (project.Activity || []).map((row: any, index: number) => {
+      const hours = hoursPerDay(row.CalendarObjectId);
+      return {
+        id: crypto.randomUUID(),
+        activityId: row.Id || `A${(index + 1).toString().padStart(3, '0')}`,
+        activityName: row.Name || 'Unnamed Activity',
+        duration: Number(row.PlannedDuration) / hours || 0,
+        predecessors: [],
+        successors: [],
+        status: this.mapStatus(row.Status),
+        percentComplete: Math.round((Number(row.PercentComplete) || 0) * 100), // P6 stores fractions
+        startDate: this.formatDate(row.StartDate || row.PlannedStartDate),
+        finishDate: this.formatDate(row.FinishDate || row.PlannedFinishDate),
+        wbs: wbsCodes.get(row.WBSObjectId) || '',
+        resources: [],
+        totalFloat: Number(row.TotalFloat) / hours || 0,
+        freeFloat: Number(row.FreeFloat) / hours || 0,
+        isCritical: row.IsCritical === 'true'
+      };
+    });
+    
+    // Relationships reference activities by ObjectId
+    const byObjectId = new Map<string, Activity>();
+    (project.Activity || []).forEach((row: any, index: number) => byObjectId.set(row.ObjectId, activities[index]));
+    (project.Relationship || []).forEach((link: any) => {
+      const predecessor = byObjectId.get(link.PredecessorActivityObjectId);
+      const successor = byObjectId.get(link.SuccessorActivityObjectId);
+      if (predecessor && successor) {
+        successor.predecessors.push(predecessor.activityId);
+        predecessor.successors.push(successor.activityId);
+      }
+    });
+    
+    return {
+      activities,
+      projectInfo: {
+        name: project.Name || project.Id,
+        startDate: this.formatDate(project.PlannedStartDate),
+        finishDate: this.formatDate(project.ScheduledFinishDate),
+        dataDate: this.formatDate(project.DataDate),
+        calendarName: defaultCalendar?.Name
+      },
+      summary: `Imported P6 XML schedule with ${activities.length} activities`
+    };
+  }
+  
+  private mapStatus(status: string): Activity['status'] {
+    switch (status) {
+      case 'Completed': return 'Completed';
+      case 'In Progress': return 'In Progress';
+      default: return 'Not Started';
+    }
+  }
+  
+  private formatDate(dateStr: string | undefined): string {
+    return dateStr && /^\d{4}-\d{2}-\d{2}/.test(dateStr) ? dateStr.slice(0, 10) : '';
+  }
+}
+
 // PDF Schedule Parser using AI
 export class PDFScheduleParser {
   async parse(content: string): Promise<ParsedScheduleData> {
@@ -402,6 +480,10 @@ export async function parseScheduleFile(
       case 'xml':
       case 'mspdi':
       case 'mpx':
+        // MS Project and P6 both export .xml; the root element tells them apart
+        if (sniffScheduleFormat(content, filename) === 'PMXML') {
+          return new PrimaveraXMLParser().parse(content);
+        }
         const xmlParser = new MSProjectXMLParser();
         return xmlParser.parse(content);
         
@@ -415,10 +497,13 @@ export async function parseScheduleFile(
         
       default:
         // Try to detect format from content
-        if (content.includes('ERMHDR') || content.includes('%T\tTASK')) {
+        const format = sniffScheduleFormat(content, filename);
+        if (format === 'XER' || content.includes('%T\tTASK')) {
           const xerParser = new XERParser();
           return xerParser.parse(content);
-        } else if (content.includes('<?xml') && content.includes('<Project')) {
+        } else if (format === 'PMXML') {
+          return new PrimaveraXMLParser().parse(content);
+        } else if (format === 'MSPDI') {
           const xmlParser = new MSProjectXMLParser();
           return xmlParser.parse(content);
         } else {
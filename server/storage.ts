@@ -10,9 +10,11 @@ import type {
   ActivityCode, InsertActivityCode,
   ActivityComment, InsertActivityComment, Attachment, InsertAttachment,
   AuditLog, InsertAuditLog, ProjectMember, InsertProjectMember,
-  ScheduleVersion, InsertScheduleVersion,
+  ScheduleVersion, InsertScheduleVersion, ScheduleSnapshot,
+  RiskAnalysis, InsertRiskAnalysis,
   User, UpsertUser
 } from "@shared/schema";
+import { ScheduleComparator } from "./scheduleComparator";
 
 export interface IStorage {
   // User operations (MANDATORY for Replit Auth)
@@ -43,12 +45,14 @@ export interface IStorage {
   
   // Relationships
   getRelationshipsByProject(projectId: string): Promise<Relationship[]>;
+  getRelationship(id: string): Promise<Relationship | undefined>;
   getRelationshipsForActivity(activityId: string): Promise<{
     predecessors: Relationship[];
     successors: Relationship[];
   }>;
   createRelationship(relationship: InsertRelationship): Promise<Relationship>;
   updateRelationship(id: string, updates: Partial<Relationship>): Promise<Relationship | undefined>;
+  bulkUpdateRelationships(updates: { id: string; updates: Partial<Relationship> }[]): Promise<void>;
   deleteRelationship(id: string): Promise<boolean>;
   
   // Calendars
@@ -87,10 +91,35 @@ export interface IStorage {
   updateTiaScenario(id: string, updates: Partial<TiaScenario>): Promise<TiaScenario | undefined>;
   deleteTiaScenario(id: string): Promise<boolean>;
   
+  // TIA Fragnets
+  getFragnetsByScenario(scenarioId: string): Promise<TiaFragnet[]>;
+  getFragnet(id: string): Promise<TiaFragnet | undefined>;
+  createFragnet(fragnet: InsertTiaFragnet): Promise<TiaFragnet>;
+  updateFragnet(id: string, updates: Partial<TiaFragnet>): Promise<TiaFragnet | undefined>;
+  deleteFragnet(id: string): Promise<boolean>;
+  
+  // TIA Delays
+  getDelaysByScenario(scenarioId: string): Promise<TiaDelay[]>;
+  createDelay(delay: InsertTiaDelay): Promise<TiaDelay>;
+  deleteDelay(id: string): Promise<boolean>;
+  
+  // TIA Results
+  getTiaResult(scenarioId: string): Promise<TiaResult | undefined>;
+  saveTiaResult(result: InsertTiaResult): Promise<TiaResult>;
+  
   // Schedule Updates
   getScheduleUpdatesByProject(projectId: string): Promise<ScheduleUpdate[]>;
   getScheduleUpdate(id: string): Promise<ScheduleUpdate | undefined>;
   createScheduleUpdate(update: InsertScheduleUpdate): Promise<ScheduleUpdate>;
+
+  // Import/Export History
+  getImportExportHistory(projectId: string): Promise<ImportExportHistory[]>;
+  createImportExportRecord(record: InsertImportExportHistory): Promise<ImportExportHistory>;
+  deleteImportExportRecord(id: string): Promise<boolean>;
+
+  // Activity Codes
+  getActivityCodesByProject(projectId: string): Promise<ActivityCode[]>;
+  createActivityCode(code: InsertActivityCode): Promise<ActivityCode>;
   
   // Activity Comments
   getActivityComments(activityId: string): Promise<ActivityComment[]>;
@@ -110,11 +139,22 @@ export interface IStorage {
   getProjectMembers(projectId: string): Promise<ProjectMember[]>;
   createProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
   updateProjectMember(id: string, updates: Partial<ProjectMember>): Promise<ProjectMember | undefined>;
+  getProjectMember(id: string): Promise<ProjectMember | undefined>;
+  getProjectMemberByCalendarToken(token: string): Promise<ProjectMember | undefined>;
   
   // Schedule Versions
   getScheduleVersions(projectId: string): Promise<ScheduleVersion[]>;
   createScheduleVersion(version: InsertScheduleVersion): Promise<ScheduleVersion>;
-  restoreScheduleVersion(versionId: string): Promise<boolean>;
+  getScheduleSnapshot(projectId: string): Promise<ScheduleSnapshot>;
+  restoreScheduleVersion(versionId: string, restoredBy?: string): Promise<boolean>;
+  
+  // Risk Analyses
+  getRiskAnalysesByProject(projectId: string): Promise<RiskAnalysis[]>;
+  getRiskAnalysis(id: string): Promise<RiskAnalysis | undefined>;
+  createRiskAnalysis(analysis: InsertRiskAnalysis): Promise<RiskAnalysis>;
+
+  // Transactions
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
 }
 
 export class MemStorage implements IStorage {
@@ -139,6 +179,7 @@ export class MemStorage implements IStorage {
   private auditLogs = new Map<string, AuditLog>();
   private projectMembers = new Map<string, ProjectMember>();
   private scheduleVersions = new Map<string, ScheduleVersion>();
+  private riskAnalyses = new Map<string, RiskAnalysis>();
   private users = new Map<string, User>();
 
   constructor() {
@@ -346,7 +387,10 @@ export class MemStorage implements IStorage {
         id: `rel-${index + 1}`,
         projectId: project.id,
         ...rel,
-        lagUnit: "days"
+        lagUnit: "days",
+        isDriving: false,
+        freeFloat: null,
+        totalFloat: null
       };
       this.relationships.set(relationship.id, relationship);
     });
@@ -504,6 +548,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.relationships.values()).filter(r => r.projectId === projectId);
   }
 
+  async getRelationship(id: string): Promise<Relationship | undefined> {
+    return this.relationships.get(id);
+  }
+
   async getRelationshipsForActivity(activityId: string): Promise<{
     predecessors: Relationship[];
     successors: Relationship[];
@@ -519,7 +567,10 @@ export class MemStorage implements IStorage {
     const id = randomUUID();
     const relationship: Relationship = {
       ...insertRelationship,
-      id
+      id,
+      isDriving: insertRelationship.isDriving ?? false,
+      freeFloat: insertRelationship.freeFloat ?? null,
+      totalFloat: insertRelationship.totalFloat ?? null
     };
     this.relationships.set(id, relationship);
     return relationship;
@@ -533,6 +584,12 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async bulkUpdateRelationships(updates: { id: string; updates: Partial<Relationship> }[]): Promise<void> {
+    for (const { id, updates: relationshipUpdates } of updates) {
+      await this.updateRelationship(id, relationshipUpdates);
+    }
+  }
+
   async deleteRelationship(id: string): Promise<boolean> {
     return this.relationships.delete(id);
   }
@@ -672,7 +729,8 @@ export class MemStorage implements IStorage {
         earlyFinish: activity.earlyFinish,
         budgetedCost: activity.budgetedCost,
         type: activity.type,
-        wbsId: activity.wbsId
+        wbsId: activity.wbsId,
+        calendarId: activity.calendarId
       })),
       relationships: relationships,
       capturedAt: new Date().toISOString(),
@@ -697,6 +755,12 @@ export class MemStorage implements IStorage {
   }
 
   async copyToActivityBaselines(activities: Activity[], baselineId: string): Promise<void> {
+    // Planned work is the sum of the planned units assigned; activities without any have none
+    const plannedWork = new Map<string, number>();
+    this.resourceAssignments.forEach(a => {
+      if (a.plannedUnits !== null) plannedWork.set(a.activityId, (plannedWork.get(a.activityId) ?? 0) + a.plannedUnits);
+    });
+    
     activities.forEach(activity => {
       const existing = this.activities.get(activity.id);
       if (existing) {
@@ -706,7 +770,7 @@ export class MemStorage implements IStorage {
           baselineFinish: activity.earlyFinish,
           baselineDuration: activity.originalDuration,
           baselineCost: activity.budgetedCost,
-          baselineWork: activity.budgetedCost // Simplified assumption
+          baselineWork: plannedWork.get(activity.id) ?? null
         });
       }
     });
@@ -828,9 +892,111 @@ export class MemStorage implements IStorage {
   }
 
   async deleteTiaScenario(id: string): Promise<boolean> {
+    // Remove dependent fragnets, delays and results with the scenario
+    this.tiaDelays.forEach((delay, delayId) => {
+      if (delay.scenarioId === id) this.tiaDelays.delete(delayId);
+    });
+    this.tiaFragnets.forEach((fragnet, fragnetId) => {
+      if (fragnet.scenarioId === id) this.tiaFragnets.delete(fragnetId);
+    });
+    this.tiaResults.forEach((result, resultId) => {
+      if (result.scenarioId === id) this.tiaResults.delete(resultId);
+    });
     return this.tiaScenarios.delete(id);
   }
 
+  // TIA Fragnets
+  async getFragnetsByScenario(scenarioId: string): Promise<TiaFragnet[]> {
+    return Array.from(this.tiaFragnets.values()).filter(f => f.scenarioId === scenarioId);
+  }
+
+  async getFragnet(id: string): Promise<TiaFragnet | undefined> {
+    return this.tiaFragnets.get(id);
+  }
+
+  async createFragnet(insertFragnet: InsertTiaFragnet): Promise<TiaFragnet> {
+    const id = randomUUID();
+    const fragnet: TiaFragnet = {
+      ...insertFragnet,
+      id,
+      description: insertFragnet.description ?? null,
+      insertionPoint: insertFragnet.insertionPoint ?? null,
+      activities: insertFragnet.activities ?? null,
+      relationships: insertFragnet.relationships ?? null,
+      linkedActivities: insertFragnet.linkedActivities ?? null
+    };
+    this.tiaFragnets.set(id, fragnet);
+    return fragnet;
+  }
+
+  async updateFragnet(id: string, updates: Partial<TiaFragnet>): Promise<TiaFragnet | undefined> {
+    const existing = this.tiaFragnets.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates };
+    this.tiaFragnets.set(id, updated);
+    return updated;
+  }
+
+  async deleteFragnet(id: string): Promise<boolean> {
+    this.tiaDelays.forEach(delay => {
+      if (delay.fragnetId === id) delay.fragnetId = null;
+    });
+    return this.tiaFragnets.delete(id);
+  }
+
+  // TIA Delays
+  async getDelaysByScenario(scenarioId: string): Promise<TiaDelay[]> {
+    return Array.from(this.tiaDelays.values()).filter(d => d.scenarioId === scenarioId);
+  }
+
+  async createDelay(insertDelay: InsertTiaDelay): Promise<TiaDelay> {
+    const id = randomUUID();
+    const delay: TiaDelay = {
+      ...insertDelay,
+      id,
+      fragnetId: insertDelay.fragnetId ?? null,
+      startDate: insertDelay.startDate ?? null,
+      endDate: insertDelay.endDate ?? null,
+      description: insertDelay.description ?? null,
+      evidence: insertDelay.evidence ?? null
+    };
+    this.tiaDelays.set(id, delay);
+    return delay;
+  }
+
+  async deleteDelay(id: string): Promise<boolean> {
+    return this.tiaDelays.delete(id);
+  }
+
+  // TIA Results
+  async getTiaResult(scenarioId: string): Promise<TiaResult | undefined> {
+    return Array.from(this.tiaResults.values())
+      .filter(r => r.scenarioId === scenarioId)
+      .sort((a, b) => b.analysisDate.getTime() - a.analysisDate.getTime())[0];
+  }
+
+  async saveTiaResult(insertResult: InsertTiaResult): Promise<TiaResult> {
+    // Only the latest analysis is kept per scenario
+    this.tiaResults.forEach((result, resultId) => {
+      if (result.scenarioId === insertResult.scenarioId) this.tiaResults.delete(resultId);
+    });
+    
+    const id = randomUUID();
+    const result: TiaResult = {
+      ...insertResult,
+      id,
+      impactedFinishDate: insertResult.impactedFinishDate ?? null,
+      unimpactedFinishDate: insertResult.unimpactedFinishDate ?? null,
+      netImpactDays: insertResult.netImpactDays ?? null,
+      criticalPathChanges: insertResult.criticalPathChanges ?? null,
+      floatErosion: insertResult.floatErosion ?? null,
+      affectedMilestones: insertResult.affectedMilestones ?? null,
+      analysisDate: new Date()
+    };
+    this.tiaResults.set(id, result);
+    return result;
+  }
+
   // Schedule Updates
   async getScheduleUpdatesByProject(projectId: string): Promise<ScheduleUpdate[]> {
     return Array.from(this.scheduleUpdates.values()).filter(u => u.projectId === projectId);
@@ -857,6 +1023,49 @@ export class MemStorage implements IStorage {
     return update;
   }
 
+  // Import/Export History
+  async getImportExportHistory(projectId: string): Promise<ImportExportHistory[]> {
+    return Array.from(this.importExportHistory.values())
+      .filter(r => r.projectId === projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createImportExportRecord(record: InsertImportExportHistory): Promise<ImportExportHistory> {
+    const id = randomUUID();
+    const newRecord: ImportExportHistory = {
+      ...record,
+      id,
+      fileUrl: record.fileUrl ?? null,
+      mappingRules: record.mappingRules ?? null,
+      conversionReport: record.conversionReport ?? null,
+      createdBy: record.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.importExportHistory.set(id, newRecord);
+    return newRecord;
+  }
+
+  async deleteImportExportRecord(id: string): Promise<boolean> {
+    return this.importExportHistory.delete(id);
+  }
+
+  // Activity Codes
+  async getActivityCodesByProject(projectId: string): Promise<ActivityCode[]> {
+    return Array.from(this.activityCodes.values()).filter(c => c.projectId === projectId);
+  }
+
+  async createActivityCode(code: InsertActivityCode): Promise<ActivityCode> {
+    const id = randomUUID();
+    const newCode: ActivityCode = {
+      ...code,
+      id,
+      description: code.description ?? null,
+      color: code.color ?? null
+    };
+    this.activityCodes.set(id, newCode);
+    return newCode;
+  }
+
   // Activity Comments
   async getActivityComments(activityId: string): Promise<ActivityComment[]> {
     return Array.from(this.activityComments.values())
@@ -996,6 +1205,7 @@ export class MemStorage implements IStorage {
       permissions: member.permissions ?? null,
       lastActiveAt: member.lastActiveAt ?? null,
       isActive: member.isActive ?? true,
+      calendarToken: null,
       joinedAt: new Date()
     };
     this.projectMembers.set(id, newMember);
@@ -1037,6 +1247,14 @@ export class MemStorage implements IStorage {
     return member;
   }
 
+  async getProjectMember(id: string): Promise<ProjectMember | undefined> {
+    return this.projectMembers.get(id);
+  }
+
+  async getProjectMemberByCalendarToken(token: string): Promise<ProjectMember | undefined> {
+    return Array.from(this.projectMembers.values()).find(m => m.calendarToken === token);
+  }
+
   // Schedule Versions
   async getScheduleVersions(projectId: string): Promise<ScheduleVersion[]> {
     return Array.from(this.scheduleVersions.values())
@@ -1046,13 +1264,19 @@ export class MemStorage implements IStorage {
 
   async createScheduleVersion(version: InsertScheduleVersion): Promise<ScheduleVersion> {
     const id = randomUUID();
+    const [previous] = await this.getScheduleVersions(version.projectId);
     const newVersion: ScheduleVersion = {
       ...version,
       id,
       versionName: version.versionName ?? null,
       description: version.description ?? null,
       isAutoSave: version.isAutoSave ?? false,
-      changesSummary: version.changesSummary ?? null,
+      changesSummary: version.changesSummary ?? (previous
+        ? new ScheduleComparator(
+            previous.snapshotData as ScheduleSnapshot,
+            version.snapshotData as ScheduleSnapshot
+          ).summarize()
+        : null),
       createdAt: new Date()
     };
     this.scheduleVersions.set(id, newVersion);
@@ -1070,23 +1294,117 @@ export class MemStorage implements IStorage {
     return newVersion;
   }
 
-  async restoreScheduleVersion(versionId: string): Promise<boolean> {
+  async getScheduleSnapshot(projectId: string): Promise<ScheduleSnapshot> {
+    const activities = await this.getActivitiesByProject(projectId);
+    const activityIds = new Set(activities.map(a => a.id));
+    
+    return structuredClone({
+      activities,
+      relationships: await this.getRelationshipsByProject(projectId),
+      wbs: await this.getWbsByProject(projectId),
+      calendars: await this.getCalendarsByProject(projectId),
+      resourceAssignments: Array.from(this.resourceAssignments.values())
+        .filter(a => activityIds.has(a.activityId))
+    });
+  }
+
+  async restoreScheduleVersion(versionId: string, restoredBy: string = 'System'): Promise<boolean> {
     const version = this.scheduleVersions.get(versionId);
     if (!version) return false;
     
-    // In a real implementation, this would restore the schedule from the snapshot
-    // For now, we'll just log the restoration
+    const projectId = version.projectId;
+    const snapshot = version.snapshotData as ScheduleSnapshot;
+    const [latest] = await this.getScheduleVersions(projectId);
+    
+    // Auto-save the current schedule first so the restore can be undone
+    await this.createScheduleVersion({
+      projectId,
+      versionNumber: (latest?.versionNumber ?? 0) + 1,
+      versionName: `Before restore to version ${version.versionNumber}`,
+      snapshotData: await this.getScheduleSnapshot(projectId),
+      createdBy: restoredBy,
+      isAutoSave: true
+    });
+    
+    // Replace the project's schedule data with the snapshot
+    const activityIds = new Set(
+      Array.from(this.activities.values()).filter(a => a.projectId === projectId).map(a => a.id)
+    );
+    Array.from(this.resourceAssignments.values())
+      .filter(a => activityIds.has(a.activityId))
+      .forEach(a => this.resourceAssignments.delete(a.id));
+    Array.from(this.relationships.values())
+      .filter(r => r.projectId === projectId)
+      .forEach(r => this.relationships.delete(r.id));
+    activityIds.forEach(id => this.activities.delete(id));
+    Array.from(this.wbs.values())
+      .filter(w => w.projectId === projectId)
+      .forEach(w => this.wbs.delete(w.id));
+    Array.from(this.calendars.values())
+      .filter(c => c.projectId === projectId)
+      .forEach(c => this.calendars.delete(c.id));
+    
+    snapshot.calendars.forEach(c => this.calendars.set(c.id, { ...c }));
+    snapshot.wbs.forEach(w => this.wbs.set(w.id, { ...w }));
+    snapshot.activities.forEach(a => this.activities.set(a.id, {
+      ...a,
+      createdAt: new Date(a.createdAt),
+      updatedAt: new Date(a.updatedAt)
+    }));
+    snapshot.relationships.forEach(r => this.relationships.set(r.id, { ...r }));
+    snapshot.resourceAssignments.forEach(a => this.resourceAssignments.set(a.id, { ...a }));
+    
     await this.createAuditLog({
-      projectId: version.projectId,
+      projectId,
       entityType: 'scheduleVersion',
       entityId: versionId,
       action: 'Update',
-      performedBy: 'System',
+      performedBy: restoredBy,
       notes: `Restored schedule to version ${version.versionNumber}: ${version.versionName || 'Auto-save'}`
     });
     
     return true;
   }
+
+  // Risk Analyses
+  async getRiskAnalysesByProject(projectId: string): Promise<RiskAnalysis[]> {
+    return Array.from(this.riskAnalyses.values())
+      .filter(a => a.projectId === projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getRiskAnalysis(id: string): Promise<RiskAnalysis | undefined> {
+    return this.riskAnalyses.get(id);
+  }
+
+  async createRiskAnalysis(analysis: InsertRiskAnalysis): Promise<RiskAnalysis> {
+    const id = randomUUID();
+    const newAnalysis: RiskAnalysis = {
+      ...analysis,
+      id,
+      name: analysis.name ?? null,
+      dataDate: analysis.dataDate ?? null,
+      createdAt: new Date()
+    };
+    this.riskAnalyses.set(id, newAnalysis);
+    return newAnalysis;
+  }
+
+  // Transactions
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Entries are replaced rather than mutated, so copies of the maps are enough to roll back
+    const saved = Object.entries(this)
+      .filter(([, value]) => value instanceof Map)
+      .map(([key, value]) => [key, new Map(value)] as const);
+    try {
+      return await work(this);
+    } catch (error) {
+      for (const [key, value] of saved) {
+        (this as any)[key] = value;
+      }
+      throw error;
+    }
+  }
 }
 
 // Import database storage
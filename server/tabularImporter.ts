@@ -0,0 +1,467 @@
+import { inflateRawSync } from "zlib";
+import { XMLParser } from "fast-xml-parser";
+import { CPMCalculator } from "./cpmCalculator";
+import type { IStorage } from "./storage";
+import type { TabularMapping, Wbs } from "@shared/schema";
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: { rowNumber: number; values: string[] }[];
+}
+
+export interface TabularRowResult {
+  rowNumber: number;
+  activityId: string;
+  name: string;
+  duration: number | null;
+  predecessors: string;
+  wbsPath: string[];
+  activityCodes: Record<string, string>;
+  customFields: Record<string, string>;
+  errors: string[];
+}
+
+export interface TabularConversionReport {
+  projectName: string;
+  imported: {
+    wbs: number;
+    activities: number;
+    relationships: number;
+    activityCodes: number;
+    customFieldValues: number;
+  };
+  skipped: {
+    activities: number;
+    relationships: number;
+  };
+  unmappedTables: string[]; // Columns that were not mapped to any field
+  warnings: string[];
+}
+
+const MAX_WARNINGS = 200;
+
+// Header names recognised when suggesting a mapping
+const HEADER_PATTERNS: { field: 'activityId' | 'name' | 'duration' | 'predecessors' | 'wbsPath'; pattern: RegExp }[] = [
+  { field: 'activityId', pattern: /^(activity|act|task)?\s*(id|code|no\.?|number)$/i },
+  { field: 'name', pattern: /^(activity|task)?\s*(name|description|title)$/i },
+  { field: 'duration', pattern: /^(original\s*|orig\.?\s*|planned\s*)?(duration|dur\.?)(\s*\(d(ays)?\))?$/i },
+  { field: 'predecessors', pattern: /^pred(ecessor)?s?$/i },
+  { field: 'wbsPath', pattern: /^wbs(\s*(path|name))?$/i }
+];
+
+/**
+ * Read every sheet of a CSV file or XLSX workbook into header + row tables.
+ * CSV content is plain text; XLSX content is the base64-encoded workbook.
+ */
+export function readSpreadsheet(content: string, filename: string): Map<string, SpreadsheetTable> {
+  const sheets = new Map<string, SpreadsheetTable>();
+  if (filename.toLowerCase().endsWith('.xlsx')) {
+    readXLSX(Buffer.from(content, 'base64')).forEach((cells, name) => sheets.set(name, toTable(cells)));
+  } else {
+    sheets.set(filename.replace(/\.[^.]+$/, '') || 'Sheet1', toTable(parseCSV(content)));
+  }
+  return sheets;
+}
+
+/**
+ * RFC 4180 CSV with quoted fields; the delimiter (comma, semicolon or tab) is
+ * taken from whichever appears most often in the first line
+ */
+export function parseCSV(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Cell text for each worksheet in workbook order. Dates stay as Excel serial numbers.
+ */
+export function readXLSX(buffer: Buffer): Map<string, string[][]> {
+  const files = unzip(buffer);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    isArray: (name) => ['sheet', 'Relationship', 'si', 'r', 'row', 'c'].includes(name)
+  });
+  const read = (path: string) => {
+    const file = files.get(path);
+    return file ? parser.parse(file.toString('utf8')) : null;
+  };
+  const text = (node: any): string => {
+    if (node === undefined || node === null) return '';
+    if (typeof node !== 'object') return String(node);
+    if (Array.isArray(node)) return node.map(text).join('');
+    return node['#text'] !== undefined ? String(node['#text']) : '';
+  };
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook?.workbook) throw new Error("Not an Excel workbook");
+
+  const targets = new Map<string, string>(
+    (read('xl/_rels/workbook.xml.rels')?.Relationships?.Relationship || []).map((rel: any) => [
+      rel['@_Id'],
+      String(rel['@_Target']).startsWith('/') ? String(rel['@_Target']).slice(1) : `xl/${rel['@_Target']}`
+    ])
+  );
+  const sharedStrings: string[] = (read('xl/sharedStrings.xml')?.sst?.si || []).map((si: any) =>
+    si.r ? si.r.map((run: any) => text(run.t)).join('') : text(si.t)
+  );
+
+  const sheets = new Map<string, string[][]>();
+  (workbook.workbook.sheets?.sheet || []).forEach((sheet: any, index: number) => {
+    const path = targets.get(sheet['@_r:id']) || `xl/worksheets/sheet${index + 1}.xml`;
+    const rows: string[][] = [];
+    (read(path)?.worksheet?.sheetData?.row || []).forEach((row: any) => {
+      const rowIndex = row['@_r'] ? Number(row['@_r']) - 1 : rows.length;
+      const values: string[] = [];
+      (row.c || []).forEach((cell: any) => {
+        const column = cell['@_r'] ? columnIndex(cell['@_r']) : values.length;
+        const type = cell['@_t'];
+        let value = text(cell.v);
+        if (type === 's') value = sharedStrings[Number(value)] ?? '';
+        else if (type === 'inlineStr') value = text(cell.is?.t ?? cell.is?.r?.map((run: any) => run.t));
+        else if (type === 'b') value = value === '1' ? 'TRUE' : 'FALSE';
+        values[column] = value;
+      });
+      rows[rowIndex] = Array.from(values, v => v ?? '');
+    });
+    sheets.set(String(sheet['@_name']), Array.from(rows, r => r ?? []));
+  });
+
+  return sheets;
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Minimal ZIP reader using the central directory; entries are stored or deflated
+ */
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not an Excel workbook");
+
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count && buffer.readUInt32LE(offset) === 0x02014b50; i++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, inflateRawSync(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+/**
+ * The first non-empty row holds the headers; blank and repeated headers are made unique
+ */
+function toTable(cells: string[][]): SpreadsheetTable {
+  const isBlank = (row: string[]) => row.every(v => v.trim() === '');
+  const headerIndex = cells.findIndex(row => !isBlank(row));
+  if (headerIndex < 0) return { headers: [], rows: [] };
+
+  const seen = new Map<string, number>();
+  const headers = cells[headerIndex].map((raw, index) => {
+    const header = raw.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  const rows = cells.slice(headerIndex + 1)
+    .map((values, index) => ({ rowNumber: headerIndex + index + 2, values: values.map(v => v.trim()) }))
+    .filter(row => !isBlank(row.values));
+
+  return { headers, rows };
+}
+
+/**
+ * Guess a mapping from common header names; unmatched fields are left out
+ */
+export function suggestMapping(headers: string[]): Partial<TabularMapping> {
+  const mapping: Partial<TabularMapping> = { wbsSeparator: '/', activityCodes: [], customFields: [] };
+  HEADER_PATTERNS.forEach(({ field, pattern }) => {
+    const header = headers.find(h => pattern.test(h.trim()));
+    if (header && !Object.values(mapping).includes(header)) mapping[field] = header;
+  });
+  return mapping;
+}
+
+/**
+ * Validates and imports spreadsheet rows as activities. Rows with errors are
+ * skipped; predecessors use the "A100SS+3" notation read by
+ * CPMCalculator.parsePredecessorString and may point at existing activities.
+ */
+export class TabularImporter {
+  private warnings: string[] = [];
+  private suppressedWarnings = 0;
+
+  constructor(private table: SpreadsheetTable, private mapping: TabularMapping) {}
+
+  /**
+   * Mapped columns that are not present in the file
+   */
+  public validateMapping(): string[] {
+    const { activityId, name, duration, predecessors, wbsPath, activityCodes, customFields } = this.mapping;
+    return [activityId, name, duration, predecessors, wbsPath, ...activityCodes, ...customFields]
+      .filter((column): column is string => !!column && !this.table.headers.includes(column))
+      .map(column => `Column "${column}" not found in file`);
+  }
+
+  public validate(existingActivityIds: string[]): TabularRowResult[] {
+    const column = (header: string | undefined) => header ? this.table.headers.indexOf(header) : -1;
+    const valueOf = (values: string[], header: string | undefined) => {
+      const index = column(header);
+      return index >= 0 ? values[index] ?? '' : '';
+    };
+
+    const existing = new Set(existingActivityIds);
+    const fileIds = this.table.rows.map(row => valueOf(row.values, this.mapping.activityId));
+    const known = Array.from(new Set([...existingActivityIds, ...fileIds.filter(Boolean)]))
+      .map(activityId => ({ id: activityId, activityId }));
+    const seen = new Set<string>();
+
+    return this.table.rows.map(row => {
+      const errors: string[] = [];
+      const activityId = valueOf(row.values, this.mapping.activityId);
+      const name = valueOf(row.values, this.mapping.name);
+
+      if (!activityId) {
+        errors.push('Activity ID is required');
+      } else if (seen.has(activityId)) {
+        errors.push(`Duplicate activity ID ${activityId}`);
+      } else if (existing.has(activityId)) {
+        errors.push(`Activity ${activityId} already exists in the project`);
+      }
+      seen.add(activityId);
+      if (!name) errors.push('Name is required');
+
+      let duration: number | null = null;
+      if (this.mapping.duration) {
+        duration = this.parseDuration(valueOf(row.values, this.mapping.duration));
+        if (duration === null) errors.push(`Duration "${valueOf(row.values, this.mapping.duration)}" is not a number of days`);
+      }
+
+      const predecessors = valueOf(row.values, this.mapping.predecessors);
+      if (predecessors) {
+        const links = CPMCalculator.parsePredecessorString(predecessors, activityId, known, errors);
+        if (links.some(link => link.predecessorId === activityId)) errors.push('Activity cannot be its own predecessor');
+      }
+
+      const wbsValue = valueOf(row.values, this.mapping.wbsPath);
+      const wbsPath = wbsValue ? wbsValue.split(this.mapping.wbsSeparator).map(s => s.trim()).filter(Boolean) : [];
+
+      const fields = (headers: string[]) => Object.fromEntries(headers
+        .map(header => [header, valueOf(row.values, header)])
+        .filter(([, value]) => value !== ''));
+
+      return {
+        rowNumber: row.rowNumber,
+        activityId,
+        name,
+        duration,
+        predecessors,
+        wbsPath,
+        activityCodes: fields(this.mapping.activityCodes),
+        customFields: fields(this.mapping.customFields),
+        errors
+      };
+    });
+  }
+
+  public async importInto(projectId: string, storage: IStorage, sourceName: string): Promise<TabularConversionReport> {
+    const existingActivities = await storage.getActivitiesByProject(projectId);
+    const results = this.validate(existingActivities.map(a => a.activityId));
+    const { activityId, name, duration, predecessors, wbsPath, activityCodes, customFields } = this.mapping;
+    const mapped = new Set([activityId, name, duration, predecessors, wbsPath, ...activityCodes, ...customFields]);
+
+    const report: TabularConversionReport = {
+      projectName: sourceName,
+      imported: { wbs: 0, activities: 0, relationships: 0, activityCodes: 0, customFieldValues: 0 },
+      skipped: { activities: 0, relationships: 0 },
+      unmappedTables: this.table.headers.filter(header => !mapped.has(header)),
+      warnings: this.warnings
+    };
+
+    const resolveWbs = await this.wbsResolver(projectId, storage, report);
+    const existingCodes = new Set((await storage.getActivityCodesByProject(projectId)).map(c => `${c.codeName}\u0000${c.codeValue}`));
+    const activityMap = new Map(existingActivities.map(a => [a.activityId, a.id]));
+    const imported: TabularRowResult[] = [];
+
+    for (const row of results) {
+      if (row.errors.length > 0) {
+        this.warn(`Row ${row.rowNumber}: ${row.errors.join('; ')}`);
+        report.skipped.activities++;
+        continue;
+      }
+
+      for (const [codeName, codeValue] of Object.entries(row.activityCodes)) {
+        const key = `${codeName}\u0000${codeValue}`;
+        if (existingCodes.has(key)) continue;
+        await storage.createActivityCode({ projectId, codeType: 'Project', codeName, codeValue });
+        existingCodes.add(key);
+        report.imported.activityCodes++;
+      }
+
+      const originalDuration = row.duration ?? 1;
+      const isMilestone = row.duration === 0;
+      const activity = await storage.createActivity({
+        projectId,
+        activityId: row.activityId,
+        name: row.name,
+        wbsId: row.wbsPath.length > 0 ? await resolveWbs(row.wbsPath) : null,
+        // Zero duration rows become milestones; those with logic leading in mark a finish
+        type: isMilestone ? (row.predecessors ? 'FinishMilestone' : 'StartMilestone') : 'Task',
+        originalDuration,
+        remainingDuration: originalDuration,
+        durationUnit: 'days',
+        percentComplete: 0,
+        status: 'NotStarted',
+        activityCodes: Object.keys(row.activityCodes).length > 0 ? row.activityCodes : null,
+        customFields: Object.keys(row.customFields).length > 0 ? row.customFields : null
+      });
+      activityMap.set(row.activityId, activity.id);
+      imported.push(row);
+      report.imported.activities++;
+      report.imported.customFieldValues += Object.keys(row.customFields).length;
+    }
+
+    // Logic is created once every row exists so links can point forward
+    const known = Array.from(activityMap.entries()).map(([code, id]) => ({ id, activityId: code }));
+    for (const row of imported) {
+      if (!row.predecessors) continue;
+      const errors: string[] = [];
+      const links = CPMCalculator.parsePredecessorString(row.predecessors, activityMap.get(row.activityId)!, known, errors);
+      errors.forEach(error => this.warn(`Row ${row.rowNumber}: ${error}; link skipped`));
+      report.skipped.relationships += errors.length;
+
+      for (const link of links) {
+        await storage.createRelationship({
+          projectId,
+          predecessorId: link.predecessorId,
+          successorId: link.successorId,
+          type: link.type,
+          lag: link.lag,
+          lagUnit: 'days'
+        });
+        report.imported.relationships++;
+      }
+    }
+
+    if (this.suppressedWarnings > 0) {
+      this.warnings.push(`${this.suppressedWarnings} further warnings omitted`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Finds WBS elements by name or code along a path, creating the missing ones
+   */
+  private async wbsResolver(projectId: string, storage: IStorage, report: TabularConversionReport) {
+    const elements: Wbs[] = await storage.getWbsByProject(projectId);
+    const cache = new Map<string, string>();
+
+    return async (path: string[]): Promise<string> => {
+      let parent: Wbs | undefined;
+      for (let depth = 0; depth < path.length; depth++) {
+        const key = path.slice(0, depth + 1).join('\u0000');
+        const cachedId = cache.get(key);
+        const segment = path[depth].toLowerCase();
+        const siblings = elements.filter(w => w.parentId === (parent?.id ?? null));
+
+        let element = cachedId
+          ? elements.find(w => w.id === cachedId)
+          : siblings.find(w => w.name.toLowerCase() === segment || w.code.toLowerCase() === segment);
+        if (!element) {
+          const sequenceNumber = siblings.length + 1;
+          element = await storage.createWbs({
+            projectId,
+            parentId: parent?.id ?? null,
+            code: parent ? `${parent.code}.${sequenceNumber}` : String(sequenceNumber),
+            name: path[depth],
+            level: (parent?.level ?? 0) + 1,
+            sequenceNumber
+          });
+          elements.push(element);
+          report.imported.wbs++;
+        }
+        cache.set(key, element.id);
+        parent = element;
+      }
+      return parent!.id;
+    };
+  }
+
+  // "5", "5d", "5 days" or "40h" (8 hour days)
+  private parseDuration(value: string): number | null {
+    const match = value.trim().match(/^(\d+(?:[.,]\d+)?)\s*(d|days?|h|hrs?|hours?)?$/i);
+    if (!match) return null;
+    const amount = Number(match[1].replace(',', '.'));
+    return match[2] && match[2].toLowerCase().startsWith('h') ? Math.round(amount / 8 * 100) / 100 : amount;
+  }
+
+  private warn(message: string) {
+    if (this.warnings.length < MAX_WARNINGS) {
+      this.warnings.push(message);
+    } else {
+      this.suppressedWarnings++;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import type {
+  Activity, Relationship, Calendar, TiaScenario, TiaFragnet, TiaDelay,
+  InsertTiaResult, FragnetActivity, FragnetRelationship, FragnetLink
+} from "@shared/schema";
+import { CPMCalculator, type CalculatedActivity } from "./cpmCalculator";
+
+interface ScheduleRun {
+  activities: CalculatedActivity[];
+  finishDate: Date | null;
+}
+
+interface FloatErosionEntry {
+  activityId: string;
+  name: string;
+  unimpactedFloat: number;
+  impactedFloat: number;
+  erosion: number;
+}
+
+interface MilestoneImpact {
+  activityId: string;
+  name: string;
+  unimpactedFinish: string | null;
+  impactedFinish: string | null;
+  slipDays: number;
+}
+
+/**
+ * Time Impact Analysis (prospective, impacted-as-planned):
+ * - Runs the unimpacted network at the scenario data date
+ * - Inserts fragnet activities/relationships and links them to the schedule
+ * - Reruns CPM and compares finish dates, critical path and float
+ */
+export class TIAAnalyzer {
+  constructor(
+    private activities: Activity[],
+    private relationships: Relationship[],
+    private calendars: Calendar[],
+    private scenario: TiaScenario,
+    private fragnets: TiaFragnet[],
+    private delays: TiaDelay[] = []
+  ) {}
+
+  /**
+   * Run the analysis and build a tia_results record for the scenario
+   */
+  public analyze(): InsertTiaResult {
+    const dataDate = new Date(this.scenario.dataDate);
+
+    const unimpacted = this.runSchedule(this.activities, this.relationships, dataDate);
+
+    const { activities, relationships } = this.buildImpactedNetwork();
+    const impacted = this.runSchedule(activities, relationships, dataDate);
+
+    const netImpactDays = unimpacted.finishDate && impacted.finishDate
+      ? this.daysBetween(unimpacted.finishDate, impacted.finishDate)
+      : 0;
+
+    return {
+      scenarioId: this.scenario.id,
+      unimpactedFinishDate: this.formatDate(unimpacted.finishDate),
+      impactedFinishDate: this.formatDate(impacted.finishDate),
+      netImpactDays,
+      criticalPathChanges: this.compareCriticalPaths(unimpacted, impacted),
+      floatErosion: this.calculateFloatErosion(unimpacted, impacted),
+      affectedMilestones: this.findAffectedMilestones(unimpacted, impacted)
+    };
+  }
+
+  /**
+   * Clone the project network and splice in every fragnet
+   */
+  private buildImpactedNetwork(): { activities: Activity[]; relationships: Relationship[] } {
+    const activities = this.activities.map(activity => ({ ...activity }));
+    const relationships = this.relationships.map(rel => ({ ...rel }));
+    const existingIds = new Set(activities.map(a => a.id));
+
+    this.fragnets.forEach(fragnet => {
+      const fragnetActivities = (fragnet.activities as FragnetActivity[] | null) || [];
+      const fragnetRelationships = (fragnet.relationships as FragnetRelationship[] | null) || [];
+      const links = (fragnet.linkedActivities as FragnetLink[] | null) || [];
+      const delay = this.delays.find(d => d.fragnetId === fragnet.id);
+
+      // Fragnet-local activity IDs are mapped to synthetic database IDs
+      const idMap = new Map<string, string>();
+      fragnetActivities.forEach(fragnetActivity => {
+        const id = `fragnet:${fragnet.id}:${fragnetActivity.activityId}`;
+        idMap.set(fragnetActivity.activityId, id);
+        activities.push(this.createFragnetActivity(id, fragnetActivity, fragnet, delay));
+      });
+
+      fragnetRelationships.forEach((rel, index) => {
+        const predecessorId = idMap.get(rel.predecessorId);
+        const successorId = idMap.get(rel.successorId);
+        if (!predecessorId || !successorId) return;
+        relationships.push({
+          id: `fragnet:${fragnet.id}:rel-${index}`,
+          projectId: this.scenario.projectId,
+          predecessorId,
+          successorId,
+          type: rel.type,
+          lag: rel.lag,
+          lagUnit: "days",
+          isDriving: false,
+          freeFloat: null,
+          totalFloat: null
+        });
+      });
+
+      links.forEach((link, index) => {
+        const fragnetActivityId = idMap.get(link.fragnetActivityId);
+        if (!fragnetActivityId || !existingIds.has(link.activityId)) return;
+        relationships.push({
+          id: `fragnet:${fragnet.id}:link-${index}`,
+          projectId: this.scenario.projectId,
+          predecessorId: link.direction === "predecessor" ? link.activityId : fragnetActivityId,
+          successorId: link.direction === "predecessor" ? fragnetActivityId : link.activityId,
+          type: link.type,
+          lag: link.lag,
+          lagUnit: "days",
+          isDriving: false,
+          freeFloat: null,
+          totalFloat: null
+        });
+      });
+    });
+
+    return { activities, relationships };
+  }
+
+  private createFragnetActivity(
+    id: string,
+    fragnetActivity: FragnetActivity,
+    fragnet: TiaFragnet,
+    delay?: TiaDelay
+  ): Activity {
+    const isMilestone = fragnetActivity.type !== "Task";
+    // A fragnet without its own durations falls back to the delay duration
+    const duration = isMilestone
+      ? 0
+      : fragnetActivity.originalDuration || delay?.delayDays || 0;
+
+    return {
+      id,
+      projectId: this.scenario.projectId,
+      activityId: fragnetActivity.activityId,
+      name: fragnetActivity.name,
+      wbsId: null,
+      type: fragnetActivity.type,
+      originalDuration: duration,
+      remainingDuration: duration,
+      actualDuration: null,
+      durationUnit: "days",
+      earlyStart: null,
+      earlyFinish: null,
+      lateStart: null,
+      lateFinish: null,
+      actualStart: null,
+      actualFinish: null,
+      baselineStart: null,
+      baselineFinish: null,
+      baselineDuration: null,
+      baselineCost: null,
+      baselineWork: null,
+      totalFloat: null,
+      freeFloat: null,
+      isCritical: false,
+      criticalityIndex: null,
+      percentComplete: 0,
+      physicalPercentComplete: null,
+      status: "NotStarted",
+      calendarId: fragnetActivity.calendarId ?? null,
+      constraintType: null,
+      constraintDate: null,
+      deadline: null,
+      activityCodes: null,
+      customFields: { fragnetId: fragnet.id, fragnetName: fragnet.name },
+      budgetedCost: null,
+      actualCost: null,
+      earnedValue: null,
+      notes: fragnet.description,
+      trade: null,
+      responsibility: null,
+      location: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  private runSchedule(activities: Activity[], relationships: Relationship[], dataDate: Date): ScheduleRun {
+    const calculator = new CPMCalculator(activities, relationships, this.calendars, dataDate);
+    const result = calculator.calculate();
+
+    return { activities: result.activities, finishDate: result.projectFinish };
+  }
+
+  private compareCriticalPaths(unimpacted: ScheduleRun, impacted: ScheduleRun) {
+    const before = new Set(unimpacted.activities.filter(a => a.calculatedIsCritical).map(a => a.id));
+    const after = impacted.activities.filter(a => a.calculatedIsCritical);
+    const afterIds = new Set(after.map(a => a.id));
+
+    const toEntry = (activity: CalculatedActivity) => ({
+      activityId: activity.activityId,
+      name: activity.name,
+      isFragnet: activity.id.startsWith("fragnet:")
+    });
+
+    return {
+      added: after.filter(a => !before.has(a.id)).map(toEntry),
+      removed: unimpacted.activities
+        .filter(a => a.calculatedIsCritical && !afterIds.has(a.id))
+        .map(toEntry),
+      unimpactedCount: before.size,
+      impactedCount: afterIds.size
+    };
+  }
+
+  private calculateFloatErosion(unimpacted: ScheduleRun, impacted: ScheduleRun): FloatErosionEntry[] {
+    const impactedById = new Map(impacted.activities.map(a => [a.id, a]));
+    const erosion: FloatErosionEntry[] = [];
+
+    unimpacted.activities.forEach(activity => {
+      const after = impactedById.get(activity.id);
+      if (!after || activity.calculatedTotalFloat === null || after.calculatedTotalFloat === null) return;
+
+      const consumed = activity.calculatedTotalFloat - after.calculatedTotalFloat;
+      if (consumed > 0) {
+        erosion.push({
+          activityId: activity.activityId,
+          name: activity.name,
+          unimpactedFloat: activity.calculatedTotalFloat,
+          impactedFloat: after.calculatedTotalFloat,
+          erosion: consumed
+        });
+      }
+    });
+
+    return erosion.sort((a, b) => b.erosion - a.erosion);
+  }
+
+  private findAffectedMilestones(unimpacted: ScheduleRun, impacted: ScheduleRun): MilestoneImpact[] {
+    const impactedById = new Map(impacted.activities.map(a => [a.id, a]));
+
+    return unimpacted.activities
+      .filter(a => a.type === "StartMilestone" || a.type === "FinishMilestone")
+      .map(milestone => {
+        const after = impactedById.get(milestone.id);
+        const slipDays = milestone.calculatedEarlyFinish && after?.calculatedEarlyFinish
+          ? this.daysBetween(milestone.calculatedEarlyFinish, after.calculatedEarlyFinish)
+          : 0;
+        return {
+          activityId: milestone.activityId,
+          name: milestone.name,
+          unimpactedFinish: this.formatDate(milestone.calculatedEarlyFinish),
+          impactedFinish: this.formatDate(after?.calculatedEarlyFinish ?? null),
+          slipDays
+        };
+      })
+      .filter(m => m.slipDays !== 0);
+  }
+
+  /**
+   * Calendar-day difference, as used for contract time extensions
+   */
+  private daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  private formatDate(date: Date | null): string | null {
+    return date ? date.toISOString().split('T')[0] : null;
+  }
+}
@@ -0,0 +1,158 @@
+import { wbsRollupSettingsSchema, type Wbs, type Activity, type WbsRollup, type WbsRollupSettings } from "@shared/schema";
+import { WorkCalendar } from "./workCalendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The WBS hierarchy of a project:
+ * - moves nodes between parents and renumbers outline codes, levels and
+ *   sequence numbers so the tree stays consistent
+ * - rolls dates, costs, progress and float up from activities to each node
+ *   according to the node's rollup settings
+ */
+export class WBSStructure {
+  private nodes: Map<string, Wbs>;
+  private children = new Map<string | null, Wbs[]>();
+  private calendar = new WorkCalendar();
+
+  constructor(wbs: Wbs[]) {
+    // Copies, so renumbering leaves the caller's records untouched
+    this.nodes = new Map(wbs.map(w => [w.id, { ...w }]));
+    this.nodes.forEach(node => {
+      // Nodes whose parent is missing are treated as top level
+      const parentId = node.parentId && this.nodes.has(node.parentId) ? node.parentId : null;
+      this.children.set(parentId, [...(this.children.get(parentId) ?? []), node]);
+    });
+    this.children.forEach(list => list.sort((a, b) => a.sequenceNumber - b.sequenceNumber || a.code.localeCompare(b.code)));
+  }
+
+  /**
+   * Why a node cannot be moved under a parent, or null when it can
+   */
+  public checkMove(id: string, parentId: string | null): string | null {
+    if (!this.nodes.has(id)) return "WBS not found";
+    if (parentId === null) return null;
+    if (!this.nodes.has(parentId)) return "Parent WBS is not in this project";
+    if (parentId === id || this.descendantsOf(id).includes(parentId)) {
+      return "A WBS node cannot be moved under itself or one of its children";
+    }
+    return null;
+  }
+
+  /**
+   * Move a node to a position among a new parent's children and renumber the tree.
+   * Returns the nodes whose parent, code, level or sequence number changed.
+   */
+  public move(id: string, parentId: string | null, position?: number): { id: string; updates: Partial<Wbs> }[] {
+    const node = this.nodes.get(id)!;
+    const oldParentId = node.parentId && this.nodes.has(node.parentId) ? node.parentId : null;
+    this.children.set(oldParentId, (this.children.get(oldParentId) ?? []).filter(n => n.id !== id));
+
+    const siblings = this.children.get(parentId) ?? [];
+    const index = position === undefined ? siblings.length : Math.min(position, siblings.length);
+    siblings.splice(index, 0, node);
+    this.children.set(parentId, siblings);
+
+    return this.renumber(id, parentId);
+  }
+
+  /**
+   * Rollups for every node, parents before children
+   */
+  public rollup(activities: Activity[]): WbsRollup[] {
+    const byWbs = new Map<string, Activity[]>();
+    activities
+      .filter(a => a.wbsId && a.type !== 'WBSSummary')
+      .forEach(a => byWbs.set(a.wbsId!, [...(byWbs.get(a.wbsId!) ?? []), a]));
+
+    return this.ordered().map(node => {
+      const settings = this.settingsOf(node);
+      const nodeIds = settings.includeChildren ? [node.id, ...this.descendantsOf(node.id)] : [node.id];
+      return this.summarize(node, nodeIds.flatMap(nodeId => byWbs.get(nodeId) ?? []), settings);
+    });
+  }
+
+  private summarize(node: Wbs, activities: Activity[], settings: WbsRollupSettings): WbsRollup {
+    const starts = activities.map(a => (a.actualStart ?? a.earlyStart)?.slice(0, 10)).filter((d): d is string => !!d);
+    const finishes = activities.map(a => (a.actualFinish ?? a.earlyFinish)?.slice(0, 10)).filter((d): d is string => !!d);
+    const start = starts.length > 0 ? starts.reduce((min, d) => d < min ? d : min) : null;
+    const finish = finishes.length > 0 ? finishes.reduce((max, d) => d > max ? d : max) : null;
+
+    const weightOf = (a: Activity) => settings.progressWeighting === 'Cost'
+      ? a.budgetedCost ?? 0
+      : settings.progressWeighting === 'Equal' ? 1 : a.originalDuration ?? 0;
+    const totalWeight = activities.reduce((sum, a) => sum + weightOf(a), 0);
+    const earned = activities.reduce((sum, a) => sum + weightOf(a) * (a.percentComplete ?? 0), 0);
+
+    const floats = activities.map(a => a.totalFloat).filter((f): f is number => f !== null && f !== undefined);
+
+    return {
+      wbsId: node.id,
+      parentId: node.parentId,
+      code: node.code,
+      name: node.name,
+      level: node.level,
+      activityCount: activities.length,
+      start,
+      finish,
+      duration: start && finish ? this.workingDays(start, finish) : 0,
+      budgetedCost: settings.rollupCosts ? activities.reduce((sum, a) => sum + (a.budgetedCost ?? 0), 0) : null,
+      actualCost: settings.rollupCosts ? activities.reduce((sum, a) => sum + (a.actualCost ?? 0), 0) : null,
+      percentComplete: totalWeight > 0 ? Math.round(earned / totalWeight * 10) / 10 : 0,
+      totalFloat: floats.length > 0 ? Math.min(...floats) : null,
+      isCritical: activities.some(a => a.isCritical),
+      settings
+    };
+  }
+
+  /**
+   * Outline codes follow the tree: top-level nodes 1, 2, ..., their children 1.1, 1.2, ...
+   */
+  private renumber(movedId: string, movedParentId: string | null): { id: string; updates: Partial<Wbs> }[] {
+    const changes: { id: string; updates: Partial<Wbs> }[] = [];
+
+    const visit = (parentId: string | null, parentCode: string | null, level: number) => {
+      (this.children.get(parentId) ?? []).forEach((node, index) => {
+        const code = parentCode ? `${parentCode}.${index + 1}` : String(index + 1);
+        const updates: Partial<Wbs> = {};
+        if (node.code !== code) updates.code = code;
+        if (node.level !== level) updates.level = level;
+        if (node.sequenceNumber !== index + 1) updates.sequenceNumber = index + 1;
+        if (node.id === movedId && node.parentId !== movedParentId) updates.parentId = movedParentId;
+
+        if (Object.keys(updates).length > 0) {
+          changes.push({ id: node.id, updates });
+          Object.assign(node, updates);
+        }
+        visit(node.id, code, level + 1);
+      });
+    };
+    visit(null, null, 1);
+
+    return changes;
+  }
+
+  private settingsOf(node: Wbs): WbsRollupSettings {
+    const parsed = wbsRollupSettingsSchema.safeParse(node.rollupSettings ?? {});
+    return parsed.success ? parsed.data : wbsRollupSettingsSchema.parse({});
+  }
+
+  private descendantsOf(id: string): string[] {
+    return (this.children.get(id) ?? []).flatMap(child => [child.id, ...this.descendantsOf(child.id)]);
+  }
+
+  private ordered(): Wbs[] {
+    const visit = (parentId: string | null): Wbs[] =>
+      (this.children.get(parentId) ?? []).flatMap(node => [node, ...visit(node.id)]);
+    return visit(null);
+  }
+
+  /**
+   * Working days on the standard calendar from the start of one date to the end of another
+   */
+  private workingDays(start: string, finish: string): number {
+    const from = new Date(`${start}T00:00:00Z`);
+    const to = new Date(new Date(`${finish}T00:00:00Z`).getTime() + DAY_MS);
+    return Math.round(this.calendar.workingMinutesBetween(from, to) / this.calendar.minutesPerDay * 100) / 100;
+  }
+}
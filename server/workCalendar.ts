@@ -0,0 +1,333 @@
+import type { Calendar, CalendarPreviewDay } from "@shared/schema";
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Give up looking for working time after this many days (e.g. a calendar with no working days)
+const MAX_SCAN_DAYS = 366 * 50;
+
+// Working period in minutes from midnight; overnight shifts end after 1440
+type Span = [number, number];
+
+interface DayPattern {
+  isWorking: boolean;
+  hours: number;
+  spans: Span[];
+  name?: string;
+}
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface ExceptionDay {
+  date: string;
+  isWorking: boolean;
+  hoursPerDay?: number;
+  workingTimes?: WorkingTime[];
+  name?: string;
+}
+
+/**
+ * Working-time lookup for a stored calendar.
+ * Accepts both workweek shapes found in the calendars table:
+ * - Array of { dayOfWeek, isWorking, hoursPerDay, workingTimes? }
+ * - Object keyed by weekday name: { monday: { working, hours: [8, 17] }, ... }
+ * Holidays are non-working; exceptions override both and may be partial days,
+ * given as workingTimes or just hoursPerDay. Working times whose finish is not
+ * after the start run past midnight (night shifts) and count toward the day
+ * they start on. Dates are handled as UTC wall-clock times.
+ */
+export class WorkCalendar {
+  private week: DayPattern[];
+  private holidays: Set<string>;
+  private exceptions: Map<string, DayPattern>;
+  private intervalCache = new Map<number, Span[]>();
+
+  constructor(calendar?: Partial<Pick<Calendar, 'standardWorkweek' | 'holidays' | 'exceptions'>> | null) {
+    this.week = WorkCalendar.parseWorkweek(calendar?.standardWorkweek);
+    this.holidays = new Set(WorkCalendar.parseJson<string[]>(calendar?.holidays) || []);
+    this.exceptions = new Map(
+      (WorkCalendar.parseJson<ExceptionDay[]>(calendar?.exceptions) || [])
+        .filter(ex => ex?.date)
+        .map(ex => [ex.date, { ...this.exceptionPattern(ex), name: ex.name }])
+    );
+  }
+
+  // Round-the-clock calendar, used for elapsed-time lags
+  public static allDay(): WorkCalendar {
+    return new WorkCalendar({
+      standardWorkweek: DAY_NAMES.map((_, day) => ({
+        dayOfWeek: day, isWorking: true, hoursPerDay: 24, workingTimes: [{ start: '00:00', finish: '00:00' }]
+      })),
+      holidays: [],
+      exceptions: []
+    });
+  }
+
+  /**
+   * Hours in a standard working day, used to convert day durations and float:
+   * the longest day of the standard week
+   */
+  public get hoursPerDay(): number {
+    const hours = Math.max(...this.week.map(day => day.hours));
+    return hours > 0 ? hours : 8;
+  }
+
+  public get minutesPerDay(): number {
+    return this.hoursPerDay * 60;
+  }
+
+  public isWorkingDay(date: Date): boolean {
+    return this.patternFor(date).isWorking;
+  }
+
+  public hoursOn(date: Date): number {
+    return this.patternFor(date).hours;
+  }
+
+  /**
+   * Shifts starting on a date and where they come from, for calendar previews
+   */
+  public describeDay(date: Date): CalendarPreviewDay {
+    const dateStr = date.toISOString().split('T')[0];
+    const pattern = this.patternFor(date);
+    const format = (minute: number) =>
+      `${String(Math.floor(minute / 60) % 24).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+    return {
+      date: dateStr,
+      isWorking: pattern.isWorking,
+      hours: pattern.hours,
+      workingTimes: pattern.spans.map(([start, finish]) => ({ start: format(start), finish: format(finish) })),
+      source: this.exceptions.has(dateStr) ? 'Exception' : this.holidays.has(dateStr) ? 'Holiday' : 'Standard',
+      ...(pattern.name ? { name: pattern.name } : {})
+    };
+  }
+
+  /**
+   * Working periods falling on a date, in minutes from midnight, including the
+   * tail of a night shift that started the day before
+   */
+  public workingIntervals(date: Date): Span[] {
+    const day = WorkCalendar.dayStart(date.getTime());
+    const cached = this.intervalCache.get(day);
+    if (cached) return cached;
+
+    const own = this.patternFor(new Date(day)).spans.map(([start, finish]): Span => [start, Math.min(finish, 1440)]);
+    const carried = this.patternFor(new Date(day - DAY_MS)).spans
+      .filter(([, finish]) => finish > 1440)
+      .map(([, finish]): Span => [0, finish - 1440]);
+
+    const merged: Span[] = [];
+    [...carried, ...own]
+      .filter(([start, finish]) => finish > start)
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([start, finish]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) last[1] = Math.max(last[1], finish);
+        else merged.push([start, finish]);
+      });
+
+    this.intervalCache.set(day, merged);
+    return merged;
+  }
+
+  /**
+   * Earliest working moment at or after the instant. An instant at the end of
+   * a working period moves on to the next period, so starts never sit on a finish.
+   */
+  public nextWorkingTime(instant: Date): Date {
+    let day = WorkCalendar.dayStart(instant.getTime());
+    let minute = (instant.getTime() - day) / MINUTE_MS;
+    for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned++) {
+      for (const [start, finish] of this.workingIntervals(new Date(day))) {
+        if (minute < finish) return this.at(day, Math.max(start, minute));
+      }
+      day += DAY_MS;
+      minute = 0;
+    }
+    return new Date(instant);
+  }
+
+  /**
+   * Latest working moment at or before the instant. An instant at the start of
+   * a working period moves back to the end of the previous one.
+   */
+  public previousWorkingTime(instant: Date): Date {
+    let day = WorkCalendar.dayStart(instant.getTime());
+    let minute = (instant.getTime() - day) / MINUTE_MS;
+    for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned++) {
+      const intervals = this.workingIntervals(new Date(day));
+      for (let i = intervals.length - 1; i >= 0; i--) {
+        const [start, finish] = intervals[i];
+        if (minute > start) return this.at(day, Math.min(finish, minute));
+      }
+      day -= DAY_MS;
+      minute = 1440;
+    }
+    return new Date(instant);
+  }
+
+  /**
+   * Moves the instant by a number of working minutes, backwards when negative.
+   * Forward moves end at the close of a working period rather than the start
+   * of the next, and backward moves the other way round.
+   */
+  public addWorkingMinutes(instant: Date, minutes: number): Date {
+    if (minutes === 0) return new Date(instant);
+    const forward = minutes > 0;
+    let remaining = Math.abs(minutes);
+    let day = WorkCalendar.dayStart(instant.getTime());
+    let minute = (instant.getTime() - day) / MINUTE_MS;
+
+    for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned++) {
+      const intervals = this.workingIntervals(new Date(day));
+      if (forward) {
+        for (const [start, finish] of intervals) {
+          if (minute >= finish) continue;
+          const from = Math.max(start, minute);
+          if (remaining <= finish - from) return this.at(day, from + remaining);
+          remaining -= finish - from;
+        }
+        day += DAY_MS;
+        minute = 0;
+      } else {
+        for (let i = intervals.length - 1; i >= 0; i--) {
+          const [start, finish] = intervals[i];
+          if (minute <= start) continue;
+          const to = Math.min(finish, minute);
+          if (remaining <= to - start) return this.at(day, to - remaining);
+          remaining -= to - start;
+        }
+        day -= DAY_MS;
+        minute = 1440;
+      }
+    }
+    return new Date(instant);
+  }
+
+  /**
+   * Working minutes between two instants; negative when `to` is before `from`
+   */
+  public workingMinutesBetween(from: Date, to: Date): number {
+    if (to < from) return -this.workingMinutesBetween(to, from);
+    let total = 0;
+    for (let day = WorkCalendar.dayStart(from.getTime()); day < to.getTime(); day += DAY_MS) {
+      const lower = Math.max(0, (from.getTime() - day) / MINUTE_MS);
+      const upper = Math.min(1440, (to.getTime() - day) / MINUTE_MS);
+      this.workingIntervals(new Date(day)).forEach(([start, finish]) => {
+        total += Math.max(0, Math.min(finish, upper) - Math.max(start, lower));
+      });
+    }
+    return total;
+  }
+
+  private patternFor(date: Date): DayPattern {
+    const dateStr = date.toISOString().split('T')[0];
+    const exception = this.exceptions.get(dateStr);
+    if (exception) return exception;
+    if (this.holidays.has(dateStr)) return { isWorking: false, hours: 0, spans: [] };
+    return this.week[date.getUTCDay()];
+  }
+
+  /**
+   * Partial-day exceptions without working times take the first hours of the
+   * standard working day
+   */
+  private exceptionPattern(ex: ExceptionDay): DayPattern {
+    if (!ex.isWorking) return { isWorking: false, hours: 0, spans: [] };
+
+    const spans = WorkCalendar.parseTimes(ex.workingTimes);
+    if (spans.length > 0) return WorkCalendar.pattern(spans);
+
+    const weekday = new Date(`${ex.date}T00:00:00Z`).getUTCDay();
+    const template = this.week[weekday].isWorking
+      ? this.week[weekday].spans
+      : (this.week.find(day => day.isWorking)?.spans ?? WorkCalendar.defaultSpans(8));
+    if (ex.hoursPerDay === undefined || ex.hoursPerDay === null) return WorkCalendar.pattern(template);
+
+    const trimmed: Span[] = [];
+    let remaining = ex.hoursPerDay * 60;
+    template.forEach(([start, finish]) => {
+      if (remaining <= 0) return;
+      const length = Math.min(finish - start, remaining);
+      trimmed.push([start, start + length]);
+      remaining -= length;
+    });
+    if (remaining > 0 && trimmed.length > 0) trimmed[trimmed.length - 1][1] += remaining;
+    return WorkCalendar.pattern(trimmed.length > 0 ? trimmed : WorkCalendar.defaultSpans(ex.hoursPerDay));
+  }
+
+  private static pattern(spans: Span[]): DayPattern {
+    const hours = spans.reduce((total, [start, finish]) => total + (finish - start), 0) / 60;
+    return { isWorking: hours > 0, hours, spans };
+  }
+
+  private static parseTimes(times: WorkingTime[] | undefined): Span[] {
+    if (!Array.isArray(times)) return [];
+    return times
+      .map((time): Span | null => {
+        const start = WorkCalendar.parseMinutes(time?.start);
+        let finish = WorkCalendar.parseMinutes(time?.finish);
+        if (start === null || finish === null) return null;
+        // 00:00 closes the day; any other finish at or before the start runs overnight
+        if (finish <= start) finish += 1440;
+        return [start, finish];
+      })
+      .filter((span): span is Span => span !== null && span[1] > span[0])
+      .sort((a, b) => a[0] - b[0]);
+  }
+
+  private static parseMinutes(value: string | undefined): number | null {
+    const match = typeof value === 'string' ? value.match(/^(\d{1,2}):(\d{2})/) : null;
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+  }
+
+  // Hours starting at 08:00 with a one hour break after four, as the exporters write them
+  private static defaultSpans(hours: number): Span[] {
+    if (hours <= 0) return [];
+    if (hours <= 4) return [[480, 480 + hours * 60]];
+    if (hours <= 15) return [[480, 720], [780, 780 + (hours - 4) * 60]];
+    return [[Math.max(0, 1440 - hours * 60), 1440]];
+  }
+
+  private at(day: number, minute: number): Date {
+    return new Date(day + Math.round(minute * MINUTE_MS));
+  }
+
+  private static dayStart(time: number): number {
+    return Math.floor(time / DAY_MS) * DAY_MS;
+  }
+
+  private static parseJson<T>(value: unknown): T | null {
+    if (value === null || value === undefined) return null;
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+
+  private static parseWorkweek(value: unknown): DayPattern[] {
+    // Standard Monday-Friday, 8 hours per day
+    const week = DAY_NAMES.map((_, day) => WorkCalendar.pattern(day >= 1 && day <= 5 ? WorkCalendar.defaultSpans(8) : []));
+    const workweek = WorkCalendar.parseJson<any>(value);
+    if (!workweek) return week;
+
+    if (Array.isArray(workweek)) {
+      workweek.forEach(day => {
+        if (typeof day?.dayOfWeek !== 'number') return;
+        const spans = WorkCalendar.parseTimes(day.workingTimes);
+        week[day.dayOfWeek] = !day.isWorking
+          ? WorkCalendar.pattern([])
+          : WorkCalendar.pattern(spans.length > 0 ? spans : WorkCalendar.defaultSpans(day.hoursPerDay ?? 8));
+      });
+    } else {
+      DAY_NAMES.forEach((name, day) => {
+        const pattern = workweek[name];
+        if (!pattern) return;
+        const [from, to] = Array.isArray(pattern.hours) && pattern.hours.length === 2 ? pattern.hours : [8, 16];
+        week[day] = WorkCalendar.pattern(pattern.working ? [[from * 60, to * 60]] : []);
+      });
+    }
+
+    return week;
+  }
+}
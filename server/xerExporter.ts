@@ -0,0 +1,707 @@
+import type {
+  Project, Activity, Relationship, Wbs, Calendar, Resource, ResourceAssignment, ActivityCode
+} from "@shared/schema";
+
+export interface XERExportData {
+  project: Project;
+  activities: Activity[];
+  relationships: Relationship[];
+  wbs: Wbs[];
+  calendars: Calendar[];
+  resources: Resource[];
+  assignments: ResourceAssignment[];
+  activityCodes: ActivityCode[];
+  exportedBy?: string;
+}
+
+export interface XERExportReport {
+  wbs: number;
+  calendars: number;
+  resources: number;
+  activities: number;
+  relationships: number;
+  resourceAssignments: number;
+  activityCodes: number;
+  customFieldValues: number;
+  warnings: string[];
+}
+
+interface DayHours {
+  isWorking: boolean;
+  hours: number;
+  workingTimes: { start: string; finish: string }[];
+}
+
+interface ExportCalendar {
+  xerId: number;
+  name: string;
+  type: string;
+  isProject: boolean;
+  week: DayHours[];
+  exceptions: { date: string; workingTimes: { start: string; finish: string }[] }[];
+  hoursPerDay: number;
+}
+
+const PROJECT_ID = 1;
+
+// Inside clndr_data P6 replaces line breaks with a pair of DEL characters
+const CLNDR_NEWLINE = '\x7f\x7f';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const TASK_TYPES: Record<string, string> = {
+  Task: 'TT_Task',
+  StartMilestone: 'TT_Mile',
+  FinishMilestone: 'TT_FinMile',
+  LOE: 'TT_LOE',
+  Hammock: 'TT_LOE',
+  WBSSummary: 'TT_WBS'
+};
+
+const TASK_STATUSES: Record<string, string> = {
+  NotStarted: 'TK_NotStart',
+  InProgress: 'TK_Active',
+  Completed: 'TK_Complete'
+};
+
+const CONSTRAINT_TYPES: Record<string, string> = {
+  SNET: 'CS_MSOA',
+  SNLT: 'CS_MSOB',
+  FNET: 'CS_MEOA',
+  FNLT: 'CS_MEOB',
+  MSO: 'CS_MSO',
+  MFO: 'CS_MEO'
+};
+
+const RESOURCE_TYPES: Record<string, string> = {
+  Labor: 'RT_Labor',
+  Equipment: 'RT_Equip',
+  Material: 'RT_Mat'
+};
+
+/**
+ * Writes a project as a Primavera P6 XER file.
+ * Day-based durations, floats and lags are written as hours using the hours per
+ * day of the activity's calendar, matching what XERImporter reads back, so a P6
+ * file survives an import/export round trip with its logic and dates intact.
+ */
+export class XERExporter {
+  private lines: string[] = [];
+  private calendars = new Map<string, ExportCalendar>();
+  private defaultCalendar!: ExportCalendar;
+  private wbsIds = new Map<string, number>();
+  private taskIds = new Map<string, number>();
+  private resourceIds = new Map<string, number>();
+  private report: XERExportReport = {
+    wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+    resourceAssignments: 0, activityCodes: 0, customFieldValues: 0, warnings: []
+  };
+
+  constructor(private data: XERExportData) {}
+
+  public export(): { content: string; report: XERExportReport } {
+    const { project } = this.data;
+    const today = this.formatDateTime(new Date().toISOString().split('T')[0], '00:00');
+
+    this.lines.push([
+      'ERMHDR', '19.12', today.slice(0, 10), 'Project', this.data.exportedBy || 'admin',
+      this.data.exportedBy || 'admin', 'dbxDatabaseNoName', 'Project Management', 'USD'
+    ].join('\t'));
+
+    this.writeTable('CURRTYPE',
+      ['curr_id', 'decimal_digit_cnt', 'curr_symbol', 'decimal_symbol', 'digit_group_symbol', 'pos_curr_fmt_type', 'neg_curr_fmt_type', 'curr_type', 'curr_short_name', 'group_digit_cnt', 'base_exch_rate'],
+      [[1, 2, '$', '.', ',', '#1.1', '(#1.1)', 'US Dollar', 'USD', 3, 1]]
+    );
+
+    this.prepareCalendars();
+    this.writeProject(project);
+    this.writeCalendars();
+    this.writeWbs(project);
+    this.writeResources();
+    const codeRows = this.writeActivityCodeTypes();
+    const udfTypes = this.writeUdfTypes();
+    this.writeTasks();
+    this.writeRelationships();
+    this.writeAssignments();
+    this.writeTaskCodes(codeRows);
+    this.writeUdfValues(udfTypes);
+
+    this.lines.push('%E');
+    return { content: this.lines.join('\r\n') + '\r\n', report: this.report };
+  }
+
+  private writeProject(project: Project) {
+    const starts = this.data.activities.map(a => a.actualStart || a.earlyStart).filter(Boolean) as string[];
+    const finishes = this.data.activities.map(a => a.actualFinish || a.earlyFinish).filter(Boolean) as string[];
+    const planStart = project.contractStartDate || starts.sort()[0] || project.dataDate;
+    const scheduledFinish = finishes.sort()[finishes.length - 1] || project.contractFinishDate;
+    const dataDate = project.dataDate || planStart;
+
+    this.writeTable('PROJECT',
+      ['proj_id', 'proj_short_name', 'project_flag', 'clndr_id', 'plan_start_date', 'plan_end_date', 'scd_end_date', 'last_recalc_date', 'def_duration_type', 'def_complete_pct_type', 'task_code_base', 'task_code_step', 'def_task_type', 'sum_base_proj_id'],
+      [[
+        PROJECT_ID,
+        this.shortName(project.name, 40),
+        'Y',
+        this.defaultCalendar.xerId,
+        this.formatDateTime(planStart, '08:00'),
+        this.formatDateTime(project.contractFinishDate, '17:00'),
+        this.formatDateTime(scheduledFinish, '17:00'),
+        this.formatDateTime(dataDate, '08:00'),
+        'DT_FixedDrtn',
+        'CP_Phys',
+        1000,
+        10,
+        'TT_Task',
+        ''
+      ]]
+    );
+  }
+
+  /**
+   * Normalize every calendar the project uses into weekly hours and exception days
+   */
+  private prepareCalendars() {
+    const usedIds = new Set<string>([
+      ...this.data.activities.map(a => a.calendarId),
+      ...this.data.resources.map(r => r.calendarId)
+    ].filter((id): id is string => !!id));
+
+    let nextId = 1;
+    this.data.calendars
+      .filter(cal => cal.projectId === this.data.project.id || usedIds.has(cal.id))
+      .forEach(cal => {
+        const week = this.normalizeWeek(cal.standardWorkweek);
+        this.calendars.set(cal.id, {
+          xerId: nextId++,
+          name: cal.name,
+          type: cal.type === 'Resource' ? 'CA_Rsrc' : cal.projectId ? 'CA_Project' : 'CA_Base',
+          isProject: !!cal.projectId && cal.type !== 'Resource',
+          week,
+          exceptions: this.normalizeExceptions(cal, week),
+          hoursPerDay: Math.max(0, ...week.map(d => d.hours)) || 8
+        });
+      });
+
+    const projectCalendar = Array.from(this.calendars.values()).find(c => c.type !== 'CA_Rsrc');
+    if (projectCalendar) {
+      this.defaultCalendar = projectCalendar;
+    } else {
+      // Activities without a calendar still need one in P6
+      const week = this.normalizeWeek(null);
+      this.defaultCalendar = {
+        xerId: nextId,
+        name: 'Standard 5 Day Workweek',
+        type: 'CA_Base',
+        isProject: false,
+        week,
+        exceptions: [],
+        hoursPerDay: 8
+      };
+      this.calendars.set('default', this.defaultCalendar);
+    }
+  }
+
+  private writeCalendars() {
+    const rows = Array.from(this.calendars.values()).map(cal => [
+      cal.xerId,
+      cal === this.defaultCalendar ? 'Y' : 'N',
+      cal.name,
+      cal.isProject ? PROJECT_ID : '',
+      '',
+      cal.type,
+      cal.hoursPerDay,
+      cal.week.reduce((sum, d) => sum + d.hours, 0),
+      this.buildCalendarData(cal)
+    ]);
+    this.report.calendars = rows.length;
+
+    this.writeTable('CALENDAR',
+      ['clndr_id', 'default_flag', 'clndr_name', 'proj_id', 'base_clndr_id', 'clndr_type', 'day_hr_cnt', 'week_hr_cnt', 'clndr_data'],
+      rows
+    );
+  }
+
+  /**
+   * Build clndr_data: days of week 1 (Sunday) to 7 (Saturday), then exceptions by Excel serial date
+   */
+  private buildCalendarData(cal: ExportCalendar): string {
+    const node = (key: string | number, params: string, children: string[] = []) =>
+      `(0||${key}(${params})(${children.length ? CLNDR_NEWLINE + children.join(CLNDR_NEWLINE) : ''}))`;
+    const ranges = (times: { start: string; finish: string }[]) =>
+      times.map((t, index) => node(index, `s|${t.start}|f|${t.finish}`));
+
+    const days = cal.week.map((day, index) => node(index + 1, '', day.isWorking ? ranges(day.workingTimes) : []));
+    const exceptions = cal.exceptions.map((ex, index) =>
+      node(index, `d|${this.toExcelSerial(ex.date)}`, ranges(ex.workingTimes))
+    );
+
+    return node('CalendarData', '', [
+      node('DaysOfWeek', '', days),
+      node('VIEW', 'ShowTotal|Y'),
+      node('Exceptions', '', exceptions)
+    ]);
+  }
+
+  /**
+   * PROJWBS with the project node at the root; P6 builds WBS codes from the
+   * short names along the path, so each element exports its last code segment
+   */
+  private writeWbs(project: Project) {
+    const rows: (string | number)[][] = [[
+      PROJECT_ID, PROJECT_ID, 1, 'Y', 'WS_Open', this.shortName(project.name, 40), project.name, ''
+    ]];
+    const wbsMap = new Map(this.data.wbs.map(w => [w.id, w]));
+
+    let nextId = PROJECT_ID + 1;
+    const visit = (parentId: string | null, parentXerId: number) => {
+      this.data.wbs
+        .filter(w => (w.parentId && wbsMap.has(w.parentId) ? w.parentId : null) === parentId)
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+        .forEach(w => {
+          const xerId = nextId++;
+          this.wbsIds.set(w.id, xerId);
+          const parent = w.parentId ? wbsMap.get(w.parentId) : undefined;
+          const shortName = parent && w.code.startsWith(`${parent.code}.`)
+            ? w.code.slice(parent.code.length + 1)
+            : w.code;
+          rows.push([xerId, PROJECT_ID, w.sequenceNumber, 'N', 'WS_Open', shortName, w.name, parentXerId]);
+          visit(w.id, xerId);
+        });
+    };
+    visit(null, PROJECT_ID);
+    this.report.wbs = rows.length - 1;
+
+    this.writeTable('PROJWBS',
+      ['wbs_id', 'proj_id', 'seq_num', 'proj_node_flag', 'status_code', 'wbs_short_name', 'wbs_name', 'parent_wbs_id'],
+      rows
+    );
+  }
+
+  private writeResources() {
+    const units = Array.from(new Set(this.data.resources.map(r => r.unit).filter((u): u is string => !!u)));
+    if (units.length > 0) {
+      this.writeTable('UMEASURE',
+        ['unit_id', 'seq_num', 'unit_abbrev', 'unit_name'],
+        units.map((unit, index) => [index + 1, index + 1, unit, unit])
+      );
+    }
+
+    const rows: (string | number)[][] = [];
+    const rates: (string | number)[][] = [];
+    this.data.resources.forEach((resource, index) => {
+      const xerId = index + 1;
+      this.resourceIds.set(resource.id, xerId);
+      const standardRate = resource.standardRate ?? 0;
+      rows.push([
+        xerId,
+        resource.resourceId,
+        resource.name,
+        RESOURCE_TYPES[resource.type] || 'RT_Labor',
+        this.getCalendar(resource.calendarId).xerId,
+        resource.unit ? units.indexOf(resource.unit) + 1 : '',
+        standardRate > 0 && resource.overtimeRate ? this.round(resource.overtimeRate / standardRate) : '',
+        'Y',
+        this.clean(resource.notes)
+      ]);
+      rates.push([xerId, xerId, resource.maxUnits ?? 1, standardRate, '2000-01-01 00:00']);
+    });
+    this.report.resources = rows.length;
+
+    this.writeTable('RSRC',
+      ['rsrc_id', 'rsrc_short_name', 'rsrc_name', 'rsrc_type', 'clndr_id', 'unit_id', 'ot_factor', 'active_flag', 'rsrc_notes'],
+      rows
+    );
+    this.writeTable('RSRCRATE',
+      ['rsrc_rate_id', 'rsrc_id', 'max_qty_per_hr', 'cost_per_qty', 'start_date'],
+      rates
+    );
+  }
+
+  /**
+   * ACTVTYPE/ACTVCODE from the activityCodes table plus any values only found on activities
+   */
+  private writeActivityCodeTypes(): Map<string, { typeId: number; codeId: number }> {
+    const values = new Map<string, { codeName: string; codeValue: string; description: string | null; color: string | null; isProject: boolean }>();
+    this.data.activityCodes.forEach(code => {
+      values.set(`${code.codeName}\u0000${code.codeValue}`, {
+        codeName: code.codeName,
+        codeValue: code.codeValue,
+        description: code.description,
+        color: code.color,
+        isProject: code.codeType === 'Project'
+      });
+    });
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.activityCodes)).forEach(([codeName, codeValue]) => {
+        const key = `${codeName}\u0000${codeValue}`;
+        if (!values.has(key)) {
+          values.set(key, { codeName, codeValue: String(codeValue), description: null, color: null, isProject: true });
+        }
+      });
+    });
+
+    const typeIds = new Map<string, number>();
+    const typeRows: (string | number)[][] = [];
+    const codeRows: (string | number)[][] = [];
+    const codes = new Map<string, { typeId: number; codeId: number }>();
+    Array.from(values.entries()).forEach(([key, value]) => {
+      let typeId = typeIds.get(value.codeName);
+      if (typeId === undefined) {
+        typeId = typeIds.size + 1;
+        typeIds.set(value.codeName, typeId);
+        const maxLength = Math.max(...Array.from(values.values())
+          .filter(v => v.codeName === value.codeName)
+          .map(v => v.codeValue.length));
+        typeRows.push([
+          typeId, maxLength, typeId, value.codeName,
+          value.isProject ? PROJECT_ID : '', value.isProject ? 'AS_Project' : 'AS_Global'
+        ]);
+      }
+
+      const codeId = codeRows.length + 1;
+      codes.set(key, { typeId, codeId });
+      codeRows.push([codeId, '', typeId, value.description || value.codeValue, value.codeValue, codeId, this.fromColor(value.color)]);
+    });
+    this.report.activityCodes = codeRows.length;
+
+    if (typeRows.length > 0) {
+      this.writeTable('ACTVTYPE',
+        ['actv_code_type_id', 'actv_short_len', 'seq_num', 'actv_code_type', 'proj_id', 'actv_code_type_scope'],
+        typeRows
+      );
+      this.writeTable('ACTVCODE',
+        ['actv_code_id', 'parent_actv_code_id', 'actv_code_type_id', 'actv_code_name', 'short_name', 'seq_num', 'color'],
+        codeRows
+      );
+    }
+
+    return codes;
+  }
+
+  /**
+   * One TASK user-defined field per scalar customFields key
+   */
+  private writeUdfTypes(): Map<string, { id: number; dataType: string }> {
+    const udfTypes = new Map<string, { id: number; dataType: string }>();
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+        if (udfTypes.has(label) || !['string', 'number'].includes(typeof value)) return;
+        const dataType = typeof value === 'number'
+          ? 'FT_FLOAT_2_DECIMALS'
+          : /^\d{4}-\d{2}-\d{2}$/.test(value as string) ? 'FT_START_DATE' : 'FT_TEXT';
+        udfTypes.set(label, { id: udfTypes.size + 1, dataType });
+      });
+    });
+
+    if (udfTypes.size > 0) {
+      this.writeTable('UDFTYPE',
+        ['udf_type_id', 'table_name', 'udf_type_name', 'udf_type_label', 'logical_data_type', 'super_flag'],
+        Array.from(udfTypes.entries()).map(([label, udf]) => [
+          udf.id, 'TASK', `user_field_${udf.id}`, this.shortName(label, 40), udf.dataType, 'N'
+        ])
+      );
+    }
+
+    return udfTypes;
+  }
+
+  private writeTasks() {
+    const rows = this.data.activities.map((activity, index) => {
+      const xerId = index + 1;
+      this.taskIds.set(activity.id, xerId);
+      const calendar = this.getCalendar(activity.calendarId);
+      const toHours = (days: number | null) => days === null ? '' : this.round(days * calendar.hoursPerDay);
+      const { start, finish } = this.dayBounds(calendar);
+
+      const remaining = activity.status === 'Completed' ? 0 : activity.remainingDuration ?? activity.originalDuration;
+      const constraintType = activity.constraintType ? CONSTRAINT_TYPES[activity.constraintType] : '';
+      const isFinishConstraint = activity.constraintType === 'FNET' || activity.constraintType === 'FNLT' || activity.constraintType === 'MFO';
+      const earlyStart = activity.earlyStart || activity.actualStart;
+      const earlyFinish = activity.earlyFinish || activity.actualFinish;
+
+      if (activity.wbsId && !this.wbsIds.has(activity.wbsId)) {
+        this.warn(`Activity ${activity.activityId} WBS was not found; placed under the project node`);
+      }
+
+      return [
+        xerId,
+        PROJECT_ID,
+        (activity.wbsId && this.wbsIds.get(activity.wbsId)) || PROJECT_ID,
+        calendar.xerId,
+        activity.percentComplete ?? 0,
+        'CP_Phys',
+        'DT_FixedDrtn',
+        TASK_TYPES[activity.type] || 'TT_Task',
+        TASK_STATUSES[activity.status] || 'TK_NotStart',
+        activity.activityId,
+        this.clean(activity.name),
+        toHours(activity.totalFloat),
+        toHours(activity.freeFloat),
+        toHours(remaining),
+        toHours(activity.originalDuration),
+        constraintType ? this.formatDateTime(activity.constraintDate, isFinishConstraint ? finish : start) : '',
+        constraintType,
+        this.formatDateTime(activity.actualStart, start),
+        this.formatDateTime(activity.actualFinish, finish),
+        this.formatDateTime(activity.lateStart, start),
+        this.formatDateTime(activity.lateFinish, finish),
+        this.formatDateTime(earlyStart, start),
+        this.formatDateTime(earlyFinish, finish),
+        activity.status === 'Completed' ? '' : this.formatDateTime(earlyStart, start),
+        activity.status === 'Completed' ? '' : this.formatDateTime(earlyFinish, finish),
+        this.formatDateTime(activity.baselineStart || earlyStart, start),
+        this.formatDateTime(activity.baselineFinish || earlyFinish, finish),
+        this.formatDateTime(activity.deadline, finish),
+        activity.isCritical ? 'Y' : 'N',
+        'PT_Normal'
+      ];
+    });
+    this.report.activities = rows.length;
+
+    this.writeTable('TASK',
+      ['task_id', 'proj_id', 'wbs_id', 'clndr_id', 'phys_complete_pct', 'complete_pct_type', 'duration_type', 'task_type', 'status_code', 'task_code', 'task_name', 'total_float_hr_cnt', 'free_float_hr_cnt', 'remain_drtn_hr_cnt', 'target_drtn_hr_cnt', 'cstr_date', 'cstr_type', 'act_start_date', 'act_end_date', 'late_start_date', 'late_end_date', 'early_start_date', 'early_end_date', 'restart_date', 'reend_date', 'target_start_date', 'target_end_date', 'expect_end_date', 'driving_path_flag', 'priority_type'],
+      rows
+    );
+  }
+
+  /**
+   * Lags are converted with the successor's calendar, as XERImporter expects
+   */
+  private writeRelationships() {
+    const activityMap = new Map(this.data.activities.map(a => [a.id, a]));
+    const rows: (string | number)[][] = [];
+
+    this.data.relationships.forEach(rel => {
+      const predecessorId = this.taskIds.get(rel.predecessorId);
+      const successorId = this.taskIds.get(rel.successorId);
+      if (!predecessorId || !successorId) {
+        this.warn(`Relationship ${rel.id} references an activity outside the project and was skipped`);
+        return;
+      }
+
+      const successor = activityMap.get(rel.successorId)!;
+      const hoursPerDay = this.getCalendar(successor.calendarId).hoursPerDay;
+      const lagHours = rel.lagUnit === 'hours' ? rel.lag ?? 0 : (rel.lag ?? 0) * hoursPerDay;
+      rows.push([rows.length + 1, successorId, predecessorId, PROJECT_ID, PROJECT_ID, `PR_${rel.type}`, this.round(lagHours)]);
+    });
+    this.report.relationships = rows.length;
+
+    this.writeTable('TASKPRED',
+      ['task_pred_id', 'task_id', 'pred_task_id', 'proj_id', 'pred_proj_id', 'pred_type', 'lag_hr_cnt'],
+      rows
+    );
+  }
+
+  private writeAssignments() {
+    const activityMap = new Map(this.data.activities.map(a => [a.id, a]));
+    const resourceMap = new Map(this.data.resources.map(r => [r.id, r]));
+    const rows: (string | number)[][] = [];
+
+    this.data.assignments.forEach(assignment => {
+      const taskId = this.taskIds.get(assignment.activityId);
+      const rsrcId = this.resourceIds.get(assignment.resourceId);
+      if (!taskId || !rsrcId) return;
+
+      const activity = activityMap.get(assignment.activityId)!;
+      const calendar = this.getCalendar(activity.calendarId);
+      const { start, finish } = this.dayBounds(calendar);
+      const units = assignment.units ?? 1;
+      const targetQty = assignment.plannedUnits ?? units * (activity.originalDuration ?? 0) * calendar.hoursPerDay;
+
+      rows.push([
+        rows.length + 1,
+        taskId,
+        PROJECT_ID,
+        rsrcId,
+        units,
+        units,
+        this.round(targetQty),
+        this.round(assignment.remainingUnits ?? targetQty - (assignment.actualUnits ?? 0)),
+        assignment.actualUnits ?? 0,
+        0,
+        assignment.cost ?? 0,
+        assignment.remainingCost ?? this.round((assignment.cost ?? 0) - (assignment.actualCost ?? 0)),
+        assignment.actualCost ?? 0,
+        0,
+        RESOURCE_TYPES[resourceMap.get(assignment.resourceId)?.type || ''] || 'RT_Labor',
+        this.formatDateTime(activity.earlyStart || activity.actualStart, start),
+        this.formatDateTime(activity.earlyFinish || activity.actualFinish, finish)
+      ]);
+    });
+    this.report.resourceAssignments = rows.length;
+
+    this.writeTable('TASKRSRC',
+      ['taskrsrc_id', 'task_id', 'proj_id', 'rsrc_id', 'target_qty_per_hr', 'remain_qty_per_hr', 'target_qty', 'remain_qty', 'act_reg_qty', 'act_ot_qty', 'target_cost', 'remain_cost', 'act_reg_cost', 'act_ot_cost', 'rsrc_type', 'target_start_date', 'target_end_date'],
+      rows
+    );
+  }
+
+  private writeTaskCodes(codes: Map<string, { typeId: number; codeId: number }>) {
+    const rows: (string | number)[][] = [];
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.activityCodes)).forEach(([codeName, codeValue]) => {
+        const code = codes.get(`${codeName}\u0000${codeValue}`);
+        if (code) rows.push([this.taskIds.get(activity.id)!, code.typeId, code.codeId, PROJECT_ID]);
+      });
+    });
+
+    if (rows.length > 0) {
+      this.writeTable('TASKACTV', ['task_id', 'actv_code_type_id', 'actv_code_id', 'proj_id'], rows);
+    }
+  }
+
+  private writeUdfValues(udfTypes: Map<string, { id: number; dataType: string }>) {
+    const rows: (string | number)[][] = [];
+    this.data.activities.forEach(activity => {
+      Object.entries(this.parseJson(activity.customFields)).forEach(([label, value]) => {
+        const udf = udfTypes.get(label);
+        if (!udf || !['string', 'number'].includes(typeof value)) return;
+        const taskId = this.taskIds.get(activity.id)!;
+        if (udf.dataType === 'FT_START_DATE') {
+          rows.push([udf.id, taskId, PROJECT_ID, this.formatDateTime(value as string, '00:00'), '', '']);
+        } else if (udf.dataType === 'FT_FLOAT_2_DECIMALS') {
+          rows.push([udf.id, taskId, PROJECT_ID, '', Number(value), '']);
+        } else {
+          rows.push([udf.id, taskId, PROJECT_ID, '', '', this.clean(String(value))]);
+        }
+      });
+    });
+    this.report.customFieldValues = rows.length;
+
+    if (rows.length > 0) {
+      this.writeTable('UDFVALUE', ['udf_type_id', 'fk_id', 'proj_id', 'udf_date', 'udf_number', 'udf_text'], rows);
+    }
+  }
+
+  /**
+   * Accepts both stored workweek shapes (array of days or object keyed by weekday name)
+   */
+  private normalizeWeek(value: unknown): DayHours[] {
+    const standard = (day: number): DayHours => day >= 1 && day <= 5
+      ? { isWorking: true, hours: 8, workingTimes: [{ start: '08:00', finish: '12:00' }, { start: '13:00', finish: '17:00' }] }
+      : { isWorking: false, hours: 0, workingTimes: [] };
+    const week = DAY_NAMES.map((_, day) => standard(day));
+    const workweek = this.parseJson(value);
+
+    if (Array.isArray(workweek)) {
+      workweek.forEach((day: any) => {
+        if (typeof day?.dayOfWeek !== 'number') return;
+        const hours = day.isWorking ? day.hoursPerDay ?? 8 : 0;
+        week[day.dayOfWeek] = {
+          isWorking: !!day.isWorking && hours > 0,
+          hours,
+          workingTimes: Array.isArray(day.workingTimes) && day.workingTimes.length > 0
+            ? day.workingTimes
+            : this.timesFor(hours)
+        };
+      });
+    } else if (workweek && typeof workweek === 'object') {
+      DAY_NAMES.forEach((name, day) => {
+        const pattern = (workweek as any)[name];
+        if (!pattern) return;
+        if (!pattern.working) {
+          week[day] = { isWorking: false, hours: 0, workingTimes: [] };
+          return;
+        }
+        const [from, to] = Array.isArray(pattern.hours) && pattern.hours.length === 2 ? pattern.hours : [8, 16];
+        week[day] = {
+          isWorking: true,
+          hours: to - from,
+          workingTimes: [{ start: this.formatHour(from), finish: this.formatHour(to) }]
+        };
+      });
+    }
+
+    return week;
+  }
+
+  private normalizeExceptions(cal: Calendar, week: DayHours[]): ExportCalendar['exceptions'] {
+    const exceptions = new Map<string, ExportCalendar['exceptions'][number]>();
+    this.parseList(cal.holidays).forEach(date => {
+      if (typeof date === 'string') exceptions.set(date, { date, workingTimes: [] });
+    });
+    this.parseList(cal.exceptions).forEach(ex => {
+      if (!ex?.date) return;
+      const hours = ex.isWorking ? ex.hoursPerDay ?? week[new Date(ex.date).getUTCDay()].hours ?? 8 : 0;
+      exceptions.set(ex.date, {
+        date: ex.date,
+        workingTimes: !ex.isWorking
+          ? []
+          : Array.isArray(ex.workingTimes) && ex.workingTimes.length > 0 ? ex.workingTimes : this.timesFor(hours || 8)
+      });
+    });
+    return Array.from(exceptions.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Working ranges starting at 08:00 with a one hour break after four hours
+  private timesFor(hours: number): { start: string; finish: string }[] {
+    if (hours <= 0) return [];
+    if (hours <= 4) return [{ start: '08:00', finish: this.formatHour(8 + hours) }];
+    return [{ start: '08:00', finish: '12:00' }, { start: '13:00', finish: this.formatHour(13 + hours - 4) }];
+  }
+
+  private dayBounds(calendar: ExportCalendar): { start: string; finish: string } {
+    const day = calendar.week.find(d => d.isWorking && d.workingTimes.length > 0);
+    if (!day) return { start: '08:00', finish: '17:00' };
+    return { start: day.workingTimes[0].start, finish: day.workingTimes[day.workingTimes.length - 1].finish };
+  }
+
+  private getCalendar(calendarId: string | null): ExportCalendar {
+    return (calendarId && this.calendars.get(calendarId)) || this.defaultCalendar;
+  }
+
+  private writeTable(name: string, fields: string[], rows: (string | number)[][]) {
+    this.lines.push(`%T\t${name}`);
+    this.lines.push(['%F', ...fields].join('\t'));
+    rows.forEach(row => this.lines.push(['%R', ...row.map(v => this.clean(String(v)))].join('\t')));
+  }
+
+  private parseJson(value: unknown): Record<string, any> {
+    if (value === null || value === undefined) return {};
+    return (typeof value === 'string' ? JSON.parse(value) : value) as Record<string, any>;
+  }
+
+  private parseList(value: unknown): any[] {
+    const parsed = this.parseJson(value);
+    return Array.isArray(parsed) ? parsed : [];
+  }
+
+  private formatDateTime(date: string | null | undefined, time: string): string {
+    return date ? `${date.slice(0, 10)} ${time}` : '';
+  }
+
+  private formatHour(hour: number): string {
+    const h = Math.floor(hour);
+    const m = Math.round((hour - h) * 60);
+    return `${String(h % 24).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+  }
+
+  private toExcelSerial(date: string): number {
+    return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.UTC(1899, 11, 30)) / 86400000);
+  }
+
+  // P6 stores colors as a decimal RGB integer
+  private fromColor(color: string | null): string | number {
+    if (!color) return '';
+    const hex = color.replace('#', '');
+    return /^[0-9a-fA-F]{6}$/.test(hex) ? parseInt(hex, 16) : '';
+  }
+
+  private shortName(value: string, maxLength: number): string {
+    return this.clean(value).slice(0, maxLength);
+  }
+
+  // Tabs and line breaks would break the row layout
+  private clean(value: string | null | undefined): string {
+    return (value ?? '').replace(/[\t\r\n]+/g, ' ');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private warn(message: string) {
+    this.report.warnings.push(message);
+  }
+}
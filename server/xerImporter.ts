@@ -0,0 +1,734 @@
+import type { IStorage } from "./storage";
+import type { InsertCalendar } from "@shared/schema";
+
+type XERRow = Record<string, string>;
+
+export interface XERProjectSummary {
+  projId: string;
+  shortName: string;
+  name: string;
+  startDate: string | null;
+  finishDate: string | null;
+  dataDate: string | null;
+  activityCount: number;
+}
+
+export interface XERConversionReport {
+  xerProjectId: string;
+  projectName: string;
+  imported: {
+    wbs: number;
+    calendars: number;
+    resources: number;
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+    activityCodes: number;
+    customFieldValues: number;
+  };
+  skipped: {
+    activities: number;
+    relationships: number;
+    resourceAssignments: number;
+    customFieldValues: number;
+  };
+  unmappedTables: string[];
+  warnings: string[];
+}
+
+interface WorkingTime {
+  start: string;
+  finish: string;
+}
+
+interface ParsedCalendar {
+  workweek: { dayOfWeek: number; isWorking: boolean; hoursPerDay: number; workingTimes: WorkingTime[] }[];
+  exceptions: { date: string; isWorking: boolean; hoursPerDay: number; workingTimes: WorkingTime[] }[];
+}
+
+// Tables the importer reads; everything else in the file is listed as unmapped
+const MAPPED_TABLES = new Set([
+  'PROJECT', 'PROJWBS', 'CALENDAR', 'RSRC', 'RSRCRATE', 'TASK', 'TASKPRED', 'TASKRSRC',
+  'ACTVTYPE', 'ACTVCODE', 'TASKACTV', 'UDFTYPE', 'UDFVALUE', 'UDFCODE', 'UMEASURE'
+]);
+
+const TASK_TYPES: Record<string, 'Task' | 'StartMilestone' | 'FinishMilestone' | 'LOE' | 'WBSSummary'> = {
+  TT_Task: 'Task',
+  TT_Rsrc: 'Task',
+  TT_Mile: 'StartMilestone',
+  TT_FinMile: 'FinishMilestone',
+  TT_LOE: 'LOE',
+  TT_WBS: 'WBSSummary'
+};
+
+const TASK_STATUSES: Record<string, 'NotStarted' | 'InProgress' | 'Completed'> = {
+  TK_NotStart: 'NotStarted',
+  TK_Active: 'InProgress',
+  TK_Complete: 'Completed'
+};
+
+const CONSTRAINT_TYPES: Record<string, 'SNET' | 'FNET' | 'SNLT' | 'FNLT' | 'MSO' | 'MFO'> = {
+  CS_MSOA: 'SNET',
+  CS_MSOB: 'SNLT',
+  CS_MEOA: 'FNET',
+  CS_MEOB: 'FNLT',
+  CS_MSO: 'MSO',
+  CS_MEO: 'MFO'
+};
+
+const RELATIONSHIP_TYPES: Record<string, 'FS' | 'SS' | 'FF' | 'SF'> = {
+  PR_FS: 'FS',
+  PR_SS: 'SS',
+  PR_FF: 'FF',
+  PR_SF: 'SF'
+};
+
+const RESOURCE_TYPES: Record<string, 'Labor' | 'Equipment' | 'Material'> = {
+  RT_Labor: 'Labor',
+  RT_Equip: 'Equipment',
+  RT_Mat: 'Material'
+};
+
+const MAX_WARNINGS = 200;
+
+/**
+ * Parse the tab-delimited XER layout: %T starts a table, %F lists its fields,
+ * %R lines are rows and %E ends the file.
+ */
+export function parseXER(content: string): Map<string, XERRow[]> {
+  const tables = new Map<string, XERRow[]>();
+  let currentTable = '';
+  let fields: string[] = [];
+
+  content.split(/\r?\n/).forEach(line => {
+    const values = line.split('\t');
+    switch (values[0]) {
+      case '%T':
+        currentTable = (values[1] || '').trim();
+        fields = [];
+        tables.set(currentTable, []);
+        break;
+      case '%F':
+        fields = values.slice(1).map(f => f.trim());
+        break;
+      case '%R': {
+        if (!currentTable) break;
+        const row: XERRow = {};
+        fields.forEach((field, index) => {
+          row[field] = values[index + 1] ?? '';
+        });
+        tables.get(currentTable)!.push(row);
+        break;
+      }
+    }
+  });
+
+  return tables;
+}
+
+/**
+ * Parse a P6 clndr_data blob into the calendars table shape.
+ * DaysOfWeek numbers days 1 (Sunday) to 7 (Saturday) with s|HH:MM|f|HH:MM
+ * working ranges; Exceptions are keyed by Excel serial dates (d|NNNNN) and are
+ * non-working unless they carry ranges of their own.
+ */
+export function parseCalendarData(data: string): ParsedCalendar {
+  const exceptionsAt = data.indexOf('Exceptions()');
+  const weekStart = data.indexOf('DaysOfWeek()');
+  const weekSection = weekStart >= 0
+    ? data.slice(weekStart, exceptionsAt > weekStart ? exceptionsAt : undefined)
+    : '';
+  const exceptionSection = exceptionsAt >= 0 ? data.slice(exceptionsAt) : '';
+
+  const workweek = [0, 1, 2, 3, 4, 5, 6].map(day => ({
+    dayOfWeek: day,
+    isWorking: false,
+    hoursPerDay: 0,
+    workingTimes: [] as WorkingTime[]
+  }));
+
+  splitEntries(weekSection, /\(0\|\|([1-7])\(\)\(/g).forEach(({ key, body }) => {
+    const workingTimes = parseWorkingTimes(body);
+    const hoursPerDay = sumHours(workingTimes);
+    workweek[Number(key) - 1] = { dayOfWeek: Number(key) - 1, isWorking: hoursPerDay > 0, hoursPerDay, workingTimes };
+  });
+
+  const exceptions = splitEntries(exceptionSection, /\(0\|\|\d+\(d\|(\d+)\)\(/g).map(({ key, body }) => {
+    const workingTimes = parseWorkingTimes(body);
+    const hoursPerDay = sumHours(workingTimes);
+    return { date: fromExcelSerial(Number(key)), isWorking: hoursPerDay > 0, hoursPerDay, workingTimes };
+  });
+
+  return { workweek, exceptions };
+}
+
+function splitEntries(section: string, header: RegExp): { key: string; body: string }[] {
+  const matches = Array.from(section.matchAll(header));
+  return matches.map((match, index) => ({
+    key: match[1],
+    body: section.slice(match.index! + match[0].length, matches[index + 1]?.index ?? section.length)
+  }));
+}
+
+function parseWorkingTimes(body: string): WorkingTime[] {
+  return Array.from(body.matchAll(/([sf])\|(\d{1,2}:\d{2})\|([sf])\|(\d{1,2}:\d{2})/g)).map(match => {
+    const [, firstKey, first, , second] = match;
+    const [start, finish] = firstKey === 's' ? [first, second] : [second, first];
+    return { start: start.padStart(5, '0'), finish: finish.padStart(5, '0') };
+  });
+}
+
+function sumHours(times: WorkingTime[]): number {
+  const minutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+  };
+  return times.reduce((total, t) => {
+    // P6 writes midnight as 00:00 for ranges that run to the end of the day
+    const finish = t.finish === '00:00' ? 24 * 60 : minutes(t.finish);
+    return total + Math.max(0, finish - minutes(t.start)) / 60;
+  }, 0);
+}
+
+function fromExcelSerial(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().split('T')[0];
+}
+
+/**
+ * Imports one project from a Primavera P6 XER file into an existing project.
+ * Maps PROJWBS, CALENDAR, RSRC, TASK, TASKPRED, TASKRSRC, activity codes and
+ * task UDFs into the relational tables. Hour-based P6 values (durations, floats,
+ * lags) become days using the hours per day of the activity's calendar.
+ */
+export class XERImporter {
+  private tables: Map<string, XERRow[]>;
+  private warnings: string[] = [];
+  private suppressedWarnings = 0;
+
+  constructor(content: string) {
+    this.tables = parseXER(content);
+  }
+
+  public listProjects(): XERProjectSummary[] {
+    const tasks = this.table('TASK');
+    return this.table('PROJECT')
+      .filter(p => p.project_flag !== 'N')
+      .map(p => ({
+        projId: p.proj_id,
+        shortName: p.proj_short_name || p.proj_id,
+        name: this.findProjectName(p),
+        startDate: this.toDate(p.plan_start_date),
+        finishDate: this.toDate(p.scd_end_date || p.plan_end_date),
+        dataDate: this.toDate(p.last_recalc_date),
+        activityCount: tasks.filter(t => t.proj_id === p.proj_id).length
+      }));
+  }
+
+  public async importInto(projectId: string, storage: IStorage, xerProjectId?: string): Promise<XERConversionReport> {
+    const projects = this.listProjects();
+    const source = xerProjectId ? projects.find(p => p.projId === xerProjectId) : projects[0];
+    if (!source) {
+      throw new Error(xerProjectId ? `Project ${xerProjectId} not found in XER file` : "XER file contains no projects");
+    }
+
+    const report: XERConversionReport = {
+      xerProjectId: source.projId,
+      projectName: source.name,
+      imported: {
+        wbs: 0, calendars: 0, resources: 0, activities: 0, relationships: 0,
+        resourceAssignments: 0, activityCodes: 0, customFieldValues: 0
+      },
+      skipped: { activities: 0, relationships: 0, resourceAssignments: 0, customFieldValues: 0 },
+      unmappedTables: Array.from(this.tables.keys()).filter(name => !MAPPED_TABLES.has(name)),
+      warnings: this.warnings
+    };
+
+    const tasks = this.table('TASK').filter(t => t.proj_id === source.projId);
+
+    const calendarMap = await this.importCalendars(projectId, source.projId, tasks, storage, report);
+    const wbsMap = await this.importWbs(projectId, source.projId, storage, report);
+    const resourceMap = await this.importResources(projectId, source.projId, calendarMap, storage, report);
+    const taskCodes = await this.importActivityCodes(projectId, source.projId, storage, report);
+    const taskFields = this.collectCustomFields(source.projId, tasks, report);
+    const { activityMap, hoursPerDay } = await this.importActivities(
+      projectId, tasks, calendarMap, wbsMap, taskCodes, taskFields, storage, report
+    );
+    await this.importRelationships(projectId, source.projId, activityMap, hoursPerDay, storage, report);
+    await this.importAssignments(activityMap, resourceMap, storage, report);
+
+    const project = await storage.getProject(projectId);
+    if (project && !project.dataDate && source.dataDate) {
+      await storage.updateProject(projectId, { dataDate: source.dataDate });
+    }
+
+    if (this.suppressedWarnings > 0) {
+      this.warnings.push(`${this.suppressedWarnings} further warnings omitted`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Calendars used by the project's tasks and resources, plus any calendar owned by the project
+   */
+  private async importCalendars(
+    projectId: string, projId: string, tasks: XERRow[], storage: IStorage, report: XERConversionReport
+  ): Promise<Map<string, { id: string; hoursPerDay: number }>> {
+    const resourceIds = this.usedResourceIds(projId);
+    const usedIds = new Set<string>([
+      ...tasks.map(t => t.clndr_id),
+      ...this.table('RSRC').filter(r => resourceIds.has(r.rsrc_id)).map(r => r.clndr_id)
+    ].filter(Boolean));
+
+    // Re-importing refreshes the project's calendars of the same name instead of adding copies
+    const existing = new Map((await storage.getCalendarsByProject(projectId))
+      .filter(c => c.projectId === projectId)
+      .map(c => [c.name, c.id]));
+
+    const calendarMap = new Map<string, { id: string; hoursPerDay: number }>();
+    for (const row of this.table('CALENDAR')) {
+      if (!usedIds.has(row.clndr_id) && row.proj_id !== projId) continue;
+
+      const parsed = parseCalendarData(row.clndr_data || '');
+      const hoursPerDay = Number(row.day_hr_cnt) || this.typicalHours(parsed) || 8;
+      const nonWorking = parsed.exceptions.filter(ex => !ex.isWorking).map(ex => ex.date);
+
+      const values: InsertCalendar = {
+        projectId,
+        name: row.clndr_name || `Calendar ${row.clndr_id}`,
+        type: row.clndr_type === 'CA_Rsrc' ? 'Resource' : 'Project',
+        standardWorkweek: parsed.workweek,
+        holidays: nonWorking,
+        exceptions: parsed.exceptions
+      };
+      const existingId = existing.get(values.name);
+      const calendar = existingId
+        ? await storage.updateCalendar(existingId, values)
+        : await storage.createCalendar(values);
+      if (!calendar) continue;
+      existing.set(calendar.name, calendar.id);
+      calendarMap.set(row.clndr_id, { id: calendar.id, hoursPerDay });
+      report.imported.calendars++;
+    }
+
+    return calendarMap;
+  }
+
+  /**
+   * WBS elements below the project node; parents are created before their children
+   */
+  private async importWbs(
+    projectId: string, projId: string, storage: IStorage, report: XERConversionReport
+  ): Promise<Map<string, string>> {
+    const rows = this.table('PROJWBS').filter(w => w.proj_id === projId);
+    const rootIds = new Set(rows.filter(w => w.proj_node_flag === 'Y').map(w => w.wbs_id));
+    const children = new Map<string, XERRow[]>();
+    rows.forEach(row => {
+      if (rootIds.has(row.wbs_id)) return;
+      const parent = rootIds.has(row.parent_wbs_id) ? '' : row.parent_wbs_id;
+      children.set(parent, [...(children.get(parent) || []), row]);
+    });
+
+    const wbsMap = new Map<string, string>();
+    const visit = async (parentKey: string, parentId: string | null, parentCode: string, level: number) => {
+      const siblings = (children.get(parentKey) || [])
+        .sort((a, b) => (Number(a.seq_num) || 0) - (Number(b.seq_num) || 0));
+      for (let i = 0; i < siblings.length; i++) {
+        const row = siblings[i];
+        const code = parentCode ? `${parentCode}.${row.wbs_short_name}` : row.wbs_short_name;
+        const created = await storage.createWbs({
+          projectId,
+          parentId,
+          code: code || row.wbs_id,
+          name: row.wbs_name || row.wbs_short_name,
+          level,
+          sequenceNumber: i + 1
+        });
+        wbsMap.set(row.wbs_id, created.id);
+        report.imported.wbs++;
+        await visit(row.wbs_id, created.id, code, level + 1);
+      }
+    };
+    await visit('', null, '', 1);
+
+    const orphans = rows.filter(w => !rootIds.has(w.wbs_id) && !wbsMap.has(w.wbs_id));
+    if (orphans.length > 0) {
+      this.warn(`${orphans.length} WBS elements have no parent in the file and were skipped`);
+    }
+
+    return wbsMap;
+  }
+
+  /**
+   * Resources assigned in the project; existing resources with the same ID are reused
+   */
+  private async importResources(
+    projectId: string,
+    projId: string,
+    calendarMap: Map<string, { id: string; hoursPerDay: number }>,
+    storage: IStorage,
+    report: XERConversionReport
+  ): Promise<Map<string, string>> {
+    const usedIds = this.usedResourceIds(projId);
+    const existing = new Map((await storage.getResourcesByProject(projectId)).map(r => [r.resourceId, r.id]));
+    const units = new Map(this.table('UMEASURE').map(u => [u.unit_id, u.unit_abbrev || u.unit_name]));
+
+    const resourceMap = new Map<string, string>();
+    for (const row of this.table('RSRC')) {
+      if (!usedIds.has(row.rsrc_id)) continue;
+
+      const code = row.rsrc_short_name || row.rsrc_id;
+      const existingId = existing.get(code);
+      if (existingId) {
+        resourceMap.set(row.rsrc_id, existingId);
+        continue;
+      }
+
+      // Latest effective rate row carries the price and max units
+      const rate = this.table('RSRCRATE')
+        .filter(r => r.rsrc_id === row.rsrc_id)
+        .sort((a, b) => (b.start_date || '').localeCompare(a.start_date || ''))[0];
+      const standardRate = rate && rate.cost_per_qty ? Number(rate.cost_per_qty) : null;
+      const overtimeFactor = Number(row.ot_factor) || null;
+
+      const type = RESOURCE_TYPES[row.rsrc_type];
+      if (!type) this.warn(`Resource ${code} has unknown type ${row.rsrc_type || '(blank)'}; imported as Labor`);
+
+      const resource = await storage.createResource({
+        projectId,
+        resourceId: code,
+        name: row.rsrc_name || code,
+        type: type || 'Labor',
+        unit: units.get(row.unit_id) || null,
+        standardRate,
+        overtimeRate: standardRate !== null && overtimeFactor ? standardRate * overtimeFactor : null,
+        maxUnits: rate && rate.max_qty_per_hr ? Number(rate.max_qty_per_hr) : 1,
+        calendarId: calendarMap.get(row.clndr_id)?.id ?? null,
+        notes: row.rsrc_notes || null
+      });
+      resourceMap.set(row.rsrc_id, resource.id);
+      report.imported.resources++;
+    }
+
+    return resourceMap;
+  }
+
+  /**
+   * Creates activityCodes rows for every code value the project uses and returns
+   * each task's assignments as { codeTypeName: codeValue }
+   */
+  private async importActivityCodes(
+    projectId: string, projId: string, storage: IStorage, report: XERConversionReport
+  ): Promise<Map<string, Record<string, string>>> {
+    const taskIds = new Set(this.projectTaskIds(projId));
+    const codeTypes = new Map(this.table('ACTVTYPE').map(t => [t.actv_code_type_id, t]));
+    const codeValues = new Map(this.table('ACTVCODE').map(c => [c.actv_code_id, c]));
+    const assignments = this.table('TASKACTV').filter(a => taskIds.has(a.task_id));
+
+    const usedCodeIds = new Set(assignments.map(a => a.actv_code_id));
+    this.table('ACTVCODE').forEach(code => {
+      if (codeTypes.get(code.actv_code_type_id)?.proj_id === projId) usedCodeIds.add(code.actv_code_id);
+    });
+
+    for (const codeId of Array.from(usedCodeIds)) {
+      const code = codeValues.get(codeId);
+      const codeType = code && codeTypes.get(code.actv_code_type_id);
+      if (!code || !codeType) continue;
+
+      await storage.createActivityCode({
+        projectId,
+        codeType: codeType.actv_code_type_scope === 'AS_Project' ? 'Project' : 'Global',
+        codeName: codeType.actv_code_type,
+        codeValue: code.short_name,
+        description: code.actv_code_name || null,
+        color: this.toColor(code.color)
+      });
+      report.imported.activityCodes++;
+    }
+
+    const taskCodes = new Map<string, Record<string, string>>();
+    assignments.forEach(assignment => {
+      const code = codeValues.get(assignment.actv_code_id);
+      const codeType = code && codeTypes.get(code.actv_code_type_id);
+      if (!code || !codeType) return;
+      taskCodes.set(assignment.task_id, {
+        ...(taskCodes.get(assignment.task_id) || {}),
+        [codeType.actv_code_type]: code.short_name
+      });
+    });
+
+    return taskCodes;
+  }
+
+  /**
+   * TASK user-defined field values keyed by the UDF label
+   */
+  private collectCustomFields(
+    projId: string, tasks: XERRow[], report: XERConversionReport
+  ): Map<string, Record<string, string | number>> {
+    const taskIds = new Set(tasks.map(t => t.task_id));
+    const udfTypes = new Map(this.table('UDFTYPE').map(u => [u.udf_type_id, u]));
+    const codeValues = new Map(this.table('UDFCODE').map(c => [c.udf_code_id, c.short_name || c.udf_code_name]));
+
+    const taskFields = new Map<string, Record<string, string | number>>();
+    this.table('UDFVALUE').forEach(value => {
+      const udfType = udfTypes.get(value.udf_type_id);
+      if (value.proj_id && value.proj_id !== projId) return;
+      if (!udfType || udfType.table_name !== 'TASK' || !taskIds.has(value.fk_id)) {
+        if (udfType && udfType.table_name !== 'TASK') report.skipped.customFieldValues++;
+        return;
+      }
+
+      const label = udfType.udf_type_label || udfType.udf_type_name;
+      let fieldValue: string | number | null;
+      switch (udfType.logical_data_type) {
+        case 'FT_START_DATE':
+        case 'FT_END_DATE':
+          fieldValue = this.toDate(value.udf_date);
+          break;
+        case 'FT_INT':
+        case 'FT_FLOAT_2_DECIMALS':
+        case 'FT_MONEY':
+          fieldValue = value.udf_number !== '' ? Number(value.udf_number) : null;
+          break;
+        case 'FT_STATICTYPE':
+          fieldValue = codeValues.get(value.udf_code_id) ?? null;
+          break;
+        default:
+          fieldValue = value.udf_text || null;
+      }
+      if (fieldValue === null) return;
+
+      taskFields.set(value.fk_id, { ...(taskFields.get(value.fk_id) || {}), [label]: fieldValue });
+      report.imported.customFieldValues++;
+    });
+
+    return taskFields;
+  }
+
+  private async importActivities(
+    projectId: string,
+    tasks: XERRow[],
+    calendarMap: Map<string, { id: string; hoursPerDay: number }>,
+    wbsMap: Map<string, string>,
+    taskCodes: Map<string, Record<string, string>>,
+    taskFields: Map<string, Record<string, string | number>>,
+    storage: IStorage,
+    report: XERConversionReport
+  ): Promise<{ activityMap: Map<string, string>; hoursPerDay: Map<string, number> }> {
+    const existing = new Set((await storage.getActivitiesByProject(projectId)).map(a => a.activityId));
+    const costs = this.assignmentCosts();
+
+    const activityMap = new Map<string, string>();
+    const hoursPerDay = new Map<string, number>();
+    for (const task of tasks) {
+      const activityId = task.task_code || task.task_id;
+      if (existing.has(activityId)) {
+        this.warn(`Activity ${activityId} already exists in the project and was skipped`);
+        report.skipped.activities++;
+        continue;
+      }
+      existing.add(activityId);
+
+      const calendar = calendarMap.get(task.clndr_id);
+      const hours = calendar?.hoursPerDay || 8;
+      const toDays = (value: string) => value !== '' && value !== undefined ? this.round(Number(value) / hours) : null;
+
+      const type = TASK_TYPES[task.task_type];
+      if (!type) this.warn(`Activity ${activityId} has unknown type ${task.task_type || '(blank)'}; imported as Task`);
+
+      const constraintType = CONSTRAINT_TYPES[task.cstr_type] ?? null;
+      if (task.cstr_type && !constraintType) {
+        this.warn(`Activity ${activityId} constraint ${task.cstr_type} has no equivalent and was dropped`);
+      }
+      if (task.cstr_type2) {
+        this.warn(`Activity ${activityId} secondary constraint ${task.cstr_type2} was dropped`);
+      }
+
+      const originalDuration = toDays(task.target_drtn_hr_cnt);
+      const remainingDuration = toDays(task.remain_drtn_hr_cnt);
+      const status = TASK_STATUSES[task.status_code] || 'NotStarted';
+      const cost = costs.get(task.task_id);
+
+      const activity = await storage.createActivity({
+        projectId,
+        activityId,
+        name: task.task_name || activityId,
+        wbsId: wbsMap.get(task.wbs_id) ?? null,
+        type: type || 'Task',
+        originalDuration,
+        remainingDuration,
+        actualDuration: originalDuration !== null && remainingDuration !== null && status !== 'NotStarted'
+          ? Math.max(0, this.round(originalDuration - remainingDuration))
+          : null,
+        durationUnit: 'days',
+        earlyStart: this.toDate(task.early_start_date) ?? this.toDate(task.act_start_date) ?? this.toDate(task.target_start_date),
+        earlyFinish: this.toDate(task.early_end_date) ?? this.toDate(task.act_end_date) ?? this.toDate(task.target_end_date),
+        lateStart: this.toDate(task.late_start_date),
+        lateFinish: this.toDate(task.late_end_date),
+        actualStart: this.toDate(task.act_start_date),
+        actualFinish: this.toDate(task.act_end_date),
+        totalFloat: toDays(task.total_float_hr_cnt),
+        freeFloat: toDays(task.free_float_hr_cnt),
+        isCritical: task.driving_path_flag === 'Y' || (task.total_float_hr_cnt !== '' && Number(task.total_float_hr_cnt) <= 0),
+        percentComplete: this.percentComplete(task, status),
+        physicalPercentComplete: task.phys_complete_pct !== '' ? Number(task.phys_complete_pct) : null,
+        status,
+        calendarId: calendar?.id ?? null,
+        constraintType,
+        constraintDate: constraintType ? this.toDate(task.cstr_date) : null,
+        activityCodes: taskCodes.get(task.task_id) ?? null,
+        customFields: taskFields.get(task.task_id) ?? null,
+        budgetedCost: cost ? cost.budgeted : null,
+        actualCost: cost ? cost.actual : null
+      });
+
+      activityMap.set(task.task_id, activity.id);
+      hoursPerDay.set(task.task_id, hours);
+      report.imported.activities++;
+    }
+
+    return { activityMap, hoursPerDay };
+  }
+
+  /**
+   * TASKPRED links; lag hours use the predecessor's calendar, as P6 does by default
+   */
+  private async importRelationships(
+    projectId: string,
+    projId: string,
+    activityMap: Map<string, string>,
+    hoursPerDay: Map<string, number>,
+    storage: IStorage,
+    report: XERConversionReport
+  ): Promise<void> {
+    const links = this.table('TASKPRED').filter(l => l.proj_id === projId || activityMap.has(l.task_id));
+
+    for (const link of links) {
+      const predecessorId = activityMap.get(link.pred_task_id);
+      const successorId = activityMap.get(link.task_id);
+      if (!predecessorId || !successorId) {
+        if (link.pred_proj_id && link.pred_proj_id !== projId) {
+          this.warn(`External predecessor link ${link.task_pred_id} to project ${link.pred_proj_id} was skipped`);
+        }
+        report.skipped.relationships++;
+        continue;
+      }
+
+      const type = RELATIONSHIP_TYPES[link.pred_type];
+      if (!type) this.warn(`Relationship ${link.task_pred_id} has unknown type ${link.pred_type || '(blank)'}; imported as FS`);
+
+      await storage.createRelationship({
+        projectId,
+        predecessorId,
+        successorId,
+        type: type || 'FS',
+        lag: this.round((Number(link.lag_hr_cnt) || 0) / (hoursPerDay.get(link.pred_task_id) || 8)),
+        lagUnit: 'days'
+      });
+      report.imported.relationships++;
+    }
+  }
+
+  private async importAssignments(
+    activityMap: Map<string, string>,
+    resourceMap: Map<string, string>,
+    storage: IStorage,
+    report: XERConversionReport
+  ): Promise<void> {
+    for (const row of this.table('TASKRSRC')) {
+      const activityId = activityMap.get(row.task_id);
+      if (!activityId) continue;
+
+      const resourceId = resourceMap.get(row.rsrc_id);
+      if (!resourceId) {
+        report.skipped.resourceAssignments++;
+        continue;
+      }
+
+      const actualUnits = (Number(row.act_reg_qty) || 0) + (Number(row.act_ot_qty) || 0);
+      const actualCost = (Number(row.act_reg_cost) || 0) + (Number(row.act_ot_cost) || 0);
+      await storage.createAssignment({
+        activityId,
+        resourceId,
+        units: Number(row.target_qty_per_hr) || 1,
+        plannedUnits: this.toNumber(row.target_qty),
+        actualUnits,
+        remainingUnits: this.toNumber(row.remain_qty),
+        cost: this.toNumber(row.target_cost),
+        actualCost,
+        remainingCost: this.toNumber(row.remain_cost)
+      });
+      report.imported.resourceAssignments++;
+    }
+  }
+
+  private assignmentCosts(): Map<string, { budgeted: number; actual: number }> {
+    const costs = new Map<string, { budgeted: number; actual: number }>();
+    this.table('TASKRSRC').forEach(row => {
+      const cost = costs.get(row.task_id) || { budgeted: 0, actual: 0 };
+      cost.budgeted += Number(row.target_cost) || 0;
+      cost.actual += (Number(row.act_reg_cost) || 0) + (Number(row.act_ot_cost) || 0);
+      costs.set(row.task_id, cost);
+    });
+    return costs;
+  }
+
+  private percentComplete(task: XERRow, status: string): number {
+    if (status === 'Completed') return 100;
+    if (task.complete_pct_type === 'CP_Drtn') {
+      const target = Number(task.target_drtn_hr_cnt) || 0;
+      const remaining = Number(task.remain_drtn_hr_cnt) || 0;
+      return target > 0 ? this.round(Math.max(0, (target - remaining) / target) * 100) : 0;
+    }
+    return Number(task.phys_complete_pct) || 0;
+  }
+
+  private projectTaskIds(projId: string): string[] {
+    return this.table('TASK').filter(t => t.proj_id === projId).map(t => t.task_id);
+  }
+
+  private usedResourceIds(projId: string): Set<string> {
+    const taskIds = new Set(this.projectTaskIds(projId));
+    return new Set(this.table('TASKRSRC').filter(a => taskIds.has(a.task_id)).map(a => a.rsrc_id));
+  }
+
+  private findProjectName(project: XERRow): string {
+    const root = this.table('PROJWBS').find(w => w.proj_id === project.proj_id && w.proj_node_flag === 'Y');
+    return root?.wbs_name || project.proj_short_name || project.proj_id;
+  }
+
+  private typicalHours(calendar: ParsedCalendar): number {
+    return Math.max(0, ...calendar.workweek.map(d => d.hoursPerDay));
+  }
+
+  private table(name: string): XERRow[] {
+    return this.tables.get(name) || [];
+  }
+
+  private toDate(value: string | undefined): string | null {
+    return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+  }
+
+  private toNumber(value: string | undefined): number | null {
+    return value !== undefined && value !== '' ? Number(value) : null;
+  }
+
+  // P6 stores colors as a decimal RGB integer
+  private toColor(value: string | undefined): string | null {
+    if (!value || isNaN(Number(value))) return value || null;
+    return `#${Number(value).toString(16).padStart(6, '0')}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private warn(message: string) {
+    if (this.warnings.length < MAX_WARNINGS) {
+      this.warnings.push(message);
+    } else {
+      this.suppressedWarnings++;
+    }
+  }
+}
@@ -162,7 +162,11 @@ export const relationships = pgTable("relationships", {
   successorId: varchar("successor_id").references(() => activities.id).notNull(),
   type: relationshipTypeEnum("type").notNull().default("FS"),
   lag: real("lag").default(0),
-  lagUnit: text("lag_unit").default("days")
+  lagUnit: text("lag_unit").default("days"),
+  // Calculated by the CPM engine
+  isDriving: boolean("is_driving").default(false),
+  freeFloat: real("free_float"), // Working days the predecessor can slip before this link moves the successor
+  totalFloat: real("total_float") // Working days the predecessor can slip through this link before it delays the project
 });
 
 // Resources
@@ -382,7 +386,8 @@ export const projectMembers = pgTable("project_members", {
   permissions: jsonb("permissions"), // Detailed permissions object
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
   lastActiveAt: timestamp("last_active_at"),
-  isActive: boolean("is_active").default(true)
+  isActive: boolean("is_active").default(true),
+  calendarToken: text("calendar_token").unique() // Secret for the member's read-only .ics feed
 });
 
 // Schedule Versions for version history
@@ -399,6 +404,20 @@ export const scheduleVersions = pgTable("schedule_versions", {
   changesSummary: jsonb("changes_summary") // Summary of what changed
 });
 
+// Monte Carlo Schedule Risk Analyses
+export const riskAnalyses = pgTable("risk_analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  name: text("name"),
+  iterations: integer("iterations").notNull(),
+  seed: integer("seed").notNull(),
+  distribution: text("distribution").notNull(), // triangular, pert, uniform
+  dataDate: text("data_date"),
+  results: jsonb("results").notNull(), // Percentiles, criticality and sensitivity
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Insert schemas
 export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertWbsSchema = createInsertSchema(wbs).omit({ id: true });
@@ -419,8 +438,194 @@ export const insertAiContextSchema = createInsertSchema(aiContext).omit({ id: tr
 export const insertActivityCommentSchema = createInsertSchema(activityComments).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAttachmentSchema = createInsertSchema(attachments).omit({ id: true, uploadedAt: true });
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, performedAt: true });
-export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({ id: true, joinedAt: true });
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({ id: true, joinedAt: true, calendarToken: true });
 export const insertScheduleVersionSchema = createInsertSchema(scheduleVersions).omit({ id: true, createdAt: true });
+export const insertRiskAnalysisSchema = createInsertSchema(riskAnalyses).omit({ id: true, createdAt: true });
+
+// TIA fragnet content (stored in the tia_fragnets jsonb columns)
+export const fragnetActivitySchema = z.object({
+  activityId: z.string().min(1), // Fragnet-local ID, e.g. "FN-01"
+  name: z.string().min(1),
+  originalDuration: z.number().min(0),
+  type: z.enum(["Task", "StartMilestone", "FinishMilestone"]).default("Task"),
+  calendarId: z.string().nullable().optional()
+});
+export const fragnetRelationshipSchema = z.object({
+  predecessorId: z.string().min(1), // Fragnet-local activity IDs
+  successorId: z.string().min(1),
+  type: z.enum(["FS", "SS", "FF", "SF"]).default("FS"),
+  lag: z.number().default(0)
+});
+export const fragnetLinkSchema = z.object({
+  activityId: z.string().min(1), // Existing schedule activity (database id)
+  fragnetActivityId: z.string().min(1),
+  direction: z.enum(["predecessor", "successor"]), // Role of the existing activity
+  type: z.enum(["FS", "SS", "FF", "SF"]).default("FS"),
+  lag: z.number().default(0)
+});
+export const fragnetContentSchema = z.object({
+  activities: z.array(fragnetActivitySchema).min(1),
+  relationships: z.array(fragnetRelationshipSchema).default([]),
+  linkedActivities: z.array(fragnetLinkSchema).min(1)
+});
+
+// Three-point duration estimate (stored in activities.custom_fields.riskDurations)
+export const riskDistributionSchema = z.enum(["triangular", "pert", "uniform"]);
+export const riskDurationSchema = z.object({
+  optimistic: z.number().min(0),
+  mostLikely: z.number().min(0),
+  pessimistic: z.number().min(0),
+  distribution: riskDistributionSchema.optional() // Overrides the analysis default
+}).refine(d => d.optimistic <= d.mostLikely && d.mostLikely <= d.pessimistic, {
+  message: "Durations must satisfy optimistic <= mostLikely <= pessimistic"
+});
+export const riskAnalysisOptionsSchema = z.object({
+  name: z.string().optional(),
+  iterations: z.number().int().min(10).max(2000).default(500),
+  seed: z.number().int().optional(),
+  distribution: riskDistributionSchema.default("triangular"),
+  dataDate: z.string().optional(),
+  updateCriticality: z.boolean().default(true) // Write criticality index back to activities
+});
+
+// PDF Gantt export options, read from the export query string
+export const ganttPdfOptionsSchema = z.object({
+  pageSize: z.enum(["Letter", "Legal", "Tabloid", "A4", "A3", "A1", "ArchD"]).default("Tabloid"),
+  orientation: z.enum(["landscape", "portrait"]).default("landscape"),
+  timescale: z.enum(["auto", "day", "week", "month", "quarter"]).default("auto"),
+  relationships: z.enum(["true", "false"]).default("true").transform(v => v === "true")
+});
+
+// Schedule file uploads are sent as text in the request body
+export const scheduleImportSchema = z.object({
+  fileContent: z.string().min(1),
+  filename: z.string().default("import"),
+  sourceProjectId: z.string().optional() // Project to import from a multi-project XER or P6 XML file
+});
+
+// Spreadsheet columns mapped onto activity fields, stored in importExportHistory.mappingRules.
+// Code and custom field columns use their header as the code or field name.
+export const tabularMappingSchema = z.object({
+  activityId: z.string().min(1),
+  name: z.string().min(1),
+  duration: z.string().optional(),
+  predecessors: z.string().optional(), // e.g. "A100, A110SS+3"
+  wbsPath: z.string().optional(),
+  wbsSeparator: z.string().min(1).default("/"),
+  activityCodes: z.array(z.string()).default([]),
+  customFields: z.array(z.string()).default([])
+});
+
+// CSV files are sent as text, XLSX workbooks base64 encoded
+export const tabularImportSchema = z.object({
+  fileContent: z.string().min(1),
+  filename: z.string().default("import.csv"),
+  sheet: z.string().optional(),
+  mapping: tabularMappingSchema.optional()
+});
+
+export const mappingProfileSchema = z.object({
+  name: z.string().min(1),
+  mapping: tabularMappingSchema
+});
+
+// Calendar working time (stored in the calendars jsonb columns).
+// Times are HH:MM; a finish at or before the start runs past midnight, so "00:00" ends the day.
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+export const workingTimeSchema = z.object({
+  start: timeOfDaySchema,
+  finish: timeOfDaySchema
+});
+export const workDaySchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6), // 0 = Sunday
+  isWorking: z.boolean(),
+  hoursPerDay: z.number().min(0).max(24),
+  workingTimes: z.array(workingTimeSchema).default([]) // Empty: hoursPerDay from 08:00 with a lunch hour
+});
+export const calendarExceptionSchema = z.object({
+  date: calendarDateSchema,
+  isWorking: z.boolean(),
+  hoursPerDay: z.number().min(0).max(24).optional(), // Partial day: the first hours of the normal day
+  workingTimes: z.array(workingTimeSchema).default([]),
+  name: z.string().optional()
+});
+export const calendarDataSchema = z.object({
+  standardWorkweek: z.array(workDaySchema).length(7)
+    .refine(days => new Set(days.map(d => d.dayOfWeek)).size === 7, { message: "Each day of the week must appear once" })
+    .nullable().optional(),
+  holidays: z.array(calendarDateSchema).nullable().optional(),
+  exceptions: z.array(calendarExceptionSchema)
+    .refine(days => new Set(days.map(d => d.date)).size === days.length, { message: "Exception dates must be unique" })
+    .nullable().optional()
+});
+export const calendarSchema = insertCalendarSchema.extend(calendarDataSchema.shape);
+export const calendarPreviewSchema = calendarDataSchema.extend({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM")
+});
+export const calendarAssignmentSchema = z.object({
+  activityIds: z.array(z.string()).default([]),
+  resourceIds: z.array(z.string()).default([])
+});
+
+// Applying or clearing constraints and deadlines on several activities at once.
+// Fields left out are kept; null clears them.
+export const constraintBulkSchema = z.object({
+  activityIds: z.array(z.string()).min(1),
+  constraintType: z.enum(constraintTypeEnum.enumValues).nullable().optional(),
+  constraintDate: calendarDateSchema.nullable().optional(),
+  deadline: calendarDateSchema.nullable().optional()
+}).refine(data => !data.constraintType || !!data.constraintDate, {
+  message: "A constraint needs a date",
+  path: ["constraintDate"]
+});
+
+// WBS organization and rollups (rollup settings are stored in wbs.rollup_settings)
+export const wbsRollupSettingsSchema = z.object({
+  progressWeighting: z.enum(["Duration", "Cost", "Equal"]).default("Duration"), // Weight of each activity in percent complete
+  includeChildren: z.boolean().default(true), // Roll up child nodes, or only this node's own activities
+  rollupCosts: z.boolean().default(true)
+});
+export const wbsMoveSchema = z.object({
+  parentId: z.string().nullable(), // null moves the node to the top level
+  position: z.number().int().min(0).optional() // Index among the new siblings; defaults to last
+});
+export const wbsActivityMoveSchema = z.object({
+  activityIds: z.array(z.string()).min(1)
+});
+
+// Statusing the schedule to a new data date
+export const progressMethodSchema = z.enum(["RetainedLogic", "ProgressOverride", "ActualDates"]);
+export const progressEntrySchema = z.object({
+  id: z.string(), // activities.id
+  actualStart: calendarDateSchema.nullable().optional(),
+  actualFinish: calendarDateSchema.nullable().optional(),
+  remainingDuration: z.number().min(0).optional(),
+  percentComplete: z.number().min(0).max(100).optional()
+});
+export const progressUpdateSchema = z.object({
+  dataDate: calendarDateSchema,
+  progressMethod: progressMethodSchema.default("RetainedLogic"),
+  narrative: z.string().optional(),
+  entries: z.array(progressEntrySchema).default([])
+});
+
+// Options for a CPM run; leveling breaks ties between equally urgent activities on levelingPriority
+export const levelingPrioritySchema = z.enum([
+  "activityId", "name", "originalDuration", "remainingDuration", "lateStart", "lateFinish",
+  "deadline", "budgetedCost", "trade", "responsibility", "location"
+]);
+export const calculateScheduleSchema = z.object({
+  retainedLogic: z.boolean().default(true),
+  progressMethod: progressMethodSchema.optional(), // Overrides retainedLogic when given
+  dataDate: calendarDateSchema.optional(), // Defaults to the project's data date
+  level: z.boolean().default(false),
+  levelingPriority: levelingPrioritySchema.optional(),
+  levelWithinFloat: z.boolean().default(false),
+  lagCalendar: z.enum(["predecessor", "successor", "24h"]).default("predecessor"),
+  createVersion: z.boolean().default(false),
+  versionName: z.string().optional()
+});
 
 // Types
 export type Project = typeof projects.$inferSelect;
@@ -447,6 +652,9 @@ export type TiaFragnet = typeof tiaFragnets.$inferSelect;
 export type InsertTiaFragnet = z.infer<typeof insertTiaFragnetSchema>;
 export type TiaDelay = typeof tiaDelays.$inferSelect;
 export type InsertTiaDelay = z.infer<typeof insertTiaDelaySchema>;
+export type FragnetActivity = z.infer<typeof fragnetActivitySchema>;
+export type FragnetRelationship = z.infer<typeof fragnetRelationshipSchema>;
+export type FragnetLink = z.infer<typeof fragnetLinkSchema>;
 export type TiaResult = typeof tiaResults.$inferSelect;
 export type InsertTiaResult = z.infer<typeof insertTiaResultSchema>;
 export type ScheduleUpdate = typeof scheduleUpdates.$inferSelect;
@@ -464,4 +672,191 @@ export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type ProjectMember = typeof projectMembers.$inferSelect;
 export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
 export type ScheduleVersion = typeof scheduleVersions.$inferSelect;
-export type InsertScheduleVersion = z.infer<typeof insertScheduleVersionSchema>;
\ No newline at end of file
+export type InsertScheduleVersion = z.infer<typeof insertScheduleVersionSchema>;
+export type RiskAnalysis = typeof riskAnalyses.$inferSelect;
+export type InsertRiskAnalysis = z.infer<typeof insertRiskAnalysisSchema>;
+export type RiskDuration = z.infer<typeof riskDurationSchema>;
+export type RiskAnalysisOptions = z.infer<typeof riskAnalysisOptionsSchema>;
+export type GanttPdfOptions = z.infer<typeof ganttPdfOptionsSchema>;
+export type ScheduleImport = z.infer<typeof scheduleImportSchema>;
+export type TabularMapping = z.infer<typeof tabularMappingSchema>;
+export type TabularImport = z.infer<typeof tabularImportSchema>;
+export type MappingProfile = z.infer<typeof mappingProfileSchema>;
+export type WorkingTime = z.infer<typeof workingTimeSchema>;
+export type WorkDay = z.infer<typeof workDaySchema>;
+export type CalendarException = z.infer<typeof calendarExceptionSchema>;
+export type CalendarData = z.infer<typeof calendarDataSchema>;
+export type ConstraintBulkUpdate = z.infer<typeof constraintBulkSchema>;
+export type WbsRollupSettings = z.infer<typeof wbsRollupSettingsSchema>;
+export type ProgressMethod = z.infer<typeof progressMethodSchema>;
+export type ProgressEntry = z.infer<typeof progressEntrySchema>;
+export type ProgressUpdate = z.infer<typeof progressUpdateSchema>;
+
+// Complete schedule snapshot stored in schedule_versions.snapshot_data
+export interface ScheduleSnapshot {
+  activities: Activity[];
+  relationships: Relationship[];
+  wbs: Wbs[];
+  calendars: Calendar[]; // Project calendars only; global calendars are not versioned
+  resourceAssignments: ResourceAssignment[];
+}
+
+// Schedule network problems found by the server's network validator
+export type NetworkIssueType =
+  | 'Cycle' | 'SelfLoop' | 'MissingActivity' | 'Duplicate' | 'Redundant'
+  | 'OpenStart' | 'OpenFinish' | 'ProgressViolation';
+
+export interface NetworkIssue {
+  type: NetworkIssueType;
+  severity: 'error' | 'warning'; // Errors block calculation and relationship creation
+  message: string;
+  activityIds: string[]; // activities.id values; in loop order for cycles
+  relationshipIds: string[];
+}
+
+export interface NetworkValidationResult {
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  issues: NetworkIssue[];
+}
+
+// One day of a calendar month preview, as the server's WorkCalendar schedules it
+export interface CalendarPreviewDay {
+  date: string;
+  isWorking: boolean;
+  hours: number;
+  workingTimes: WorkingTime[]; // Shifts starting on this date
+  source: 'Standard' | 'Holiday' | 'Exception';
+  name?: string; // Exception name
+}
+
+// Progress of one activity as recorded by a schedule update
+export interface ActivityProgress {
+  id: string;
+  activityId: string;
+  name: string;
+  status: string;
+  actualStart: string | null;
+  actualFinish: string | null;
+  remainingDuration: number | null;
+  percentComplete: number;
+}
+
+// Stored in schedule_updates.progress_data
+export interface ProgressData {
+  progressMethod: ProgressMethod;
+  previousDataDate: string | null;
+  activities: ActivityProgress[]; // Started or completed activities as of the data date
+  statused: string[]; // activities.id values entered in this update
+  outOfSequence: NetworkIssue[];
+  summary: {
+    completed: number;
+    inProgress: number;
+    notStarted: number;
+    percentComplete: number; // Weighted by original duration
+  };
+}
+
+export interface ActivityUpdateChange {
+  id: string;
+  activityId: string;
+  name: string;
+  previousStatus: string;
+  status: string;
+  startVariance: number; // Calendar days; positive is later
+  finishVariance: number;
+  floatChange: number | null; // Working days; negative is float lost
+  percentCompleteChange: number;
+}
+
+// Stored in schedule_updates.changes_from_previous
+export interface ScheduleUpdateChanges {
+  previousUpdateNumber: number | null;
+  previousDataDate: string | null;
+  projectFinish: {
+    previous: string | null;
+    current: string | null;
+    varianceDays: number;
+  };
+  criticalPath: {
+    added: string[]; // Activity IDs
+    removed: string[];
+  };
+  started: number;
+  completed: number;
+  activities: ActivityUpdateChange[]; // Only activities whose dates, float or progress moved
+}
+
+// A row of the progress entry sheet with values suggested for the new data date
+export interface ProgressSuggestion {
+  id: string;
+  activityId: string;
+  name: string;
+  type: string;
+  originalDuration: number;
+  durationUnit: string | null;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+  current: ActivityProgress;
+  previous: ActivityProgress | null; // As recorded by the previous update
+  suggested: Pick<ActivityProgress, 'actualStart' | 'actualFinish' | 'remainingDuration' | 'percentComplete'>;
+  due: boolean; // Planned to start or be underway by the new data date
+}
+
+// An activity whose constraint or deadline the calculated dates cannot meet
+export interface ConstraintViolation {
+  id: string;
+  activityId: string;
+  name: string;
+  constraintType: string | null;
+  constraintDate: string | null;
+  deadline: string | null;
+  earlyStart: string | null;
+  earlyFinish: string | null;
+  totalFloat: number | null;
+  deadlineVariance: number | null; // Working days; negative when the deadline is missed
+  message: string;
+}
+
+// Dates, cost and progress of a WBS node rolled up from its activities
+export interface WbsRollup {
+  wbsId: string;
+  parentId: string | null;
+  code: string;
+  name: string;
+  level: number;
+  activityCount: number;
+  start: string | null;
+  finish: string | null;
+  duration: number; // Working days from start to finish
+  budgetedCost: number | null; // null when the node's settings exclude costs
+  actualCost: number | null;
+  percentComplete: number;
+  totalFloat: number | null; // Lowest total float of the rolled-up activities
+  isCritical: boolean;
+  settings: WbsRollupSettings;
+}
+
+// Multiple float paths to a target activity, numbered by increasing relative float
+export interface FloatPath {
+  pathNumber: number;
+  relativeFloat: number; // Working days the path can slip before it delays the target
+  activityIds: string[]; // Database ids in early start order
+}
+
+export interface PathAnalysis {
+  target: { id: string; activityId: string; name: string; earlyFinish: string | null };
+  longestPath: string[]; // Database ids in early start order
+  paths: FloatPath[];
+}
+
+// Driving flag and float of a relationship from the last calculation
+export interface RelationshipFloat {
+  id: string;
+  predecessorId: string;
+  successorId: string;
+  isDriving: boolean;
+  freeFloat: number | null; // Working days of the predecessor's calendar
+  totalFloat: number | null;
+}